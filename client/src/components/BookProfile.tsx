@@ -0,0 +1,117 @@
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent } from "@/components/ui/card";
+import { trpc } from "@/lib/trpc";
+import { Compass, Layers, Gauge, Lightbulb, Feather } from "lucide-react";
+
+interface BookProfileProps {
+  bookId: number;
+}
+
+/**
+ * Book Profile panel - shows the stored Stage 0 analysis for a book:
+ * category, complexity, chapter groupings, core concepts and tone
+ */
+export function BookProfile({ bookId }: BookProfileProps) {
+  const { data } = trpc.insights.getAnalysis.useQuery({ bookId }, { enabled: !!bookId });
+
+  if (!data) return null;
+
+  const { classification, structure, coreConcepts, toneAnalysis } = data.analysis;
+  const groupings = structure?.logicalGroupings ?? [];
+
+  return (
+    <Card className="premium-card mb-6 md:mb-8">
+      <CardContent className="p-4 md:p-8 space-y-6">
+        <div className="flex items-center gap-2">
+          <Compass className="w-5 h-5 text-primary" />
+          <h2 className="font-serif text-xl md:text-2xl font-semibold text-foreground">
+            Book Profile
+          </h2>
+        </div>
+
+        {/* Classification */}
+        <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+          <div>
+            <p className="text-xs uppercase tracking-wide text-muted-foreground mb-1">Category</p>
+            <p className="font-medium text-foreground">{classification?.primaryCategory || "Unknown"}</p>
+            {classification?.secondaryCategories?.length > 0 && (
+              <div className="flex flex-wrap gap-1 mt-2">
+                {classification.secondaryCategories.map((category) => (
+                  <Badge key={category} variant="secondary">{category}</Badge>
+                ))}
+              </div>
+            )}
+          </div>
+          <div>
+            <p className="text-xs uppercase tracking-wide text-muted-foreground mb-1 flex items-center gap-1">
+              <Gauge className="w-3 h-3" /> Complexity
+            </p>
+            <p className="font-medium text-foreground">{classification?.complexityLevel || "Unknown"}</p>
+          </div>
+          <div>
+            <p className="text-xs uppercase tracking-wide text-muted-foreground mb-1">Framework</p>
+            <p className="font-medium text-foreground">{classification?.frameworkType || "Unknown"}</p>
+            {structure?.totalChapters ? (
+              <p className="text-sm text-muted-foreground mt-1">
+                {structure.totalChapters} chapters · {structure.chaptersStandaloneOrSequential}
+              </p>
+            ) : null}
+          </div>
+        </div>
+
+        {/* Chapter groupings */}
+        {groupings.length > 0 && (
+          <div>
+            <h3 className="text-sm font-semibold text-foreground mb-3 flex items-center gap-2">
+              <Layers className="w-4 h-4 text-primary" />
+              Chapter Groupings
+            </h3>
+            <div className="space-y-3">
+              {groupings.map((group) => (
+                <div key={group.groupName} className="border-l-2 border-primary/40 pl-3">
+                  <p className="font-medium text-foreground">{group.groupName}</p>
+                  {group.theme && (
+                    <p className="text-sm text-muted-foreground">{group.theme}</p>
+                  )}
+                  {group.chapters?.length > 0 && (
+                    <p className="text-xs text-muted-foreground mt-1">
+                      {group.chapters.join(" · ")}
+                    </p>
+                  )}
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {/* Core concepts */}
+        {coreConcepts?.length > 0 && (
+          <div>
+            <h3 className="text-sm font-semibold text-foreground mb-3 flex items-center gap-2">
+              <Lightbulb className="w-4 h-4 text-primary" />
+              Core Concepts
+            </h3>
+            <div className="flex flex-wrap gap-2">
+              {coreConcepts.map((concept) => (
+                <Badge key={concept.conceptName} variant="outline" title={concept.briefDescription}>
+                  {concept.conceptName}
+                </Badge>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {/* Tone */}
+        {toneAnalysis?.authorVoice && (
+          <div>
+            <h3 className="text-sm font-semibold text-foreground mb-2 flex items-center gap-2">
+              <Feather className="w-4 h-4 text-primary" />
+              Author Voice
+            </h3>
+            <p className="text-sm text-muted-foreground">{toneAnalysis.authorVoice}</p>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,5 +1,5 @@
 import { useState } from "react";
-import { X, FileText, File, Code, Download, Loader2, Check } from "lucide-react";
+import { X, FileText, File, Code, Download, Loader2, Check, BookOpen, Network, FileJson } from "lucide-react";
 import { trpc } from "@/lib/trpc";
 
 interface ExportModalProps {
@@ -9,7 +9,7 @@ interface ExportModalProps {
   title: string;
 }
 
-type ExportFormat = "pdf" | "markdown" | "plainText" | "html";
+type ExportFormat = "pdf" | "epub" | "docx" | "markdown" | "vault" | "json" | "plainText" | "html";
 
 interface FormatOption {
   id: ExportFormat;
@@ -27,6 +27,20 @@ const formatOptions: FormatOption[] = [
     icon: <FileText className="w-5 h-5" />,
     extension: ".pdf",
   },
+  {
+    id: "epub",
+    name: "EPUB",
+    description: "E-book for Kindle, Kobo and other e-readers",
+    icon: <BookOpen className="w-5 h-5" />,
+    extension: ".epub",
+  },
+  {
+    id: "docx",
+    name: "Word",
+    description: "Editable document with Word headings, tables and styles",
+    icon: <File className="w-5 h-5" />,
+    extension: ".docx",
+  },
   {
     id: "markdown",
     name: "Markdown",
@@ -34,6 +48,13 @@ const formatOptions: FormatOption[] = [
     icon: <File className="w-5 h-5" />,
     extension: ".md",
   },
+  {
+    id: "vault",
+    name: "Obsidian / Notion",
+    description: "Linked notes per section and concept with frontmatter",
+    icon: <Network className="w-5 h-5" />,
+    extension: ".zip",
+  },
   {
     id: "plainText",
     name: "Plain Text",
@@ -48,6 +69,13 @@ const formatOptions: FormatOption[] = [
     icon: <Code className="w-5 h-5" />,
     extension: ".html",
   },
+  {
+    id: "json",
+    name: "JSON Backup",
+    description: "Complete insight data, re-importable from the Library",
+    icon: <FileJson className="w-5 h-5" />,
+    extension: ".json",
+  },
 ];
 
 export function ExportModal({ isOpen, onClose, insightId, title }: ExportModalProps) {
@@ -56,25 +84,45 @@ export function ExportModal({ isOpen, onClose, insightId, title }: ExportModalPr
   const [downloadUrl, setDownloadUrl] = useState<string | null>(null);
 
   const pdfExport = trpc.export.pdf.useMutation();
+  const epubExport = trpc.export.epub.useMutation();
+  const docxExport = trpc.export.docx.useMutation();
   const markdownExport = trpc.export.markdown.useMutation();
+  const vaultExport = trpc.export.vault.useMutation();
   const plainTextExport = trpc.export.plainText.useMutation();
   const htmlExport = trpc.export.html.useMutation();
+  const jsonExport = trpc.export.json.useMutation();
+  const { data: previousExports, refetch: refetchHistory } = trpc.export.history.useQuery(
+    { insightId },
+    { enabled: isOpen }
+  );
 
   const handleExport = async () => {
     setExportStatus("exporting");
     
     try {
-      let result: { pdfUrl?: string; markdownUrl?: string; textUrl?: string; htmlUrl?: string };
+      let result: { pdfUrl?: string; epubUrl?: string; docxUrl?: string; markdownUrl?: string; vaultUrl?: string; textUrl?: string; htmlUrl?: string; jsonUrl?: string };
       
       switch (selectedFormat) {
         case "pdf":
           result = await pdfExport.mutateAsync({ insightId });
           setDownloadUrl(result.pdfUrl || null);
           break;
+        case "epub":
+          result = await epubExport.mutateAsync({ insightId });
+          setDownloadUrl(result.epubUrl || null);
+          break;
+        case "docx":
+          result = await docxExport.mutateAsync({ insightId });
+          setDownloadUrl(result.docxUrl || null);
+          break;
         case "markdown":
           result = await markdownExport.mutateAsync({ insightId });
           setDownloadUrl(result.markdownUrl || null);
           break;
+        case "vault":
+          result = await vaultExport.mutateAsync({ insightId });
+          setDownloadUrl(result.vaultUrl || null);
+          break;
         case "plainText":
           result = await plainTextExport.mutateAsync({ insightId });
           setDownloadUrl(result.textUrl || null);
@@ -83,9 +131,14 @@ export function ExportModal({ isOpen, onClose, insightId, title }: ExportModalPr
           result = await htmlExport.mutateAsync({ insightId });
           setDownloadUrl(result.htmlUrl || null);
           break;
+        case "json":
+          result = await jsonExport.mutateAsync({ insightId });
+          setDownloadUrl(result.jsonUrl || null);
+          break;
       }
       
       setExportStatus("success");
+      refetchHistory();
     } catch (error) {
       console.error("Export failed:", error);
       setExportStatus("error");
@@ -197,6 +250,35 @@ export function ExportModal({ isOpen, onClose, insightId, title }: ExportModalPr
               >
                 Export as {formatOptions.find(f => f.id === selectedFormat)?.name}
               </button>
+
+              {/* Previously stored exports */}
+              {previousExports && previousExports.length > 0 && (
+                <div className="mt-6">
+                  <h3 className="text-xs font-medium uppercase tracking-wide text-gray-400 mb-2">
+                    Previous exports
+                  </h3>
+                  <ul className="space-y-1">
+                    {previousExports.slice(0, 5).map((previous) => (
+                      <li key={previous.id}>
+                        <a
+                          href={previous.fileUrl}
+                          target="_blank"
+                          rel="noreferrer"
+                          className="flex items-center justify-between gap-3 px-3 py-2 rounded-lg text-sm hover:bg-gray-50 dark:hover:bg-gray-800 transition-colors"
+                        >
+                          <span className="text-gray-700 dark:text-gray-300">
+                            {formatOptions.find(f => f.id === previous.format)?.name ?? previous.format}
+                          </span>
+                          <span className="flex items-center gap-2 text-gray-400">
+                            {new Date(previous.createdAt).toLocaleString()}
+                            <Download className="w-4 h-4" />
+                          </span>
+                        </a>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
             </>
           )}
 
@@ -1,6 +1,9 @@
 import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
 import { Card, CardContent } from "@/components/ui/card";
 import { Progress } from "@/components/ui/progress";
+import { trpc } from "@/lib/trpc";
+import { toast } from "sonner";
 import {
   Sparkles,
   BookOpen,
@@ -9,11 +12,13 @@ import {
   ListChecks,
   CheckCircle,
   Loader2,
+  XCircle,
 } from "lucide-react";
 
 interface InsightProgressProps {
   insightId: number;
   onComplete: () => void;
+  onCancel?: () => void;
 }
 
 const SECTION_ICONS: Record<string, React.ReactNode> = {
@@ -28,11 +33,23 @@ const SECTION_ICONS: Record<string, React.ReactNode> = {
   researchInsight: <Lightbulb className="w-4 h-4" />,
 };
 
-export function InsightProgress({ insightId, onComplete }: InsightProgressProps) {
+export function InsightProgress({ insightId, onComplete, onCancel }: InsightProgressProps) {
   const [sections, setSections] = useState<Array<{ type: string; content?: string }>>([]);
   const [progress, setProgress] = useState(5);
   const [statusMessage, setStatusMessage] = useState("Connecting to generation service...");
-  const [status, setStatus] = useState<'generating' | 'completed' | 'failed' | 'connecting'>('connecting');
+  const [status, setStatus] = useState<'queued' | 'generating' | 'completed' | 'failed' | 'cancelled' | 'connecting'>('connecting');
+
+  const cancelMutation = trpc.insights.cancel.useMutation({
+    onSuccess: () => {
+      setStatus('cancelled');
+      setStatusMessage("Generation cancelled");
+      toast.success("Generation cancelled");
+      onCancel?.();
+    },
+    onError: (error) => {
+      toast.error(`Could not cancel: ${error.message}`);
+    },
+  });
 
   useEffect(() => {
     // Create WebSocket connection
@@ -75,6 +92,8 @@ export function InsightProgress({ insightId, onComplete }: InsightProgressProps)
           } else if (data.status === 'failed') {
             setStatus('failed');
             setStatusMessage(data.error || "Generation failed. Please try again.");
+          } else if (data.status === 'cancelled') {
+            setStatusMessage("Generation cancelled");
           }
         } else if (data.type === 'subscribed') {
           console.log('[InsightProgress] Subscribed to insight', data.insightId);
@@ -122,12 +141,27 @@ export function InsightProgress({ insightId, onComplete }: InsightProgressProps)
               <Sparkles className="w-8 h-8 text-primary animate-pulse" />
               <div className="absolute inset-0 bg-primary/20 blur-xl rounded-full" />
             </div>
-            <div>
+            <div className="flex-1">
               <h3 className="font-semibold text-lg">Generating Insights</h3>
               <p className="text-sm text-muted-foreground">
                 Claude is analyzing your book...
               </p>
             </div>
+            {(status === 'connecting' || status === 'queued' || status === 'generating') && (
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => cancelMutation.mutate({ id: insightId })}
+                disabled={cancelMutation.isPending}
+              >
+                {cancelMutation.isPending ? (
+                  <Loader2 className="w-4 h-4 mr-1 animate-spin" />
+                ) : (
+                  <XCircle className="w-4 h-4 mr-1" />
+                )}
+                Cancel
+              </Button>
+            )}
           </div>
 
           {/* Progress Bar */}
@@ -143,6 +177,11 @@ export function InsightProgress({ insightId, onComplete }: InsightProgressProps)
           <div className="flex items-center gap-2 text-sm text-muted-foreground">
             {status === 'failed' ? (
               <span className="text-destructive">❌ {statusMessage}</span>
+            ) : status === 'cancelled' ? (
+              <>
+                <XCircle className="w-4 h-4" />
+                <span>{statusMessage}</span>
+              </>
             ) : status === 'completed' ? (
               <>
                 <CheckCircle className="w-4 h-4 text-green-500" />
@@ -0,0 +1,261 @@
+import { useEffect, useState } from "react";
+import { X, FileText, File, Code, Download, Loader2, Check, FileJson, Archive } from "lucide-react";
+import { trpc } from "@/lib/trpc";
+
+interface LibraryExportModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+type LibraryExportFormat = "markdown" | "html" | "pdf" | "json";
+
+interface FormatOption {
+  id: LibraryExportFormat;
+  name: string;
+  description: string;
+  icon: React.ReactNode;
+}
+
+const formatOptions: FormatOption[] = [
+  {
+    id: "pdf",
+    name: "PDF",
+    description: "One styled document per insight",
+    icon: <FileText className="w-5 h-5" />,
+  },
+  {
+    id: "markdown",
+    name: "Markdown",
+    description: "Portable text files for notes and docs",
+    icon: <File className="w-5 h-5" />,
+  },
+  {
+    id: "html",
+    name: "HTML",
+    description: "Web pages with full styling",
+    icon: <Code className="w-5 h-5" />,
+  },
+  {
+    id: "json",
+    name: "JSON Backup",
+    description: "Complete data, re-importable one insight at a time",
+    icon: <FileJson className="w-5 h-5" />,
+  },
+];
+
+interface JobProgress {
+  status: "queued" | "running" | "completed" | "failed" | "cancelled";
+  percent: number;
+  currentStep: string;
+  result?: { zipUrl?: string; insightCount?: number; skippedCount?: number };
+  error?: string;
+}
+
+export function LibraryExportModal({ isOpen, onClose }: LibraryExportModalProps) {
+  const [selectedFormat, setSelectedFormat] = useState<LibraryExportFormat>("pdf");
+  const [jobId, setJobId] = useState<number | null>(null);
+  const [progress, setProgress] = useState<JobProgress | null>(null);
+
+  const exportAll = trpc.library.exportAll.useMutation({
+    onSuccess: ({ jobId }) => {
+      setJobId(jobId);
+      setProgress({ status: "queued", percent: 0, currentStep: "Waiting in queue" });
+    },
+    onError: (error) => {
+      setProgress({ status: "failed", percent: 0, currentStep: "Failed", error: error.message });
+    },
+  });
+
+  // Follow the job over the WebSocket job channel
+  useEffect(() => {
+    if (!jobId) return;
+
+    const protocol = window.location.protocol === "https:" ? "wss:" : "ws:";
+    const ws = new WebSocket(`${protocol}//${window.location.host}/ws`);
+
+    ws.onopen = () => {
+      ws.send(JSON.stringify({ type: "subscribeJob", jobId }));
+    };
+
+    ws.onmessage = (event) => {
+      try {
+        const data = JSON.parse(event.data);
+        if (data.type === "jobProgress" && data.jobId === jobId) {
+          setProgress({
+            status: data.status,
+            percent: data.percent ?? 0,
+            currentStep: data.currentStep ?? "",
+            result: data.result,
+            error: data.error,
+          });
+        }
+      } catch (error) {
+        console.error("[LibraryExport] Failed to parse WebSocket message:", error);
+      }
+    };
+
+    ws.onerror = (error) => {
+      console.error("[LibraryExport] WebSocket error:", error);
+    };
+
+    return () => {
+      if (ws.readyState === WebSocket.OPEN) {
+        ws.send(JSON.stringify({ type: "unsubscribeJob", jobId }));
+      }
+      ws.close();
+    };
+  }, [jobId]);
+
+  const resetAndClose = () => {
+    // A running export keeps going on the server; closing only stops watching it
+    setJobId(null);
+    setProgress(null);
+    onClose();
+  };
+
+  if (!isOpen) return null;
+
+  const formatName = formatOptions.find(f => f.id === selectedFormat)?.name;
+  const isWorking = exportAll.isPending || progress?.status === "queued" || progress?.status === "running";
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-end sm:items-center justify-center">
+      {/* Backdrop */}
+      <div
+        className="absolute inset-0 bg-black/50 backdrop-blur-sm"
+        onClick={resetAndClose}
+      />
+
+      {/* Modal */}
+      <div className="relative w-full sm:max-w-md bg-white dark:bg-gray-900 rounded-t-2xl sm:rounded-2xl shadow-2xl max-h-[85vh] overflow-hidden animate-in slide-in-from-bottom duration-300">
+        {/* Header */}
+        <div className="flex items-center justify-between p-4 border-b border-gray-200 dark:border-gray-700">
+          <h2 className="text-lg font-semibold text-gray-900 dark:text-white">
+            Export Library
+          </h2>
+          <button
+            onClick={resetAndClose}
+            className="p-2 rounded-full hover:bg-gray-100 dark:hover:bg-gray-800 transition-colors"
+          >
+            <X className="w-5 h-5 text-gray-500" />
+          </button>
+        </div>
+
+        {/* Content */}
+        <div className="p-4">
+          {!progress && !exportAll.isPending && (
+            <>
+              <p className="text-sm text-gray-600 dark:text-gray-400 mb-4">
+                Every completed insight is bundled into one zip with an index
+              </p>
+
+              {/* Format options */}
+              <div className="space-y-2">
+                {formatOptions.map((format) => (
+                  <button
+                    key={format.id}
+                    onClick={() => setSelectedFormat(format.id)}
+                    className={`w-full flex items-center gap-4 p-4 rounded-xl border-2 transition-all ${
+                      selectedFormat === format.id
+                        ? "border-amber-500 bg-amber-50 dark:bg-amber-900/20"
+                        : "border-gray-200 dark:border-gray-700 hover:border-gray-300 dark:hover:border-gray-600"
+                    }`}
+                  >
+                    <div className={`p-2 rounded-lg ${
+                      selectedFormat === format.id
+                        ? "bg-amber-500 text-white"
+                        : "bg-gray-100 dark:bg-gray-800 text-gray-500"
+                    }`}>
+                      {format.icon}
+                    </div>
+                    <div className="flex-1 text-left">
+                      <div className="font-medium text-gray-900 dark:text-white">{format.name}</div>
+                      <div className="text-sm text-gray-500 dark:text-gray-400">
+                        {format.description}
+                      </div>
+                    </div>
+                    {selectedFormat === format.id && (
+                      <Check className="w-5 h-5 text-amber-500" />
+                    )}
+                  </button>
+                ))}
+              </div>
+
+              <button
+                onClick={() => exportAll.mutate({ format: selectedFormat })}
+                className="w-full mt-6 py-3 px-4 bg-gradient-to-r from-amber-500 to-amber-600 text-white font-medium rounded-xl hover:from-amber-600 hover:to-amber-700 transition-all active:scale-[0.98]"
+              >
+                Export all as {formatName}
+              </button>
+            </>
+          )}
+
+          {isWorking && (
+            <div className="py-10 flex flex-col items-center justify-center">
+              <Loader2 className="w-12 h-12 text-amber-500 animate-spin mb-4" />
+              <p className="text-gray-600 dark:text-gray-400 text-center mb-4">
+                {progress?.currentStep || "Starting export..."}
+              </p>
+              <div className="w-full h-2 rounded-full bg-gray-100 dark:bg-gray-800 overflow-hidden">
+                <div
+                  className="h-full bg-gradient-to-r from-amber-500 to-amber-600 transition-all duration-500"
+                  style={{ width: `${progress?.percent ?? 0}%` }}
+                />
+              </div>
+            </div>
+          )}
+
+          {progress?.status === "completed" && (
+            <div className="py-8 flex flex-col items-center justify-center">
+              <div className="w-16 h-16 rounded-full bg-green-100 dark:bg-green-900/30 flex items-center justify-center mb-4">
+                <Archive className="w-8 h-8 text-green-600" />
+              </div>
+              <h3 className="text-lg font-semibold text-gray-900 dark:text-white mb-2">
+                Library Export Ready!
+              </h3>
+              <p className="text-sm text-gray-500 dark:text-gray-400 mb-6 text-center">
+                {progress.result?.insightCount ?? 0} insights exported as {formatName}
+                {progress.result?.skippedCount ? ` (${progress.result.skippedCount} skipped, see the index)` : ""}
+              </p>
+
+              <button
+                onClick={() => progress.result?.zipUrl && window.open(progress.result.zipUrl, "_blank")}
+                className="w-full py-3 px-4 bg-gradient-to-r from-amber-500 to-amber-600 text-white font-medium rounded-xl hover:from-amber-600 hover:to-amber-700 transition-all active:scale-[0.98] flex items-center justify-center gap-2"
+              >
+                <Download className="w-5 h-5" />
+                Download Zip
+              </button>
+            </div>
+          )}
+
+          {(progress?.status === "failed" || progress?.status === "cancelled") && (
+            <div className="py-8 flex flex-col items-center justify-center">
+              <div className="w-16 h-16 rounded-full bg-red-100 dark:bg-red-900/30 flex items-center justify-center mb-4">
+                <X className="w-8 h-8 text-red-600" />
+              </div>
+              <h3 className="text-lg font-semibold text-gray-900 dark:text-white mb-2">
+                Export {progress.status === "cancelled" ? "Cancelled" : "Failed"}
+              </h3>
+              <p className="text-sm text-gray-500 dark:text-gray-400 mb-6 text-center">
+                {progress.error || "Something went wrong. Please try again."}
+              </p>
+
+              <button
+                onClick={() => {
+                  setJobId(null);
+                  setProgress(null);
+                }}
+                className="py-3 px-6 bg-gray-100 dark:bg-gray-800 text-gray-700 dark:text-gray-300 font-medium rounded-xl hover:bg-gray-200 dark:hover:bg-gray-700 transition-all"
+              >
+                Try Again
+              </button>
+            </div>
+          )}
+        </div>
+
+        {/* Safe area padding for iOS */}
+        <div className="h-safe-area-inset-bottom" />
+      </div>
+    </div>
+  );
+}
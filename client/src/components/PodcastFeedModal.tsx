@@ -0,0 +1,113 @@
+import { X, Rss, Copy, Check, RefreshCw, Loader2 } from "lucide-react";
+import { useState } from "react";
+import { toast } from "sonner";
+import { trpc } from "@/lib/trpc";
+
+interface PodcastFeedModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+export function PodcastFeedModal({ isOpen, onClose }: PodcastFeedModalProps) {
+  const [copied, setCopied] = useState(false);
+  const utils = trpc.useUtils();
+
+  const feed = trpc.audio.feed.useQuery(undefined, { enabled: isOpen });
+  const resetFeed = trpc.audio.resetFeed.useMutation({
+    onSuccess: (data) => {
+      utils.audio.feed.setData(undefined, data);
+      setCopied(false);
+      toast.success("New feed link created; the old one no longer works");
+    },
+    onError: (error) => {
+      toast.error(`Failed to reset feed: ${error.message}`);
+    },
+  });
+
+  const copyUrl = async () => {
+    if (!feed.data) return;
+    try {
+      await navigator.clipboard.writeText(feed.data.url);
+      setCopied(true);
+    } catch {
+      toast.error("Could not copy; select the link and copy it manually");
+    }
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-end sm:items-center justify-center">
+      {/* Backdrop */}
+      <div
+        className="absolute inset-0 bg-black/50 backdrop-blur-sm"
+        onClick={onClose}
+      />
+
+      {/* Modal */}
+      <div className="relative w-full sm:max-w-md bg-white dark:bg-gray-900 rounded-t-2xl sm:rounded-2xl shadow-2xl max-h-[85vh] overflow-hidden animate-in slide-in-from-bottom duration-300">
+        {/* Header */}
+        <div className="flex items-center justify-between p-4 border-b border-gray-200 dark:border-gray-700">
+          <h2 className="text-lg font-semibold text-gray-900 dark:text-white">
+            Podcast Feed
+          </h2>
+          <button
+            onClick={onClose}
+            className="p-2 rounded-full hover:bg-gray-100 dark:hover:bg-gray-800 transition-colors"
+          >
+            <X className="w-5 h-5 text-gray-500" />
+          </button>
+        </div>
+
+        {/* Content */}
+        <div className="p-4">
+          <div className="flex items-start gap-3 mb-4">
+            <div className="p-2 rounded-lg bg-amber-500 text-white">
+              <Rss className="w-5 h-5" />
+            </div>
+            <p className="text-sm text-gray-600 dark:text-gray-400">
+              Add this link to your podcast app ("Follow a show by URL") to get every narrated guide as an episode.
+              Keep it private: anyone with the link can listen.
+            </p>
+          </div>
+
+          {feed.isLoading ? (
+            <div className="py-6 flex justify-center">
+              <Loader2 className="w-8 h-8 text-amber-500 animate-spin" />
+            </div>
+          ) : feed.data ? (
+            <>
+              <input
+                readOnly
+                value={feed.data.url}
+                onFocus={(e) => e.currentTarget.select()}
+                className="w-full px-3 py-2 rounded-lg border border-gray-200 dark:border-gray-700 bg-gray-50 dark:bg-gray-800 text-sm text-gray-900 dark:text-white font-mono"
+              />
+
+              <button
+                onClick={copyUrl}
+                className="w-full mt-4 py-3 px-4 bg-gradient-to-r from-amber-500 to-amber-600 text-white font-medium rounded-xl hover:from-amber-600 hover:to-amber-700 transition-all active:scale-[0.98] flex items-center justify-center gap-2"
+              >
+                {copied ? <Check className="w-5 h-5" /> : <Copy className="w-5 h-5" />}
+                {copied ? "Copied" : "Copy Feed Link"}
+              </button>
+
+              <button
+                onClick={() => resetFeed.mutate()}
+                disabled={resetFeed.isPending}
+                className="w-full mt-2 py-3 px-4 bg-gray-100 dark:bg-gray-800 text-gray-700 dark:text-gray-300 font-medium rounded-xl hover:bg-gray-200 dark:hover:bg-gray-700 transition-all flex items-center justify-center gap-2"
+              >
+                {resetFeed.isPending ? <Loader2 className="w-4 h-4 animate-spin" /> : <RefreshCw className="w-4 h-4" />}
+                Reset Link
+              </button>
+            </>
+          ) : (
+            <p className="text-sm text-red-600 text-center py-4">
+              {feed.error?.message || "The feed is unavailable. Please try again."}
+            </p>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
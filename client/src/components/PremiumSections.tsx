@@ -15,6 +15,14 @@
  */
 
 import React from 'react';
+import {
+  BarChartVisual, PieChartVisual, LineChartVisual, AreaChartVisual, ScatterPlotVisual, BubbleChartVisual,
+  TreemapVisual, SankeyVisual, HeatmapVisual, QuadrantVisual, SwotMatrixVisual, VennDiagramVisual,
+  ConceptMapVisual, NetworkGraphVisual, GanttChartVisual, FunnelDiagramVisual, PyramidDiagramVisual,
+  CycleDiagramVisual, FishboneDiagramVisual, InfographicVisual, StoryboardVisual, JourneyMapVisual,
+  ProcessFlowVisual,
+} from './VisualRenderers';
+import { parseVisualData } from '@shared/visuals';
 import { BookOpen, Lightbulb, Target, Quote, ArrowRight, CheckCircle, Brain, Compass, List, BarChart3, GitBranch, Users, Sparkles, BookMarked, Zap, FileText, Map } from 'lucide-react';
 
 interface SectionProps {
@@ -170,7 +178,7 @@ export function InsightAtlasNote({ title, content, metadata }: SectionProps) {
 }
 
 // Action Box
-export function ActionBox({ title, metadata }: SectionProps) {
+export function ActionBox({ title, content, metadata }: SectionProps) {
   const actionSteps = (metadata?.actionSteps as string[]) || [];
   
   return (
@@ -181,6 +189,10 @@ export function ActionBox({ title, metadata }: SectionProps) {
         </div>
         <h3 className="text-lg font-serif font-bold text-orange-900">{title}</h3>
       </div>
+
+      {content && (
+        <div className="text-orange-900 leading-relaxed mb-4" dangerouslySetInnerHTML={{ __html: formatMarkdown(content) }} />
+      )}
       
       <div className="space-y-3">
         {actionSteps.map((step, index) => (
@@ -218,23 +230,76 @@ export function SelfAssessment({ title, content, visualType, visualData }: Secti
   );
 }
 
-// Visual Framework renderer
+// Visual Framework renderer - validates against the shared visual registry
+// first, so aliases resolve to their canonical type and data the LLM got
+// wrong falls back to a readable summary instead of a blank chart
 export function VisualFramework({ visualType, visualData }: { visualType: string; visualData: Record<string, unknown> }) {
-  switch (visualType) {
+  const parsed = parseVisualData(visualType, visualData);
+  if (!parsed.success) {
+    return <GenericVisual type={visualType} data={visualData} />;
+  }
+
+  const data = parsed.data;
+  switch (parsed.visualType) {
     case 'flowDiagram':
-      return <FlowDiagramVisual data={visualData} />;
+      return <FlowDiagramVisual data={data} />;
     case 'comparisonMatrix':
-      return <ComparisonMatrixVisual data={visualData} />;
+    case 'comparisonTable':
+      return <ComparisonMatrixVisual data={data} />;
     case 'mindMap':
-      return <MindMapVisual data={visualData} />;
+      return <MindMapVisual data={data} />;
     case 'radarChart':
-      return <RadarChartVisual data={visualData} />;
+      return <RadarChartVisual data={data} />;
     case 'timeline':
-      return <TimelineVisual data={visualData} />;
+      return <TimelineVisual data={data} />;
     case 'hierarchy':
-      return <HierarchyVisual data={visualData} />;
-    default:
-      return <GenericVisual type={visualType} data={visualData} />;
+      return <HierarchyVisual data={data} />;
+    case 'barChart':
+      return <BarChartVisual data={data} />;
+    case 'pieChart':
+      return <PieChartVisual data={data} />;
+    case 'lineChart':
+      return <LineChartVisual data={data} />;
+    case 'areaChart':
+      return <AreaChartVisual data={data} />;
+    case 'scatterPlot':
+      return <ScatterPlotVisual data={data} />;
+    case 'bubbleChart':
+      return <BubbleChartVisual data={data} />;
+    case 'treemap':
+      return <TreemapVisual data={data} />;
+    case 'sankeyDiagram':
+      return <SankeyVisual data={data} />;
+    case 'heatmap':
+      return <HeatmapVisual data={data} />;
+    case 'quadrant':
+      return <QuadrantVisual data={data} />;
+    case 'swotMatrix':
+      return <SwotMatrixVisual data={data} />;
+    case 'vennDiagram':
+      return <VennDiagramVisual data={data} />;
+    case 'conceptMap':
+      return <ConceptMapVisual data={data} />;
+    case 'networkGraph':
+      return <NetworkGraphVisual data={data} />;
+    case 'ganttChart':
+      return <GanttChartVisual data={data} />;
+    case 'funnelDiagram':
+      return <FunnelDiagramVisual data={data} />;
+    case 'pyramidDiagram':
+      return <PyramidDiagramVisual data={data} />;
+    case 'cycleDiagram':
+      return <CycleDiagramVisual data={data} />;
+    case 'fishboneDiagram':
+      return <FishboneDiagramVisual data={data} />;
+    case 'infographic':
+      return <InfographicVisual data={data} />;
+    case 'storyboard':
+      return <StoryboardVisual data={data} />;
+    case 'journeyMap':
+      return <JourneyMapVisual data={data} />;
+    case 'processFlow':
+      return <ProcessFlowVisual data={data} />;
   }
 }
 
@@ -278,9 +343,6 @@ function FlowDiagramVisual({ data }: { data: Record<string, unknown> }) {
 
 // Comparison Matrix Visual - handles various row formats
 function ComparisonMatrixVisual({ data }: { data: Record<string, unknown> }) {
-  const rawHeaders = data.headers || [];
-  const rawRows = data.rows || [];
-  
   const getLabel = (item: unknown): string => {
     if (typeof item === 'string') return item;
     if (typeof item === 'object' && item !== null) {
@@ -290,6 +352,16 @@ function ComparisonMatrixVisual({ data }: { data: Record<string, unknown> }) {
     return String(item);
   };
   
+  // Also accepts { items, criteria, values[][] }: one row per item, one column per criterion
+  const byCriteria = Array.isArray(data.items) && Array.isArray(data.criteria);
+  const rawHeaders = byCriteria ? data.criteria : (data.headers || data.columns || []);
+  const rawRows = byCriteria
+    ? (data.items as unknown[]).map((item, i) => ({
+        label: item,
+        values: Array.isArray(data.values) && Array.isArray(data.values[i]) ? data.values[i] : [],
+      }))
+    : (data.rows || []);
+  
   const headers = Array.isArray(rawHeaders) ? rawHeaders.map(getLabel) : [];
   const rows = Array.isArray(rawRows) ? rawRows.map(row => {
     if (typeof row === 'object' && row !== null) {
@@ -335,7 +407,7 @@ function ComparisonMatrixVisual({ data }: { data: Record<string, unknown> }) {
 
 // Mind Map Visual - handles both string[] and {label, subbranches}[] formats
 function MindMapVisual({ data }: { data: Record<string, unknown> }) {
-  const center = (data.center as string) || 'Central Concept';
+  const center = (data.center as string) || (data.central as string) || 'Central Concept';
   const rawBranches = data.branches || [];
   
   // Normalize branches to handle both string[] and object[] formats
@@ -412,6 +484,15 @@ function RadarChartVisual({ data }: { data: Record<string, unknown> }) {
   };
   
   const dimensions = Array.isArray(rawDimensions) ? rawDimensions : [];
+  // Scored dimensions ({ label, value } or a parallel `values` array) fill their bar; unscored ones show half
+  const scale = Number(data.max) || 10;
+  const getScore = (item: unknown, index: number): number | null => {
+    const raw = typeof item === 'object' && item !== null
+      ? (item as Record<string, unknown>).value ?? (item as Record<string, unknown>).score
+      : Array.isArray(data.values) ? data.values[index] : undefined;
+    const score = Number(raw);
+    return raw !== undefined && Number.isFinite(score) ? Math.min(Math.max(score / scale, 0), 1) : null;
+  };
   
   return (
     <div className="bg-white rounded-xl p-4 border border-gray-200">
@@ -424,7 +505,7 @@ function RadarChartVisual({ data }: { data: Record<string, unknown> }) {
           <div key={index} className="bg-cyan-50 border border-cyan-200 rounded-lg p-3 text-center">
             <p className="text-cyan-800 font-medium text-sm">{getLabel(dim)}</p>
             <div className="mt-2 h-2 bg-cyan-200 rounded-full">
-              <div className="h-full bg-cyan-500 rounded-full" style={{ width: '50%' }} />
+              <div className="h-full bg-cyan-500 rounded-full" style={{ width: `${(getScore(dim, index) ?? 0.5) * 100}%` }} />
             </div>
           </div>
         ))}
@@ -514,21 +595,47 @@ function HierarchyVisual({ data }: { data: Record<string, unknown> }) {
   );
 }
 
-// Generic Visual fallback
+// Generic Visual fallback - a plain list of whatever labels and values the
+// data holds, for visuals that failed validation
 function GenericVisual({ type, data }: { type: string; data: Record<string, unknown> }) {
+  const entries = Object.entries(data ?? {})
+    .map(([key, value]) => [key, summarizeValue(value)] as const)
+    .filter(([, value]) => value.length > 0);
+  if (entries.length === 0) return null;
+
   return (
     <div className="bg-gray-50 rounded-xl p-4 border border-gray-200">
       <div className="flex items-center gap-2 mb-3">
         <BarChart3 className="w-4 h-4 text-gray-500" />
-        <span className="text-sm font-medium text-gray-600">{type}</span>
+        <span className="text-sm font-medium text-gray-600">{String(data.title || type)}</span>
       </div>
-      <pre className="text-xs text-gray-600 overflow-x-auto">
-        {JSON.stringify(data, null, 2)}
-      </pre>
+      <dl className="space-y-2 text-sm">
+        {entries.filter(([key]) => key !== 'title').map(([key, value]) => (
+          <div key={key}>
+            <dt className="font-medium text-gray-700 capitalize">{key}</dt>
+            <dd className="text-gray-600">{value.join(' · ')}</dd>
+          </div>
+        ))}
+      </dl>
     </div>
   );
 }
 
+// Flatten a visualData value to short readable strings
+function summarizeValue(value: unknown): string[] {
+  if (value === null || value === undefined || value === '') return [];
+  if (typeof value !== 'object') return [String(value)];
+  if (Array.isArray(value)) return value.flatMap(item => summarizeValue(item)).slice(0, 12);
+
+  const obj = value as Record<string, unknown>;
+  const label = obj.label ?? obj.name ?? obj.title ?? obj.text ?? obj.id;
+  const amount = obj.value ?? obj.score;
+  if (label !== undefined) {
+    return [amount !== undefined ? `${String(label)}: ${String(amount)}` : String(label)];
+  }
+  return Object.values(obj).flatMap(item => summarizeValue(item)).slice(0, 12);
+}
+
 // Structure Map
 export function StructureMap({ title, content }: SectionProps) {
   return (
@@ -592,24 +699,35 @@ export function PremiumSectionRenderer({ section }: { section: SectionProps & {
     case 'conceptExplanation':
       return <ConceptExplanation {...section} />;
     case 'practicalExample':
+    case 'scenarioResponse':
+    case 'dialogueScript':
       return <PracticalExample {...section} />;
     case 'insightAtlasNote':
       return <InsightAtlasNote {...section} />;
     case 'actionBox':
       return <ActionBox {...section} />;
     case 'selfAssessment':
+    case 'trackingTemplate':
       return <SelfAssessment {...section} />;
     case 'structureMap':
+    case 'chapterBreakdown':
       return <StructureMap {...section} />;
     case 'keyTakeaways':
       return <KeyTakeaways {...section} />;
     case 'visualFramework':
-      return section.visualType && section.visualData ? (
+      return (
         <div className="bg-white rounded-2xl p-6 border border-gray-200 shadow-md">
           <h3 className="text-lg font-serif font-bold text-gray-900 mb-4">{section.title}</h3>
-          <VisualFramework visualType={section.visualType} visualData={section.visualData} />
+          {section.content && (
+            <div className="prose max-w-none mb-4">
+              <div className="whitespace-pre-wrap text-gray-700" dangerouslySetInnerHTML={{ __html: formatMarkdown(section.content) }} />
+            </div>
+          )}
+          {section.visualType && section.visualData && (
+            <VisualFramework visualType={section.visualType} visualData={section.visualData} />
+          )}
         </div>
-      ) : null;
+      );
     default:
       // Default text section
       return (
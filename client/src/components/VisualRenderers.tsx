@@ -0,0 +1,883 @@
+/**
+ * Visual Renderers
+ *
+ * React renderers for the visual types in VISUAL_TYPE_INFO that are not
+ * covered by the original six in PremiumSections. Each takes the visualData
+ * shape defined for its type in the shared visual registry (shared/visuals.ts);
+ * VisualFramework validates against it before dispatching here, but the
+ * renderers still tolerate loose shapes (strings instead of objects,
+ * name/title instead of label) from content stored before validation.
+ */
+
+import React from 'react';
+import {
+  ResponsiveContainer, BarChart, Bar, PieChart, Pie, Cell, LineChart, Line, AreaChart, Area,
+  ScatterChart, Scatter, XAxis, YAxis, ZAxis, CartesianGrid, Tooltip, Legend, Sankey, Treemap,
+} from 'recharts';
+import {
+  BarChart3, PieChart as PieChartIcon, TrendingUp, Grid3X3, Network, Filter, Triangle,
+  RefreshCw, GitBranch, Share2, Calendar, Flame, Circle, Sparkles, Film, Route, Workflow, LayoutGrid,
+  Target, ArrowRight, ArrowDown,
+} from 'lucide-react';
+
+type VisualData = Record<string, unknown>;
+
+const CHART_COLORS = ['#d97706', '#2563eb', '#059669', '#7c3aed', '#dc2626', '#0891b2', '#db2777', '#65a30d'];
+
+// ---------------------------------------------------------------------------
+// Shape helpers
+// ---------------------------------------------------------------------------
+
+function asArray(value: unknown): unknown[] {
+  return Array.isArray(value) ? value : [];
+}
+
+function asObject(value: unknown): Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+    ? (value as Record<string, unknown>)
+    : {};
+}
+
+function getLabel(item: unknown): string {
+  if (typeof item === 'string') return item;
+  if (typeof item === 'number') return String(item);
+  const obj = asObject(item);
+  const label = obj.label ?? obj.name ?? obj.title ?? obj.id;
+  return label !== undefined ? String(label) : '';
+}
+
+function getText(item: unknown, ...keys: string[]): string | undefined {
+  const obj = asObject(item);
+  for (const key of keys) {
+    if (obj[key] !== undefined && obj[key] !== null && obj[key] !== '') return String(obj[key]);
+  }
+  return undefined;
+}
+
+function toNumber(value: unknown, fallback = 0): number {
+  const num = typeof value === 'number' ? value : parseFloat(String(value));
+  return Number.isFinite(num) ? num : fallback;
+}
+
+function stringList(value: unknown): string[] {
+  return asArray(value).map(getLabel).filter(Boolean);
+}
+
+/**
+ * Label/value pairs from either { labels, values } or { data: [{ label, value }] }
+ */
+function labelValuePairs(data: VisualData): Array<{ name: string; value: number }> {
+  const labels = asArray(data.labels);
+  const values = asArray(data.values);
+  if (labels.length > 0) {
+    return labels.map((label, i) => ({ name: getLabel(label), value: toNumber(values[i]) }));
+  }
+  return asArray(data.data ?? data.items ?? data.segments).map(item => ({
+    name: getLabel(item),
+    value: toNumber(asObject(item).value),
+  }));
+}
+
+function VisualCard({ icon: Icon, label, accent, children }: {
+  icon: React.ComponentType<{ className?: string }>;
+  label: string;
+  accent: string;
+  children: React.ReactNode;
+}) {
+  return (
+    <div className="bg-white rounded-xl p-4 border border-gray-200 overflow-x-auto">
+      <div className="flex items-center gap-2 mb-3">
+        <Icon className={`w-4 h-4 ${accent}`} />
+        <span className="text-sm font-medium text-gray-600">{label}</span>
+      </div>
+      {children}
+    </div>
+  );
+}
+
+// ---------------------------------------------------------------------------
+// Charts
+// ---------------------------------------------------------------------------
+
+// Bar Chart: { labels: string[], values: number[], title? }
+export function BarChartVisual({ data }: { data: VisualData }) {
+  const points = labelValuePairs(data);
+  return (
+    <VisualCard icon={BarChart3} label={getText(data, 'title') || 'Bar Chart'} accent="text-amber-500">
+      <ResponsiveContainer width="100%" height={260}>
+        <BarChart data={points}>
+          <CartesianGrid strokeDasharray="3 3" />
+          <XAxis dataKey="name" tick={{ fontSize: 12 }} />
+          <YAxis tick={{ fontSize: 12 }} />
+          <Tooltip />
+          <Bar dataKey="value" fill={CHART_COLORS[0]} radius={[4, 4, 0, 0]} />
+        </BarChart>
+      </ResponsiveContainer>
+    </VisualCard>
+  );
+}
+
+// Pie Chart: { labels: string[], values: number[], title? }
+export function PieChartVisual({ data }: { data: VisualData }) {
+  const points = labelValuePairs(data);
+  return (
+    <VisualCard icon={PieChartIcon} label={getText(data, 'title') || 'Breakdown'} accent="text-amber-500">
+      <ResponsiveContainer width="100%" height={260}>
+        <PieChart>
+          <Pie data={points} dataKey="value" nameKey="name" outerRadius={90} label>
+            {points.map((_, i) => (
+              <Cell key={i} fill={CHART_COLORS[i % CHART_COLORS.length]} />
+            ))}
+          </Pie>
+          <Tooltip />
+          <Legend />
+        </PieChart>
+      </ResponsiveContainer>
+    </VisualCard>
+  );
+}
+
+/**
+ * Rows for line/area charts from { labels, series: [{ name, values }] },
+ * or { labels, values } for a single series
+ */
+function seriesRows(data: VisualData): { rows: Array<Record<string, string | number>>; names: string[] } {
+  const labels = stringList(data.labels);
+  let series = asArray(data.series).map(s => ({ name: getLabel(s) || 'Series', values: asArray(asObject(s).values) }));
+  if (series.length === 0 && Array.isArray(data.values)) {
+    series = [{ name: getText(data, 'title') || 'Value', values: data.values }];
+  }
+  const length = Math.max(labels.length, ...series.map(s => s.values.length), 0);
+  const rows = Array.from({ length }, (_, i) => {
+    const row: Record<string, string | number> = { label: labels[i] ?? String(i + 1) };
+    series.forEach(s => { row[s.name] = toNumber(s.values[i]); });
+    return row;
+  });
+  return { rows, names: series.map(s => s.name) };
+}
+
+// Line Chart: { labels: string[], series: [{ name, values: number[] }] }
+export function LineChartVisual({ data }: { data: VisualData }) {
+  const { rows, names } = seriesRows(data);
+  return (
+    <VisualCard icon={TrendingUp} label={getText(data, 'title') || 'Trend'} accent="text-blue-500">
+      <ResponsiveContainer width="100%" height={260}>
+        <LineChart data={rows}>
+          <CartesianGrid strokeDasharray="3 3" />
+          <XAxis dataKey="label" tick={{ fontSize: 12 }} />
+          <YAxis tick={{ fontSize: 12 }} />
+          <Tooltip />
+          {names.length > 1 && <Legend />}
+          {names.map((name, i) => (
+            <Line key={name} type="monotone" dataKey={name} stroke={CHART_COLORS[i % CHART_COLORS.length]} strokeWidth={2} />
+          ))}
+        </LineChart>
+      </ResponsiveContainer>
+    </VisualCard>
+  );
+}
+
+// Area Chart: same shape as lineChart
+export function AreaChartVisual({ data }: { data: VisualData }) {
+  const { rows, names } = seriesRows(data);
+  return (
+    <VisualCard icon={TrendingUp} label={getText(data, 'title') || 'Trend'} accent="text-emerald-500">
+      <ResponsiveContainer width="100%" height={260}>
+        <AreaChart data={rows}>
+          <CartesianGrid strokeDasharray="3 3" />
+          <XAxis dataKey="label" tick={{ fontSize: 12 }} />
+          <YAxis tick={{ fontSize: 12 }} />
+          <Tooltip />
+          {names.length > 1 && <Legend />}
+          {names.map((name, i) => (
+            <Area
+              key={name}
+              type="monotone"
+              dataKey={name}
+              stroke={CHART_COLORS[i % CHART_COLORS.length]}
+              fill={CHART_COLORS[i % CHART_COLORS.length]}
+              fillOpacity={0.25}
+            />
+          ))}
+        </AreaChart>
+      </ResponsiveContainer>
+    </VisualCard>
+  );
+}
+
+function scatterPoints(data: VisualData) {
+  return asArray(data.points ?? data.data).map(point => ({
+    label: getLabel(point),
+    x: toNumber(asObject(point).x),
+    y: toNumber(asObject(point).y),
+    size: toNumber(asObject(point).size ?? asObject(point).value, 1),
+  }));
+}
+
+// Scatter Plot: { xLabel, yLabel, points: [{ label, x, y }] }
+export function ScatterPlotVisual({ data }: { data: VisualData }) {
+  const points = scatterPoints(data);
+  return (
+    <VisualCard icon={Circle} label={getText(data, 'title') || 'Scatter Plot'} accent="text-indigo-500">
+      <ResponsiveContainer width="100%" height={280}>
+        <ScatterChart>
+          <CartesianGrid strokeDasharray="3 3" />
+          <XAxis type="number" dataKey="x" name={getText(data, 'xLabel') || 'x'} tick={{ fontSize: 12 }} />
+          <YAxis type="number" dataKey="y" name={getText(data, 'yLabel') || 'y'} tick={{ fontSize: 12 }} />
+          <Tooltip cursor={{ strokeDasharray: '3 3' }} />
+          <Scatter data={points} fill={CHART_COLORS[3]} />
+        </ScatterChart>
+      </ResponsiveContainer>
+      <PointLegend points={points} />
+    </VisualCard>
+  );
+}
+
+// Bubble Chart: { xLabel, yLabel, points: [{ label, x, y, size }] }
+export function BubbleChartVisual({ data }: { data: VisualData }) {
+  const points = scatterPoints(data);
+  return (
+    <VisualCard icon={Circle} label={getText(data, 'title') || 'Bubble Chart'} accent="text-pink-500">
+      <ResponsiveContainer width="100%" height={280}>
+        <ScatterChart>
+          <CartesianGrid strokeDasharray="3 3" />
+          <XAxis type="number" dataKey="x" name={getText(data, 'xLabel') || 'x'} tick={{ fontSize: 12 }} />
+          <YAxis type="number" dataKey="y" name={getText(data, 'yLabel') || 'y'} tick={{ fontSize: 12 }} />
+          <ZAxis type="number" dataKey="size" range={[60, 600]} />
+          <Tooltip cursor={{ strokeDasharray: '3 3' }} />
+          <Scatter data={points} fill={CHART_COLORS[6]} fillOpacity={0.6} />
+        </ScatterChart>
+      </ResponsiveContainer>
+      <PointLegend points={points} />
+    </VisualCard>
+  );
+}
+
+function PointLegend({ points }: { points: Array<{ label: string; x: number; y: number }> }) {
+  const labelled = points.filter(p => p.label);
+  if (labelled.length === 0) return null;
+  return (
+    <div className="flex flex-wrap gap-2 mt-2">
+      {labelled.map((point, i) => (
+        <span key={i} className="text-xs bg-gray-100 text-gray-700 rounded px-2 py-0.5">
+          {point.label} ({point.x}, {point.y})
+        </span>
+      ))}
+    </div>
+  );
+}
+
+// Treemap: { items: [{ label, value }] }
+export function TreemapVisual({ data }: { data: VisualData }) {
+  const items = asArray(data.items ?? data.children ?? data.data).map((item, i) => ({
+    name: getLabel(item),
+    size: Math.max(toNumber(asObject(item).value ?? asObject(item).size, 1), 0.1),
+    fill: CHART_COLORS[i % CHART_COLORS.length],
+  }));
+  return (
+    <VisualCard icon={LayoutGrid} label={getText(data, 'title') || 'Treemap'} accent="text-teal-500">
+      <ResponsiveContainer width="100%" height={260}>
+        <Treemap data={items} dataKey="size" nameKey="name" stroke="#fff" content={<TreemapCell />} />
+      </ResponsiveContainer>
+    </VisualCard>
+  );
+}
+
+function TreemapCell(props: any) {
+  const { x, y, width, height, name, fill } = props;
+  return (
+    <g>
+      <rect x={x} y={y} width={width} height={height} fill={fill} stroke="#fff" />
+      {width > 60 && height > 24 && (
+        <text x={x + 6} y={y + 18} fill="#fff" fontSize={12}>{name}</text>
+      )}
+    </g>
+  );
+}
+
+// Sankey: { nodes: [{ id, label }] | string[], links: [{ source, target, value }] }
+export function SankeyVisual({ data }: { data: VisualData }) {
+  const rawNodes = asArray(data.nodes);
+  const ids = rawNodes.map(node => (typeof node === 'string' ? node : getText(node, 'id', 'label', 'name') || ''));
+  const nodes = rawNodes.map(node => ({ name: getLabel(node) }));
+  const indexOf = (ref: unknown) =>
+    typeof ref === 'number' ? ref : ids.indexOf(String(ref));
+  const links = asArray(data.links ?? data.flows)
+    .map(link => ({
+      source: indexOf(asObject(link).source ?? asObject(link).from),
+      target: indexOf(asObject(link).target ?? asObject(link).to),
+      value: Math.max(toNumber(asObject(link).value, 1), 0.1),
+    }))
+    .filter(link => link.source >= 0 && link.target >= 0 && link.source !== link.target
+      && link.source < nodes.length && link.target < nodes.length);
+
+  return (
+    <VisualCard icon={Share2} label={getText(data, 'title') || 'Flow of Resources'} accent="text-cyan-500">
+      {links.length > 0 ? (
+        <ResponsiveContainer width="100%" height={300}>
+          <Sankey
+            data={{ nodes, links }}
+            nodePadding={24}
+            margin={{ left: 10, right: 120, top: 10, bottom: 10 }}
+            link={{ stroke: CHART_COLORS[5], strokeOpacity: 0.3 }}
+            node={<SankeyNode />}
+          />
+        </ResponsiveContainer>
+      ) : (
+        <p className="text-sm text-gray-500">No flows to display.</p>
+      )}
+    </VisualCard>
+  );
+}
+
+function SankeyNode(props: any) {
+  const { x, y, width, height, payload } = props;
+  return (
+    <g>
+      <rect x={x} y={y} width={width} height={height} fill={CHART_COLORS[5]} />
+      <text x={x + width + 6} y={y + height / 2 + 4} fontSize={12} fill="#374151">{payload?.name}</text>
+    </g>
+  );
+}
+
+// Heatmap: { rows: string[], columns: string[], values: number[][] }
+export function HeatmapVisual({ data }: { data: VisualData }) {
+  const rows = stringList(data.rows);
+  const columns = stringList(data.columns);
+  const values = asArray(data.values).map(row => asArray(row).map(v => toNumber(v)));
+  const flat = values.flat();
+  const max = flat.length > 0 ? Math.max(...flat) : 1;
+  const min = flat.length > 0 ? Math.min(...flat) : 0;
+  const intensity = (v: number) => (max === min ? 0.6 : 0.15 + 0.85 * ((v - min) / (max - min)));
+
+  return (
+    <VisualCard icon={Flame} label={getText(data, 'title') || 'Heatmap'} accent="text-red-500">
+      <table className="text-sm border-separate border-spacing-1">
+        <thead>
+          <tr>
+            <th />
+            {columns.map((col, i) => (
+              <th key={i} className="px-2 py-1 text-xs font-medium text-gray-600">{col}</th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map((row, r) => (
+            <tr key={r}>
+              <td className="pr-2 text-xs font-medium text-gray-700 whitespace-nowrap">{row}</td>
+              {columns.map((_, c) => {
+                const value = values[r]?.[c];
+                return (
+                  <td
+                    key={c}
+                    className="w-12 h-9 text-center text-xs rounded text-gray-900"
+                    style={{ backgroundColor: value === undefined ? '#f3f4f6' : `rgba(220, 38, 38, ${intensity(value)})` }}
+                  >
+                    {value ?? ''}
+                  </td>
+                );
+              })}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </VisualCard>
+  );
+}
+
+// ---------------------------------------------------------------------------
+// Diagrams
+// ---------------------------------------------------------------------------
+
+// Quadrant: { xAxis: { low, high }, yAxis: { low, high }, quadrants: [{ label, description, items }] }
+// Quadrants are ordered top-left, top-right, bottom-left, bottom-right
+export function QuadrantVisual({ data }: { data: VisualData }) {
+  const quadrants = asArray(data.quadrants).slice(0, 4);
+  const xAxis = asObject(data.xAxis);
+  const yAxis = asObject(data.yAxis);
+  const fills = ['bg-amber-50 border-amber-200', 'bg-emerald-50 border-emerald-200', 'bg-blue-50 border-blue-200', 'bg-purple-50 border-purple-200'];
+
+  return (
+    <VisualCard icon={Grid3X3} label={getText(data, 'title') || 'Quadrant'} accent="text-amber-500">
+      <div className="flex gap-2">
+        <div className="flex flex-col justify-between text-xs text-gray-500 py-2 [writing-mode:vertical-rl] rotate-180">
+          <span>{getText(yAxis, 'low') || ''}</span>
+          <span className="font-medium">{getText(yAxis, 'label') || (typeof data.yAxis === 'string' ? data.yAxis : '')}</span>
+          <span>{getText(yAxis, 'high') || ''}</span>
+        </div>
+        <div className="flex-1">
+          <div className="grid grid-cols-2 gap-2">
+            {quadrants.map((quadrant, i) => (
+              <div key={i} className={`rounded-lg border p-3 min-h-[110px] ${fills[i]}`}>
+                <p className="font-semibold text-gray-800 text-sm">{getLabel(quadrant)}</p>
+                {getText(quadrant, 'description') && (
+                  <p className="text-xs text-gray-600 mt-1">{getText(quadrant, 'description')}</p>
+                )}
+                <ul className="mt-2 space-y-0.5">
+                  {stringList(asObject(quadrant).items).map((item, j) => (
+                    <li key={j} className="text-xs text-gray-700">• {item}</li>
+                  ))}
+                </ul>
+              </div>
+            ))}
+          </div>
+          <div className="flex justify-between text-xs text-gray-500 mt-1">
+            <span>{getText(xAxis, 'low') || ''}</span>
+            <span className="font-medium">{getText(xAxis, 'label') || (typeof data.xAxis === 'string' ? data.xAxis : '')}</span>
+            <span>{getText(xAxis, 'high') || ''}</span>
+          </div>
+        </div>
+      </div>
+    </VisualCard>
+  );
+}
+
+// SWOT Matrix: { strengths: string[], weaknesses: string[], opportunities: string[], threats: string[] }
+export function SwotMatrixVisual({ data }: { data: VisualData }) {
+  const cells = [
+    { key: 'strengths', label: 'Strengths', className: 'bg-emerald-50 border-emerald-300 text-emerald-900' },
+    { key: 'weaknesses', label: 'Weaknesses', className: 'bg-red-50 border-red-300 text-red-900' },
+    { key: 'opportunities', label: 'Opportunities', className: 'bg-blue-50 border-blue-300 text-blue-900' },
+    { key: 'threats', label: 'Threats', className: 'bg-amber-50 border-amber-300 text-amber-900' },
+  ];
+  return (
+    <VisualCard icon={LayoutGrid} label={getText(data, 'title') || 'SWOT Analysis'} accent="text-emerald-500">
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+        {cells.map(cell => (
+          <div key={cell.key} className={`rounded-lg border-2 p-3 ${cell.className}`}>
+            <p className="font-bold text-sm mb-2">{cell.label}</p>
+            <ul className="space-y-1">
+              {stringList(data[cell.key]).map((item, i) => (
+                <li key={i} className="text-sm">• {item}</li>
+              ))}
+            </ul>
+          </div>
+        ))}
+      </div>
+    </VisualCard>
+  );
+}
+
+// Venn Diagram: { sets: [{ label, items }], overlap: { label, items } } (two or three sets)
+export function VennDiagramVisual({ data }: { data: VisualData }) {
+  const sets = asArray(data.sets ?? data.circles).slice(0, 3);
+  const overlap = asObject(data.overlap ?? data.intersection);
+  const overlapItems = Array.isArray(data.overlap) ? stringList(data.overlap) : stringList(overlap.items);
+  const positions = sets.length === 3
+    ? [{ cx: 120, cy: 100 }, { cx: 200, cy: 100 }, { cx: 160, cy: 165 }]
+    : [{ cx: 125, cy: 120 }, { cx: 215, cy: 120 }];
+
+  return (
+    <VisualCard icon={Circle} label={getText(data, 'title') || 'Overlap'} accent="text-violet-500">
+      <div className="flex flex-col md:flex-row gap-4 items-center">
+        <svg viewBox="0 0 340 240" className="w-full max-w-sm">
+          {sets.map((set, i) => (
+            <g key={i}>
+              <circle {...positions[i]} r={80} fill={CHART_COLORS[i + 1]} fillOpacity={0.2} stroke={CHART_COLORS[i + 1]} />
+              <text
+                x={positions[i].cx + (i === 0 ? -35 : i === 1 ? 35 : 0)}
+                y={positions[i].cy + (i === 2 ? 45 : -40)}
+                textAnchor="middle"
+                fontSize={12}
+                fontWeight={600}
+                fill="#374151"
+              >
+                {getLabel(set).slice(0, 22)}
+              </text>
+            </g>
+          ))}
+          {(getLabel(overlap) || overlapItems.length > 0) && (
+            <text x={sets.length === 3 ? 160 : 170} y={sets.length === 3 ? 125 : 125} textAnchor="middle" fontSize={11} fill="#111827">
+              {(getLabel(overlap) || 'Shared').slice(0, 18)}
+            </text>
+          )}
+        </svg>
+        <div className="space-y-2 text-sm flex-1">
+          {sets.map((set, i) => (
+            <div key={i}>
+              <p className="font-semibold" style={{ color: CHART_COLORS[i + 1] }}>{getLabel(set)}</p>
+              <p className="text-gray-600">{stringList(asObject(set).items).join(' · ')}</p>
+            </div>
+          ))}
+          {overlapItems.length > 0 && (
+            <div>
+              <p className="font-semibold text-gray-800">{getLabel(overlap) || 'Shared'}</p>
+              <p className="text-gray-600">{overlapItems.join(' · ')}</p>
+            </div>
+          )}
+        </div>
+      </div>
+    </VisualCard>
+  );
+}
+
+// Concept Map: { concepts: [{ id, label }], relationships: [{ from, to, label }] }
+export function ConceptMapVisual({ data }: { data: VisualData }) {
+  return (
+    <RelationshipList
+      data={data}
+      nodeKey="concepts"
+      edgeKey="relationships"
+      icon={Network}
+      label={getText(data, 'title') || 'Concept Map'}
+      accent="text-purple-500"
+    />
+  );
+}
+
+// Network Graph: { nodes: [{ id, label, group? }], edges: [{ from, to, label? }] }
+export function NetworkGraphVisual({ data }: { data: VisualData }) {
+  const nodes = asArray(data.nodes);
+  const ids = nodes.map(node => getText(node, 'id') ?? getLabel(node));
+  const edges = asArray(data.edges ?? data.links).map(edge => ({
+    from: ids.indexOf(String(asObject(edge).from ?? asObject(edge).source)),
+    to: ids.indexOf(String(asObject(edge).to ?? asObject(edge).target)),
+  })).filter(edge => edge.from >= 0 && edge.to >= 0);
+
+  const size = 320;
+  const radius = 120;
+  const position = (i: number) => {
+    const angle = (2 * Math.PI * i) / Math.max(nodes.length, 1) - Math.PI / 2;
+    return { x: size / 2 + radius * Math.cos(angle), y: size / 2 + radius * Math.sin(angle) };
+  };
+  const groups = Array.from(new Set(nodes.map(node => getText(node, 'group') || '')));
+
+  return (
+    <VisualCard icon={Share2} label={getText(data, 'title') || 'Network'} accent="text-indigo-500">
+      <svg viewBox={`0 0 ${size} ${size}`} className="w-full max-w-md mx-auto">
+        {edges.map((edge, i) => {
+          const a = position(edge.from);
+          const b = position(edge.to);
+          return <line key={i} x1={a.x} y1={a.y} x2={b.x} y2={b.y} stroke="#a5b4fc" strokeWidth={1.5} />;
+        })}
+        {nodes.map((node, i) => {
+          const { x, y } = position(i);
+          const color = CHART_COLORS[groups.indexOf(getText(node, 'group') || '') % CHART_COLORS.length];
+          return (
+            <g key={i}>
+              <circle cx={x} cy={y} r={9} fill={color} />
+              <text x={x} y={y - 14} textAnchor="middle" fontSize={11} fill="#1f2937">{getLabel(node).slice(0, 20)}</text>
+            </g>
+          );
+        })}
+      </svg>
+    </VisualCard>
+  );
+}
+
+function RelationshipList({ data, nodeKey, edgeKey, icon, label, accent }: {
+  data: VisualData;
+  nodeKey: string;
+  edgeKey: string;
+  icon: React.ComponentType<{ className?: string }>;
+  label: string;
+  accent: string;
+}) {
+  const nodes = asArray(data[nodeKey] ?? data.nodes);
+  const byId = new Map(nodes.map(node => [getText(node, 'id') ?? getLabel(node), getLabel(node)]));
+  const edges = asArray(data[edgeKey] ?? data.edges ?? data.links);
+
+  return (
+    <VisualCard icon={icon} label={label} accent={accent}>
+      <div className="flex flex-wrap gap-2 mb-3">
+        {nodes.map((node, i) => (
+          <span key={i} className="bg-purple-100 border border-purple-300 text-purple-800 rounded-full px-3 py-1 text-sm">
+            {getLabel(node)}
+          </span>
+        ))}
+      </div>
+      <div className="space-y-1.5">
+        {edges.map((edge, i) => {
+          const obj = asObject(edge);
+          const from = String(obj.from ?? obj.source ?? '');
+          const to = String(obj.to ?? obj.target ?? '');
+          return (
+            <div key={i} className="flex items-center gap-2 text-sm text-gray-700">
+              <span className="font-medium">{byId.get(from) ?? from}</span>
+              <ArrowRight className="w-3.5 h-3.5 text-purple-400 flex-shrink-0" />
+              {getText(obj, 'label') && <span className="italic text-gray-500">{getText(obj, 'label')}</span>}
+              {getText(obj, 'label') && <ArrowRight className="w-3.5 h-3.5 text-purple-400 flex-shrink-0" />}
+              <span className="font-medium">{byId.get(to) ?? to}</span>
+            </div>
+          );
+        })}
+      </div>
+    </VisualCard>
+  );
+}
+
+// Gantt Chart: { unit?: string, tasks: [{ label, start: number, end: number, phase? }] }
+export function GanttChartVisual({ data }: { data: VisualData }) {
+  const tasks = asArray(data.tasks).map(task => {
+    const start = toNumber(asObject(task).start);
+    const end = toNumber(asObject(task).end, start + toNumber(asObject(task).duration, 1));
+    return { label: getLabel(task), start, end: Math.max(end, start + 0.5), phase: getText(task, 'phase') };
+  });
+  const min = tasks.length > 0 ? Math.min(...tasks.map(t => t.start)) : 0;
+  const max = tasks.length > 0 ? Math.max(...tasks.map(t => t.end)) : 1;
+  const span = Math.max(max - min, 1);
+  const unit = getText(data, 'unit') || 'week';
+  const phases = Array.from(new Set(tasks.map(t => t.phase || '')));
+
+  return (
+    <VisualCard icon={Calendar} label={getText(data, 'title') || 'Timeline Plan'} accent="text-sky-500">
+      <div className="space-y-2 min-w-[420px]">
+        {tasks.map((task, i) => (
+          <div key={i} className="flex items-center gap-3">
+            <span className="w-40 text-sm text-gray-700 truncate" title={task.label}>{task.label}</span>
+            <div className="flex-1 h-6 bg-gray-100 rounded relative">
+              <div
+                className="absolute h-full rounded text-[10px] text-white flex items-center px-1"
+                style={{
+                  left: `${((task.start - min) / span) * 100}%`,
+                  width: `${((task.end - task.start) / span) * 100}%`,
+                  backgroundColor: CHART_COLORS[phases.indexOf(task.phase || '') % CHART_COLORS.length],
+                }}
+              >
+                {task.phase}
+              </div>
+            </div>
+          </div>
+        ))}
+        <div className="flex justify-between text-xs text-gray-500 pl-44">
+          <span>{unit} {min}</span>
+          <span>{unit} {max}</span>
+        </div>
+      </div>
+    </VisualCard>
+  );
+}
+
+// Funnel Diagram: { stages: [{ label, value?, description? }] } widest stage first
+export function FunnelDiagramVisual({ data }: { data: VisualData }) {
+  const stages = asArray(data.stages ?? data.steps);
+  const values = stages.map(stage => toNumber(asObject(stage).value, NaN));
+  const hasValues = values.every(Number.isFinite) && values.length > 0;
+  const maxValue = hasValues ? Math.max(...values) : 1;
+
+  return (
+    <VisualCard icon={Filter} label={getText(data, 'title') || 'Funnel'} accent="text-orange-500">
+      <div className="flex flex-col items-center gap-1">
+        {stages.map((stage, i) => {
+          const width = hasValues
+            ? 30 + 70 * (values[i] / (maxValue || 1))
+            : 100 - (i * 60) / Math.max(stages.length - 1, 1);
+          return (
+            <div
+              key={i}
+              className="rounded-md py-2 px-3 text-center text-white text-sm"
+              style={{ width: `${width}%`, backgroundColor: CHART_COLORS[i % CHART_COLORS.length] }}
+            >
+              <span className="font-semibold">{getLabel(stage)}</span>
+              {hasValues && <span className="ml-2 opacity-90">{values[i]}</span>}
+              {getText(stage, 'description') && (
+                <p className="text-xs opacity-90">{getText(stage, 'description')}</p>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </VisualCard>
+  );
+}
+
+// Pyramid Diagram: { levels: [{ label, description? }] } top (narrowest) level first
+export function PyramidDiagramVisual({ data }: { data: VisualData }) {
+  const levels = asArray(data.levels ?? data.tiers);
+  return (
+    <VisualCard icon={Triangle} label={getText(data, 'title') || 'Pyramid'} accent="text-amber-600">
+      <div className="flex flex-col items-center gap-1">
+        {levels.map((level, i) => (
+          <div
+            key={i}
+            className="py-2 px-3 text-center text-amber-950 text-sm rounded-sm"
+            style={{
+              width: `${30 + (70 * (i + 1)) / levels.length}%`,
+              backgroundColor: `rgba(217, 119, 6, ${0.85 - (i * 0.5) / Math.max(levels.length, 1)})`,
+            }}
+          >
+            <span className="font-semibold">{getLabel(level)}</span>
+            {getText(level, 'description') && <p className="text-xs">{getText(level, 'description')}</p>}
+          </div>
+        ))}
+      </div>
+    </VisualCard>
+  );
+}
+
+// Cycle Diagram: { steps: [{ label, description? }] } last step leads back to the first
+export function CycleDiagramVisual({ data }: { data: VisualData }) {
+  const steps = asArray(data.steps ?? data.stages);
+  const size = 320;
+  const radius = 115;
+  const position = (i: number) => {
+    const angle = (2 * Math.PI * i) / Math.max(steps.length, 1) - Math.PI / 2;
+    return { x: size / 2 + radius * Math.cos(angle), y: size / 2 + radius * Math.sin(angle) };
+  };
+
+  return (
+    <VisualCard icon={RefreshCw} label={getText(data, 'title') || 'Cycle'} accent="text-green-500">
+      <div className="flex flex-col md:flex-row gap-4 items-center">
+        <svg viewBox={`0 0 ${size} ${size}`} className="w-full max-w-xs">
+          <circle cx={size / 2} cy={size / 2} r={radius} fill="none" stroke="#bbf7d0" strokeWidth={3} strokeDasharray="6 6" />
+          {steps.map((step, i) => {
+            const { x, y } = position(i);
+            return (
+              <g key={i}>
+                <circle cx={x} cy={y} r={22} fill={CHART_COLORS[2]} />
+                <text x={x} y={y + 5} textAnchor="middle" fontSize={14} fontWeight={700} fill="#fff">{i + 1}</text>
+              </g>
+            );
+          })}
+        </svg>
+        <ol className="space-y-2 text-sm flex-1">
+          {steps.map((step, i) => (
+            <li key={i}>
+              <span className="font-semibold text-green-800">{i + 1}. {getLabel(step)}</span>
+              {getText(step, 'description') && <p className="text-gray-600">{getText(step, 'description')}</p>}
+            </li>
+          ))}
+        </ol>
+      </div>
+    </VisualCard>
+  );
+}
+
+// Fishbone Diagram: { problem: string, categories: [{ label, causes: string[] }] }
+export function FishboneDiagramVisual({ data }: { data: VisualData }) {
+  const problem = getText(data, 'problem', 'effect', 'head') || 'Problem';
+  const categories = asArray(data.categories ?? data.bones);
+  const top = categories.filter((_, i) => i % 2 === 0);
+  const bottom = categories.filter((_, i) => i % 2 === 1);
+
+  const Bone = ({ category }: { category: unknown }) => (
+    <div className="flex-1 min-w-[120px] border-l-2 border-slate-400 pl-2">
+      <p className="font-semibold text-slate-800 text-sm">{getLabel(category)}</p>
+      <ul>
+        {stringList(asObject(category).causes).map((cause, i) => (
+          <li key={i} className="text-xs text-slate-600">– {cause}</li>
+        ))}
+      </ul>
+    </div>
+  );
+
+  return (
+    <VisualCard icon={GitBranch} label={getText(data, 'title') || 'Cause & Effect'} accent="text-slate-500">
+      <div className="flex items-stretch gap-3 min-w-[480px]">
+        <div className="flex-1 flex flex-col justify-between gap-3">
+          <div className="flex gap-3">{top.map((c, i) => <Bone key={i} category={c} />)}</div>
+          <div className="h-1 bg-slate-500 rounded" />
+          <div className="flex gap-3">{bottom.map((c, i) => <Bone key={i} category={c} />)}</div>
+        </div>
+        <div className="flex items-center">
+          <div className="bg-slate-700 text-white rounded-lg px-4 py-3 text-sm font-bold max-w-[160px] text-center">
+            {problem}
+          </div>
+        </div>
+      </div>
+    </VisualCard>
+  );
+}
+
+// ---------------------------------------------------------------------------
+// Narrative layouts
+// ---------------------------------------------------------------------------
+
+// Infographic: { stats: [{ label, value, description? }], highlights?: string[] }
+export function InfographicVisual({ data }: { data: VisualData }) {
+  const stats = asArray(data.stats ?? data.facts ?? data.items);
+  const highlights = stringList(data.highlights);
+  return (
+    <VisualCard icon={Sparkles} label={getText(data, 'title') || 'At a Glance'} accent="text-amber-500">
+      <div className="grid grid-cols-2 md:grid-cols-3 gap-3">
+        {stats.map((stat, i) => (
+          <div key={i} className="bg-amber-50 border border-amber-200 rounded-lg p-3 text-center">
+            <p className="text-2xl font-bold text-amber-700">{getText(stat, 'value', 'stat') || '•'}</p>
+            <p className="text-sm font-medium text-amber-900">{getLabel(stat)}</p>
+            {getText(stat, 'description') && <p className="text-xs text-gray-600 mt-1">{getText(stat, 'description')}</p>}
+          </div>
+        ))}
+      </div>
+      {highlights.length > 0 && (
+        <ul className="mt-3 space-y-1">
+          {highlights.map((h, i) => (
+            <li key={i} className="text-sm text-gray-700 flex gap-2"><Target className="w-4 h-4 text-amber-500 mt-0.5 flex-shrink-0" />{h}</li>
+          ))}
+        </ul>
+      )}
+    </VisualCard>
+  );
+}
+
+// Storyboard: { frames: [{ title, description }] }
+export function StoryboardVisual({ data }: { data: VisualData }) {
+  const frames = asArray(data.frames ?? data.scenes);
+  return (
+    <VisualCard icon={Film} label={getText(data, 'title') || 'Storyboard'} accent="text-rose-500">
+      <div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-3 gap-3">
+        {frames.map((frame, i) => (
+          <div key={i} className="border-2 border-rose-200 rounded-lg p-3 bg-rose-50/40">
+            <p className="text-xs font-bold text-rose-500 mb-1">Scene {i + 1}</p>
+            <p className="font-semibold text-gray-800 text-sm">{getLabel(frame)}</p>
+            {getText(frame, 'description', 'caption') && (
+              <p className="text-xs text-gray-600 mt-1">{getText(frame, 'description', 'caption')}</p>
+            )}
+          </div>
+        ))}
+      </div>
+    </VisualCard>
+  );
+}
+
+// Journey Map: { stages: [{ label, actions?: string[], emotion?: number (-2..2), painPoints?: string[], opportunities?: string[] }] }
+export function JourneyMapVisual({ data }: { data: VisualData }) {
+  const stages = asArray(data.stages ?? data.steps);
+  const emotionIcon = (value: unknown) => {
+    const score = typeof value === 'string'
+      ? ({ positive: 2, neutral: 0, negative: -2 } as Record<string, number>)[value.toLowerCase()] ?? 0
+      : toNumber(value);
+    return score > 0 ? '😊' : score < 0 ? '😟' : '😐';
+  };
+
+  return (
+    <VisualCard icon={Route} label={getText(data, 'title') || 'Journey Map'} accent="text-teal-500">
+      <div className="flex gap-2 min-w-[520px]">
+        {stages.map((stage, i) => {
+          const obj = asObject(stage);
+          return (
+            <div key={i} className="flex-1 border border-teal-200 rounded-lg p-2 bg-teal-50/50">
+              <p className="font-semibold text-teal-900 text-sm">{getLabel(stage)}</p>
+              {obj.emotion !== undefined && <p className="text-xl my-1">{emotionIcon(obj.emotion)}</p>}
+              {stringList(obj.actions).map((a, j) => <p key={`a${j}`} className="text-xs text-gray-700">• {a}</p>)}
+              {stringList(obj.painPoints).map((p, j) => <p key={`p${j}`} className="text-xs text-red-700 mt-1">✕ {p}</p>)}
+              {stringList(obj.opportunities).map((o, j) => <p key={`o${j}`} className="text-xs text-emerald-700 mt-1">✓ {o}</p>)}
+            </div>
+          );
+        })}
+      </div>
+    </VisualCard>
+  );
+}
+
+// Process Flow: { steps: [{ label, description? }] }
+export function ProcessFlowVisual({ data }: { data: VisualData }) {
+  const steps = asArray(data.steps ?? data.nodes);
+  return (
+    <VisualCard icon={Workflow} label={getText(data, 'title') || 'Process'} accent="text-blue-500">
+      <div className="flex flex-col items-center gap-1">
+        {steps.map((step, i) => (
+          <React.Fragment key={i}>
+            <div className="w-full max-w-md bg-blue-50 border-2 border-blue-200 rounded-lg px-4 py-2 flex gap-3 items-start">
+              <span className="w-6 h-6 bg-blue-500 text-white rounded-full text-xs font-bold flex items-center justify-center flex-shrink-0">{i + 1}</span>
+              <div>
+                <p className="font-medium text-blue-900">{getLabel(step)}</p>
+                {getText(step, 'description') && <p className="text-xs text-gray-600">{getText(step, 'description')}</p>}
+              </div>
+            </div>
+            {i < steps.length - 1 && <ArrowDown className="w-4 h-4 text-blue-400" />}
+          </React.Fragment>
+        ))}
+      </div>
+    </VisualCard>
+  );
+}
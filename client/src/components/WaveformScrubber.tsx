@@ -0,0 +1,75 @@
+import type { KeyboardEvent, MouseEvent } from "react";
+
+interface WaveformScrubberProps {
+  /** Peaks from 0 to 1; a plain progress bar is drawn when empty */
+  peaks: number[];
+  /** Current position and total length in seconds */
+  progress: number;
+  duration: number;
+  /** Chapter start times in milliseconds, drawn as boundaries */
+  chapterStarts?: number[];
+  onSeek: (seconds: number) => void;
+}
+
+const KEYBOARD_STEP_SECONDS = 5;
+
+export function WaveformScrubber({ peaks, progress, duration, chapterStarts = [], onSeek }: WaveformScrubberProps) {
+  const played = duration > 0 ? Math.min(progress / duration, 1) : 0;
+
+  const handleClick = (e: MouseEvent<HTMLDivElement>) => {
+    if (duration <= 0) return;
+    const rect = e.currentTarget.getBoundingClientRect();
+    const percent = Math.min(Math.max((e.clientX - rect.left) / rect.width, 0), 1);
+    onSeek(percent * duration);
+  };
+
+  const handleKeyDown = (e: KeyboardEvent<HTMLDivElement>) => {
+    if (e.key === "ArrowLeft" || e.key === "ArrowRight") {
+      e.preventDefault();
+      const step = e.key === "ArrowLeft" ? -KEYBOARD_STEP_SECONDS : KEYBOARD_STEP_SECONDS;
+      onSeek(Math.min(Math.max(progress + step, 0), duration));
+    }
+  };
+
+  const boundaries = duration > 0 && chapterStarts.filter(startMs => startMs > 0).map(startMs => (
+    <div
+      key={startMs}
+      className="absolute top-0 h-full w-0.5 bg-background/80 pointer-events-none"
+      style={{ left: `${Math.min(startMs / 1000 / duration, 1) * 100}%` }}
+    />
+  ));
+
+  const sliderProps = {
+    role: "slider",
+    tabIndex: 0,
+    "aria-label": "Seek",
+    "aria-valuemin": 0,
+    "aria-valuemax": Math.round(duration),
+    "aria-valuenow": Math.round(progress),
+    onClick: handleClick,
+    onKeyDown: handleKeyDown,
+  } as const;
+
+  if (peaks.length === 0) {
+    return (
+      <div {...sliderProps} className="relative flex-1 h-2 md:h-3 bg-muted rounded-full overflow-hidden touch-target">
+        <div className="h-full bg-primary transition-all" style={{ width: `${played * 100}%` }} />
+        {boundaries}
+      </div>
+    );
+  }
+
+  return (
+    <div {...sliderProps} className="relative flex-1 h-8 md:h-10 flex items-center gap-px cursor-pointer touch-target">
+      {peaks.map((peak, i) => (
+        <div
+          key={i}
+          className={`flex-1 rounded-full transition-colors ${(i + 0.5) / peaks.length <= played ? "bg-primary" : "bg-muted-foreground/30"}`}
+          // Keep silent stretches visible as a thin line
+          style={{ height: `${Math.max(peak, 0.08) * 100}%` }}
+        />
+      ))}
+      {boundaries}
+    </div>
+  );
+}
@@ -0,0 +1,109 @@
+import { useEffect, useRef, type RefObject } from "react";
+import { trpc } from "@/lib/trpc";
+
+interface PlaybackSyncOptions {
+  insightId: number;
+  /** Audio asset being played; the saved position is restored once per URL */
+  audioAssetId: number | undefined;
+  audioUrl: string | null | undefined;
+  playing: boolean;
+  /** Called after jumping to the saved position, in seconds */
+  onResume?: (seconds: number) => void;
+}
+
+// How often the position is saved while playing
+const SAVE_INTERVAL_MS = 15_000;
+
+/**
+ * Keep the player's position in sync with the server: jump to the saved
+ * position when the narration loads, then save while playing, on pause
+ * and when the page is hidden. Each stretch of playback is reported as
+ * one listening session. A position saved in another of the insight's
+ * narrations is not restored.
+ */
+export function usePlaybackSync(
+  audioRef: RefObject<HTMLAudioElement | null>,
+  { insightId, audioAssetId, audioUrl, playing, onResume }: PlaybackSyncOptions
+) {
+  const { data: savedPosition } = trpc.audio.getPosition.useQuery(
+    { insightId },
+    { enabled: !!insightId && !!audioUrl, refetchOnWindowFocus: false }
+  );
+  const savePosition = trpc.audio.savePosition.useMutation();
+
+  const restoredUrl = useRef<string | null>(null);
+  const sessionId = useRef<number | undefined>(undefined);
+  // Start of the playback not yet reported, from performance.now()
+  const playingSince = useRef<number | null>(null);
+  // Saves run one at a time so a new session is created only once
+  const queue = useRef<Promise<unknown>>(Promise.resolve());
+  const onResumeRef = useRef(onResume);
+  onResumeRef.current = onResume;
+  const audioAssetIdRef = useRef(audioAssetId);
+  audioAssetIdRef.current = audioAssetId;
+
+  const save = (
+    endSession: boolean,
+    audio: HTMLAudioElement | null = audioRef.current,
+    assetId: number | undefined = audioAssetId
+  ) => {
+    if (!audio || !insightId || !assetId) return;
+
+    const now = performance.now();
+    const listenedSeconds = playingSince.current !== null ? (now - playingSince.current) / 1000 : 0;
+    playingSince.current = endSession ? null : now;
+    const input = {
+      insightId,
+      audioAssetId: assetId,
+      positionSeconds: audio.currentTime,
+      durationSeconds: Number.isFinite(audio.duration) && audio.duration > 0 ? audio.duration : undefined,
+      listenedSeconds: Math.min(listenedSeconds, 3600),
+    };
+
+    queue.current = queue.current
+      .then(() => savePosition.mutateAsync({ ...input, sessionId: sessionId.current }))
+      .then(result => {
+        sessionId.current = endSession ? undefined : result.sessionId ?? undefined;
+      })
+      .catch(error => console.warn("[Playback] Failed to save position:", error));
+  };
+  const saveRef = useRef(save);
+  saveRef.current = save;
+
+  // Resume from the saved position once the narration and the position are known
+  useEffect(() => {
+    const audio = audioRef.current;
+    if (!audio || !audioUrl || savedPosition === undefined || restoredUrl.current === audioUrl) return;
+    restoredUrl.current = audioUrl;
+    if (!savedPosition || savedPosition.audioAssetId !== audioAssetId || audio.currentTime > 0) return;
+
+    audio.currentTime = savedPosition.positionSeconds;
+    onResumeRef.current?.(savedPosition.positionSeconds);
+  }, [audioRef, audioUrl, audioAssetId, savedPosition]);
+
+  // Save periodically while playing and once more on pause, which ends the session
+  useEffect(() => {
+    if (!playing) return;
+    // Held on to: the page drops its audio element on unmount or when
+    // switching narrations, before this cleanup runs
+    const audio = audioRef.current;
+    const assetId = audioAssetIdRef.current;
+    playingSince.current = performance.now();
+    const timer = setInterval(() => saveRef.current(false, audio, assetId), SAVE_INTERVAL_MS);
+    return () => {
+      clearInterval(timer);
+      saveRef.current(true, audio, assetId);
+    };
+  }, [playing, audioRef]);
+
+  // Leaving the page or switching apps may be the last chance to save
+  useEffect(() => {
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === "hidden" && playingSince.current !== null) {
+        saveRef.current(false);
+      }
+    };
+    document.addEventListener("visibilitychange", handleVisibilityChange);
+    return () => document.removeEventListener("visibilitychange", handleVisibilityChange);
+  }, []);
+}
@@ -0,0 +1,208 @@
+import { useEffect, useRef, type RefObject } from "react";
+import type { BlockAudioTiming } from "@shared/types";
+
+export interface ReadAlongBlock {
+  id: number;
+  audioTimings: BlockAudioTiming | null;
+}
+
+interface ReadAlongOptions {
+  playing: boolean;
+  /** Player position in seconds, used while paused */
+  position: number;
+  /** Scroll the spoken sentence into view when it leaves the screen */
+  follow: boolean;
+}
+
+interface Position {
+  blockId: number;
+  sentence: number;
+  word: number;
+}
+
+// Sentences of a block located in its rendered text
+interface BlockText {
+  points: [Text, number][];
+  sentences: ({ start: number; needle: string } | null)[];
+}
+
+const SENTENCE_HIGHLIGHT = "read-along-sentence";
+const WORD_HIGHLIGHT = "read-along-word";
+const ACTIVE_BLOCK_CLASS = "read-along-active";
+// Space taken by the sticky header and audio player
+const TOP_INSET_PX = 140;
+
+/**
+ * Highlight the block, sentence and word being narrated, following the
+ * audio element's currentTime. Blocks are found by their `data-block-id`
+ * attribute; sentences and words are drawn with the CSS Custom Highlight
+ * API where supported, otherwise only the block is marked.
+ */
+export function useReadAlong(
+  audioRef: RefObject<HTMLAudioElement | null>,
+  blocks: ReadAlongBlock[] | undefined,
+  { playing, position, follow }: ReadAlongOptions
+) {
+  const current = useRef<Position | null>(null);
+  const texts = useRef(new Map<number, BlockText | null>());
+  const followRef = useRef(follow);
+  followRef.current = follow;
+
+  const timed = (blocks ?? []).filter(
+    (block): block is ReadAlongBlock & { audioTimings: BlockAudioTiming } => !!block.audioTimings
+  );
+
+  const clear = () => {
+    if (current.current) blockElement(current.current.blockId)?.classList.remove(ACTIVE_BLOCK_CLASS);
+    current.current = null;
+    if (supportsHighlights()) {
+      CSS.highlights.delete(SENTENCE_HIGHLIGHT);
+      CSS.highlights.delete(WORD_HIGHLIGHT);
+    }
+  };
+
+  const update = (ms: number) => {
+    const block = timed.find(b => ms >= b.audioTimings.startMs && ms < b.audioTimings.endMs);
+    if (!block) {
+      clear();
+      return;
+    }
+    const sentence = Math.max(block.audioTimings.sentences.findLastIndex(s => ms >= s.startMs), 0);
+    const word = Math.max(block.audioTimings.sentences[sentence].words.findLastIndex(start => ms >= start), 0);
+
+    const previous = current.current;
+    if (previous?.blockId === block.id && previous.sentence === sentence && previous.word === word) return;
+
+    if (previous?.blockId !== block.id) {
+      if (previous) blockElement(previous.blockId)?.classList.remove(ACTIVE_BLOCK_CLASS);
+      blockElement(block.id)?.classList.add(ACTIVE_BLOCK_CLASS);
+    }
+    current.current = { blockId: block.id, sentence, word };
+
+    if (!texts.current.has(block.id)) {
+      const element = blockElement(block.id);
+      texts.current.set(block.id, element ? locateSentences(element, block.audioTimings) : null);
+    }
+    const blockText = texts.current.get(block.id);
+    const sentenceRange = blockText ? rangeOf(blockText, sentence) : null;
+
+    if (supportsHighlights()) {
+      if (sentenceRange && blockText) {
+        CSS.highlights.set(SENTENCE_HIGHLIGHT, new Highlight(sentenceRange));
+        const wordRange = rangeOf(blockText, sentence, word);
+        if (wordRange) CSS.highlights.set(WORD_HIGHLIGHT, new Highlight(wordRange));
+        else CSS.highlights.delete(WORD_HIGHLIGHT);
+      } else {
+        CSS.highlights.delete(SENTENCE_HIGHLIGHT);
+        CSS.highlights.delete(WORD_HIGHLIGHT);
+      }
+    }
+
+    if (followRef.current && (previous?.blockId !== block.id || previous.sentence !== sentence)) {
+      const rect = (sentenceRange ?? blockElement(block.id))?.getBoundingClientRect();
+      if (rect && (rect.top < TOP_INSET_PX || rect.bottom > window.innerHeight)) {
+        window.scrollTo({ top: window.scrollY + rect.top - window.innerHeight / 3, behavior: "smooth" });
+      }
+    }
+  };
+  const updateRef = useRef(update);
+  updateRef.current = update;
+
+  // Timings changed: forget located sentences and highlights
+  useEffect(() => {
+    texts.current.clear();
+    return clear;
+  }, [blocks]);
+
+  // Poll every frame while playing so word changes land on time
+  useEffect(() => {
+    if (!playing || timed.length === 0) return;
+    let frame = 0;
+    const tick = () => {
+      if (audioRef.current) updateRef.current(audioRef.current.currentTime * 1000);
+      frame = requestAnimationFrame(tick);
+    };
+    frame = requestAnimationFrame(tick);
+    return () => cancelAnimationFrame(frame);
+  }, [playing, timed.length, audioRef]);
+
+  // Paused: follow seeks, and clear once playback has ended
+  useEffect(() => {
+    if (playing || timed.length === 0) return;
+    if (position > 0) updateRef.current(position * 1000);
+    else clear();
+  }, [playing, position, timed.length]);
+}
+
+function supportsHighlights(): boolean {
+  return typeof CSS !== "undefined" && "highlights" in CSS;
+}
+
+function blockElement(blockId: number): HTMLElement | null {
+  return document.querySelector<HTMLElement>(`[data-block-id="${blockId}"]`);
+}
+
+// Lowercase text with whitespace collapsed, without the punctuation the
+// narration adds or keeps at the end of a sentence
+function normalize(text: string): string {
+  return text.toLowerCase().replace(/\s+/g, " ").trim().replace(/[\s.!?:;"')\]]+$/, "");
+}
+
+/**
+ * Index the rendered text of a block and find each timed sentence in it,
+ * searching onwards from the previous match
+ */
+function locateSentences(element: HTMLElement, timing: BlockAudioTiming): BlockText {
+  const walker = document.createTreeWalker(element, NodeFilter.SHOW_TEXT);
+  const points: [Text, number][] = [];
+  let text = "";
+  let space = true;
+
+  for (let node = walker.nextNode() as Text | null; node; node = walker.nextNode() as Text | null) {
+    for (let i = 0; i < node.data.length; i++) {
+      const char = node.data[i];
+      if (/\s/.test(char)) {
+        if (space) continue;
+        text += " ";
+        space = true;
+      } else {
+        text += char.toLowerCase();
+        space = false;
+      }
+      points.push([node, i]);
+    }
+  }
+
+  let cursor = 0;
+  const sentences = timing.sentences.map(sentence => {
+    const needle = normalize(sentence.text);
+    const start = needle ? text.indexOf(needle, cursor) : -1;
+    if (start < 0) return null;
+    cursor = start + needle.length;
+    return { start, needle };
+  });
+
+  return { points, sentences };
+}
+
+// Range of a located sentence, or of one of its words
+function rangeOf(blockText: BlockText, sentenceIndex: number, wordIndex?: number): Range | null {
+  const sentence = blockText.sentences[sentenceIndex];
+  if (!sentence) return null;
+
+  let from = 0;
+  let to = sentence.needle.length;
+  if (wordIndex !== undefined) {
+    const word = Array.from(sentence.needle.matchAll(/\S+/g))[wordIndex];
+    if (!word || word.index === undefined) return null;
+    from = word.index;
+    to = word.index + word[0].length;
+  }
+
+  const [startNode, startOffset] = blockText.points[sentence.start + from];
+  const [endNode, endOffset] = blockText.points[sentence.start + to - 1];
+  const range = document.createRange();
+  range.setStart(startNode, startOffset);
+  range.setEnd(endNode, endOffset + 1);
+  return range;
+}
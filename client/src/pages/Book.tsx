@@ -1,10 +1,11 @@
-import { useState, useEffect, useCallback } from "react";
+import { useState, useEffect, useCallback, useRef } from "react";
 import { useLocation, useParams } from "wouter";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent } from "@/components/ui/card";
 import { trpc } from "@/lib/trpc";
 import { toast } from "sonner";
 import { InsightProgress } from "@/components/InsightProgress";
+import { BookProfile } from "@/components/BookProfile";
 import {
   BookOpen,
   ArrowLeft,
@@ -66,6 +67,17 @@ export default function BookPage() {
     },
   });
 
+  // Generation runs in a background job, so pick progress back up after a refresh
+  const resumeChecked = useRef(false);
+  useEffect(() => {
+    if (!insights || resumeChecked.current) return;
+    resumeChecked.current = true;
+    const inProgress = insights.find(i => i.status === "pending" || i.status === "generating");
+    if (inProgress) {
+      setGeneratingInsightId(inProgress.id);
+    }
+  }, [insights]);
+
   const handleGenerationComplete = useCallback(() => {
     if (generatingInsightId) {
       toast.success("Insights generated successfully!");
@@ -73,6 +85,11 @@ export default function BookPage() {
     }
   }, [generatingInsightId, navigate]);
 
+  const handleGenerationCancelled = useCallback(() => {
+    setGeneratingInsightId(null);
+    refetchInsights();
+  }, [refetchInsights]);
+
   if (bookLoading) {
     return <LoadingState />;
   }
@@ -203,6 +220,9 @@ export default function BookPage() {
             </CardContent>
           </Card>
 
+          {/* Book Profile (Stage 0 analysis) */}
+          <BookProfile bookId={bookId} />
+
           {/* Generation Progress */}
           {(generateMutation.isPending || generatingInsightId) && (
             <div className="mb-6 md:mb-8">
@@ -210,6 +230,7 @@ export default function BookPage() {
                 <InsightProgress
                   insightId={generatingInsightId}
                   onComplete={handleGenerationComplete}
+                  onCancel={handleGenerationCancelled}
                 />
               ) : (
                 <Card className="border-primary/30">
@@ -259,7 +280,7 @@ export default function BookPage() {
                               <Clock className="w-3 h-3 md:w-4 md:h-4" />
                               {new Date(insight.createdAt).toLocaleDateString()}
                             </span>
-                            {insight.audioUrl && (
+                            {insight.hasAudio && (
                               <span className="flex items-center gap-1 text-primary">
                                 <Headphones className="w-3 h-3 md:w-4 md:h-4" />
                                 Audio
@@ -278,6 +299,8 @@ export default function BookPage() {
                             ? "bg-green-100 text-green-700" 
                             : insight.status === "failed"
                             ? "bg-red-100 text-red-700"
+                            : insight.status === "cancelled"
+                            ? "bg-gray-100 text-gray-700"
                             : "bg-yellow-100 text-yellow-700"
                         }`}>
                           {insight.status}
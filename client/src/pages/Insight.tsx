@@ -3,8 +3,19 @@ import { useLocation, useParams } from "wouter";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent } from "@/components/ui/card";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
 import { trpc } from "@/lib/trpc";
 import { ExportModal } from "@/components/ExportModal";
+import { WaveformScrubber } from "@/components/WaveformScrubber";
+import { useReadAlong } from "@/hooks/useReadAlong";
+import { usePlaybackSync } from "@/hooks/usePlaybackSync";
 import { InsightCoverPage, TableOfContents } from "@/components/InsightCoverPage";
 import { 
   FlowDiagram, 
@@ -17,6 +28,7 @@ import {
   MetricDisplay
 } from "@/components/InsightVisuals";
 import { PremiumSectionRenderer } from "@/components/PremiumSections";
+import { isPremiumSectionType, type AudioLength, type NarrationMode } from "@shared/types";
 import { toast } from "sonner";
 import {
   BookOpen,
@@ -41,10 +53,23 @@ import {
   SkipForward,
   ChevronUp,
   List,
+  ListMusic,
   RefreshCw,
   FileText,
+  ScrollText,
 } from "lucide-react";
 
+// Narrations offered by the generate menu; only the summary comes in shorter lengths
+const NARRATION_OPTIONS: { mode: NarrationMode; length: AudioLength; label: string; description: string }[] = [
+  { mode: "script", length: "full", label: "Summary", description: "Narrated audio script" },
+  { mode: "script", length: "10min", label: "10-min summary", description: "The guide condensed to about 10 minutes" },
+  { mode: "script", length: "3min", label: "3-min summary", description: "Just the essentials, in about 3 minutes" },
+  { mode: "readAlong", length: "full", label: "Read-along", description: "Reads the guide, highlighting each word" },
+  { mode: "podcast", length: "full", label: "Podcast", description: "Two hosts discuss and debate the book" },
+];
+
+const narrationKey = (option: { mode: string; length: string }) => `${option.mode}:${option.length}`;
+
 export default function InsightPage() {
   const [, navigate] = useLocation();
   const params = useParams<{ id: string }>();
@@ -65,8 +90,34 @@ export default function InsightPage() {
   );
 
   const { data: voices } = trpc.audio.voices.useQuery();
-
-  const [selectedVoice, setSelectedVoice] = useState("rachel");
+  // Shared with usePlaybackSync; picks the narration last listened to
+  const { data: savedPosition, isLoading: savedPositionLoading } = trpc.audio.getPosition.useQuery(
+    { insightId },
+    { enabled: !!insightId && !!insight?.audioAssets.length, refetchOnWindowFocus: false }
+  );
+  const utils = trpc.useUtils();
+
+  // Unset until picked; the server then narrates with its default voice
+  const [selectedVoice, setSelectedVoice] = useState<string>();
+  const [narrationOption, setNarrationOption] = useState(NARRATION_OPTIONS[0]);
+  const narrationMode = narrationOption.mode;
+  const [coHostVoice, setCoHostVoice] = useState<string>();
+  // Both podcast hosts must use voices of the same provider; the host's own voice goes last
+  const hostVoice = voices?.find(voice => voice.id === selectedVoice) ?? voices?.[0];
+  const coHostVoices = (voices ?? [])
+    .filter(voice => voice.provider === hostVoice?.provider)
+    .sort((a, b) => Number(a.id === hostVoice?.id) - Number(b.id === hostVoice?.id));
+  // Unset (or left over from another provider) means the server's pick, the first listed
+  const selectedCoHostVoice = coHostVoices.some(voice => voice.id === coHostVoice) ? coHostVoice : undefined;
+  // Unset until picked: the narration last listened to, else the first listed
+  const [selectedAssetId, setSelectedAssetId] = useState<number>();
+  const audioAssets = insight?.audioAssets ?? [];
+  const currentAsset = savedPositionLoading
+    ? undefined
+    : audioAssets.find(asset => asset.id === selectedAssetId)
+      ?? audioAssets.find(asset => asset.id === savedPosition?.audioAssetId)
+      ?? audioAssets[0];
+  const [followAlong, setFollowAlong] = useState(true);
   const [isPlaying, setIsPlaying] = useState(false);
   const [isMuted, setIsMuted] = useState(false);
   const [audioProgress, setAudioProgress] = useState(0);
@@ -76,12 +127,14 @@ export default function InsightPage() {
   // Generate section IDs for navigation
   const sections = useMemo(() => {
     if (!insight?.contentBlocks) return [];
+    // IDs follow the block index used when rendering headings and premium sections
     return insight.contentBlocks
-      .filter((block: any) => block.blockType === 'heading' || block.type === 'heading')
-      .map((block: any, index: number) => ({
+      .map((block: any, index: number) => ({ block, index }))
+      .filter(({ block }: { block: any }) => block.blockType === 'heading' || isPremiumSectionType(block.blockType))
+      .map(({ block, index }: { block: any; index: number }) => ({
         id: `section-${index}`,
-        title: block.content || block.title || `Section ${index + 1}`,
-        type: block.sectionType || block.type || 'content'
+        title: (block.blockType === 'heading' ? block.content : block.title) || `Section ${index + 1}`,
+        type: block.blockType || 'content'
       }));
   }, [insight?.contentBlocks]);
 
@@ -99,8 +152,10 @@ export default function InsightPage() {
   }, []);
 
   const generateAudioMutation = trpc.audio.generate.useMutation({
-    onSuccess: () => {
+    onSuccess: async (asset) => {
       toast.success("Audio generated successfully!");
+      await utils.insights.get.invalidate({ id: insightId });
+      switchAsset(asset.id);
     },
     onError: (error) => {
       toast.error(`Audio generation failed: ${error.message}`);
@@ -150,13 +205,17 @@ export default function InsightPage() {
       }
     };
 
-    if (!insight?.audioUrl || !isValidUrl(insight.audioUrl)) return;
+    if (!currentAsset || !isValidUrl(currentAsset.audioUrl)) return;
     
-    const audio = new Audio(insight.audioUrl);
+    const audio = new Audio(currentAsset.audioUrl);
     audioRef.current = audio;
     
     const handleTimeUpdate = () => setAudioProgress(audio.currentTime);
-    const handleLoadedMetadata = () => setAudioDuration(audio.duration);
+    // The stored duration covers the time before metadata loads and streams reporting Infinity
+    setAudioDuration(currentAsset.durationSeconds ?? 0);
+    const handleLoadedMetadata = () => {
+      if (Number.isFinite(audio.duration)) setAudioDuration(audio.duration);
+    };
     const handleEnded = () => { 
       setIsPlaying(false); 
       setAudioProgress(0); 
@@ -173,7 +232,19 @@ export default function InsightPage() {
       audio.pause();
       audioRef.current = null;
     };
-  }, [insight?.audioUrl]);
+  }, [currentAsset?.audioUrl, currentAsset?.durationSeconds]);
+
+  // Resume where this user left off, on any device
+  usePlaybackSync(audioRef, {
+    insightId,
+    audioAssetId: currentAsset?.id,
+    audioUrl: currentAsset?.audioUrl,
+    playing: isPlaying,
+    onResume: (seconds) => {
+      setAudioProgress(seconds);
+      toast(`Resuming at ${formatTime(seconds)}`);
+    },
+  });
 
   const togglePlay = () => {
     if (!audioRef.current) return;
@@ -185,6 +256,20 @@ export default function InsightPage() {
     setIsPlaying(!isPlaying);
   };
 
+  // Play another of the insight's narrations, from its start
+  const switchAsset = (assetId: number) => {
+    audioRef.current?.pause();
+    setIsPlaying(false);
+    setAudioProgress(0);
+    setSelectedAssetId(assetId);
+  };
+
+  const assetLabel = (asset: (typeof audioAssets)[number]) => {
+    const option = NARRATION_OPTIONS.find(o => narrationKey(o) === narrationKey(asset));
+    const voice = voices?.find(v => v.id === asset.voiceId);
+    return [option?.label ?? "Narration", voice?.name].filter(Boolean).join(" · ");
+  };
+
   const toggleMute = () => {
     if (!audioRef.current) return;
     audioRef.current.muted = !isMuted;
@@ -196,6 +281,24 @@ export default function InsightPage() {
     audioRef.current.currentTime = Math.max(0, Math.min(audioRef.current.currentTime + seconds, audioDuration));
   };
 
+  const audioChapters = currentAsset?.chapters ?? [];
+  // Block timings belong to the read-along narration only
+  const hasReadAlong = currentAsset?.mode === "readAlong" && (insight?.contentBlocks.some(block => block.audioTimings) ?? false);
+
+  useReadAlong(audioRef, hasReadAlong ? insight?.contentBlocks : undefined, {
+    playing: isPlaying,
+    position: audioProgress,
+    follow: followAlong,
+  });
+  const currentChapterIndex = audioChapters.findLastIndex(chapter => audioProgress * 1000 >= chapter.startMs);
+
+  const jumpToChapter = (startMs: number) => {
+    if (!audioRef.current) return;
+    audioRef.current.currentTime = startMs / 1000;
+    audioRef.current.play();
+    setIsPlaying(true);
+  };
+
   const formatTime = (seconds: number) => {
     const mins = Math.floor(seconds / 60);
     const secs = Math.floor(seconds % 60);
@@ -264,40 +367,79 @@ export default function InsightPage() {
                 <span className="hidden md:inline">Contents</span>
               </Button>
 
-              {!insight.audioUrl ? (
-                <>
-                  {/* Voice Selection */}
-                  <Select value={selectedVoice} onValueChange={setSelectedVoice}>
-                    <SelectTrigger className="w-[100px] md:w-[140px] h-9 text-xs md:text-sm">
-                      <SelectValue placeholder="Voice" />
-                    </SelectTrigger>
-                    <SelectContent>
-                      {voices?.map((voice) => (
-                        <SelectItem key={voice.id} value={voice.id}>
-                          <div className="flex flex-col">
-                            <span className="font-medium">{voice.name}</span>
-                            <span className="text-xs text-muted-foreground hidden md:block">{voice.description}</span>
-                          </div>
-                        </SelectItem>
-                      ))}
-                    </SelectContent>
-                  </Select>
-                  <Button
-                    variant="outline"
-                    size="sm"
-                    onClick={() => generateAudioMutation.mutate({ insightId, voiceId: selectedVoice })}
-                    disabled={generateAudioMutation.isPending}
-                    className="touch-target text-xs md:text-sm"
-                  >
-                    {generateAudioMutation.isPending ? (
-                      <Loader2 className="w-4 h-4 md:mr-2 animate-spin" />
-                    ) : (
-                      <Headphones className="w-4 h-4 md:mr-2" />
-                    )}
-                    <span className="hidden md:inline">Generate Audio</span>
-                  </Button>
-                </>
-              ) : null}
+              {/* Voice Selection */}
+              <Select value={selectedVoice ?? voices?.[0]?.id ?? ""} onValueChange={setSelectedVoice}>
+                <SelectTrigger className="w-[100px] md:w-[140px] h-9 text-xs md:text-sm">
+                  <SelectValue placeholder="Voice" />
+                </SelectTrigger>
+                <SelectContent>
+                  {voices?.map((voice) => (
+                    <SelectItem key={voice.id} value={voice.id}>
+                      <div className="flex flex-col">
+                        <span className="font-medium">{voice.name}</span>
+                        <span className="text-xs text-muted-foreground hidden md:block">{voice.description}</span>
+                      </div>
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {/* Narration Mode and Length */}
+              <Select
+                value={narrationKey(narrationOption)}
+                onValueChange={(value) => setNarrationOption(NARRATION_OPTIONS.find(option => narrationKey(option) === value) ?? NARRATION_OPTIONS[0])}
+              >
+                <SelectTrigger className="w-[100px] md:w-[140px] h-9 text-xs md:text-sm">
+                  <SelectValue placeholder="Mode" />
+                </SelectTrigger>
+                <SelectContent>
+                  {NARRATION_OPTIONS.map((option) => (
+                    <SelectItem key={narrationKey(option)} value={narrationKey(option)}>
+                      <div className="flex flex-col">
+                        <span className="font-medium">{option.label}</span>
+                        <span className="text-xs text-muted-foreground hidden md:block">{option.description}</span>
+                      </div>
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {/* Co-host Voice */}
+              {narrationMode === "podcast" && (
+                <Select value={selectedCoHostVoice ?? coHostVoices[0]?.id ?? ""} onValueChange={setCoHostVoice}>
+                  <SelectTrigger className="w-[100px] md:w-[140px] h-9 text-xs md:text-sm">
+                    <SelectValue placeholder="Co-host" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {coHostVoices.map((voice) => (
+                      <SelectItem key={voice.id} value={voice.id}>
+                        <div className="flex flex-col">
+                          <span className="font-medium">{voice.name}</span>
+                          <span className="text-xs text-muted-foreground hidden md:block">{voice.description}</span>
+                        </div>
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              )}
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => generateAudioMutation.mutate({
+                  insightId,
+                  voiceId: selectedVoice,
+                  mode: narrationMode,
+                  length: narrationOption.length,
+                  coHostVoiceId: narrationMode === "podcast" ? selectedCoHostVoice : undefined,
+                })}
+                disabled={generateAudioMutation.isPending}
+                className="touch-target text-xs md:text-sm"
+              >
+                {generateAudioMutation.isPending ? (
+                  <Loader2 className="w-4 h-4 md:mr-2 animate-spin" />
+                ) : (
+                  <Headphones className="w-4 h-4 md:mr-2" />
+                )}
+                <span className="hidden md:inline">Generate Audio</span>
+              </Button>
               <Button
                 variant="outline"
                 size="sm"
@@ -352,7 +494,7 @@ export default function InsightPage() {
       )}
 
       {/* Audio Player Bar - Mobile Optimized */}
-      {insight.audioUrl && (
+      {currentAsset && (
         <div className="sticky top-[57px] md:top-[65px] z-40 bg-card border-b border-border shadow-sm safe-area-top">
           <div className="container py-2 md:py-3">
             <div className="flex items-center gap-2 md:gap-4">
@@ -382,25 +524,87 @@ export default function InsightPage() {
                 <span className="text-xs md:text-sm text-muted-foreground w-10 md:w-12 text-right">
                   {formatTime(audioProgress)}
                 </span>
-                <div 
-                  className="flex-1 h-2 md:h-3 bg-muted rounded-full overflow-hidden touch-target"
-                  onClick={(e) => {
+                <WaveformScrubber
+                  peaks={currentAsset.waveform}
+                  progress={audioProgress}
+                  duration={audioDuration}
+                  chapterStarts={audioChapters.map(chapter => chapter.startMs)}
+                  onSeek={(seconds) => {
                     if (!audioRef.current) return;
-                    const rect = e.currentTarget.getBoundingClientRect();
-                    const percent = (e.clientX - rect.left) / rect.width;
-                    audioRef.current.currentTime = percent * audioDuration;
+                    audioRef.current.currentTime = seconds;
+                    setAudioProgress(seconds);
                   }}
-                >
-                  <div
-                    className="h-full bg-primary transition-all"
-                    style={{ width: `${(audioProgress / audioDuration) * 100}%` }}
-                  />
-                </div>
+                />
                 <span className="text-xs md:text-sm text-muted-foreground w-10 md:w-12">
                   {formatTime(audioDuration)}
                 </span>
               </div>
 
+              {/* Narration Switcher */}
+              {audioAssets.length > 1 && (
+                <Select value={String(currentAsset.id)} onValueChange={(value) => switchAsset(Number(value))}>
+                  <SelectTrigger className="w-[100px] md:w-[180px] h-9 text-xs md:text-sm" title="Switch narration">
+                    <SelectValue placeholder="Narration" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {audioAssets.map((asset) => (
+                      <SelectItem key={asset.id} value={String(asset.id)}>
+                        <div className="flex flex-col">
+                          <span className="font-medium">{assetLabel(asset)}</span>
+                          {asset.durationSeconds ? (
+                            <span className="text-xs text-muted-foreground hidden md:block">{formatTime(asset.durationSeconds)}</span>
+                          ) : null}
+                        </div>
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              )}
+
+              {/* Follow Along */}
+              {hasReadAlong && (
+                <Button
+                  variant={followAlong ? "secondary" : "ghost"}
+                  size="icon"
+                  onClick={() => setFollowAlong(!followAlong)}
+                  className="w-8 h-8 md:w-10 md:h-10 touch-target"
+                  title={followAlong ? "Stop following the narration" : "Follow the narration"}
+                  aria-pressed={followAlong}
+                >
+                  <ScrollText className="w-4 h-4" />
+                </Button>
+              )}
+
+              {/* Chapters */}
+              {audioChapters.length > 1 && (
+                <DropdownMenu>
+                  <DropdownMenuTrigger asChild>
+                    <Button variant="ghost" size="sm" className="touch-target max-w-[40%] md:max-w-xs">
+                      <ListMusic className="w-4 h-4 md:mr-2 shrink-0" />
+                      <span className="hidden md:inline truncate">
+                        {audioChapters[currentChapterIndex]?.title ?? "Chapters"}
+                      </span>
+                    </Button>
+                  </DropdownMenuTrigger>
+                  <DropdownMenuContent align="end" className="w-72 max-h-80 overflow-y-auto">
+                    <DropdownMenuLabel>Chapters</DropdownMenuLabel>
+                    <DropdownMenuSeparator />
+                    {audioChapters.map((chapter, i) => (
+                      <DropdownMenuItem
+                        key={chapter.startMs}
+                        onClick={() => jumpToChapter(chapter.startMs)}
+                        className={`py-3 gap-3 ${i === currentChapterIndex ? "text-primary font-medium" : ""}`}
+                      >
+                        <span className="flex-1 truncate">{chapter.title}</span>
+                        <span className="text-xs text-muted-foreground tabular-nums">
+                          {formatTime(chapter.startMs / 1000)}
+                        </span>
+                      </DropdownMenuItem>
+                    ))}
+                  </DropdownMenuContent>
+                </DropdownMenu>
+              )}
+
               {/* Volume - Hidden on mobile */}
               <Button variant="ghost" size="icon" onClick={toggleMute} className="hidden md:flex touch-target">
                 {isMuted ? <VolumeX className="w-4 h-4" /> : <Volume2 className="w-4 h-4" />}
@@ -466,24 +670,28 @@ export default function InsightPage() {
           {/* Content Blocks */}
           <div className="space-y-4 md:space-y-6">
             {insight.contentBlocks?.map((block: any, index: number) => {
-              // Check if this is a premium section type
-              const premiumTypes = ['quickGlance', 'foundationalNarrative', 'executiveSummary', 'conceptExplanation', 'practicalExample', 'insightAtlasNote', 'actionBox', 'selfAssessment', 'structureMap', 'keyTakeaways', 'visualFramework'];
-              if (premiumTypes.includes(block.blockType)) {
+              // Premium section rows keep their pipeline type and metadata
+              if (isPremiumSectionType(block.blockType)) {
                 return (
-                  <PremiumSectionRenderer
-                    key={block.id || index}
-                    section={{
-                      type: block.blockType,
-                      title: block.title || '',
-                      content: block.content || '',
-                      visualType: block.visualType,
-                      visualData: block.visualData ? (typeof block.visualData === 'string' ? JSON.parse(block.visualData) : block.visualData) : undefined,
-                      metadata: block.listItems ? (typeof block.listItems === 'string' ? JSON.parse(block.listItems) : block.listItems) : undefined,
-                    }}
-                  />
+                  <div key={block.id || index} id={`section-${index}`} data-block-id={block.id} className="scroll-mt-20">
+                    <PremiumSectionRenderer
+                      section={{
+                        type: block.blockType,
+                        title: block.title || '',
+                        content: block.content || '',
+                        visualType: block.visualType || undefined,
+                        visualData: block.visualData || undefined,
+                        metadata: block.metadata || undefined,
+                      }}
+                    />
+                  </div>
                 );
               }
-              return <ContentBlock key={block.id || index} block={block} sectionIndex={index} />;
+              return (
+                <div key={block.id || index} data-block-id={block.id}>
+                  <ContentBlock block={block} sectionIndex={index} />
+                </div>
+              );
             })}
           </div>
 
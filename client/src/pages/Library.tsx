@@ -1,13 +1,17 @@
-import { useState, useMemo } from "react";
+import { useState, useMemo, useRef } from "react";
 import { useLocation, useSearch } from "wouter";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
 import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { trpc } from "@/lib/trpc";
+import type { inferRouterOutputs } from "@trpc/server";
+import type { AppRouter } from "../../../server/routers";
 import { toast } from "sonner";
 import { SwipeableCard, ContextMenuWrapper } from "@/components/SwipeableCard";
 import { ExportModal } from "@/components/ExportModal";
+import { LibraryExportModal } from "@/components/LibraryExportModal";
+import { PodcastFeedModal } from "@/components/PodcastFeedModal";
 import {
   BookOpen,
   ArrowLeft,
@@ -28,6 +32,10 @@ import {
   LayoutGrid,
   LayoutList,
   Share2,
+  Upload,
+  Archive,
+  Rss,
+  Play,
 } from "lucide-react";
 import {
   DropdownMenu,
@@ -62,8 +70,24 @@ export default function LibraryPage() {
   const [exportModalOpen, setExportModalOpen] = useState(false);
   const [exportInsightId, setExportInsightId] = useState<number | null>(null);
   const [exportTitle, setExportTitle] = useState("");
+  const [libraryExportOpen, setLibraryExportOpen] = useState(false);
+  const [podcastFeedOpen, setPodcastFeedOpen] = useState(false);
+
+  const importInputRef = useRef<HTMLInputElement>(null);
 
   const { data: libraryItems, isLoading, refetch } = trpc.library.list.useQuery();
+  const { data: continueListening } = trpc.audio.continueListening.useQuery();
+
+  const importMutation = trpc.insights.import.useMutation({
+    onSuccess: (result) => {
+      toast.success("Insight imported");
+      refetch();
+      navigate(`/insight/${result.insightId}`);
+    },
+    onError: (error) => {
+      toast.error(`Import failed: ${error.message}`);
+    },
+  });
 
   const toggleFavoriteMutation = trpc.library.toggleFavorite.useMutation({
     onSuccess: () => {
@@ -129,6 +153,21 @@ export default function LibraryPage() {
     setExportModalOpen(true);
   };
 
+  const handleImportFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) return;
+
+    let document: unknown;
+    try {
+      document = JSON.parse(await file.text());
+    } catch {
+      toast.error("That file is not valid JSON");
+      return;
+    }
+    importMutation.mutate({ document });
+  };
+
   const confirmDelete = () => {
     if (itemToDelete) {
       deleteMutation.mutate({ id: itemToDelete });
@@ -166,6 +205,48 @@ export default function LibraryPage() {
                   <LayoutList className="w-5 h-5" />
                 )}
               </Button>
+              {/* Export every insight as one zip */}
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={() => setLibraryExportOpen(true)}
+                className="touch-target"
+                title="Export library"
+              >
+                <Archive className="w-5 h-5" />
+              </Button>
+              {/* Narrated guides as a podcast */}
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={() => setPodcastFeedOpen(true)}
+                className="touch-target"
+                title="Podcast feed"
+              >
+                <Rss className="w-5 h-5" />
+              </Button>
+              {/* Import a JSON export */}
+              <input
+                ref={importInputRef}
+                type="file"
+                accept="application/json,.json"
+                className="hidden"
+                onChange={handleImportFile}
+              />
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={() => importInputRef.current?.click()}
+                disabled={importMutation.isPending}
+                className="touch-target"
+                title="Import insight"
+              >
+                {importMutation.isPending ? (
+                  <Loader2 className="w-5 h-5 animate-spin" />
+                ) : (
+                  <Upload className="w-5 h-5" />
+                )}
+              </Button>
               <Button className="btn-gold btn-mobile hidden md:flex" onClick={() => navigate("/")}>
                 <Sparkles className="w-4 h-4 mr-2" />
                 Upload Book
@@ -190,6 +271,11 @@ export default function LibraryPage() {
           </div>
         </div>
 
+        {/* Narrations in progress, on this or another device */}
+        {!searchQuery && activeTab === "all" && continueListening && continueListening.length > 0 && (
+          <ContinueListeningRow items={continueListening} onNavigate={(path) => navigate(path)} />
+        )}
+
         {/* Tabs - Mobile Optimized */}
         <Tabs value={activeTab} onValueChange={setActiveTab} className="mb-4 md:mb-8">
           <TabsList className="w-full grid grid-cols-4 h-auto p-1">
@@ -331,6 +417,16 @@ export default function LibraryPage() {
           title={exportTitle}
         />
       )}
+
+      <PodcastFeedModal
+        isOpen={podcastFeedOpen}
+        onClose={() => setPodcastFeedOpen(false)}
+      />
+
+      <LibraryExportModal
+        isOpen={libraryExportOpen}
+        onClose={() => setLibraryExportOpen(false)}
+      />
     </div>
   );
 }
@@ -460,7 +556,7 @@ function LibraryItemCard({
                   <span className="hidden md:inline">Insights</span>
                 </span>
               )}
-              {insight?.audioUrl && (
+              {insight?.hasAudio && (
                 <span className="inline-flex items-center gap-1 px-1.5 md:px-2 py-0.5 md:py-1 rounded-full bg-blue-100 text-blue-700 text-xs">
                   <Headphones className="w-2.5 h-2.5 md:w-3 md:h-3" />
                   <span className="hidden md:inline">Audio</span>
@@ -529,7 +625,7 @@ function GridItemCard({
                 <Sparkles className="w-2.5 h-2.5" />
               </span>
             )}
-            {insight?.audioUrl && (
+            {insight?.hasAudio && (
               <span className="inline-flex items-center px-1.5 py-0.5 rounded-full bg-blue-500 text-white text-xs">
                 <Headphones className="w-2.5 h-2.5" />
               </span>
@@ -551,6 +647,69 @@ function GridItemCard({
   );
 }
 
+type ContinueListeningItem = inferRouterOutputs<AppRouter>["audio"]["continueListening"][number];
+
+function ContinueListeningRow({
+  items,
+  onNavigate,
+}: {
+  items: ContinueListeningItem[];
+  onNavigate: (path: string) => void;
+}) {
+  const formatRemaining = (item: ContinueListeningItem) => {
+    if (!item.durationSeconds) return null;
+    const minutes = Math.max(Math.ceil((item.durationSeconds - item.positionSeconds) / 60), 1);
+    return `${minutes} min left`;
+  };
+
+  return (
+    <section className="mb-4 md:mb-8">
+      <h2 className="font-serif text-base md:text-lg font-semibold text-foreground mb-2 md:mb-3 flex items-center gap-2">
+        <Headphones className="w-4 h-4 md:w-5 md:h-5 text-primary" />
+        Continue listening
+      </h2>
+      <div className="flex gap-3 md:gap-4 overflow-x-auto pb-2 -mx-1 px-1 snap-x">
+        {items.map((item) => (
+          <Card
+            key={item.insightId}
+            className="premium-card card-mobile border-0 shadow-sm w-64 md:w-72 shrink-0 snap-start cursor-pointer hover:shadow-xl transition-all"
+            onClick={() => onNavigate(`/insight/${item.insightId}`)}
+          >
+            <CardContent className="p-3 md:p-4">
+              <div className="flex gap-3">
+                <div className="w-12 h-16 rounded-md overflow-hidden bg-gradient-to-br from-primary/20 to-primary/5 flex items-center justify-center shrink-0">
+                  {item.coverUrl ? (
+                    <img src={item.coverUrl} alt={item.bookTitle || "Book cover"} className="w-full h-full object-cover" loading="lazy" />
+                  ) : (
+                    <BookOpen className="w-5 h-5 text-primary/40" />
+                  )}
+                </div>
+                <div className="flex-1 min-w-0">
+                  <h3 className="font-serif text-sm font-semibold text-foreground line-clamp-2">
+                    {item.bookTitle || item.title}
+                  </h3>
+                  <p className="text-xs text-muted-foreground mt-1 flex items-center gap-1">
+                    <Play className="w-3 h-3 fill-current" />
+                    {formatRemaining(item) ?? "Resume"}
+                  </p>
+                </div>
+              </div>
+              {item.durationSeconds ? (
+                <div className="h-1 bg-muted rounded-full overflow-hidden mt-3">
+                  <div
+                    className="h-full bg-primary"
+                    style={{ width: `${Math.min((item.positionSeconds / item.durationSeconds) * 100, 100)}%` }}
+                  />
+                </div>
+              ) : null}
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+    </section>
+  );
+}
+
 function EmptyState({
   activeTab,
   searchQuery,
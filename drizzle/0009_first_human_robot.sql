@@ -0,0 +1,23 @@
+CREATE TABLE `jobs` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`type` varchar(50) NOT NULL,
+	`status` enum('queued','running','completed','failed') NOT NULL DEFAULT 'queued',
+	`userId` int NOT NULL,
+	`insightId` int,
+	`payload` text,
+	`result` text,
+	`attempts` int NOT NULL DEFAULT 0,
+	`maxAttempts` int NOT NULL DEFAULT 3,
+	`lastError` text,
+	`runAt` timestamp NOT NULL DEFAULT (now()),
+	`lockedAt` timestamp,
+	`completedAt` timestamp,
+	`createdAt` timestamp NOT NULL DEFAULT (now()),
+	`updatedAt` timestamp NOT NULL DEFAULT (now()) ON UPDATE CURRENT_TIMESTAMP,
+	CONSTRAINT `jobs_id` PRIMARY KEY(`id`)
+);
+--> statement-breakpoint
+ALTER TABLE `jobs` ADD CONSTRAINT `jobs_userId_users_id_fk` FOREIGN KEY (`userId`) REFERENCES `users`(`id`) ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE `jobs` ADD CONSTRAINT `jobs_insightId_insights_id_fk` FOREIGN KEY (`insightId`) REFERENCES `insights`(`id`) ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX `jobs_status_runAt_idx` ON `jobs` (`status`,`runAt`);--> statement-breakpoint
+CREATE INDEX `jobs_insightId_idx` ON `jobs` (`insightId`);
\ No newline at end of file
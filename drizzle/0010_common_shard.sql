@@ -0,0 +1,2 @@
+ALTER TABLE `insights` MODIFY COLUMN `status` enum('pending','generating','completed','failed','cancelled') NOT NULL DEFAULT 'pending';--> statement-breakpoint
+ALTER TABLE `jobs` MODIFY COLUMN `status` enum('queued','running','completed','failed','cancelled') NOT NULL DEFAULT 'queued';
\ No newline at end of file
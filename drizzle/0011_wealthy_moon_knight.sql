@@ -0,0 +1,12 @@
+CREATE TABLE `generation_checkpoints` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`insightId` int NOT NULL,
+	`stage` varchar(50) NOT NULL,
+	`data` longtext NOT NULL,
+	`createdAt` timestamp NOT NULL DEFAULT (now()),
+	`updatedAt` timestamp NOT NULL DEFAULT (now()) ON UPDATE CURRENT_TIMESTAMP,
+	CONSTRAINT `generation_checkpoints_id` PRIMARY KEY(`id`),
+	CONSTRAINT `generationCheckpoints_insightId_stage_idx` UNIQUE(`insightId`,`stage`)
+);
+--> statement-breakpoint
+ALTER TABLE `generation_checkpoints` ADD CONSTRAINT `generation_checkpoints_insightId_insights_id_fk` FOREIGN KEY (`insightId`) REFERENCES `insights`(`id`) ON DELETE cascade ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1,15 @@
+CREATE TABLE `book_analyses` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`bookId` int NOT NULL,
+	`insightId` int,
+	`primaryCategory` varchar(100),
+	`complexityLevel` varchar(50),
+	`analysis` longtext NOT NULL,
+	`createdAt` timestamp NOT NULL DEFAULT (now()),
+	`updatedAt` timestamp NOT NULL DEFAULT (now()) ON UPDATE CURRENT_TIMESTAMP,
+	CONSTRAINT `book_analyses_id` PRIMARY KEY(`id`),
+	CONSTRAINT `book_analyses_bookId_unique` UNIQUE(`bookId`)
+);
+--> statement-breakpoint
+ALTER TABLE `book_analyses` ADD CONSTRAINT `book_analyses_bookId_books_id_fk` FOREIGN KEY (`bookId`) REFERENCES `books`(`id`) ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE `book_analyses` ADD CONSTRAINT `book_analyses_insightId_insights_id_fk` FOREIGN KEY (`insightId`) REFERENCES `insights`(`id`) ON DELETE set null ON UPDATE no action;
\ No newline at end of file
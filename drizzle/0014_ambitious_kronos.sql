@@ -0,0 +1,17 @@
+CREATE TABLE `insight_exports` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`insightId` int NOT NULL,
+	`userId` int NOT NULL,
+	`format` varchar(20) NOT NULL,
+	`contentHash` varchar(64) NOT NULL,
+	`templateVersion` int NOT NULL,
+	`fileKey` varchar(255) NOT NULL,
+	`fileUrl` text NOT NULL,
+	`result` longtext NOT NULL,
+	`createdAt` timestamp NOT NULL DEFAULT (now()),
+	CONSTRAINT `insight_exports_id` PRIMARY KEY(`id`),
+	CONSTRAINT `insightExports_insightId_format_hash_idx` UNIQUE(`insightId`,`format`,`contentHash`)
+);
+--> statement-breakpoint
+ALTER TABLE `insight_exports` ADD CONSTRAINT `insight_exports_insightId_insights_id_fk` FOREIGN KEY (`insightId`) REFERENCES `insights`(`id`) ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE `insight_exports` ADD CONSTRAINT `insight_exports_userId_users_id_fk` FOREIGN KEY (`userId`) REFERENCES `users`(`id`) ON DELETE cascade ON UPDATE no action;
\ No newline at end of file
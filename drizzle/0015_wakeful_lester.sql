@@ -0,0 +1 @@
+ALTER TABLE `insights` ADD `audioChapters` text;
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE `insights` ADD `audioWaveform` text;
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE `content_blocks` ADD `audioTimings` text;
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE `insights` ADD `podcastScript` text;
\ No newline at end of file
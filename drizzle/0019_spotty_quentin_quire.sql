@@ -0,0 +1,2 @@
+ALTER TABLE `users` ADD `feedToken` varchar(64);--> statement-breakpoint
+ALTER TABLE `users` ADD CONSTRAINT `users_feedToken_unique` UNIQUE(`feedToken`);
\ No newline at end of file
@@ -0,0 +1,31 @@
+CREATE TABLE `listening_sessions` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`userId` int NOT NULL,
+	`insightId` int NOT NULL,
+	`startPositionSeconds` int NOT NULL,
+	`endPositionSeconds` int NOT NULL,
+	`listenedSeconds` int NOT NULL DEFAULT 0,
+	`startedAt` timestamp NOT NULL DEFAULT (now()),
+	`endedAt` timestamp NOT NULL DEFAULT (now()),
+	CONSTRAINT `listening_sessions_id` PRIMARY KEY(`id`)
+);
+--> statement-breakpoint
+CREATE TABLE `playback_positions` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`userId` int NOT NULL,
+	`insightId` int NOT NULL,
+	`positionSeconds` int NOT NULL DEFAULT 0,
+	`durationSeconds` int,
+	`completed` boolean NOT NULL DEFAULT false,
+	`createdAt` timestamp NOT NULL DEFAULT (now()),
+	`updatedAt` timestamp NOT NULL DEFAULT (now()) ON UPDATE CURRENT_TIMESTAMP,
+	CONSTRAINT `playback_positions_id` PRIMARY KEY(`id`),
+	CONSTRAINT `playbackPositions_userId_insightId_idx` UNIQUE(`userId`,`insightId`)
+);
+--> statement-breakpoint
+ALTER TABLE `listening_sessions` ADD CONSTRAINT `listening_sessions_userId_users_id_fk` FOREIGN KEY (`userId`) REFERENCES `users`(`id`) ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE `listening_sessions` ADD CONSTRAINT `listening_sessions_insightId_insights_id_fk` FOREIGN KEY (`insightId`) REFERENCES `insights`(`id`) ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE `playback_positions` ADD CONSTRAINT `playback_positions_userId_users_id_fk` FOREIGN KEY (`userId`) REFERENCES `users`(`id`) ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE `playback_positions` ADD CONSTRAINT `playback_positions_insightId_insights_id_fk` FOREIGN KEY (`insightId`) REFERENCES `insights`(`id`) ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX `listeningSessions_userId_idx` ON `listening_sessions` (`userId`);--> statement-breakpoint
+CREATE INDEX `listeningSessions_insightId_idx` ON `listening_sessions` (`insightId`);
\ No newline at end of file
@@ -0,0 +1,34 @@
+CREATE TABLE `audio_assets` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`insightId` int NOT NULL,
+	`length` varchar(20) NOT NULL,
+	`mode` varchar(20) NOT NULL,
+	`voiceId` varchar(100) NOT NULL,
+	`provider` varchar(20) NOT NULL,
+	`script` text,
+	`audioUrl` text NOT NULL,
+	`audioKey` varchar(255) NOT NULL,
+	`durationSeconds` int,
+	`chapters` text,
+	`waveform` text,
+	`createdAt` timestamp NOT NULL DEFAULT (now()),
+	`updatedAt` timestamp NOT NULL DEFAULT (now()) ON UPDATE CURRENT_TIMESTAMP,
+	CONSTRAINT `audio_assets_id` PRIMARY KEY(`id`),
+	CONSTRAINT `audioAssets_insightId_length_mode_voiceId_idx` UNIQUE(`insightId`,`length`,`mode`,`voiceId`)
+);
+--> statement-breakpoint
+ALTER TABLE `playback_positions` ADD `audioAssetId` int;--> statement-breakpoint
+ALTER TABLE `audio_assets` ADD CONSTRAINT `audio_assets_insightId_insights_id_fk` FOREIGN KEY (`insightId`) REFERENCES `insights`(`id`) ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE `playback_positions` ADD CONSTRAINT `playback_positions_audioAssetId_audio_assets_id_fk` FOREIGN KEY (`audioAssetId`) REFERENCES `audio_assets`(`id`) ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+INSERT INTO `audio_assets` (`insightId`, `length`, `mode`, `voiceId`, `provider`, `audioUrl`, `audioKey`, `durationSeconds`, `chapters`, `waveform`)
+SELECT `id`, 'full',
+	CASE WHEN EXISTS (SELECT 1 FROM `content_blocks` WHERE `content_blocks`.`insightId` = `insights`.`id` AND `content_blocks`.`audioTimings` IS NOT NULL) THEN 'readAlong' ELSE 'script' END,
+	'', CASE WHEN `audioUrl` LIKE '%.wav' THEN 'local' ELSE 'elevenlabs' END,
+	`audioUrl`, COALESCE(`audioKey`, ''), `audioDuration`, `audioChapters`, `audioWaveform`
+FROM `insights` WHERE `audioUrl` IS NOT NULL;--> statement-breakpoint
+UPDATE `playback_positions` JOIN `audio_assets` ON `audio_assets`.`insightId` = `playback_positions`.`insightId` SET `playback_positions`.`audioAssetId` = `audio_assets`.`id`;--> statement-breakpoint
+ALTER TABLE `insights` DROP COLUMN `audioUrl`;--> statement-breakpoint
+ALTER TABLE `insights` DROP COLUMN `audioKey`;--> statement-breakpoint
+ALTER TABLE `insights` DROP COLUMN `audioDuration`;--> statement-breakpoint
+ALTER TABLE `insights` DROP COLUMN `audioChapters`;--> statement-breakpoint
+ALTER TABLE `insights` DROP COLUMN `audioWaveform`;
\ No newline at end of file
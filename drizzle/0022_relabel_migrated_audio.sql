@@ -0,0 +1 @@
+UPDATE `audio_assets` SET `mode` = 'script' WHERE `voiceId` = '' AND `mode` = 'podcast';
\ No newline at end of file
@@ -1,4 +1,4 @@
-import { int, mysqlEnum, mysqlTable, text, longtext, timestamp, varchar, boolean, json, index } from "drizzle-orm/mysql-core";
+import { int, mysqlEnum, mysqlTable, text, longtext, timestamp, varchar, boolean, json, index, uniqueIndex } from "drizzle-orm/mysql-core";
 
 /**
  * Core user table backing auth flow.
@@ -13,6 +13,7 @@ export const users = mysqlTable("users", {
   createdAt: timestamp("createdAt").defaultNow().notNull(),
   updatedAt: timestamp("updatedAt").defaultNow().onUpdateNow().notNull(),
   lastSignedIn: timestamp("lastSignedIn").defaultNow().notNull(),
+  feedToken: varchar("feedToken", { length: 64 }).unique(), // Secret in the URL of the user's podcast feed
 });
 
 export type User = typeof users.$inferSelect;
@@ -53,13 +54,11 @@ export const insights = mysqlTable("insights", {
   summary: text("summary"),
   keyThemes: text("keyThemes"), // JSON array of theme strings
   audioScript: text("audioScript"), // Script for audio narration
-  audioUrl: text("audioUrl"),
-  audioKey: varchar("audioKey", { length: 255 }),
-  audioDuration: int("audioDuration"), // Duration in seconds
+  podcastScript: text("podcastScript"), // Two-host dialogue for podcast narration, written on first request
   pdfUrl: text("pdfUrl"),
   pdfKey: varchar("pdfKey", { length: 255 }),
   recommendedVisuals: text("recommendedVisuals"), // JSON array of visual types
-  status: mysqlEnum("status", ["pending", "generating", "completed", "failed"]).default("pending").notNull(),
+  status: mysqlEnum("status", ["pending", "generating", "completed", "failed", "cancelled"]).default("pending").notNull(),
   currentStage: varchar("currentStage", { length: 50 }), // Current generation stage: "analyzing", "generating", "finalizing"
   wordCount: int("wordCount").default(0),
   generationProgress: int("generationProgress").default(0),
@@ -106,6 +105,8 @@ export const contentBlocks = mysqlTable("content_blocks", {
   visualType: varchar("visualType", { length: 50 }),
   visualData: text("visualData"), // JSON string for visual configuration
   listItems: text("listItems"), // JSON array for list items
+  metadata: text("metadata"), // JSON section metadata (actionSteps, keyDistinction, goDeeper...) for premium section types
+  audioTimings: text("audioTimings"), // JSON BlockAudioTiming when the read-along narration covers this block
   orderIndex: int("orderIndex").default(0).notNull(),
   createdAt: timestamp("createdAt").defaultNow().notNull(),
 });
@@ -113,3 +114,157 @@ export const contentBlocks = mysqlTable("content_blocks", {
 export type ContentBlock = typeof contentBlocks.$inferSelect;
 export type InsertContentBlock = typeof contentBlocks.$inferInsert;
 
+/**
+ * Audio assets table - the narrations of an insight, one per length, mode
+ * and voice, so the player can switch between them
+ */
+export const audioAssets = mysqlTable("audio_assets", {
+  id: int("id").autoincrement().primaryKey(),
+  insightId: int("insightId").notNull().references(() => insights.id, { onDelete: 'cascade' }),
+  length: varchar("length", { length: 20 }).notNull(), // AudioLength: "full", "10min", "3min"
+  mode: varchar("mode", { length: 20 }).notNull(), // NarrationMode: "script", "readAlong", "podcast"
+  voiceId: varchar("voiceId", { length: 100 }).notNull(), // First host's voice in podcast mode
+  provider: varchar("provider", { length: 20 }).notNull(),
+  script: text("script"), // Narrated text of condensed lengths, reused for other voices
+  audioUrl: text("audioUrl").notNull(),
+  audioKey: varchar("audioKey", { length: 255 }).notNull(),
+  durationSeconds: int("durationSeconds"),
+  chapters: text("chapters"), // JSON array of { title, startMs, endMs } narration chapters
+  waveform: text("waveform"), // JSON array of waveform peaks (0-1) for the player scrubber
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+  updatedAt: timestamp("updatedAt").defaultNow().onUpdateNow().notNull(),
+}, (table) => ({
+  variantIdx: uniqueIndex("audioAssets_insightId_length_mode_voiceId_idx").on(table.insightId, table.length, table.mode, table.voiceId),
+}));
+
+export type AudioAsset = typeof audioAssets.$inferSelect;
+export type InsertAudioAsset = typeof audioAssets.$inferInsert;
+
+
+/**
+ * Jobs table - durable background work (insight generation, bulk exports)
+ * picked up by the worker loop in server/_core/jobQueue.ts
+ */
+export const jobs = mysqlTable("jobs", {
+  id: int("id").autoincrement().primaryKey(),
+  type: varchar("type", { length: 50 }).notNull(), // Handler key, e.g. "insight.generate"
+  status: mysqlEnum("status", ["queued", "running", "completed", "failed", "cancelled"]).default("queued").notNull(),
+  userId: int("userId").notNull().references(() => users.id, { onDelete: 'cascade' }),
+  insightId: int("insightId").references(() => insights.id, { onDelete: 'cascade' }),
+  payload: text("payload"), // JSON object passed to the handler
+  result: text("result"), // JSON object returned by the handler
+  attempts: int("attempts").default(0).notNull(),
+  maxAttempts: int("maxAttempts").default(3).notNull(),
+  lastError: text("lastError"),
+  runAt: timestamp("runAt").defaultNow().notNull(), // Earliest time the job may be claimed (backoff)
+  lockedAt: timestamp("lockedAt"), // Heartbeat of the worker holding the job
+  completedAt: timestamp("completedAt"),
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+  updatedAt: timestamp("updatedAt").defaultNow().onUpdateNow().notNull(),
+}, (table) => ({
+  statusRunAtIdx: index("jobs_status_runAt_idx").on(table.status, table.runAt),
+  insightIdIdx: index("jobs_insightId_idx").on(table.insightId),
+}));
+
+export type Job = typeof jobs.$inferSelect;
+export type InsertJob = typeof jobs.$inferInsert;
+
+/**
+ * Generation checkpoints table - output of each completed pipeline stage,
+ * so a failed or cancelled generation can resume instead of starting over
+ */
+export const generationCheckpoints = mysqlTable("generation_checkpoints", {
+  id: int("id").autoincrement().primaryKey(),
+  insightId: int("insightId").notNull().references(() => insights.id, { onDelete: 'cascade' }),
+  stage: varchar("stage", { length: 50 }).notNull(), // "analysis", "chunk:Foundation", "gapAnalysis", ...
+  data: longtext("data").notNull(), // JSON stage output
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+  updatedAt: timestamp("updatedAt").defaultNow().onUpdateNow().notNull(),
+}, (table) => ({
+  insightStageIdx: uniqueIndex("generationCheckpoints_insightId_stage_idx").on(table.insightId, table.stage),
+}));
+
+export type GenerationCheckpoint = typeof generationCheckpoints.$inferSelect;
+export type InsertGenerationCheckpoint = typeof generationCheckpoints.$inferInsert;
+
+/**
+ * Book analyses table - Stage 0 BookAnalysis (classification, structure,
+ * concepts, tone) kept per book for the Book Profile panel
+ */
+export const bookAnalyses = mysqlTable("book_analyses", {
+  id: int("id").autoincrement().primaryKey(),
+  bookId: int("bookId").notNull().unique().references(() => books.id, { onDelete: 'cascade' }),
+  insightId: int("insightId").references(() => insights.id, { onDelete: 'set null' }), // Generation that produced it
+  primaryCategory: varchar("primaryCategory", { length: 100 }),
+  complexityLevel: varchar("complexityLevel", { length: 50 }),
+  analysis: longtext("analysis").notNull(), // Full BookAnalysis JSON
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+  updatedAt: timestamp("updatedAt").defaultNow().onUpdateNow().notNull(),
+});
+
+export type BookAnalysisRecord = typeof bookAnalyses.$inferSelect;
+export type InsertBookAnalysisRecord = typeof bookAnalyses.$inferInsert;
+
+/**
+ * Insight exports table - stored export artifacts keyed by a hash of the
+ * insight content, format and template version, so unchanged exports are
+ * served again instead of re-rendered and re-uploaded
+ */
+export const insightExports = mysqlTable("insight_exports", {
+  id: int("id").autoincrement().primaryKey(),
+  insightId: int("insightId").notNull().references(() => insights.id, { onDelete: 'cascade' }),
+  userId: int("userId").notNull().references(() => users.id, { onDelete: 'cascade' }),
+  format: varchar("format", { length: 20 }).notNull(), // "pdf", "epub", "markdown", ...
+  contentHash: varchar("contentHash", { length: 64 }).notNull(), // sha256 hex
+  templateVersion: int("templateVersion").notNull(),
+  fileKey: varchar("fileKey", { length: 255 }).notNull(),
+  fileUrl: text("fileUrl").notNull(),
+  result: longtext("result").notNull(), // JSON export procedure result, returned on cache hits
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+}, (table) => ({
+  insightFormatHashIdx: uniqueIndex("insightExports_insightId_format_hash_idx").on(table.insightId, table.format, table.contentHash),
+}));
+
+export type InsightExport = typeof insightExports.$inferSelect;
+export type InsertInsightExport = typeof insightExports.$inferInsert;
+
+/**
+ * Playback positions table - where each user left off in each insight's
+ * narration, so playback resumes on any device
+ */
+export const playbackPositions = mysqlTable("playback_positions", {
+  id: int("id").autoincrement().primaryKey(),
+  userId: int("userId").notNull().references(() => users.id, { onDelete: 'cascade' }),
+  insightId: int("insightId").notNull().references(() => insights.id, { onDelete: 'cascade' }),
+  audioAssetId: int("audioAssetId").references(() => audioAssets.id, { onDelete: 'set null' }), // Narration the position is in
+  positionSeconds: int("positionSeconds").default(0).notNull(),
+  durationSeconds: int("durationSeconds"), // Length of the narration the position was saved against
+  completed: boolean("completed").default(false).notNull(), // Listened to the end; playback starts over
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+  updatedAt: timestamp("updatedAt").defaultNow().onUpdateNow().notNull(),
+}, (table) => ({
+  userInsightIdx: uniqueIndex("playbackPositions_userId_insightId_idx").on(table.userId, table.insightId),
+}));
+
+export type PlaybackPosition = typeof playbackPositions.$inferSelect;
+export type InsertPlaybackPosition = typeof playbackPositions.$inferInsert;
+
+/**
+ * Listening sessions table - one row per stretch of uninterrupted playback
+ */
+export const listeningSessions = mysqlTable("listening_sessions", {
+  id: int("id").autoincrement().primaryKey(),
+  userId: int("userId").notNull().references(() => users.id, { onDelete: 'cascade' }),
+  insightId: int("insightId").notNull().references(() => insights.id, { onDelete: 'cascade' }),
+  startPositionSeconds: int("startPositionSeconds").notNull(),
+  endPositionSeconds: int("endPositionSeconds").notNull(),
+  listenedSeconds: int("listenedSeconds").default(0).notNull(), // Time actually played, excluding seeks
+  startedAt: timestamp("startedAt").defaultNow().notNull(),
+  endedAt: timestamp("endedAt").defaultNow().notNull(),
+}, (table) => ({
+  userIdIdx: index("listeningSessions_userId_idx").on(table.userId),
+  insightIdIdx: index("listeningSessions_insightId_idx").on(table.insightId),
+}));
+
+export type ListeningSession = typeof listeningSessions.$inferSelect;
+export type InsertListeningSession = typeof listeningSessions.$inferInsert;
@@ -21,6 +21,11 @@ function isSecureRequest(req: Request) {
   return protoList.some(proto => proto.trim().toLowerCase() === "https");
 }
 
+/** Scheme and host the client used, for absolute links back to the app */
+export function getRequestOrigin(req: Request) {
+  return `${isSecureRequest(req) ? "https" : "http"}://${req.get("host")}`;
+}
+
 export function getSessionCookieOptions(
   req: Request
 ): Pick<CookieOptions, "domain" | "httpOnly" | "path" | "sameSite" | "secure"> {
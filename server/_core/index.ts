@@ -4,12 +4,16 @@ import { createServer } from "http";
 import net from "net";
 import { createExpressMiddleware } from "@trpc/server/adapters/express";
 import { registerOAuthRoutes } from "./oauth";
+import { registerPodcastFeedRoutes } from "./podcastFeed";
 import { appRouter } from "../routers";
 import { createContext } from "./context";
 import { serveStatic, setupVite } from "./vite";
 import { getRedisClient, isRedisAvailable } from "./redis";
 import { initWebSocket } from "./websocket";
 import { standardLimiter } from "./rateLimiter";
+import { startJobWorker } from "./jobQueue";
+import { registerInsightGenerationJob } from "../services/insightGenerationJob";
+import { registerLibraryExportJob } from "../services/libraryExportJob";
 
 function isPortAvailable(port: number): Promise<boolean> {
   return new Promise(resolve => {
@@ -42,6 +46,11 @@ async function startServer() {
   initWebSocket(server);
   console.log('[Server] WebSocket server initialized');
 
+  // Start the background worker for queued generation and export jobs
+  registerInsightGenerationJob();
+  registerLibraryExportJob();
+  startJobWorker();
+
   // Apply standard rate limiting to all API routes
   app.use('/api', standardLimiter);
 
@@ -60,6 +69,8 @@ async function startServer() {
 
   // OAuth callback under /api/oauth/callback
   registerOAuthRoutes(app);
+  // Private podcast feeds under /api/podcast/:token/feed.xml
+  registerPodcastFeedRoutes(app);
   // tRPC API
   app.use(
     "/api/trpc",
@@ -0,0 +1,266 @@
+/**
+ * Durable Job Queue
+ *
+ * Long-running work (insight generation, bulk exports) is persisted in the
+ * `jobs` table instead of running inside a request, so it survives browser
+ * refreshes, proxy timeouts and server restarts. An in-process worker polls
+ * for due jobs, runs the registered handler and retries failures with
+ * exponential backoff.
+ */
+
+import * as db from '../db';
+import { safeJsonParse } from '../db';
+import type { Job } from '../../drizzle/schema';
+
+const POLL_INTERVAL_MS = 2000;
+const HEARTBEAT_INTERVAL_MS = 30_000;
+// A running job whose heartbeat is older than this is assumed orphaned
+const STALE_LOCK_MS = 2 * 60_000;
+const STALE_SWEEP_INTERVAL_MS = 60_000;
+const BACKOFF_BASE_MS = 30_000;
+const BACKOFF_MAX_MS = 10 * 60_000;
+
+/**
+ * Context passed to a job handler for a single attempt
+ */
+export interface JobContext<TPayload = Record<string, unknown>> {
+  job: Job;
+  payload: TPayload;
+  attempt: number;
+  isFinalAttempt: boolean;
+  /** Aborted when the job is cancelled; pass it to every LLM/network call */
+  signal: AbortSignal;
+  /** Refresh the job lock; called automatically on an interval */
+  heartbeat: () => Promise<void>;
+}
+
+export interface JobHandler<TPayload = Record<string, unknown>> {
+  run: (ctx: JobContext<TPayload>) => Promise<unknown>;
+  /** Called when an attempt failed and a retry has been scheduled */
+  onRetry?: (ctx: JobContext<TPayload>, error: string, delayMs: number) => Promise<void>;
+  /** Called once when the job has exhausted its attempts */
+  onFailed?: (ctx: JobContext<TPayload>, error: string) => Promise<void>;
+  /** Called when a running attempt stopped because the job was cancelled */
+  onCancelled?: (ctx: JobContext<TPayload>) => Promise<void>;
+}
+
+export interface EnqueueJobOptions {
+  type: string;
+  userId: number;
+  insightId?: number | null;
+  payload?: Record<string, unknown>;
+  maxAttempts?: number;
+}
+
+const handlers = new Map<string, JobHandler<unknown>>();
+// Running jobs on this worker, keyed by job ID, so they can be aborted
+const activeJobs = new Map<number, AbortController>();
+
+let pollTimer: NodeJS.Timeout | null = null;
+let lastStaleSweep = 0;
+let concurrency = 1;
+
+/**
+ * Register the handler for a job type
+ */
+export function registerJobHandler<TPayload>(type: string, handler: JobHandler<TPayload>): void {
+  const { run, onRetry, onFailed, onCancelled } = handler;
+  // Payloads are parsed from JSON; a job of this type was enqueued with a TPayload
+  const typed = (ctx: JobContext<unknown>): JobContext<TPayload> => ({ ...ctx, payload: ctx.payload as TPayload });
+  handlers.set(type, {
+    run: ctx => run(typed(ctx)),
+    onRetry: onRetry && ((ctx, error, delayMs) => onRetry(typed(ctx), error, delayMs)),
+    onFailed: onFailed && ((ctx, error) => onFailed(typed(ctx), error)),
+    onCancelled: onCancelled && (ctx => onCancelled(typed(ctx))),
+  });
+}
+
+/**
+ * Persist a job for the worker to pick up. Returns the job ID.
+ */
+export async function enqueueJob(options: EnqueueJobOptions): Promise<number> {
+  const jobId = await db.createJob({
+    type: options.type,
+    userId: options.userId,
+    insightId: options.insightId ?? null,
+    payload: JSON.stringify(options.payload ?? {}),
+    maxAttempts: options.maxAttempts ?? 3,
+    status: 'queued',
+    runAt: new Date(),
+  });
+  console.log(`[JobQueue] Enqueued ${options.type} job ${jobId}`);
+
+  // Pick it up right away instead of waiting for the next poll
+  setImmediate(() => void tick());
+  return jobId;
+}
+
+/**
+ * Cancel a queued or running job. A running job is aborted immediately when
+ * it runs on this process, otherwise at its next heartbeat.
+ * Returns false if the job had already finished.
+ */
+export async function cancelJob(jobId: number): Promise<boolean> {
+  const job = await db.getJobById(jobId);
+  if (!job || (job.status !== 'queued' && job.status !== 'running')) {
+    return false;
+  }
+
+  await db.updateJob(jobId, {
+    status: 'cancelled',
+    lockedAt: null,
+    completedAt: new Date(),
+  });
+  activeJobs.get(jobId)?.abort(new Error('Job cancelled'));
+  console.log(`[JobQueue] Cancelled ${job.type} job ${jobId}`);
+  return true;
+}
+
+/**
+ * Exponential backoff delay before retrying after the given failed attempt
+ */
+export function computeBackoffDelay(
+  attempt: number,
+  baseMs: number = BACKOFF_BASE_MS,
+  maxMs: number = BACKOFF_MAX_MS
+): number {
+  const exponent = Math.max(0, attempt - 1);
+  return Math.min(baseMs * Math.pow(2, exponent), maxMs);
+}
+
+/**
+ * Start polling for due jobs
+ */
+export function startJobWorker(options: { concurrency?: number } = {}): void {
+  if (pollTimer) {
+    console.log('[JobQueue] Worker already running');
+    return;
+  }
+  concurrency = Math.max(1, options.concurrency ?? 1);
+  pollTimer = setInterval(() => void tick(), POLL_INTERVAL_MS);
+  console.log(`[JobQueue] Worker started (concurrency ${concurrency}, handlers: ${Array.from(handlers.keys()).join(', ')})`);
+  void tick();
+}
+
+/**
+ * Stop polling. Jobs already running are left to finish.
+ */
+export function stopJobWorker(): void {
+  if (pollTimer) {
+    clearInterval(pollTimer);
+    pollTimer = null;
+  }
+}
+
+async function tick(): Promise<void> {
+  try {
+    const now = Date.now();
+    if (now - lastStaleSweep > STALE_SWEEP_INTERVAL_MS) {
+      lastStaleSweep = now;
+      const requeued = await db.requeueStaleJobs(new Date(now - STALE_LOCK_MS));
+      if (requeued > 0) {
+        console.log(`[JobQueue] Requeued ${requeued} orphaned job(s)`);
+      }
+    }
+
+    while (activeJobs.size < concurrency) {
+      const job = await db.claimNextJob(Array.from(handlers.keys()));
+      if (!job) break;
+      const controller = new AbortController();
+      activeJobs.set(job.id, controller);
+      void processJob(job, controller)
+        // Recording the outcome can fail too (e.g. the database drops mid-job)
+        .catch(error => console.error(`[JobQueue] Job ${job.id} could not be completed:`, error))
+        .finally(() => activeJobs.delete(job.id));
+    }
+  } catch (error) {
+    console.error('[JobQueue] Poll failed:', error);
+  }
+}
+
+async function processJob(job: Job, controller: AbortController): Promise<void> {
+  const handler = handlers.get(job.type);
+  if (!handler) return;
+
+  // Refresh the lock, and pick up cancellations made by another process
+  const heartbeat = async () => {
+    const current = await db.getJobById(job.id);
+    if (current?.status === 'cancelled') {
+      controller.abort(new Error('Job cancelled'));
+      return;
+    }
+    await db.updateJob(job.id, { lockedAt: new Date() });
+  };
+  const ctx: JobContext<unknown> = {
+    job,
+    payload: safeJsonParse<unknown>(job.payload, {}),
+    attempt: job.attempts,
+    isFinalAttempt: job.attempts >= job.maxAttempts,
+    signal: controller.signal,
+    heartbeat,
+  };
+
+  // A job can be reclaimed past its limit if the worker died mid-attempt
+  if (job.attempts > job.maxAttempts) {
+    await failJob(handler, ctx, job.lastError || 'Worker stopped during final attempt');
+    return;
+  }
+
+  console.log(`[JobQueue] Running ${job.type} job ${job.id} (attempt ${job.attempts}/${job.maxAttempts})`);
+  const heartbeatTimer = setInterval(() => {
+    heartbeat().catch(err => console.error(`[JobQueue] Heartbeat failed for job ${job.id}:`, err));
+  }, HEARTBEAT_INTERVAL_MS);
+
+  try {
+    const result = await handler.run(ctx);
+    controller.signal.throwIfAborted();
+    await db.updateJob(job.id, {
+      status: 'completed',
+      result: result === undefined ? null : JSON.stringify(result),
+      lastError: null,
+      lockedAt: null,
+      completedAt: new Date(),
+    });
+    console.log(`[JobQueue] Completed ${job.type} job ${job.id}`);
+  } catch (error) {
+    if (controller.signal.aborted) {
+      console.log(`[JobQueue] ${job.type} job ${job.id} stopped after cancellation`);
+      await handler.onCancelled?.(ctx).catch(err =>
+        console.error(`[JobQueue] onCancelled hook failed for job ${job.id}:`, err)
+      );
+      return;
+    }
+
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    console.error(`[JobQueue] ${job.type} job ${job.id} failed on attempt ${job.attempts}:`, errorMessage);
+
+    if (ctx.isFinalAttempt) {
+      await failJob(handler, ctx, errorMessage);
+    } else {
+      const delayMs = computeBackoffDelay(job.attempts);
+      await db.updateJob(job.id, {
+        status: 'queued',
+        lastError: errorMessage,
+        lockedAt: null,
+        runAt: new Date(Date.now() + delayMs),
+      });
+      await handler.onRetry?.(ctx, errorMessage, delayMs).catch(err =>
+        console.error(`[JobQueue] onRetry hook failed for job ${job.id}:`, err)
+      );
+    }
+  } finally {
+    clearInterval(heartbeatTimer);
+  }
+}
+
+async function failJob(handler: JobHandler<unknown>, ctx: JobContext<unknown>, errorMessage: string): Promise<void> {
+  await db.updateJob(ctx.job.id, {
+    status: 'failed',
+    lastError: errorMessage,
+    lockedAt: null,
+    completedAt: new Date(),
+  });
+  await handler.onFailed?.(ctx, errorMessage).catch(err =>
+    console.error(`[JobQueue] onFailed hook failed for job ${ctx.job.id}:`, err)
+  );
+}
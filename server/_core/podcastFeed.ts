@@ -0,0 +1,36 @@
+import type { Express, Request, Response } from "express";
+import * as db from "../db";
+import { getRequestOrigin } from "./cookies";
+import { buildPodcastFeed, getPodcastEpisodes, podcastFeedPath } from "../services/podcastFeed";
+
+export function registerPodcastFeedRoutes(app: Express) {
+  // The token is the only credential: podcast apps cannot sign in
+  app.get("/api/podcast/:token/feed.xml", async (req: Request, res: Response) => {
+    try {
+      const user = await db.getUserByFeedToken(req.params.token);
+      if (!user) {
+        res.status(404).json({ error: "Feed not found" });
+        return;
+      }
+
+      const origin = getRequestOrigin(req);
+      const episodes = await getPodcastEpisodes(user.id);
+      const xml = buildPodcastFeed(
+        {
+          title: user.name ? `Insight Atlas: ${user.name}'s Guides` : "Insight Atlas Guides",
+          description: "Narrated Insight Atlas guides to the books in your library.",
+          siteUrl: origin,
+          feedUrl: `${origin}${podcastFeedPath(req.params.token)}`,
+          imageUrl: `${origin}/insight-atlas-logo.png`,
+        },
+        episodes
+      );
+
+      res.set("Cache-Control", "private, max-age=300");
+      res.type("application/rss+xml").send(xml);
+    } catch (error) {
+      console.error("[Podcast] Feed failed", error);
+      res.status(500).json({ error: "Feed unavailable" });
+    }
+  });
+}
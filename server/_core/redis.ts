@@ -204,6 +204,29 @@ export const cache = {
     });
     return newValue;
   },
+
+  /**
+   * Decrement a counter
+   */
+  async decr(key: string): Promise<number> {
+    if (isRedisAvailable() && redisClient) {
+      try {
+        return await redisClient.decr(key);
+      } catch (error) {
+        console.warn('[Redis] Decr error, falling back to memory:', error);
+      }
+    }
+
+    // Memory fallback
+    const entry = memoryCache.get(key);
+    const current = entry ? parseInt(entry.value, 10) : 0;
+    const newValue = current - 1;
+    memoryCache.set(key, {
+      value: String(newValue),
+      expires: entry?.expires || 0,
+    });
+    return newValue;
+  },
 };
 
 /**
@@ -275,4 +298,25 @@ export const progressCache = {
     const key = `progress:${insightId}`;
     await cache.del(key);
   },
+
+  // Background jobs that are not tied to one insight (bulk exports)
+  async setJobProgress(jobId: number, progress: Record<string, unknown>): Promise<void> {
+    await cache.set(`progress:job:${jobId}`, JSON.stringify(progress), 3600);
+  },
+
+  async getJobProgress(jobId: number): Promise<Record<string, unknown> | null> {
+    const data = await cache.get(`progress:job:${jobId}`);
+    if (data) {
+      try {
+        return JSON.parse(data);
+      } catch {
+        return null;
+      }
+    }
+    return null;
+  },
+
+  async clearJobProgress(jobId: number): Promise<void> {
+    await cache.del(`progress:job:${jobId}`);
+  },
 };
@@ -17,6 +17,8 @@ function createRateLimiter(options: {
   maxRequests: number;
   keyPrefix: string;
   message?: string;
+  /** Give the request back when its result says it did no expensive work */
+  refundIf?: (data: unknown) => boolean;
 }) {
   return t.middleware(async ({ ctx, next }) => {
     const ip = ctx.req.ip || ctx.req.socket.remoteAddress || 'unknown';
@@ -46,7 +48,15 @@ function createRateLimiter(options: {
       console.warn('[RateLimit] Error checking rate limit:', error);
     }
 
-    return next();
+    const result = await next();
+
+    if (result.ok && options.refundIf?.(result.data)) {
+      await cache.decr(key).catch(error => {
+        console.warn('[RateLimit] Error refunding rate limit:', error);
+      });
+    }
+
+    return result;
   });
 }
 
@@ -77,6 +87,8 @@ const exportRateLimiter = createRateLimiter({
   maxRequests: 30,
   keyPrefix: 'export',
   message: 'Export limit reached. Maximum 30 exports per hour.',
+  // Served from the export cache (see services/exportCache.ts)
+  refundIf: (data) => typeof data === 'object' && data !== null && (data as { cached?: unknown }).cached === true,
 });
 
 // Export rate-limited procedures for use in routers
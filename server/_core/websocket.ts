@@ -2,25 +2,39 @@
  * WebSocket Server for Real-time Progress Updates
  *
  * Provides real-time progress updates for insight generation via WebSocket.
- * Supports subscribe/unsubscribe patterns for individual insights.
+ * Supports subscribe/unsubscribe patterns for individual insights, and
+ * subscribeJob/unsubscribeJob for background jobs that are not tied to one
+ * insight (bulk library exports). Job results can hold links to a user's
+ * data, so a connection may only follow the jobs of the user its session
+ * cookie belongs to.
  */
 
 import { WebSocket, WebSocketServer } from 'ws';
-import type { Server } from 'http';
+import type { IncomingMessage, Server } from 'http';
+import type { Request } from 'express';
 import { progressCache } from './redis';
+import { sdk } from './sdk';
+import * as db from '../db';
+import { safeJsonParse } from '../db';
+import type { Job } from '../../drizzle/schema';
+import { ANONYMOUS_USER_ID } from '../../shared/const';
 
 // Store active WebSocket connections
 let wss: WebSocketServer | null = null;
 
 // Map of insightId to connected clients
 const subscriptions = new Map<number, Set<WebSocket>>();
+// Map of jobId to connected clients
+const jobSubscriptions = new Map<number, Set<WebSocket>>();
+// User of each connection, resolved from the session cookie on upgrade
+const connectionUsers = new WeakMap<WebSocket, Promise<number>>();
 
 /**
  * Progress update message structure
  */
 export interface ProgressUpdate {
   insightId: number;
-  status: 'generating' | 'completed' | 'failed';
+  status: 'queued' | 'generating' | 'completed' | 'failed' | 'cancelled';
   percent: number;
   currentStep: string;
   sectionCount?: number;
@@ -29,13 +43,25 @@ export interface ProgressUpdate {
 }
 
 /**
- * Client message types
+ * Progress message for a job, sent as { type: 'jobProgress', ... }
  */
-interface ClientMessage {
-  type: 'subscribe' | 'unsubscribe' | 'getProgress';
-  insightId: number;
+export interface JobProgressUpdate {
+  jobId: number;
+  status: 'queued' | 'running' | 'completed' | 'failed' | 'cancelled';
+  percent: number;
+  currentStep: string;
+  /** The handler's result once the job has completed */
+  result?: Record<string, unknown>;
+  error?: string;
 }
 
+/**
+ * Client message types
+ */
+type ClientMessage =
+  | { type: 'subscribe' | 'unsubscribe' | 'getProgress'; insightId: number }
+  | { type: 'subscribeJob' | 'unsubscribeJob'; jobId: number };
+
 /**
  * Initialize WebSocket server
  */
@@ -53,17 +79,28 @@ export function initWebSocket(server: Server): WebSocketServer {
 
   console.log('[WebSocket] Server initialized on /ws');
 
-  wss.on('connection', (ws: WebSocket) => {
+  wss.on('connection', (ws: WebSocket, req: IncomingMessage) => {
     console.log('[WebSocket] Client connected');
+    connectionUsers.set(ws, resolveConnectionUser(req));
 
-    ws.on('message', async (data: Buffer) => {
+    ws.on('message', (data: Buffer) => {
+      let message: unknown;
       try {
-        const message: ClientMessage = JSON.parse(data.toString());
-        handleClientMessage(ws, message);
+        message = JSON.parse(data.toString());
       } catch (error) {
         console.error('[WebSocket] Invalid message:', error);
+      }
+      if (!isClientMessage(message)) {
         ws.send(JSON.stringify({ type: 'error', message: 'Invalid message format' }));
+        return;
       }
+
+      handleClientMessage(ws, message).catch((error) => {
+        console.error('[WebSocket] Failed to handle message:', error);
+        if (ws.readyState === WebSocket.OPEN) {
+          ws.send(JSON.stringify({ type: 'error', message: 'Request failed' }));
+        }
+      });
     });
 
     ws.on('close', () => {
@@ -90,17 +127,48 @@ export function initWebSocket(server: Server): WebSocketServer {
   return wss;
 }
 
+/**
+ * The user a connection acts as: the session's user, or the anonymous
+ * user without a valid session (as for tRPC procedures)
+ */
+async function resolveConnectionUser(req: IncomingMessage): Promise<number> {
+  try {
+    // Only the cookie header is read from the request
+    const user = await sdk.authenticateRequest(req as Request);
+    return user.id;
+  } catch {
+    return ANONYMOUS_USER_ID;
+  }
+}
+
+/**
+ * Whether a parsed message has the shape of a ClientMessage; clients may
+ * send any JSON value
+ */
+function isClientMessage(value: unknown): value is ClientMessage {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return false;
+  const message = value as Record<string, unknown>;
+  if (message.type === 'subscribeJob' || message.type === 'unsubscribeJob') {
+    return typeof message.jobId === 'number';
+  }
+  return typeof message.type === 'string' && typeof message.insightId === 'number' && !('jobId' in message);
+}
+
 /**
  * Handle incoming client messages
  */
 async function handleClientMessage(ws: WebSocket, message: ClientMessage): Promise<void> {
+  if ('jobId' in message) {
+    return handleJobMessage(ws, message.type, message.jobId);
+  }
+
   const { type, insightId } = message;
 
   switch (type) {
     case 'subscribe':
       subscribe(ws, insightId);
       // Send current progress if available
-      const progress = await progressCache.getProgress(insightId);
+      const progress = await getCurrentProgress(insightId);
       if (progress) {
         ws.send(JSON.stringify({
           type: 'progress',
@@ -115,7 +183,7 @@ async function handleClientMessage(ws: WebSocket, message: ClientMessage): Promi
       break;
 
     case 'getProgress':
-      const currentProgress = await progressCache.getProgress(insightId);
+      const currentProgress = await getCurrentProgress(insightId);
       ws.send(JSON.stringify({
         type: currentProgress ? 'progress' : 'noProgress',
         insightId,
@@ -128,6 +196,107 @@ async function handleClientMessage(ws: WebSocket, message: ClientMessage): Promi
   }
 }
 
+/**
+ * Latest progress for an insight: the live cache first, then the persisted
+ * job state (covers late subscribers after a restart or cache expiry)
+ */
+async function getCurrentProgress(insightId: number): Promise<Omit<ProgressUpdate, 'insightId'> | null> {
+  const cached = await progressCache.getProgress(insightId);
+  if (cached) return cached as Omit<ProgressUpdate, 'insightId'>;
+
+  const job = await db.getLatestJobByInsightId(insightId);
+  if (!job) return null;
+  const insight = await db.getInsightById(insightId);
+
+  switch (job.status) {
+    case 'queued':
+      return {
+        status: 'queued',
+        percent: 0,
+        currentStep: job.attempts > 0
+          ? `Retrying (attempt ${job.attempts + 1} of ${job.maxAttempts})`
+          : 'Waiting in queue',
+      };
+    case 'running':
+      return {
+        status: 'generating',
+        percent: insight?.generationProgress ?? 0,
+        currentStep: insight?.currentStage || 'Generating',
+      };
+    case 'completed':
+      return {
+        status: 'completed',
+        percent: 100,
+        currentStep: 'Complete',
+        wordCount: insight?.wordCount ?? undefined,
+      };
+    case 'failed':
+      return {
+        status: 'failed',
+        percent: 0,
+        currentStep: 'Failed',
+        error: 'Generation failed. Please try again.',
+      };
+    case 'cancelled':
+      return {
+        status: 'cancelled',
+        percent: 0,
+        currentStep: 'Cancelled',
+      };
+  }
+}
+
+async function handleJobMessage(ws: WebSocket, type: 'subscribeJob' | 'unsubscribeJob', jobId: number): Promise<void> {
+  if (type === 'unsubscribeJob') {
+    removeSubscriber(jobSubscriptions, jobId, ws);
+    ws.send(JSON.stringify({ type: 'unsubscribedJob', jobId }));
+    return;
+  }
+
+  const [job, userId] = await Promise.all([db.getJobById(jobId), connectionUsers.get(ws) ?? ANONYMOUS_USER_ID]);
+  if (!job || job.userId !== userId) {
+    ws.send(JSON.stringify({ type: 'error', jobId, message: 'Job not found' }));
+    return;
+  }
+
+  if (!jobSubscriptions.has(jobId)) {
+    jobSubscriptions.set(jobId, new Set());
+  }
+  jobSubscriptions.get(jobId)!.add(ws);
+  ws.send(JSON.stringify({ type: 'subscribedJob', jobId }));
+
+  const progress = await getCurrentJobProgress(job);
+  if (progress) {
+    ws.send(JSON.stringify({ type: 'jobProgress', jobId, ...progress }));
+  }
+}
+
+/**
+ * Latest progress for a job: the live cache first, then the job row
+ */
+async function getCurrentJobProgress(job: Job): Promise<Omit<JobProgressUpdate, 'jobId'> | null> {
+  const cached = await progressCache.getJobProgress(job.id);
+  if (cached) return cached as Omit<JobProgressUpdate, 'jobId'>;
+
+  switch (job.status) {
+    case 'queued':
+      return { status: 'queued', percent: 0, currentStep: 'Waiting in queue' };
+    case 'running':
+      return { status: 'running', percent: 0, currentStep: 'Running' };
+    case 'completed':
+      return {
+        status: 'completed',
+        percent: 100,
+        currentStep: 'Complete',
+        result: safeJsonParse<Record<string, unknown> | undefined>(job.result, undefined),
+      };
+    case 'failed':
+      return { status: 'failed', percent: 0, currentStep: 'Failed', error: job.lastError ?? undefined };
+    case 'cancelled':
+      return { status: 'cancelled', percent: 0, currentStep: 'Cancelled' };
+  }
+}
+
 /**
  * Subscribe a client to an insight's progress updates
  */
@@ -164,14 +333,22 @@ function unsubscribe(ws: WebSocket, insightId: number): void {
 }
 
 /**
- * Unsubscribe a client from all insights
+ * Unsubscribe a client from all insights and jobs
  */
 function unsubscribeAll(ws: WebSocket): void {
-  const entries = Array.from(subscriptions.entries());
-  for (const [insightId, subs] of entries) {
+  for (const map of [subscriptions, jobSubscriptions]) {
+    for (const id of Array.from(map.keys())) {
+      removeSubscriber(map, id, ws);
+    }
+  }
+}
+
+function removeSubscriber(map: Map<number, Set<WebSocket>>, id: number, ws: WebSocket): void {
+  const subs = map.get(id);
+  if (subs) {
     subs.delete(ws);
     if (subs.size === 0) {
-      subscriptions.delete(insightId);
+      map.delete(id);
     }
   }
 }
@@ -209,14 +386,40 @@ export async function broadcastProgress(update: ProgressUpdate): Promise<void> {
     console.log(`[WebSocket] Broadcast progress to ${subs.size} clients for insight ${update.insightId}: ${update.percent}%`);
   }
 
-  // Clear progress cache on completion or failure
-  if (update.status === 'completed' || update.status === 'failed') {
+  // Clear progress cache once the generation has ended
+  if (update.status === 'completed' || update.status === 'failed' || update.status === 'cancelled') {
     setTimeout(() => {
       progressCache.clearProgress(update.insightId);
     }, 60000); // Keep for 1 minute after completion
   }
 }
 
+/**
+ * Broadcast a job progress update to all subscribed clients
+ */
+export async function broadcastJobProgress(update: JobProgressUpdate): Promise<void> {
+  const { jobId, ...progress } = update;
+  await progressCache.setJobProgress(jobId, progress);
+
+  const subs = jobSubscriptions.get(jobId);
+  if (subs && subs.size > 0) {
+    const message = JSON.stringify({ type: 'jobProgress', ...update });
+    for (const ws of Array.from(subs)) {
+      if (ws.readyState === WebSocket.OPEN) {
+        ws.send(message);
+      } else {
+        subs.delete(ws);
+      }
+    }
+  }
+
+  if (update.status === 'completed' || update.status === 'failed' || update.status === 'cancelled') {
+    setTimeout(() => {
+      progressCache.clearJobProgress(jobId);
+    }, 60000);
+  }
+}
+
 /**
  * Send completion notification
  */
@@ -248,6 +451,18 @@ export async function notifyFailed(insightId: number, error: string): Promise<vo
   });
 }
 
+/**
+ * Send cancellation notification
+ */
+export async function notifyCancelled(insightId: number): Promise<void> {
+  await broadcastProgress({
+    insightId,
+    status: 'cancelled',
+    percent: 0,
+    currentStep: 'Cancelled',
+  });
+}
+
 /**
  * Get current connection stats
  */
@@ -0,0 +1,58 @@
+import { describe, it, expect } from 'vitest';
+import { analyzeAudio, mp3DurationMs, parseMp3Frames } from './services/audioAnalysis';
+import { buildChapterTag, stitchMp3 } from './services/audioStitching';
+
+// MPEG-1 Layer III, 128kbps, 44.1kHz, mono: 417 bytes and 1152 samples per frame
+const FRAME_LENGTH = 417;
+
+function frame(globalGain: number, tag?: string): Buffer {
+  const buffer = Buffer.alloc(FRAME_LENGTH);
+  buffer.set([0xff, 0xfb, 0x90, 0xc0]);
+  // Side info: main_data_begin (9), private bits (5) and scfsi (4) precede granule 0
+  let bit = 4 * 8 + 18;
+  const write = (value: number, bits: number) => {
+    for (let i = bits - 1; i >= 0; i--, bit++) {
+      if ((value >> i) & 1) buffer[bit >> 3] |= 0x80 >> (bit & 7);
+    }
+  };
+  const silent = globalGain === 0;
+  write(silent ? 0 : 400, 12);
+  write(0, 9);
+  write(globalGain, 8);
+  if (tag) buffer.write(tag, 4 + 17, 'latin1');
+  return buffer;
+}
+
+const frames = (count: number, globalGain: number) => Array.from({ length: count }, () => frame(globalGain));
+
+describe('Audio Analysis', () => {
+  it('should compute MP3 duration from frame headers, skipping tags and the Info frame', () => {
+    const mp3 = Buffer.concat([
+      buildChapterTag([{ title: 'Intro', startMs: 0, endMs: 1000 }]),
+      frame(0, 'Info'),
+      ...frames(50, 180),
+      Buffer.from([0x00, 0xff, 0x12]),
+      ...frames(50, 180),
+    ]);
+
+    expect(parseMp3Frames(mp3)).toHaveLength(100);
+    expect(mp3DurationMs(mp3)).toBe(Math.round((100 * 1152 / 44100) * 1000));
+  });
+
+  it('should estimate waveform peaks from granule gain', () => {
+    const mp3 = Buffer.concat([...frames(20, 190), ...frames(20, 182), ...frames(20, 0)]);
+    const { peaks } = analyzeAudio(mp3, 'mp3', 6);
+
+    // 8 steps of global gain is 2^(8/4), a quarter of the amplitude
+    expect(peaks).toEqual([1, 1, 0.25, 0.25, 0, 0]);
+  });
+
+  it('should keep only the stitched file\'s own headers', () => {
+    const chunk = Buffer.concat([buildChapterTag([], 'chunk'), frame(0, 'Xing'), ...frames(10, 180)]);
+    const stitched = stitchMp3([chunk, chunk], [{ title: 'All', startMs: 0, endMs: 522 }]);
+
+    expect(parseMp3Frames(stitched)).toHaveLength(20);
+    expect(stitched.includes(Buffer.from('Xing'))).toBe(false);
+    expect(mp3DurationMs(stitched)).toBe(2 * mp3DurationMs(chunk));
+  });
+});
@@ -0,0 +1,64 @@
+import { describe, it, expect } from 'vitest';
+import { fitScriptToDuration, primaryAudioAsset, sortAudioAssets, wordsForDuration } from './services/audioAssets';
+import { estimateAudioDuration } from './services/audioGeneration';
+
+const words = (count: number, word: string = 'habit') => Array(count).fill(word).join(' ');
+
+const asset = (id: number, length: string, mode: string, updatedAt: string) => ({
+  id,
+  length,
+  mode,
+  updatedAt: new Date(updatedAt),
+});
+
+describe('Audio Assets', () => {
+  it('should budget words from the target duration', () => {
+    expect(wordsForDuration(180)).toBe(450);
+    expect(wordsForDuration(600)).toBe(1500);
+    expect(estimateAudioDuration(words(wordsForDuration(180)))).toBe(180);
+  });
+
+  it('should leave scripts that fit their duration alone', () => {
+    const script = `## Start\n\n${words(100)}\n\n## Takeaway\n\n${words(50)}`;
+
+    expect(fitScriptToDuration(script, 60)).toBe(script);
+  });
+
+  it('should drop topics from the end of a long script but keep the closing takeaway', () => {
+    const script = [
+      `## The Habit Loop\n\n${words(200, 'loop')}`,
+      `## Identity\n\n${words(200, 'identity')}`,
+      `## Environment\n\n${words(200, 'environment')}`,
+      `## Takeaway\n\n${words(100, 'takeaway')}`,
+    ].join('\n\n');
+
+    const fitted = fitScriptToDuration(script, 180);
+
+    expect(estimateAudioDuration(fitted)).toBeLessThanOrEqual(198);
+    expect(fitted).toContain('## The Habit Loop');
+    expect(fitted).not.toContain('## Environment');
+    expect(fitted.endsWith(words(100, 'takeaway'))).toBe(true);
+  });
+
+  it('should trim by paragraph when the script has no headings', () => {
+    const script = [words(300, 'first'), words(300, 'second'), words(50, 'last')].join('\n\n');
+
+    const fitted = fitScriptToDuration(script, 180);
+
+    expect(fitted).toBe([words(300, 'first'), words(50, 'last')].join('\n\n'));
+  });
+
+  it('should order narrations by length and mode, and prefer the newest full one', () => {
+    const assets = [
+      asset(1, '3min', 'script', '2026-01-03'),
+      asset(2, 'full', 'podcast', '2026-01-02'),
+      asset(3, 'full', 'script', '2026-01-01'),
+      asset(4, '10min', 'script', '2026-01-04'),
+    ];
+
+    expect(sortAudioAssets(assets).map(a => a.id)).toEqual([3, 2, 4, 1]);
+    expect(primaryAudioAsset(assets)?.id).toBe(2);
+    expect(primaryAudioAsset([assets[0], assets[3]])?.id).toBe(4);
+    expect(primaryAudioAsset([])).toBeUndefined();
+  });
+});
@@ -0,0 +1,83 @@
+import { describe, it, expect } from 'vitest';
+import { splitDialogueScript, splitNarrationScript } from './services/audioGeneration';
+import { buildChapterTag, readChapterTag, stitchMp3, stripId3Tags } from './services/audioStitching';
+
+// Stand-in for MPEG audio frames; stitching never decodes them
+const frames = (byte: number, length: number) => Buffer.alloc(length, byte);
+
+describe('Audio Generation', () => {
+  it('should split a script into one section per heading without reading headings aloud', () => {
+    const script = [
+      'Welcome to the guide.',
+      '',
+      '## The Habit Loop',
+      'Every habit starts with a cue.',
+      'The cue triggers a craving.',
+      '',
+      '**Key Takeaway**',
+      'Make it obvious.',
+    ].join('\n');
+
+    const sections = splitNarrationScript(script);
+
+    expect(sections.map(section => section.title)).toEqual(['Introduction', 'The Habit Loop', 'Key Takeaway']);
+    expect(sections[1].chunks).toEqual(['Every habit starts with a cue. The cue triggers a craving.']);
+    expect(sections.flatMap(section => section.chunks).join(' ')).not.toContain('##');
+  });
+
+  it('should keep every chunk under the character limit', () => {
+    const sentence = 'Small changes compound into remarkable results over time. ';
+    const script = `${sentence.repeat(20)}\n\n${'word '.repeat(100)}\n\n${sentence.repeat(3)}`;
+
+    const sections = splitNarrationScript(script, 200);
+    const chunks = sections.flatMap(section => section.chunks);
+
+    expect(sections[0].title).toBe('Part 1');
+    expect(sections.every(section => section.chunks.length === 1)).toBe(true);
+    expect(chunks.every(chunk => chunk.length <= 200)).toBe(true);
+    expect(chunks.join(' ').replace(/\s+/g, ' ')).toBe(script.replace(/\s+/g, ' ').trim());
+  });
+
+  it('should split a dialogue into turns voiced by their speaker', () => {
+    const script = [
+      'Welcome back to the show.',
+      '',
+      '## The Habit Loop',
+      'Alex: Every habit starts with a cue.',
+      'And the cue triggers a craving.',
+      '**Sam:** But is it really that simple?',
+      'Note: this line continues Sam\'s turn.',
+      '',
+      '## Wrapping Up',
+      '**Alex**: Make it obvious.',
+    ].join('\n');
+
+    const sections = splitDialogueScript(script, ['Alex', 'Sam']);
+
+    expect(sections.map(section => section.title)).toEqual(['Episode', 'The Habit Loop', 'Wrapping Up']);
+    expect(sections[1].chunks).toEqual([
+      'Every habit starts with a cue. And the cue triggers a craving.',
+      'But is it really that simple? Note: this line continues Sam\'s turn.',
+    ]);
+    expect(sections.map(section => section.speakers)).toEqual([[0], [0, 1], [0]]);
+  });
+
+  it('should stitch chunks behind an ID3 tag with one chapter per section', () => {
+    const chapters = [
+      { title: 'Introduction', startMs: 0, endMs: 12500 },
+      { title: 'Atomic Habits — “1%” better', startMs: 12500, endMs: 30000 },
+    ];
+    const id3v1 = Buffer.concat([Buffer.from('TAG'), Buffer.alloc(125)]);
+    const chunkWithTags = Buffer.concat([buildChapterTag([], 'old'), frames(0xaa, 64), id3v1]);
+
+    const tag = buildChapterTag(chapters, 'Atomic Habits');
+    const stitched = stitchMp3([chunkWithTags, frames(0xbb, 32)], chapters, 'Atomic Habits');
+
+    expect(stripId3Tags(chunkWithTags)).toEqual(frames(0xaa, 64));
+    expect(stitched.subarray(0, 5).toString('latin1')).toBe('ID3\u0003\u0000');
+    expect(stitched.length).toBe(tag.length + 96);
+    expect(stripId3Tags(stitched)).toEqual(Buffer.concat([frames(0xaa, 64), frames(0xbb, 32)]));
+    expect(stitched.includes(Buffer.from('CTOC'))).toBe(true);
+    expect(readChapterTag(stitched)).toEqual(chapters);
+  });
+});
@@ -0,0 +1,123 @@
+import { describe, it, expect } from 'vitest';
+import { splitIntoSegments, buildBookDigest, ChapterNote } from './services/chapterNotes';
+
+const paragraph = (label: string, chars: number) =>
+  `${label} ` + 'lorem ipsum dolor sit amet '.repeat(Math.ceil(chars / 27)).slice(0, chars);
+
+describe('Chapter Notes', () => {
+  describe('splitIntoSegments', () => {
+    it('should split on chapter headings and cover the whole text', () => {
+      const text = [
+        'Chapter 1: Beginnings',
+        paragraph('first', 5000),
+        'Chapter 2: Middles',
+        paragraph('second', 5000),
+        'Chapter 3: Endings',
+        paragraph('third', 5000),
+      ].join('\n\n');
+
+      const segments = splitIntoSegments(text);
+
+      expect(segments.map(s => s.title)).toEqual([
+        'Chapter 1: Beginnings',
+        'Chapter 2: Middles',
+        'Chapter 3: Endings',
+      ]);
+      expect(segments[2].text).toContain('third');
+      expect(segments.map(s => s.index)).toEqual([0, 1, 2]);
+    });
+
+    it('should recognise roman numerals and spelled-out numbers', () => {
+      const text = [
+        'PART I',
+        paragraph('a', 3000),
+        'Chapter Two',
+        paragraph('b', 3000),
+      ].join('\n\n');
+
+      expect(splitIntoSegments(text).map(s => s.title)).toEqual(['PART I', 'Chapter Two']);
+    });
+
+    it('should merge tiny sections such as table of contents entries', () => {
+      const text = [
+        'Chapter 1 Intro',
+        'Chapter 2 Method',
+        'Chapter 1 Intro',
+        paragraph('intro', 4000),
+        'Chapter 2 Method',
+        paragraph('method', 4000),
+      ].join('\n');
+
+      const segments = splitIntoSegments(text);
+
+      expect(segments).toHaveLength(2);
+      expect(segments.every(s => s.text.length >= 2000)).toBe(true);
+    });
+
+    it('should window oversized chapters into parts', () => {
+      const text = `Chapter 1 Long\n\n${paragraph('long', 25000)}\n\n${paragraph('more', 25000)}`;
+
+      const segments = splitIntoSegments(text, { maxChars: 30000 });
+
+      expect(segments.length).toBe(2);
+      expect(segments[0].title).toBe('Chapter 1 Long (part 1)');
+      expect(segments[1].title).toBe('Chapter 1 Long (part 2)');
+      expect(segments.every(s => s.text.length <= 30000)).toBe(true);
+    });
+
+    it('should fall back to fixed windows when there are no headings', () => {
+      const text = `${paragraph('a', 20000)}\n\n${paragraph('b', 20000)}\n\n${paragraph('c', 20000)}`;
+
+      const segments = splitIntoSegments(text, { maxChars: 30000 });
+
+      expect(segments.length).toBeGreaterThanOrEqual(2);
+      expect(segments[0].title).toBe('Section 1');
+      expect(segments[segments.length - 1].text).toContain('c lorem');
+    });
+
+    it('should return nothing for empty text', () => {
+      expect(splitIntoSegments('   ')).toEqual([]);
+    });
+  });
+
+  describe('buildBookDigest', () => {
+    const note = (index: number): ChapterNote => ({
+      index,
+      title: `Chapter ${index + 1}`,
+      summary: `Summary of chapter ${index + 1}. ` + 'detail '.repeat(40),
+      keyConcepts: [{ name: `Concept ${index + 1}`, description: 'A key idea.' }],
+      keyArguments: ['An argument.'],
+      examples: ['An example study.'],
+      notableQuotes: ['A memorable line.'],
+    });
+
+    it('should include every chapter with full detail when it fits', () => {
+      const digest = buildBookDigest([note(0), note(1)]);
+
+      expect(digest).toContain('### 1. Chapter 1');
+      expect(digest).toContain('### 2. Chapter 2');
+      expect(digest).toContain('A memorable line.');
+      expect(digest).toContain('An example study.');
+    });
+
+    it('should drop detail before dropping chapters to stay within the limit', () => {
+      const notes = Array.from({ length: 40 }, (_, i) => note(i));
+
+      const digest = buildBookDigest(notes, 15000);
+
+      expect(digest.length).toBeLessThanOrEqual(15000);
+      expect(digest).toContain('### 40. Chapter 40');
+      expect(digest).toContain('Concept 40');
+      expect(digest).not.toContain('A memorable line.');
+    });
+
+    it('should stay within the limit when even minimal notes do not fit', () => {
+      const notes = Array.from({ length: 400 }, (_, i) => note(i));
+
+      const digest = buildBookDigest(notes, 15000);
+
+      expect(digest.length).toBeLessThanOrEqual(15000);
+      expect(digest).toContain('### 1. Chapter 1');
+    });
+  });
+});
@@ -0,0 +1,177 @@
+import { describe, it, expect } from 'vitest';
+import type { ContentBlock } from '../drizzle/schema';
+import {
+  sectionToContentBlock,
+  contentBlockToSection,
+  isLegacyNormalizedBlocks,
+  rebuildSectionsFromLegacyBlocks,
+  contentBlocksToExportSections,
+  premiumSectionToExport,
+  markdownToExportSections,
+} from './services/contentBlockSections';
+
+function row(id: number, blockType: string, content: string, extra: Partial<ContentBlock> = {}): ContentBlock {
+  return {
+    id,
+    insightId: 1,
+    blockType,
+    title: null,
+    content,
+    visualType: null,
+    visualData: null,
+    listItems: null,
+    metadata: null,
+    orderIndex: id,
+    createdAt: new Date(),
+    ...extra,
+  };
+}
+
+// Rows as the old regenerate path stored them: one untyped row per section
+const sectionRows = [
+  row(1, 'section', 'The short version.', { title: 'Quick Glance', visualType: 'text' }),
+  row(2, 'section', '', {
+    title: 'Apply It: Reframing',
+    visualType: 'text',
+    listItems: JSON.stringify(['Notice the thought', 'Ask what else is true']),
+  }),
+  row(3, 'section', 'A connection to Stoicism.', { title: 'Insight Atlas Note', visualType: 'text' }),
+  row(4, 'section', 'How habits form.', {
+    title: 'The Habit Loop',
+    visualType: 'timeline',
+    visualData: JSON.stringify({ events: [] }),
+  }),
+];
+
+describe('Content Block Sections', () => {
+  describe('sectionToContentBlock / contentBlockToSection', () => {
+    it('should keep the premium type and metadata through a round trip', () => {
+      const insert = sectionToContentBlock({
+        id: 'note-1',
+        type: 'insightAtlasNote',
+        title: 'Connecting the Dots',
+        content: 'This echoes earlier work on habits.',
+        metadata: {
+          keyDistinction: 'Habits are cues, not willpower',
+          goDeeper: { title: 'Atomic Habits', author: 'James Clear', benefit: 'Practical systems' },
+        },
+      }, 7, 3);
+
+      expect(insert.blockType).toBe('insightAtlasNote');
+      expect(insert.orderIndex).toBe(3);
+
+      const section = contentBlockToSection(row(10, insert.blockType, insert.content!, {
+        title: insert.title ?? null,
+        metadata: insert.metadata ?? null,
+      }));
+      expect(section.type).toBe('insightAtlasNote');
+      expect(section.metadata?.keyDistinction).toBe('Habits are cues, not willpower');
+      expect((section.metadata?.goDeeper as { author: string }).author).toBe('James Clear');
+    });
+
+    it('should store action steps as list items', () => {
+      const insert = sectionToContentBlock({
+        id: 'action-1',
+        type: 'actionBox',
+        title: 'Apply It',
+        content: '',
+        metadata: { actionSteps: ['Pause', 'Reflect'] },
+      }, 1, 0);
+      expect(JSON.parse(insert.listItems!)).toEqual(['Pause', 'Reflect']);
+    });
+  });
+
+  describe('isLegacyNormalizedBlocks', () => {
+    it('should detect flattened rows', () => {
+      expect(isLegacyNormalizedBlocks([row(1, 'heading', 'A'), row(2, 'paragraph', 'B')])).toBe(true);
+    });
+
+    it('should detect section rows from the old regenerate path', () => {
+      expect(isLegacyNormalizedBlocks([row(1, 'section', 'A'), row(2, 'section', 'B')])).toBe(true);
+      expect(isLegacyNormalizedBlocks([row(1, 'section', 'A'), row(2, 'quickGlance', 'B')])).toBe(false);
+    });
+
+    it('should not flag premium or empty rows', () => {
+      expect(isLegacyNormalizedBlocks([row(1, 'quickGlance', 'A')])).toBe(false);
+      expect(isLegacyNormalizedBlocks([row(1, 'heading', 'A'), row(2, 'quickGlance', 'B')])).toBe(false);
+      expect(isLegacyNormalizedBlocks([])).toBe(false);
+    });
+  });
+
+  describe('rebuildSectionsFromLegacyBlocks', () => {
+    it('should regroup heading pairs and infer section types', () => {
+      const sections = rebuildSectionsFromLegacyBlocks([
+        row(1, 'heading', 'Quick Glance'),
+        row(2, 'paragraph', 'The short version.'),
+        row(3, 'heading', 'Apply It: Reframing'),
+        row(4, 'list', '1. Notice the thought\n2. Ask what else is true'),
+        row(5, 'heading', 'Insight Atlas Note'),
+        row(6, 'quote', 'A connection to Stoicism.'),
+      ]);
+
+      expect(sections.map(s => s.type)).toEqual(['quickGlance', 'actionBox', 'insightAtlasNote']);
+      expect(sections[0].content).toBe('The short version.');
+      expect(sections[1].metadata?.actionSteps).toEqual(['Notice the thought', 'Ask what else is true']);
+      expect(sections[2].title).toBe('Insight Atlas Note');
+    });
+
+    it('should rebuild each section row as one section', () => {
+      const sections = rebuildSectionsFromLegacyBlocks(sectionRows);
+
+      expect(sections.map(s => s.type)).toEqual(['quickGlance', 'actionBox', 'insightAtlasNote', 'conceptExplanation']);
+      expect(sections[0]).toMatchObject({ title: 'Quick Glance', content: 'The short version.' });
+      expect(sections[0].visualType).toBeUndefined();
+      expect(sections[1].metadata?.actionSteps).toEqual(['Notice the thought', 'Ask what else is true']);
+      expect(sections[3]).toMatchObject({ visualType: 'timeline', visualData: { events: [] } });
+    });
+  });
+
+  describe('contentBlocksToExportSections', () => {
+    it('should export section rows like the premium sections they stand for', () => {
+      const exported = contentBlocksToExportSections(sectionRows);
+
+      expect(exported.map(s => s.type)).toEqual([
+        'heading', 'paragraph',
+        'heading', 'actionBox',
+        'heading', 'insightNote',
+        'heading', 'paragraph', 'visual',
+      ]);
+      expect(exported[3].items).toEqual(['Notice the thought', 'Ask what else is true']);
+    });
+  });
+
+  describe('premiumSectionToExport', () => {
+    it('should keep action steps and note metadata in exports', () => {
+      const action = premiumSectionToExport({
+        id: 'a',
+        type: 'actionBox',
+        title: 'Apply It',
+        content: '',
+        metadata: { actionSteps: ['One', 'Two'] },
+      });
+      expect(action[0]).toEqual({ type: 'heading', content: 'Apply It' });
+      expect(action[1]).toMatchObject({ type: 'actionBox', items: ['One', 'Two'] });
+
+      const note = premiumSectionToExport({
+        id: 'n',
+        type: 'insightAtlasNote',
+        title: 'Note',
+        content: 'Body',
+        metadata: { keyDistinction: 'X not Y' },
+      });
+      expect(note.map(s => s.type)).toEqual(['heading', 'insightNote', 'paragraph']);
+      expect(note[2].content).toContain('X not Y');
+    });
+  });
+
+  describe('markdownToExportSections', () => {
+    it('should split paragraphs and lists and strip emphasis', () => {
+      const sections = markdownToExportSections('**Bold** start.\n\n- one\n- two\n\n1. first\n2. second');
+      expect(sections).toEqual([
+        { type: 'paragraph', content: 'Bold start.' },
+        { type: 'bulletList', content: '', items: ['one', 'two'] },
+        { type: 'numberedList', content: '', items: ['first', 'second'] },
+      ]);
+    });
+  });
+});
@@ -1,6 +1,6 @@
-import { and, desc, eq, isNull } from "drizzle-orm";
+import { and, asc, desc, eq, inArray, isNull, lt, lte, sql } from "drizzle-orm";
 import { drizzle } from "drizzle-orm/mysql2";
-import { InsertUser, users, books, insights, libraryItems, contentBlocks, Book, Insight, LibraryItem, ContentBlock, InsertBook, InsertInsight, InsertLibraryItem, InsertContentBlock } from "../drizzle/schema";
+import { InsertUser, users, books, insights, libraryItems, contentBlocks, Book, Insight, LibraryItem, ContentBlock, InsertBook, InsertInsight, InsertLibraryItem, InsertContentBlock, jobs, Job, InsertJob, generationCheckpoints, GenerationCheckpoint, bookAnalyses, BookAnalysisRecord, InsertBookAnalysisRecord, insightExports, InsightExport, InsertInsightExport, playbackPositions, PlaybackPosition, InsertPlaybackPosition, listeningSessions, InsertListeningSession, audioAssets, AudioAsset, InsertAudioAsset } from "../drizzle/schema";
 import { ENV } from './_core/env';
 
 // Safe JSON parse helper
@@ -104,6 +104,26 @@ export async function getUserByOpenId(openId: string) {
   return result.length > 0 ? result[0] : undefined;
 }
 
+export async function getUserById(id: number) {
+  const db = await getDb();
+  if (!db) return undefined;
+  const result = await db.select().from(users).where(eq(users.id, id)).limit(1);
+  return result[0];
+}
+
+export async function getUserByFeedToken(feedToken: string) {
+  const db = await getDb();
+  if (!db) return undefined;
+  const result = await db.select().from(users).where(eq(users.feedToken, feedToken)).limit(1);
+  return result[0];
+}
+
+export async function setUserFeedToken(userId: number, feedToken: string): Promise<void> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+  await db.update(users).set({ feedToken }).where(eq(users.id, userId));
+}
+
 // Book queries
 export async function createBook(book: InsertBook): Promise<number> {
   const db = await getDb();
@@ -170,6 +190,12 @@ export async function getInsightsByUserId(userId: number): Promise<Insight[]> {
   return db.select().from(insights).where(eq(insights.userId, userId)).orderBy(desc(insights.createdAt));
 }
 
+export async function getInsightsByStatus(status: Insight["status"]): Promise<Insight[]> {
+  const db = await getDb();
+  if (!db) return [];
+  return db.select().from(insights).where(eq(insights.status, status)).orderBy(asc(insights.id));
+}
+
 export async function updateInsight(id: number, data: Partial<InsertInsight>): Promise<void> {
   const db = await getDb();
   if (!db) return;
@@ -205,10 +231,11 @@ export async function getLibraryItemWithDetails(userId: number) {
   
   const items = await db.select().from(libraryItems).where(eq(libraryItems.userId, userId)).orderBy(desc(libraryItems.lastAccessedAt));
   
+  const narratedInsightIds = await getNarratedInsightIds(items.flatMap(item => item.insightId ? [item.insightId] : []));
   const enrichedItems = await Promise.all(items.map(async (item) => {
     const book = await getBookById(item.bookId);
     const insight = item.insightId ? await getInsightById(item.insightId) : undefined;
-    return { ...item, book, insight };
+    return { ...item, book, insight: insight && { ...insight, hasAudio: narratedInsightIds.has(insight.id) } };
   }));
   
   return enrichedItems;
@@ -262,6 +289,18 @@ export async function getContentBlocksByInsightId(insightId: number): Promise<Co
   return db.select().from(contentBlocks).where(eq(contentBlocks.insightId, insightId)).orderBy(contentBlocks.orderIndex);
 }
 
+export async function updateContentBlock(id: number, data: Partial<InsertContentBlock>): Promise<void> {
+  const db = await getDb();
+  if (!db) return;
+  await db.update(contentBlocks).set(data).where(eq(contentBlocks.id, id));
+}
+
+export async function clearContentBlockAudioTimings(insightId: number): Promise<void> {
+  const db = await getDb();
+  if (!db) return;
+  await db.update(contentBlocks).set({ audioTimings: null }).where(eq(contentBlocks.insightId, insightId));
+}
+
 export async function deleteContentBlocksByInsightId(insightId: number): Promise<void> {
   const db = await getDb();
   if (!db) return;
@@ -287,3 +326,310 @@ export async function getInsightWithContentBlocks(insightId: number) {
     contentBlocks: blocks,
   };
 }
+
+// Job queries
+export async function createJob(job: InsertJob): Promise<number> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+  const result = await db.insert(jobs).values(job);
+  if (!result[0]?.insertId) {
+    throw new Error("Failed to create job: no insert ID returned");
+  }
+  return result[0].insertId;
+}
+
+export async function getJobById(id: number): Promise<Job | undefined> {
+  const db = await getDb();
+  if (!db) return undefined;
+  const result = await db.select().from(jobs).where(eq(jobs.id, id)).limit(1);
+  return result[0];
+}
+
+export async function getLatestJobByInsightId(insightId: number): Promise<Job | undefined> {
+  const db = await getDb();
+  if (!db) return undefined;
+  const result = await db.select().from(jobs).where(eq(jobs.insightId, insightId)).orderBy(desc(jobs.id)).limit(1);
+  return result[0];
+}
+
+export async function updateJob(id: number, data: Partial<InsertJob>): Promise<void> {
+  const db = await getDb();
+  if (!db) return;
+  await db.update(jobs).set(data).where(eq(jobs.id, id));
+}
+
+/**
+ * Atomically claim the next due job. The conditional update guards against
+ * another worker claiming the same row between the select and the update.
+ */
+export async function claimNextJob(types: string[]): Promise<Job | undefined> {
+  const db = await getDb();
+  if (!db || types.length === 0) return undefined;
+
+  const candidates = await db.select().from(jobs)
+    .where(and(eq(jobs.status, "queued"), inArray(jobs.type, types), lte(jobs.runAt, new Date())))
+    .orderBy(asc(jobs.runAt))
+    .limit(5);
+
+  for (const candidate of candidates) {
+    const result = await db.update(jobs)
+      .set({ status: "running", attempts: sql`${jobs.attempts} + 1`, lockedAt: new Date() })
+      .where(and(eq(jobs.id, candidate.id), eq(jobs.status, "queued")));
+    if (result[0]?.affectedRows === 1) {
+      return getJobById(candidate.id);
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Put running jobs whose worker stopped heartbeating (crash, restart) back in the queue
+ */
+export async function requeueStaleJobs(lockedBefore: Date): Promise<number> {
+  const db = await getDb();
+  if (!db) return 0;
+  const result = await db.update(jobs)
+    .set({ status: "queued", lockedAt: null, runAt: new Date() })
+    .where(and(eq(jobs.status, "running"), lt(jobs.lockedAt, lockedBefore)));
+  return result[0]?.affectedRows ?? 0;
+}
+
+// Generation checkpoint queries
+export async function upsertGenerationCheckpoint(insightId: number, stage: string, data: string): Promise<void> {
+  const db = await getDb();
+  if (!db) return;
+  await db.insert(generationCheckpoints)
+    .values({ insightId, stage, data })
+    .onDuplicateKeyUpdate({ set: { data } });
+}
+
+export async function getGenerationCheckpoint(insightId: number, stage: string): Promise<GenerationCheckpoint | undefined> {
+  const db = await getDb();
+  if (!db) return undefined;
+  const result = await db.select().from(generationCheckpoints)
+    .where(and(eq(generationCheckpoints.insightId, insightId), eq(generationCheckpoints.stage, stage)))
+    .limit(1);
+  return result[0];
+}
+
+export async function getGenerationCheckpointStages(insightId: number): Promise<string[]> {
+  const db = await getDb();
+  if (!db) return [];
+  const rows = await db.select({ stage: generationCheckpoints.stage }).from(generationCheckpoints)
+    .where(eq(generationCheckpoints.insightId, insightId));
+  return rows.map(row => row.stage);
+}
+
+export async function deleteGenerationCheckpoints(insightId: number): Promise<void> {
+  const db = await getDb();
+  if (!db) return;
+  await db.delete(generationCheckpoints).where(eq(generationCheckpoints.insightId, insightId));
+}
+
+// Book analysis queries
+export async function upsertBookAnalysis(record: InsertBookAnalysisRecord): Promise<void> {
+  const db = await getDb();
+  if (!db) return;
+  await db.insert(bookAnalyses).values(record).onDuplicateKeyUpdate({
+    set: {
+      insightId: record.insightId,
+      primaryCategory: record.primaryCategory,
+      complexityLevel: record.complexityLevel,
+      analysis: record.analysis,
+    },
+  });
+}
+
+export async function getBookAnalysisByBookId(bookId: number): Promise<BookAnalysisRecord | undefined> {
+  const db = await getDb();
+  if (!db) return undefined;
+  const result = await db.select().from(bookAnalyses).where(eq(bookAnalyses.bookId, bookId)).limit(1);
+  return result[0];
+}
+
+// Insight export queries
+export async function getInsightExportByHash(insightId: number, format: string, contentHash: string): Promise<InsightExport | undefined> {
+  const db = await getDb();
+  if (!db) return undefined;
+  const result = await db.select().from(insightExports)
+    .where(and(eq(insightExports.insightId, insightId), eq(insightExports.format, format), eq(insightExports.contentHash, contentHash)))
+    .limit(1);
+  return result[0];
+}
+
+export async function upsertInsightExport(record: InsertInsightExport): Promise<void> {
+  const db = await getDb();
+  if (!db) return;
+  // A concurrent export of the same content may have stored its artifact first
+  await db.insert(insightExports).values(record).onDuplicateKeyUpdate({
+    set: {
+      fileKey: record.fileKey,
+      fileUrl: record.fileUrl,
+      result: record.result,
+    },
+  });
+}
+
+export async function getInsightExportsByInsightId(insightId: number): Promise<InsightExport[]> {
+  const db = await getDb();
+  if (!db) return [];
+  return db.select().from(insightExports)
+    .where(eq(insightExports.insightId, insightId))
+    .orderBy(desc(insightExports.createdAt));
+}
+
+// Audio asset queries
+export async function getAudioAssetById(id: number): Promise<AudioAsset | undefined> {
+  const db = await getDb();
+  if (!db) return undefined;
+  const result = await db.select().from(audioAssets).where(eq(audioAssets.id, id)).limit(1);
+  return result[0];
+}
+
+export async function getAudioAssetsByInsightId(insightId: number): Promise<AudioAsset[]> {
+  const db = await getDb();
+  if (!db) return [];
+  return db.select().from(audioAssets)
+    .where(eq(audioAssets.insightId, insightId))
+    .orderBy(desc(audioAssets.updatedAt));
+}
+
+export async function getAudioAssetsByInsightIds(insightIds: number[]): Promise<AudioAsset[]> {
+  const db = await getDb();
+  if (!db || insightIds.length === 0) return [];
+  return db.select().from(audioAssets)
+    .where(inArray(audioAssets.insightId, insightIds))
+    .orderBy(desc(audioAssets.updatedAt));
+}
+
+// Ids of the given insights that have at least one narration
+export async function getNarratedInsightIds(insightIds: number[]): Promise<Set<number>> {
+  const db = await getDb();
+  if (!db || insightIds.length === 0) return new Set();
+  const rows = await db.selectDistinct({ insightId: audioAssets.insightId }).from(audioAssets)
+    .where(inArray(audioAssets.insightId, insightIds));
+  return new Set(rows.map(row => row.insightId));
+}
+
+// Store a narration, replacing the one of the same length, mode and voice
+export async function upsertAudioAsset(asset: InsertAudioAsset): Promise<AudioAsset> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+  // Narrations migrated from insights have no recorded voice; the next one of the same kind replaces them
+  await db.delete(audioAssets).where(and(
+    eq(audioAssets.insightId, asset.insightId),
+    eq(audioAssets.length, asset.length),
+    eq(audioAssets.mode, asset.mode),
+    eq(audioAssets.voiceId, "")
+  ));
+  await db.insert(audioAssets).values(asset).onDuplicateKeyUpdate({
+    set: {
+      provider: asset.provider,
+      script: asset.script ?? null,
+      audioUrl: asset.audioUrl,
+      audioKey: asset.audioKey,
+      durationSeconds: asset.durationSeconds ?? null,
+      chapters: asset.chapters ?? null,
+      waveform: asset.waveform ?? null,
+    },
+  });
+  const result = await db.select().from(audioAssets)
+    .where(and(
+      eq(audioAssets.insightId, asset.insightId),
+      eq(audioAssets.length, asset.length),
+      eq(audioAssets.mode, asset.mode),
+      eq(audioAssets.voiceId, asset.voiceId)
+    ))
+    .limit(1);
+  if (!result[0]) {
+    throw new Error("Failed to store audio asset");
+  }
+  return result[0];
+}
+
+// Delete an insight's narrations, or only those of one mode
+export async function deleteAudioAssetsByInsightId(insightId: number, mode?: string): Promise<void> {
+  const db = await getDb();
+  if (!db) return;
+  await db.delete(audioAssets).where(and(
+    eq(audioAssets.insightId, insightId),
+    mode ? eq(audioAssets.mode, mode) : undefined
+  ));
+}
+
+// Playback position and listening session queries
+export async function upsertPlaybackPosition(record: InsertPlaybackPosition): Promise<void> {
+  const db = await getDb();
+  if (!db) return;
+  await db.insert(playbackPositions).values(record).onDuplicateKeyUpdate({
+    set: {
+      audioAssetId: record.audioAssetId ?? null,
+      positionSeconds: record.positionSeconds,
+      durationSeconds: record.durationSeconds,
+      completed: record.completed,
+    },
+  });
+}
+
+export async function getPlaybackPosition(userId: number, insightId: number): Promise<PlaybackPosition | undefined> {
+  const db = await getDb();
+  if (!db) return undefined;
+  const result = await db.select().from(playbackPositions)
+    .where(and(eq(playbackPositions.userId, userId), eq(playbackPositions.insightId, insightId)))
+    .limit(1);
+  return result[0];
+}
+
+// Narrations started but not finished, most recently played first
+export async function getInProgressPlayback(userId: number, limit: number) {
+  const db = await getDb();
+  if (!db) return [];
+  return db.select({
+    insightId: playbackPositions.insightId,
+    audioAssetId: audioAssets.id,
+    positionSeconds: playbackPositions.positionSeconds,
+    durationSeconds: playbackPositions.durationSeconds,
+    updatedAt: playbackPositions.updatedAt,
+    title: insights.title,
+    audioDuration: audioAssets.durationSeconds,
+    bookTitle: books.title,
+    bookAuthor: books.author,
+    coverUrl: books.coverUrl,
+  })
+    .from(playbackPositions)
+    .innerJoin(insights, eq(playbackPositions.insightId, insights.id))
+    // Positions whose narration was deleted have nothing left to continue
+    .innerJoin(audioAssets, eq(playbackPositions.audioAssetId, audioAssets.id))
+    .leftJoin(books, eq(insights.bookId, books.id))
+    .where(and(
+      eq(playbackPositions.userId, userId),
+      eq(playbackPositions.completed, false),
+      sql`${playbackPositions.positionSeconds} > 0`
+    ))
+    .orderBy(desc(playbackPositions.updatedAt))
+    .limit(limit);
+}
+
+export async function createListeningSession(session: InsertListeningSession): Promise<number> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+  const result = await db.insert(listeningSessions).values(session);
+  if (!result[0]?.insertId) {
+    throw new Error("Failed to create listening session: no insert ID returned");
+  }
+  return result[0].insertId;
+}
+
+// Extend a session of the user; false when it is not theirs or no longer exists
+export async function extendListeningSession(id: number, userId: number, endPositionSeconds: number, listenedSeconds: number): Promise<boolean> {
+  const db = await getDb();
+  if (!db) return false;
+  const result = await db.update(listeningSessions)
+    .set({
+      endPositionSeconds,
+      listenedSeconds: sql`${listeningSessions.listenedSeconds} + ${listenedSeconds}`,
+      endedAt: new Date(),
+    })
+    .where(and(eq(listeningSessions.id, id), eq(listeningSessions.userId, userId)));
+  return result[0].affectedRows > 0;
+}
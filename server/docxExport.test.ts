@@ -0,0 +1,71 @@
+import { describe, it, expect } from 'vitest';
+import AdmZip from 'adm-zip';
+import { buildDOCX } from './services/docxExport';
+import type { InsightSection } from './services/insightGeneration';
+
+async function build(sections: InsightSection[]) {
+  const buffer = await buildDOCX({
+    title: 'Atomic Habits Insights',
+    author: 'James Clear',
+    summary: 'Small habits compound.',
+    sections,
+    keyThemes: ['Habits'],
+    bookTitle: 'Atomic Habits',
+    generatedAt: new Date('2026-01-01'),
+  });
+  const zip = new AdmZip(buffer);
+  return { zip, document: zip.readAsText('word/document.xml') };
+}
+
+describe('DOCX Export', () => {
+  it('should use Word heading and Quote styles', async () => {
+    const { zip, document } = await build([
+      { type: 'heading', content: 'The Habit Loop' },
+      { type: 'quote', content: 'We are what we repeatedly do.', title: 'Aristotle' },
+    ]);
+
+    expect(document).toContain('<w:pStyle w:val="Title"/>');
+    expect(document).toContain('<w:pStyle w:val="Heading1"/>');
+    expect(document).toContain('<w:pStyle w:val="Quote"/>');
+    expect(zip.readAsText('word/styles.xml')).toContain('w:styleId="Quote"');
+  });
+
+  it('should put action steps in a shaded table with restarting numbering', async () => {
+    const { document } = await build([
+      { type: 'actionBox', content: '', title: 'Action Steps', items: ['Stack a habit', 'Design the cue'] },
+      { type: 'numberedList', content: '', items: ['First'] },
+    ]);
+
+    expect(document).toContain('<w:tbl>');
+    expect(document).toContain('w:fill="FFF5D6"');
+    expect(document).toContain('Stack a habit');
+    const numIds = new Set([...document.matchAll(/<w:numId w:val="(\d+)"\/>/g)].map(match => match[1]));
+    expect(numIds.size).toBe(2);
+  });
+
+  it('should render comparison visuals as tables and other visuals as images', async () => {
+    const { zip, document } = await build([
+      {
+        type: 'visual',
+        content: '',
+        visualType: 'comparisonMatrix',
+        visualData: { items: ['Goals', 'Systems'], criteria: ['Focus'], values: [['Outcome'], ['Process']] },
+      },
+      { type: 'visual', content: '', title: 'Loop', visualType: 'flowDiagram', visualData: { nodes: ['Cue', 'Reward'] } },
+    ]);
+
+    expect(document).toContain('<w:t xml:space="preserve">Systems</w:t>');
+    expect(document).toContain('<w:t xml:space="preserve">Process</w:t>');
+    expect(document).toContain('<w:drawing>');
+    const media = zip.getEntries().filter(entry => !entry.isDirectory && entry.entryName.startsWith('word/media/'));
+    expect(media).toHaveLength(1);
+    expect(media[0].getData().subarray(1, 4).toString()).toBe('PNG');
+  });
+
+  it('should skip visuals that do not validate', async () => {
+    const { document } = await build([{ type: 'visual', content: '', visualType: 'barChart', visualData: {} }]);
+
+    expect(document).not.toContain('<w:drawing>');
+    expect(document).not.toContain('<w:tbl>');
+  });
+});
@@ -1,5 +1,5 @@
 import { describe, it, expect } from 'vitest';
-import { isElevenLabsConfigured, getAvailableVoices, NARRATION_VOICES } from './services/elevenLabsService';
+import { isElevenLabsConfigured, elevenLabsProvider, NARRATION_VOICES } from './services/elevenLabsService';
 
 describe('ElevenLabs Integration', () => {
   it('should check if ElevenLabs is configured', () => {
@@ -14,13 +14,14 @@ describe('ElevenLabs Integration', () => {
   });
 
   it('should return available voices with required fields', () => {
-    const voices = getAvailableVoices();
+    const voices = elevenLabsProvider.listVoices();
     expect(voices.length).toBeGreaterThan(0);
     
     for (const voice of voices) {
       expect(voice.id).toBeDefined();
       expect(voice.name).toBeDefined();
       expect(voice.description).toBeDefined();
+      expect(voice.provider).toBe('elevenlabs');
     }
   });
 
@@ -0,0 +1,80 @@
+import { describe, it, expect } from 'vitest';
+import AdmZip from 'adm-zip';
+import { buildEPUB } from './services/epubExport';
+import type { InsightSection } from './services/insightGeneration';
+
+function build(sections: InsightSection[], cover: { data: Buffer; mediaType: string } | null = null) {
+  const { buffer, chapterCount } = buildEPUB({
+    title: 'Habits & Identity',
+    author: 'James Clear',
+    summary: 'Small habits compound.\n\nSystems beat goals.',
+    sections,
+    keyThemes: ['Habits', 'Identity'],
+    bookTitle: 'Atomic Habits',
+    generatedAt: new Date('2026-01-01T10:00:00.123Z'),
+  }, 42, cover);
+  return { zip: new AdmZip(buffer), buffer, chapterCount };
+}
+
+describe('EPUB Export', () => {
+  it('should store an uncompressed mimetype as the first entry', () => {
+    const { zip, buffer } = build([]);
+
+    const [first] = zip.getEntries();
+    expect(first.entryName).toBe('mimetype');
+    expect(first.header.method).toBe(0);
+    // OCF readers sniff the type at a fixed offset
+    expect(buffer.subarray(38, 58).toString()).toBe('application/epub+zip');
+  });
+
+  it('should make a chapter per heading after the summary chapter', () => {
+    const { zip, chapterCount } = build([
+      { type: 'heading', content: 'The Habit Loop' },
+      { type: 'paragraph', content: 'Cue, craving, response, reward.' },
+      { type: 'heading', content: 'Identity <first>' },
+      { type: 'numberedList', content: '', items: ['Decide who to be'] },
+    ]);
+
+    expect(chapterCount).toBe(3);
+    const nav = zip.readAsText('OEBPS/nav.xhtml');
+    expect(nav).toContain('<a href="chapter-001.xhtml">Executive Summary</a>');
+    expect(nav).toContain('<a href="chapter-002.xhtml">The Habit Loop</a>');
+    expect(nav).toContain('<a href="chapter-003.xhtml">Identity &lt;first&gt;</a>');
+
+    const summary = zip.readAsText('OEBPS/chapter-001.xhtml');
+    expect(summary).toContain('<p>Systems beat goals.</p>');
+    expect(summary).toContain('<span>Identity</span>');
+    expect(zip.readAsText('OEBPS/chapter-003.xhtml')).toContain('<ol><li>Decide who to be</li></ol>');
+  });
+
+  it('should describe the book and its cover in the package document', () => {
+    const { zip } = build([], { data: Buffer.from('png'), mediaType: 'image/png' });
+
+    const opf = zip.readAsText('OEBPS/content.opf');
+    expect(opf).toContain('<dc:identifier id="book-id">urn:insight-atlas:insight:42</dc:identifier>');
+    expect(opf).toContain('<dc:title>Habits &amp; Identity</dc:title>');
+    expect(opf).toContain('<meta property="dcterms:modified">2026-01-01T10:00:00Z</meta>');
+    expect(opf).toContain('href="images/cover.png" media-type="image/png" properties="cover-image"');
+    expect(zip.getEntry('OEBPS/images/cover.png')).toBeTruthy();
+    expect(zip.readAsText('OEBPS/cover.xhtml')).toContain('src="images/cover.png"');
+  });
+
+  it('should draw visuals as inline SVG and flag them in the manifest', () => {
+    const { zip } = build([
+      { type: 'heading', content: 'Numbers' },
+      { type: 'visual', content: '', visualType: 'barChart', visualData: { labels: ['Cue', 'Reward'], values: [2, 4] } },
+      { type: 'heading', content: 'Steps' },
+      { type: 'visual', content: '', visualType: 'processFlow', visualData: { steps: ['Notice', 'Want'] } },
+      { type: 'heading', content: 'Notes' },
+      { type: 'paragraph', content: 'No visuals here.' },
+    ]);
+
+    expect(zip.readAsText('OEBPS/chapter-002.xhtml')).toContain('<svg xmlns="http://www.w3.org/2000/svg"');
+    expect(zip.readAsText('OEBPS/chapter-003.xhtml')).toMatch(/<svg [^>]*>[\s\S]*>Notice<\/text>/);
+
+    const opf = zip.readAsText('OEBPS/content.opf');
+    expect(opf).toContain('href="chapter-002.xhtml" media-type="application/xhtml+xml" properties="svg"');
+    expect(opf).toContain('href="chapter-003.xhtml" media-type="application/xhtml+xml" properties="svg"');
+    expect(opf).toContain('href="chapter-004.xhtml" media-type="application/xhtml+xml"/>');
+  });
+});
@@ -0,0 +1,41 @@
+import { describe, it, expect } from 'vitest';
+import { computeExportHash, exportCacheContent, stableStringify } from './services/exportCache';
+
+const options = {
+  title: 'Atomic Habits Insights',
+  author: 'James Clear',
+  summary: 'Small habits compound.',
+  sections: [{ type: 'paragraph' as const, content: 'Cue, craving, response, reward.' }],
+  keyThemes: ['Habits'],
+  bookTitle: 'Atomic Habits',
+  generatedAt: new Date('2026-01-01'),
+};
+
+describe('Export Cache', () => {
+  describe('computeExportHash', () => {
+    it('should ignore the generation date and key order', () => {
+      const later = exportCacheContent({ ...options, generatedAt: new Date('2026-06-01') });
+      const reordered = { bookTitle: options.bookTitle, ...exportCacheContent(options) };
+
+      const hash = computeExportHash('pdf', exportCacheContent(options));
+      expect(hash).toMatch(/^[0-9a-f]{64}$/);
+      expect(computeExportHash('pdf', later)).toBe(hash);
+      expect(computeExportHash('pdf', reordered)).toBe(hash);
+    });
+
+    it('should change with the content and the format', () => {
+      const hash = computeExportHash('pdf', exportCacheContent(options));
+
+      expect(computeExportHash('epub', exportCacheContent(options))).not.toBe(hash);
+      expect(computeExportHash('pdf', exportCacheContent({ ...options, summary: 'Edited.' }))).not.toBe(hash);
+      expect(computeExportHash('pdf', exportCacheContent({ ...options, sections: [] }))).not.toBe(hash);
+    });
+  });
+
+  describe('stableStringify', () => {
+    it('should sort keys at every depth and drop undefined fields', () => {
+      expect(stableStringify({ b: 1, a: { d: [1, { f: 2, e: undefined }], c: null } }))
+        .toBe('{"a":{"c":null,"d":[1,{"f":2}]},"b":1}');
+    });
+  });
+});
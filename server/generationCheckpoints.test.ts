@@ -0,0 +1,34 @@
+import { describe, it, expect } from 'vitest';
+import { CHECKPOINT_STAGES, getResumeStage } from './services/generationCheckpoints';
+
+describe('Generation Checkpoints', () => {
+  describe('getResumeStage', () => {
+    it('should start from chapter notes when nothing has been saved', () => {
+      expect(getResumeStage([])).toBe('chapterNotes');
+    });
+
+    it('should resume at the first stage without a checkpoint', () => {
+      expect(getResumeStage(['chapterNotes'])).toBe('analysis');
+      expect(getResumeStage(['chapterNotes', 'analysis', 'chunk:Foundation'])).toBe('chunk:Core Concepts');
+      expect(getResumeStage([
+        'chapterNotes',
+        'analysis',
+        'chunk:Foundation',
+        'chunk:Core Concepts',
+        'chunk:Application',
+      ])).toBe('gapAnalysis');
+    });
+
+    it('should follow pipeline order regardless of save order', () => {
+      expect(getResumeStage(['audioScript', 'chapterNotes', 'analysis'])).toBe('chunk:Foundation');
+    });
+
+    it('should return null when every stage is checkpointed', () => {
+      expect(getResumeStage([...CHECKPOINT_STAGES])).toBeNull();
+    });
+
+    it('should ignore unknown stage names', () => {
+      expect(getResumeStage(['legacy-stage'])).toBe('chapterNotes');
+    });
+  });
+});
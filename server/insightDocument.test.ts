@@ -0,0 +1,85 @@
+import { describe, it, expect } from 'vitest';
+import { buildInsightDocument, parseInsightDocument, INSIGHT_DOCUMENT_VERSION } from './services/insightDocument';
+import type { Book, ContentBlock, Insight, BookAnalysisRecord } from '../drizzle/schema';
+
+const createdAt = new Date('2026-01-01T00:00:00Z');
+
+const book = {
+  id: 7,
+  userId: 1,
+  title: 'Atomic Habits',
+  author: 'James Clear',
+  fileUrl: 'https://storage.example/books/1/atomic.pdf',
+  fileKey: 'books/1/atomic.pdf',
+  fileType: 'pdf',
+  coverUrl: null,
+  extractedText: 'The full book text',
+  wordCount: 90000,
+  pageCount: 320,
+  createdAt,
+  updatedAt: createdAt,
+} as Book;
+
+const insight = {
+  id: 12,
+  bookId: 7,
+  userId: 1,
+  title: 'Atomic Habits Insights',
+  summary: 'Small habits compound.',
+  keyThemes: '["Habits","Identity"]',
+  audioScript: 'Welcome.',
+  audioUrl: 'https://storage.example/audio.mp3',
+  recommendedVisuals: '["barChart"]',
+  status: 'completed',
+  wordCount: 12000,
+  createdAt,
+} as Insight;
+
+const blocks = [
+  {
+    id: 100,
+    insightId: 12,
+    blockType: 'coreConcept',
+    title: 'The Habit Loop',
+    content: 'Cue, craving, response, reward.',
+    visualType: 'barChart',
+    visualData: '{"labels":["Cue"],"values":[1]}',
+    listItems: null,
+    metadata: '{"actionSteps":["Notice the cue"]}',
+    orderIndex: 0,
+    createdAt,
+  },
+] as ContentBlock[];
+
+describe('Insight Document', () => {
+  it('should carry parsed fields and leave out storage URLs and book text', () => {
+    const document = buildInsightDocument(book, insight, blocks, { analysis: '{"classification":{"primaryCategory":"Self-Help"}}' } as BookAnalysisRecord, createdAt);
+
+    expect(document.format).toBe('insight-atlas.insight');
+    expect(document.version).toBe(INSIGHT_DOCUMENT_VERSION);
+    expect(document.insight.keyThemes).toEqual(['Habits', 'Identity']);
+    expect(document.contentBlocks[0].visualData).toEqual({ labels: ['Cue'], values: [1] });
+    expect(document.contentBlocks[0].metadata).toEqual({ actionSteps: ['Notice the cue'] });
+    expect(document.analysis).toEqual({ classification: { primaryCategory: 'Self-Help' } });
+
+    const serialized = JSON.stringify(document);
+    expect(serialized).not.toContain('storage.example');
+    expect(serialized).not.toContain('The full book text');
+  });
+
+  it('should accept its own output after a JSON round trip', () => {
+    const document = buildInsightDocument(book, insight, blocks, null, createdAt);
+
+    expect(parseInsightDocument(JSON.parse(JSON.stringify(document)))).toEqual(document);
+  });
+
+  it('should reject documents with missing fields or a newer version', () => {
+    const document = buildInsightDocument(book, insight, blocks, null, createdAt);
+
+    expect(() => parseInsightDocument({ ...document, book: { ...document.book, title: '' } }))
+      .toThrow(/Invalid insight document: book\.title/);
+    expect(() => parseInsightDocument({ ...document, version: INSIGHT_DOCUMENT_VERSION + 1 }))
+      .toThrow(/newer than this server supports/);
+    expect(() => parseInsightDocument('not a document')).toThrow(/Invalid insight document/);
+  });
+});
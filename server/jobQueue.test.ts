@@ -0,0 +1,29 @@
+import { describe, it, expect } from 'vitest';
+import { computeBackoffDelay } from './_core/jobQueue';
+
+describe('Job Queue', () => {
+  describe('computeBackoffDelay', () => {
+    it('should start at the base delay after the first attempt', () => {
+      expect(computeBackoffDelay(1, 1000, 60000)).toBe(1000);
+    });
+
+    it('should double the delay for each further attempt', () => {
+      expect(computeBackoffDelay(2, 1000, 60000)).toBe(2000);
+      expect(computeBackoffDelay(3, 1000, 60000)).toBe(4000);
+      expect(computeBackoffDelay(4, 1000, 60000)).toBe(8000);
+    });
+
+    it('should cap the delay at the maximum', () => {
+      expect(computeBackoffDelay(20, 1000, 60000)).toBe(60000);
+    });
+
+    it('should treat attempt 0 like the first attempt', () => {
+      expect(computeBackoffDelay(0, 1000, 60000)).toBe(1000);
+    });
+
+    it('should use sensible defaults', () => {
+      expect(computeBackoffDelay(1)).toBe(30000);
+      expect(computeBackoffDelay(10)).toBe(600000);
+    });
+  });
+});
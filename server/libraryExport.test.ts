@@ -0,0 +1,28 @@
+import { describe, it, expect } from 'vitest';
+import { buildLibraryIndex } from './services/libraryExportJob';
+
+const createdAt = new Date('2026-01-01T00:00:00Z');
+
+describe('Library Export', () => {
+  describe('buildLibraryIndex', () => {
+    it('should link each exported file and list the skipped insights', () => {
+      const index = buildLibraryIndex('markdown', [
+        { file: '001 Atomic Habits.md', title: 'Atomic Habits', bookTitle: 'Atomic Habits', author: 'James Clear', createdAt },
+        { file: null, title: 'Deep Work', bookTitle: 'Deep Work', author: null, createdAt, error: 'Book not found' },
+        { file: '002 Range Generalists.md', title: 'Range | Generalists', bookTitle: 'Range', author: 'David Epstein', createdAt },
+      ], new Date('2026-02-03T10:00:00Z'));
+
+      expect(index).toContain('Exported 2026-02-03 · 2 insights · markdown');
+      expect(index).toContain('| 1 | [Atomic Habits](<001 Atomic Habits.md>) | Atomic Habits | James Clear | 2026-01-01 |');
+      expect(index).toContain('| 2 | [Range \\| Generalists](<002 Range Generalists.md>) | Range | David Epstein | 2026-01-01 |');
+      expect(index).toContain('## Not Exported\n\n- Deep Work: Book not found');
+    });
+
+    it('should handle an empty library', () => {
+      const index = buildLibraryIndex('pdf', [], createdAt);
+
+      expect(index).toContain('0 insights · pdf');
+      expect(index).not.toContain('| # |');
+    });
+  });
+});
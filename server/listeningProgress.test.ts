@@ -0,0 +1,19 @@
+import { describe, it, expect } from 'vitest';
+import { isNarrationComplete, matchesNarration } from './services/listeningProgress';
+
+describe('Listening Progress', () => {
+  it('should treat positions near the end as finished', () => {
+    expect(isNarrationComplete(595, 600)).toBe(true);
+    expect(isNarrationComplete(600, 600)).toBe(true);
+    expect(isNarrationComplete(300, 600)).toBe(false);
+    // Without a known length nothing is finished
+    expect(isNarrationComplete(5000, undefined)).toBe(false);
+  });
+
+  it('should drop positions saved against a narration of another length', () => {
+    expect(matchesNarration(600, 601)).toBe(true);
+    expect(matchesNarration(600, 900)).toBe(false);
+    expect(matchesNarration(null, 900)).toBe(true);
+    expect(matchesNarration(600, null)).toBe(true);
+  });
+});
@@ -0,0 +1,94 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { spawnSync } from 'child_process';
+import { getVoiceOptions, resolveVoice } from './services/audioGeneration';
+import { wavDurationMs } from './services/audioAnalysis';
+import { stitchWav } from './services/audioStitching';
+import { localTtsProvider } from './services/localTtsService';
+
+const ENV_KEYS = ['TTS_PROVIDER', 'LOCAL_TTS_ENGINE', 'LOCAL_TTS_COMMAND', 'ELEVENLABS_API_KEY'] as const;
+const savedEnv = Object.fromEntries(ENV_KEYS.map(key => [key, process.env[key]]));
+
+const hasEspeak = spawnSync('espeak-ng', ['--version']).status === 0;
+
+// 16-bit mono PCM at 8kHz: 16,000 bytes per second
+function wav(samples: number, fill: number): Buffer {
+  const data = Buffer.alloc(samples * 2, fill);
+  const header = Buffer.alloc(44);
+  header.write('RIFF', 0, 'latin1');
+  header.writeUInt32LE(36 + data.length, 4);
+  header.write('WAVE', 8, 'latin1');
+  header.write('fmt ', 12, 'latin1');
+  header.writeUInt32LE(16, 16);
+  header.writeUInt16LE(1, 20);
+  header.writeUInt16LE(1, 22);
+  header.writeUInt32LE(8000, 24);
+  header.writeUInt32LE(16000, 28);
+  header.writeUInt16LE(2, 32);
+  header.writeUInt16LE(16, 34);
+  header.write('data', 36, 'latin1');
+  header.writeUInt32LE(data.length, 40);
+  return Buffer.concat([header, data]);
+}
+
+describe('Local Text-to-Speech', () => {
+  afterEach(() => {
+    for (const key of ENV_KEYS) {
+      if (savedEnv[key] === undefined) delete process.env[key];
+      else process.env[key] = savedEnv[key];
+    }
+  });
+
+  it('should list local voices in the catalog once an engine is configured', () => {
+    delete process.env.ELEVENLABS_API_KEY;
+    delete process.env.LOCAL_TTS_ENGINE;
+    expect(getVoiceOptions().every(voice => voice.provider === 'elevenlabs')).toBe(true);
+
+    process.env.LOCAL_TTS_ENGINE = 'espeak-ng';
+    const voices = getVoiceOptions();
+
+    expect(voices[0].provider).toBe('local');
+    expect(voices.map(voice => voice.id)).toContain('espeak-en-gb');
+    expect(new Set(voices.map(voice => voice.id)).size).toBe(voices.length);
+  });
+
+  it('should resolve voices to their provider and fall back to the default voice', () => {
+    process.env.LOCAL_TTS_ENGINE = 'espeak-ng';
+    process.env.TTS_PROVIDER = 'local';
+
+    expect(resolveVoice('espeak-en-gb').voice.id).toBe('espeak-en-gb');
+    expect(resolveVoice('unknown').provider.id).toBe('local');
+    expect(resolveVoice().voice.id).toBe('espeak-en-us');
+
+    // ElevenLabs voices need an API key
+    delete process.env.ELEVENLABS_API_KEY;
+    expect(resolveVoice('rachel').provider.id).toBe('local');
+  });
+
+  it('should join WAV chunks and measure their exact duration', () => {
+    const joined = stitchWav([wav(8000, 1), wav(4000, 2)]);
+
+    expect(joined.toString('latin1', 0, 4)).toBe('RIFF');
+    expect(joined.readUInt32LE(4)).toBe(joined.length - 8);
+    expect(joined.length).toBe(44 + 24000);
+    expect(wavDurationMs(joined)).toBe(1500);
+    expect(() => stitchWav([wav(10, 0), Buffer.from('not audio')])).toThrow('Not a WAV file');
+  });
+
+  it('should report a missing engine binary', async () => {
+    process.env.LOCAL_TTS_ENGINE = 'espeak-ng';
+    process.env.LOCAL_TTS_COMMAND = 'definitely-not-an-installed-tts-engine';
+    const [voice] = localTtsProvider.listVoices();
+
+    await expect(localTtsProvider.synthesize({ text: 'Hello', voice })).rejects.toThrow('not found');
+  });
+
+  it.skipIf(!hasEspeak)('should synthesize speech offline with espeak-ng', async () => {
+    process.env.LOCAL_TTS_ENGINE = 'espeak-ng';
+    const [voice] = localTtsProvider.listVoices();
+
+    const speech = await localTtsProvider.synthesize({ text: 'Small habits make a big difference.', voice });
+
+    expect(speech.format).toBe('wav');
+    expect(wavDurationMs(speech.audio)).toBeGreaterThan(500);
+  });
+});
@@ -0,0 +1,89 @@
+import { describe, it, expect } from 'vitest';
+import { renderPremiumPDF, pdfText } from './services/pdfRenderer';
+import { summarizeVisual } from './services/visualSummary';
+import type { InsightSection } from './services/insightGeneration';
+
+function exportOptions(sections: InsightSection[]) {
+  return {
+    title: 'Atomic Habits Insights',
+    author: 'James Clear',
+    summary: 'Small habits compound.\n\nSystems beat goals.',
+    sections,
+    keyThemes: ['Habits', 'Identity'],
+    bookTitle: 'Atomic Habits',
+    generatedAt: new Date('2026-01-01'),
+  };
+}
+
+describe('PDF Renderer', () => {
+  describe('renderPremiumPDF', () => {
+    it('should produce a real PDF and count its pages', async () => {
+      const sections: InsightSection[] = [];
+      for (let i = 0; i < 6; i++) {
+        sections.push({ type: 'heading', content: `Chapter ${i + 1}` });
+        sections.push({ type: 'paragraph', content: 'Habits form through repetition. '.repeat(80) });
+        sections.push({ type: 'insightNote', title: 'Insight Atlas Note', content: 'Identity drives behaviour.' });
+        sections.push({ type: 'numberedList', content: '', items: ['Make it obvious', 'Make it easy'] });
+        sections.push({
+          type: 'visual',
+          content: '',
+          visualType: 'barChart',
+          visualData: { labels: ['Cue', 'Reward'], values: [3, 5] },
+        });
+      }
+
+      const { buffer, pageCount } = await renderPremiumPDF(exportOptions(sections));
+
+      expect(buffer.subarray(0, 5).toString()).toBe('%PDF-');
+      // Cover, contents and several pages of body text
+      expect(pageCount).toBeGreaterThan(4);
+      const declaredPages = buffer.toString('latin1').match(/\/Type \/Page\b/g) ?? [];
+      expect(declaredPages).toHaveLength(pageCount);
+    });
+
+    it('should render an insight with no sections', async () => {
+      const { buffer, pageCount } = await renderPremiumPDF(exportOptions([]));
+
+      expect(buffer.length).toBeGreaterThan(0);
+      expect(pageCount).toBe(3);
+    });
+  });
+
+  describe('pdfText', () => {
+    it('should keep WinAnsi punctuation and drop characters the standard fonts lack', () => {
+      expect(pdfText('Cue → Reward — “done” 💡')).toBe('Cue -> Reward — “done” ');
+      expect(pdfText('Café')).toBe('Café');
+    });
+  });
+
+  describe('summarizeVisual', () => {
+    it('should summarize charts as bars', () => {
+      expect(summarizeVisual('donutChart', { data: [{ label: 'A', value: 2 }, { label: 'B', value: 3 }] })).toEqual({
+        kind: 'bars',
+        title: undefined,
+        items: [{ label: 'A', value: 2 }, { label: 'B', value: 3 }],
+      });
+    });
+
+    it('should summarize flows and timelines as steps', () => {
+      const flow = summarizeVisual('flowDiagram', { nodes: ['Cue', 'Craving'] });
+      expect(flow).toMatchObject({ kind: 'steps', items: [{ label: 'Cue' }, { label: 'Craving' }] });
+
+      const timeline = summarizeVisual('timeline', { events: [{ date: '1990', title: 'Start' }] });
+      expect(timeline).toMatchObject({ kind: 'steps', items: [{ label: '1990 — Start' }] });
+    });
+
+    it('should summarize matrices as groups and skip empty ones', () => {
+      const swot = summarizeVisual('swotMatrix', { strengths: ['Focus'], threats: ['Drift'] });
+      expect(swot).toMatchObject({
+        kind: 'groups',
+        groups: [{ label: 'Strengths', items: ['Focus'] }, { label: 'Threats', items: ['Drift'] }],
+      });
+    });
+
+    it('should return null for visuals that do not validate', () => {
+      expect(summarizeVisual('barChart', { labels: [] })).toBeNull();
+      expect(summarizeVisual('notAType', {})).toBeNull();
+    });
+  });
+});
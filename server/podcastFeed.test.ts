@@ -0,0 +1,74 @@
+import { describe, it, expect } from 'vitest';
+import { buildPodcastFeed, podcastFeedPath } from './services/podcastFeed';
+import type { AudioAsset, Book, Insight } from '../drizzle/schema';
+
+const createdAt = new Date('2026-01-01T00:00:00Z');
+
+const channel = {
+  title: "Insight Atlas: Ada's Guides",
+  description: 'Narrated guides.',
+  siteUrl: 'https://atlas.example',
+  feedUrl: `https://atlas.example${podcastFeedPath('secret-token')}`,
+  imageUrl: 'https://atlas.example/insight-atlas-logo.png',
+};
+
+const book = {
+  id: 7,
+  userId: 1,
+  title: 'Atomic Habits',
+  author: 'James Clear',
+  coverUrl: 'https://storage.example/covers/7.jpg',
+  createdAt,
+} as Book;
+
+const insight = {
+  id: 12,
+  bookId: 7,
+  userId: 1,
+  title: 'Atomic Habits & the 1% Rule',
+  summary: 'Small habits <compound>.',
+  status: 'completed',
+  createdAt,
+} as Insight;
+
+const audio = {
+  id: 3,
+  insightId: 12,
+  length: 'full',
+  mode: 'script',
+  audioUrl: 'https://storage.example/insights/12/audio-1.mp3',
+  durationSeconds: 754,
+  chapters: JSON.stringify([
+    { title: 'Introduction', startMs: 0, endMs: 61500 },
+    { title: 'The Habit Loop', startMs: 61500, endMs: 3723004 },
+  ]),
+  createdAt,
+  updatedAt: createdAt,
+} as AudioAsset;
+
+describe('Podcast Feed', () => {
+  it('should list each narrated insight as an episode with iTunes tags and chapters', () => {
+    const xml = buildPodcastFeed(channel, [{ insight, audio, book }]);
+
+    expect(xml).toContain('<atom:link href="https://atlas.example/api/podcast/secret-token/feed.xml" rel="self"');
+    expect(xml).toContain('<title>Atomic Habits &amp; the 1% Rule</title>');
+    expect(xml).toContain('<description>Small habits &lt;compound&gt;.</description>');
+    expect(xml).toContain('<enclosure url="https://storage.example/insights/12/audio-1.mp3" length="0" type="audio/mpeg"/>');
+    expect(xml).toContain('<itunes:duration>754</itunes:duration>');
+    expect(xml).toContain('<itunes:image href="https://storage.example/covers/7.jpg"/>');
+    expect(xml).toContain('<pubDate>Thu, 01 Jan 2026 00:00:00 GMT</pubDate>');
+    expect(xml).toContain('<psc:chapter start="00:00:00.000" title="Introduction"/>');
+    expect(xml).toContain('<psc:chapter start="00:01:01.500" title="The Habit Loop"/>');
+  });
+
+  it('should serve stored paths as absolute URLs, WAV narration by its type, and skip missing details', () => {
+    const wavAudio = { ...audio, audioUrl: '/manus-storage/insights/12/audio-1.wav', durationSeconds: null, chapters: null } as AudioAsset;
+
+    const xml = buildPodcastFeed(channel, [{ insight, audio: wavAudio }]);
+
+    expect(xml).toContain('<enclosure url="https://atlas.example/manus-storage/insights/12/audio-1.wav" length="0" type="audio/wav"/>');
+    expect(xml).not.toContain('<itunes:duration>');
+    expect(xml).not.toContain('<psc:chapters');
+    expect(xml.match(/<itunes:image /g)).toHaveLength(1);
+  });
+});
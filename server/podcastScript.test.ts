@@ -0,0 +1,33 @@
+import { describe, it, expect } from 'vitest';
+import { selectPodcastPerspectives, type InsightSection } from './services/premiumInsightPipeline';
+
+const section = (id: string, type: string, fields: Partial<InsightSection> = {}): InsightSection => ({
+  id,
+  type,
+  title: id,
+  content: `${id} content`,
+  ...fields,
+});
+
+describe('Podcast Script', () => {
+  it('should argue over the distinctions of Insight Atlas Notes', () => {
+    const perspectives = selectPodcastPerspectives([
+      section('Quick Glance', 'quickGlance'),
+      section('Note on CBT', 'insightAtlasNote', { metadata: { keyDistinction: 'CBT targets thoughts, not habits' } }),
+      section('Habit Loop', 'conceptExplanation'),
+      section('Note on Stoicism', 'insightAtlasNote'),
+      section('Empty Note', 'insightAtlasNote', { content: '' }),
+    ]);
+
+    expect(perspectives).toEqual([
+      'Note on CBT: CBT targets thoughts, not habits',
+      'Note on Stoicism: Note on Stoicism content',
+    ]);
+  });
+
+  it('should keep at most five perspectives', () => {
+    const notes = Array.from({ length: 8 }, (_, i) => section(`Note ${i + 1}`, 'insightAtlasNote'));
+
+    expect(selectPodcastPerspectives(notes)).toHaveLength(5);
+  });
+});
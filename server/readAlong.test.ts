@@ -0,0 +1,84 @@
+import { describe, it, expect } from 'vitest';
+import type { ContentBlock } from '../drizzle/schema';
+import { computeBlockTimings, readAlongChapters, splitSentences, wordTimesFromSegments } from './services/readAlong';
+
+const block = (id: number, blockType: string, fields: Partial<ContentBlock> = {}): ContentBlock => ({
+  id,
+  insightId: 1,
+  blockType,
+  title: null,
+  content: null,
+  visualType: null,
+  visualData: null,
+  listItems: null,
+  metadata: null,
+  audioTimings: null,
+  orderIndex: id,
+  createdAt: new Date(),
+  ...fields,
+});
+
+describe('Read Along', () => {
+  it('should group block sentences into chapters at headings, skipping visuals', () => {
+    const chapters = readAlongChapters([
+      block(1, 'paragraph', { content: 'Habits compound. They **shape** identity' }),
+      block(2, 'heading', { content: 'The Habit Loop' }),
+      block(3, 'bullet_list', { content: 'Four stages:', listItems: JSON.stringify(['Cue', 'Craving']) }),
+      block(4, 'visual', { visualType: 'flowchart' }),
+    ]);
+
+    expect(chapters.map(chapter => chapter.title)).toEqual(['Introduction', 'The Habit Loop']);
+    expect(chapters[0].sentences).toEqual([
+      { blockId: 1, text: 'Habits compound.' },
+      { blockId: 1, text: 'They shape identity.' },
+    ]);
+    expect(chapters[1].sentences.map(sentence => sentence.blockId)).toEqual([2, 3, 3, 3]);
+  });
+
+  it('should split overlong sentences on whitespace', () => {
+    const parts = splitSentences(`${'word '.repeat(30)}end.`, 40);
+
+    expect(parts.every(part => part.length <= 40)).toBe(true);
+    expect(parts.join(' ')).toBe(`${'word '.repeat(30)}end.`);
+  });
+
+  it('should time words from provider character alignment', () => {
+    const sentences = [{ blockId: 1, text: 'One two.' }, { blockId: 2, text: 'Three.' }];
+    const text = 'One two. Three.';
+    const charStartMs = Array.from(text, (_, i) => i * 10);
+
+    const timings = computeBlockTimings([sentences], [{ text, startMs: 5000, durationMs: 400, alignment: { charStartMs } }]);
+
+    expect(timings.get(1)).toEqual({
+      startMs: 5000,
+      endMs: 5090,
+      sentences: [{ text: 'One two.', startMs: 5000, endMs: 5090, words: [5000, 5040] }],
+    });
+    // The last sentence runs to the end of its chunk
+    expect(timings.get(2)?.sentences[0]).toMatchObject({ startMs: 5090, endMs: 5400, words: [5090] });
+  });
+
+  it('should spread unaligned chunks over their exact duration', () => {
+    const sentences = [{ blockId: 7, text: 'Alpha beta.' }, { blockId: 7, text: 'Gamma delta.' }];
+    const text = 'Alpha beta. Gamma delta.';
+
+    const timing = computeBlockTimings([sentences], [{ text, startMs: 1000, durationMs: 2400 }]).get(7);
+
+    expect(timing?.startMs).toBe(1000);
+    expect(timing?.endMs).toBe(3400);
+    expect(timing?.sentences[1].startMs).toBe(Math.round(1000 + (2400 * 12) / text.length));
+  });
+
+  it('should map transcript word times onto the narrated words', () => {
+    const wordTimes = wordTimesFromSegments([
+      { start: 0, end: 1, text: ' One two' },
+      { start: 1.5, end: 2, text: ' three' },
+    ]);
+    expect(wordTimes).toEqual([0, 500, 1500]);
+
+    const sentences = [{ blockId: 1, text: 'One two three.' }];
+    const timing = computeBlockTimings([sentences], [{ text: 'One two three.', startMs: 0, durationMs: 2200 }], wordTimes).get(1);
+
+    expect(timing?.sentences[0].words).toEqual([0, 500, 1500]);
+  });
+});
@@ -1,7 +1,7 @@
-import { COOKIE_NAME } from "../shared/const";
-import { getSessionCookieOptions } from "./_core/cookies";
+import { ANONYMOUS_USER_ID, COOKIE_NAME } from "../shared/const";
+import { getRequestOrigin, getSessionCookieOptions } from "./_core/cookies";
 import { systemRouter } from "./_core/systemRouter";
-import { publicProcedure, uploadProcedure, insightProcedure, audioProcedure, exportProcedure, router } from "./_core/trpc";
+import { publicProcedure, protectedProcedure, uploadProcedure, insightProcedure, audioProcedure, exportProcedure, router } from "./_core/trpc";
 import { TRPCError } from "@trpc/server";
 import { z } from "zod";
 import * as db from "./db";
@@ -11,18 +11,27 @@ import { extractAndUploadCover } from "./services/coverExtraction";
 import { generateInsight } from "./services/insightGeneration";
 // Legacy claudeService removed - now using dualLLMService
 import { isAnthropicConfigured } from "./services/dualLLMService";
-import { generatePremiumInsight, convertToLegacyFormat } from "./services/premiumInsightPipeline";
-import { normalizeSectionsForExport, generateTableOfContents } from "./services/sectionNormalizer";
+import { enqueueInsightGeneration, cancelInsightGeneration } from "./services/insightGenerationJob";
+import { clearCheckpoints, getResumeStage } from "./services/generationCheckpoints";
+import { contentBlocksToExportSections } from "./services/contentBlockSections";
+import type { BookAnalysis } from "./services/stage0BookAnalysis";
 import { streamPremiumInsight, StreamingProgress } from "./services/streamingPremiumPipeline";
-import { generateAudioNarration, getVoiceOptions, estimateAudioDuration, VoiceId } from "./services/audioGeneration";
+import { getVoiceOptions, estimateAudioDuration } from "./services/audioGeneration";
+import { generateAudioVariant, sortAudioAssets, toAudioAssetView } from "./services/audioAssets";
+import { getOrCreateFeedToken, podcastFeedPath, rotateFeedToken } from "./services/podcastFeed";
+import { getContinueListening, getResumePosition, savePlaybackPosition } from "./services/listeningProgress";
 import { generatePremiumPDF, generateMarkdownExport, generatePlainTextExport, generateHTMLExport } from "./services/pdfExport";
+import { generateEPUBExport } from "./services/epubExport";
+import { withExportCache, exportCacheContent } from "./services/exportCache";
+import { generateDOCXExport } from "./services/docxExport";
+import { generateVaultExport } from "./services/vaultExport";
+import { enqueueLibraryExport, LIBRARY_EXPORT_FORMATS, LIBRARY_EXPORT_JOB, type LibraryExportResult } from "./services/libraryExportJob";
+import { buildInsightDocument, parseInsightDocument, importInsightDocument, generateJSONExport, type InsightDocument } from "./services/insightDocument";
 import { storagePut } from "./storage";
-import { VISUAL_TYPE_INFO } from "../shared/types";
+import { VISUAL_TYPE_INFO, NARRATION_MODES, AUDIO_LENGTHS, type BlockAudioTiming } from "../shared/types";
+import { renderVisual } from "./services/visualSvg";
 import { getDebugLogs, clearDebugLogs, debugLog, logExtraction, logGeneration, logError, logAPI } from "./services/debugLogger";
 
-// Default anonymous user ID for no-login access
-const ANONYMOUS_USER_ID = 1;
-
 // Helper to get user ID (uses authenticated user or falls back to anonymous)
 function getUserId(ctx: { user?: { id: number } | null }): number {
   return ctx.user?.id || ANONYMOUS_USER_ID;
@@ -154,160 +163,55 @@ export const appRouter = router({
     generate: insightProcedure
       .input(z.object({ bookId: z.number() }))
       .mutation(async ({ ctx, input }) => {
+        const userId = getUserId(ctx);
         let insightId: number | null = null;
         try {
-          logGeneration('Starting insight generation', { bookId: input.bookId });
-          
-          const userId = getUserId(ctx);
+          logGeneration('Queueing insight generation', { bookId: input.bookId });
+
           const book = await db.getBookById(input.bookId);
           if (!book) {
             logError('generation', 'Book not found', { bookId: input.bookId });
             throw new Error("Book not found");
           }
-          
-          logGeneration('Book loaded', { title: book.title, author: book.author, textLength: book.extractedText?.length });
 
-          // Create insight record with pending status
+          // Create insight record; the job worker fills it in
           insightId = await db.createInsight({
             userId,
             bookId: input.bookId,
             title: `Insights: ${book.title}`,
             summary: "",
-            status: "generating",
+            status: "pending",
             keyThemes: JSON.stringify([]),
             audioScript: "",
           });
-          // Generate insights using Premium Pipeline (Stage 0 + Stage 1)
-          logGeneration('Starting Premium Pipeline', { bookTitle: book.title, insightId });
-          
-          // Progress callback to update database during generation
-          const updateProgress = async (stage: string, progress: number) => {
-            if (!insightId) return;
-            await db.updateInsight(insightId, {
-              currentStage: stage,
-              generationProgress: progress,
-              status: stage === 'completed' ? 'completed' : 'generating'
-            });
-            logGeneration('Progress update', { insightId, stage, progress });
-          };
-          
-          const premiumInsight = await generatePremiumInsight(
-            book.title,
-            book.author,
-            book.extractedText || "",
-            insightId,
-            updateProgress
-          );
-          logGeneration('Premium Pipeline complete', { 
-            sections: premiumInsight.sections.length, 
-            wordCount: premiumInsight.wordCount,
-            keyThemes: premiumInsight.keyThemes.length,
-            insightId 
-          });
-
-          // Normalize premium sections for export-friendly storage
-          const normalizedSections = normalizeSectionsForExport(premiumInsight.sections);
-          logGeneration('Sections normalized for export', { 
-            originalCount: premiumInsight.sections.length,
-            normalizedCount: normalizedSections.length 
-          });
-          
-          // Store normalized content blocks
-          for (let i = 0; i < normalizedSections.length; i++) {
-            const section = normalizedSections[i];
-            await db.createContentBlock({
-              insightId,
-              blockType: section.type,
-              content: section.content || "",
-              title: section.title || null,
-              orderIndex: i,
-              visualType: section.visualType || null,
-              visualData: section.visualData ? JSON.stringify(section.visualData) : null,
-              listItems: section.type === 'list' ? section.content : null,
-            });
-          }
-
-          // Update insight with generated content
-          await db.updateInsight(insightId, {
-            title: premiumInsight.title,
-            summary: premiumInsight.summary,
-            status: "completed",
-            keyThemes: JSON.stringify(premiumInsight.keyThemes),
-            audioScript: premiumInsight.audioScript,
-            wordCount: premiumInsight.wordCount,
-            recommendedVisuals: JSON.stringify(premiumInsight.tableOfContents.map(t => t.type)),
-          });
-
-          // Update library item with insight
-          const libraryItems = await db.getLibraryItemsByUserId(userId);
-          const libraryItem = libraryItems.find(item => item.bookId === input.bookId);
-          if (libraryItem) {
-            await db.updateLibraryItem(libraryItem.id, {
-              insightId,
-              readingStatus: "reading",
-            });
-          }
 
-          // Sanitize all string data to prevent browser API errors
-          const sanitizeString = (str: string | null | undefined): string => {
-            if (!str) return '';
-            return String(str)
-              .replace(/[\x00-\x1F\x7F]/g, '') // Remove control characters
-              .replace(/[\uD800-\uDFFF]/g, '') // Remove unpaired surrogates
-              .trim();
-          };
+          const jobId = await enqueueInsightGeneration(insightId, input.bookId, userId);
+          logGeneration('Insight generation queued', { insightId, jobId });
 
-          // Return only insightId to avoid tRPC serialization issues
-          // The frontend will poll for the full data via getStatus
-          logGeneration('Returning insightId', { insightId });
-          
-          // Validate insightId is a valid number
-          if (!insightId || typeof insightId !== 'number' || insightId <= 0) {
-            throw new TRPCError({
-              code: 'INTERNAL_SERVER_ERROR',
-              message: 'Invalid insight ID generated'
-            });
-          }
-          
+          // Return only insightId; progress arrives via WebSocket or getStatus
           return { insightId: Number(insightId) };
         } catch (error) {
           // Import and use error logger
           const { logError: logErrorToFile } = await import('./errorLogger.js');
-          
+
           const errorMessage = error instanceof Error ? error.message : String(error);
-          const errorStack = error instanceof Error ? error.stack : undefined;
-          
-          // Log comprehensive error details to file
+
           logErrorToFile({
             timestamp: new Date().toISOString(),
             errorType: 'generation_mutation',
             errorMessage,
-            errorStack,
+            errorStack: error instanceof Error ? error.stack : undefined,
             requestPath: 'insights.generate',
             requestInput: { bookId: input.bookId },
             userId,
             bookId: input.bookId,
-            insightId,
-            additionalInfo: {
-              bookTitle: book?.title,
-              bookAuthor: book?.author,
-              errorName: error instanceof Error ? error.name : 'Unknown',
-              errorConstructor: error?.constructor?.name,
-            }
+            insightId: insightId ?? undefined,
           });
-          
-          // Aggressive sanitization to prevent tRPC URL encoding issues
-          const sanitizedMessage = errorMessage
-            .replace(/[\x00-\x1F\x7F-\x9F]/g, '') // Remove all control characters
-            .replace(/[^\x20-\x7E]/g, '') // Keep only printable ASCII
-            .replace(/["'`]/g, '') // Remove quotes
-            .substring(0, 200); // Shorter limit
-          
-          logError('generation', 'Insight generation failed', { 
-            insightId, 
+
+          logError('generation', 'Failed to queue insight generation', {
+            insightId,
             bookId: input.bookId,
-            error: sanitizedMessage,
-            stack: error instanceof Error ? error.stack : undefined
+            error: errorMessage,
           });
           if (insightId) {
             await db.updateInsight(insightId, { status: "failed" });
@@ -330,24 +234,50 @@ export const appRouter = router({
         }
 
         const contentBlocks = await db.getContentBlocksByInsightId(input.id);
+        const audioAssets = await db.getAudioAssetsByInsightId(input.id);
 
         return {
           ...insight,
           keyThemes: safeJsonParse(insight.keyThemes, []),
           recommendedVisuals: safeJsonParse(insight.recommendedVisuals, []),
+          audioAssets: sortAudioAssets(audioAssets).map(toAudioAssetView),
           contentBlocks: contentBlocks.map(block => ({
             ...block,
             visualData: block.visualData ? safeJsonParse(block.visualData, null) : null,
             listItems: block.listItems ? safeJsonParse(block.listItems, null) : null,
+            metadata: block.metadata ? safeJsonParse<Record<string, unknown> | null>(block.metadata, null) : null,
+            audioTimings: safeJsonParse<BlockAudioTiming | null>(block.audioTimings, null),
           })),
         };
       }),
 
+    // Get the stored Stage 0 analysis (Book Profile) for a book
+    getAnalysis: publicProcedure
+      .input(z.object({ bookId: z.number() }))
+      .query(async ({ input }) => {
+        const record = await db.getBookAnalysisByBookId(input.bookId);
+        if (!record) {
+          return null;
+        }
+        const analysis = safeJsonParse<BookAnalysis | null>(record.analysis, null);
+        if (!analysis) {
+          return null;
+        }
+        return {
+          bookId: record.bookId,
+          insightId: record.insightId,
+          updatedAt: record.updatedAt,
+          analysis,
+        };
+      }),
+
     // Get insights for a book
     getByBook: publicProcedure
       .input(z.object({ bookId: z.number() }))
       .query(async ({ input }) => {
-        return db.getInsightsByBookId(input.bookId);
+        const insights = await db.getInsightsByBookId(input.bookId);
+        const narratedInsightIds = await db.getNarratedInsightIds(insights.map(insight => insight.id));
+        return insights.map(insight => ({ ...insight, hasAudio: narratedInsightIds.has(insight.id) }));
       }),
 
     // List all user insights
@@ -369,6 +299,25 @@ export const appRouter = router({
         return { success: true };
       }),
 
+    // Recreate an insight from a JSON export (rate limited with uploads)
+    import: uploadProcedure
+      .input(z.object({ document: z.unknown() }))
+      .mutation(async ({ ctx, input }) => {
+        let document: InsightDocument;
+        try {
+          document = parseInsightDocument(input.document);
+        } catch (error) {
+          throw new TRPCError({
+            code: 'BAD_REQUEST',
+            message: error instanceof Error ? error.message : 'Invalid insight document',
+          });
+        }
+
+        const result = await importInsightDocument(document, getUserId(ctx));
+        logGeneration('Insight imported', { ...result, version: document.version });
+        return result;
+      }),
+
     // Regenerate insights for an existing insight
     regenerate: publicProcedure
       .input(z.object({ id: z.number() }))
@@ -383,60 +332,78 @@ export const appRouter = router({
           throw new Error("Book not found");
         }
 
-        // Delete existing content blocks
-        await db.deleteContentBlocksByInsightId(input.id);
+        // A running job would keep writing into the rows cleared below
+        const job = await db.getLatestJobByInsightId(input.id);
+        if (job && (job.status === "queued" || job.status === "running")) {
+          throw new TRPCError({
+            code: 'CONFLICT',
+            message: 'Generation is already running',
+          });
+        }
 
-        // Update insight status to regenerating
+        // Delete existing content and stage checkpoints so every stage reruns
+        await db.deleteContentBlocksByInsightId(input.id);
+        await clearCheckpoints(input.id);
+        await db.deleteAudioAssetsByInsightId(input.id);
         await db.updateInsight(input.id, {
-          status: "generating",
           summary: "",
           audioScript: "",
-          audioUrl: null,
+          podcastScript: null,
         });
 
-        try {
-          // Regenerate using Premium Pipeline
-          logGeneration('Starting insight regeneration', { insightId: input.id, bookTitle: book.title });
-          const premiumInsight = await generatePremiumInsight(
-            book.title || "Unknown Book",
-            book.author || "Unknown Author",
-            book.extractedText || ""
-          );
-
-          // Convert to legacy format and save
-          const legacyInsight = convertToLegacyFormat(premiumInsight);
-
-          // Update insight with new content
-          await db.updateInsight(input.id, {
-            title: premiumInsight.title,
-            summary: legacyInsight.summary,
-            keyThemes: JSON.stringify(premiumInsight.keyThemes),
-            audioScript: premiumInsight.audioScript,
-            status: "completed",
+        logGeneration('Queueing insight regeneration', { insightId: input.id, bookTitle: book.title });
+        await enqueueInsightGeneration(input.id, book.id, getUserId(ctx));
+        return { success: true, insightId: input.id };
+      }),
+
+    // Resume a failed or cancelled generation from its first incomplete stage
+    resume: insightProcedure
+      .input(z.object({ id: z.number() }))
+      .mutation(async ({ ctx, input }) => {
+        const insight = await db.getInsightById(input.id);
+        if (!insight) {
+          throw new Error("Insight not found");
+        }
+        if (insight.status === "completed") {
+          throw new TRPCError({
+            code: 'BAD_REQUEST',
+            message: 'Insight is already complete',
           });
+        }
 
-          // Save new content blocks
-          for (let i = 0; i < legacyInsight.sections.length; i++) {
-            const section = legacyInsight.sections[i];
-            await db.createContentBlock({
-              insightId: input.id,
-              blockType: 'section',
-              title: section.title,
-              content: section.content,
-              orderIndex: i,
-              visualType: section.visualType,
-              visualData: section.chartData ? JSON.stringify(section.chartData) : null,
-              listItems: section.listItems ? JSON.stringify(section.listItems) : null,
-            });
-          }
+        const job = await db.getLatestJobByInsightId(input.id);
+        if (job && (job.status === "queued" || job.status === "running")) {
+          throw new TRPCError({
+            code: 'BAD_REQUEST',
+            message: 'Generation is already running',
+          });
+        }
 
-          logGeneration('Insight regeneration complete', { insightId: input.id, sections: legacyInsight.sections.length });
-          return { success: true, insightId: input.id };
-        } catch (error) {
-          logError('generation', 'Regeneration failed', { insightId: input.id, error: String(error) });
-          await db.updateInsight(input.id, { status: "failed" });
-          throw error;
+        const completedStages = await db.getGenerationCheckpointStages(input.id);
+        const resumeFrom = getResumeStage(completedStages);
+        logGeneration('Resuming insight generation', { insightId: input.id, completedStages, resumeFrom });
+
+        await enqueueInsightGeneration(input.id, insight.bookId, getUserId(ctx));
+        return { success: true, insightId: input.id, resumeFrom };
+      }),
+
+    // Cancel a queued or in-flight generation
+    cancel: publicProcedure
+      .input(z.object({ id: z.number() }))
+      .mutation(async ({ input }) => {
+        const insight = await db.getInsightById(input.id);
+        if (!insight) {
+          throw new Error("Insight not found");
+        }
+
+        const cancelled = await cancelInsightGeneration(input.id);
+        if (!cancelled) {
+          throw new TRPCError({
+            code: 'BAD_REQUEST',
+            message: 'Generation is not running',
+          });
         }
+        return { success: true };
       }),
 
     // Get generation status for polling
@@ -453,6 +420,7 @@ export const appRouter = router({
           }
           
           const contentBlocks = await db.getContentBlocksByInsightId(input.id);
+          const job = await db.getLatestJobByInsightId(input.id);
           
           // Sanitize strings to prevent browser API errors
           // This is critical because tRPC may use these strings in URL construction
@@ -494,6 +462,13 @@ export const appRouter = router({
             sectionCount: contentBlocks.length || 0,
             title: sanitizeString(insight.title, 'title'),
             summary: sanitizeString(insight.summary, 'summary'),
+            job: job ? {
+              status: job.status,
+              attempts: job.attempts,
+              maxAttempts: job.maxAttempts,
+              lastError: sanitizeString(job.lastError, 'lastError'),
+              nextRunAt: job.status === 'queued' ? job.runAt : null,
+            } : null,
           };
           
           console.log('[getStatus] Returning status:', {
@@ -584,35 +559,66 @@ export const appRouter = router({
 
   // Audio router
   audio: router({
-    // Generate audio narration (rate limited: 15/hour)
+    // Generate an audio narration of the insight (rate limited: 15/hour);
+    // each length, mode and voice is kept as a separate audio asset
     generate: audioProcedure
       .input(z.object({
         insightId: z.number(),
         voiceId: z.string().optional(),
+        // "readAlong" narrates the guide itself, timed for highlighting;
+        // "podcast" is a two-host conversation
+        mode: z.enum(NARRATION_MODES).default("script"),
+        // Shorter lengths condense the guide into a summary narration
+        length: z.enum(AUDIO_LENGTHS).default("full"),
+        // Second host's voice in podcast mode
+        coHostVoiceId: z.string().optional(),
       }))
       .mutation(async ({ input }) => {
-        const insight = await db.getInsightById(input.insightId);
-        if (!insight) {
-          throw new Error("Insight not found");
-        }
+        const asset = await generateAudioVariant(input.insightId, input);
+        return toAudioAssetView(asset);
+      }),
 
-        if (!insight.audioScript) {
-          throw new Error("No audio script available");
-        }
+    // Remember where the user is in an insight's narration, across devices
+    savePosition: publicProcedure
+      .input(z.object({
+        insightId: z.number(),
+        // Narration being played
+        audioAssetId: z.number(),
+        positionSeconds: z.number().min(0),
+        durationSeconds: z.number().positive().optional(),
+        // Listening session to extend, from the previous save
+        sessionId: z.number().optional(),
+        // Time played since the previous save
+        listenedSeconds: z.number().min(0).max(3600).default(0),
+      }))
+      .mutation(async ({ ctx, input }) => {
+        return savePlaybackPosition(getUserId(ctx), input);
+      }),
 
-        const result = await generateAudioNarration(
-          insight.audioScript,
-          (input.voiceId as VoiceId) || "rachel",
-          input.insightId
-        );
+    // Saved position and the narration it is in, or null to start at the beginning
+    getPosition: publicProcedure
+      .input(z.object({ insightId: z.number() }))
+      .query(async ({ ctx, input }) => {
+        return getResumePosition(getUserId(ctx), input.insightId);
+      }),
 
-        await db.updateInsight(input.insightId, {
-          audioUrl: result.audioUrl,
-          audioDuration: result.duration,
-        });
+    // Narrations started but not finished, for the library
+    continueListening: publicProcedure.query(async ({ ctx }) => {
+      return getContinueListening(getUserId(ctx));
+    }),
 
-        return result;
-      }),
+    // Private podcast feed of the user's narrated guides; signed-in users
+    // only, since the anonymous user is shared by every visitor
+    feed: protectedProcedure.query(async ({ ctx }) => {
+      const feedToken = await getOrCreateFeedToken(ctx.user.id);
+      return { url: `${getRequestOrigin(ctx.req)}${podcastFeedPath(feedToken)}` };
+    }),
+
+    // Replace the feed URL, revoking the old one
+    resetFeed: protectedProcedure.mutation(async ({ ctx }) => {
+      const feedToken = await rotateFeedToken(ctx.user.id);
+      return { url: `${getRequestOrigin(ctx.req)}${podcastFeedPath(feedToken)}` };
+    }),
 
     // Get voice options
     voices: publicProcedure.query(() => {
@@ -668,6 +674,31 @@ export const appRouter = router({
         return db.searchLibrary(userId, input.query);
       }),
 
+    // Queue a zip of every completed insight in one format; progress
+    // arrives over the WebSocket job channel (subscribeJob)
+    exportAll: exportProcedure
+      .input(z.object({ format: z.enum(LIBRARY_EXPORT_FORMATS) }))
+      .mutation(async ({ ctx, input }) => {
+        const jobId = await enqueueLibraryExport(getUserId(ctx), input.format);
+        return { jobId };
+      }),
+
+    // Status and result of a library export job
+    getExport: publicProcedure
+      .input(z.object({ jobId: z.number() }))
+      .query(async ({ ctx, input }) => {
+        const job = await db.getJobById(input.jobId);
+        if (!job || job.type !== LIBRARY_EXPORT_JOB || job.userId !== getUserId(ctx)) {
+          throw new Error("Export not found");
+        }
+        return {
+          jobId: job.id,
+          status: job.status,
+          result: safeJsonParse<LibraryExportResult | null>(job.result, null),
+          error: job.status === "failed" ? "Export failed. Please try again." : null,
+        };
+      }),
+
     // Delete library item
     delete: publicProcedure
       .input(z.object({ id: z.number() }))
@@ -698,7 +729,7 @@ export const appRouter = router({
     // Generate PDF export
     pdf: exportProcedure
       .input(z.object({ insightId: z.number() }))
-      .mutation(async ({ input }) => {
+      .mutation(async ({ ctx, input }) => {
         const insight = await db.getInsightById(input.insightId);
         if (!insight) {
           throw new Error("Insight not found");
@@ -711,22 +742,23 @@ export const appRouter = router({
 
         const contentBlocks = await db.getContentBlocksByInsightId(input.insightId);
 
-        const result = await generatePremiumPDF({
+        const options = {
           title: insight.title,
           author: book.author,
           summary: insight.summary || "",
-          sections: contentBlocks.map(block => ({
-            type: block.blockType as any,
-            content: block.content || "",
-            title: block.title || undefined,
-            visualType: block.visualType as any,
-            visualData: block.visualData ? safeJsonParse(block.visualData, undefined) : undefined,
-            items: block.listItems ? safeJsonParse(block.listItems, undefined) : undefined,
-          })),
+          sections: contentBlocksToExportSections(contentBlocks),
           keyThemes: safeJsonParse(insight.keyThemes, []),
           bookTitle: book.title,
           generatedAt: new Date(),
-        }, input.insightId);
+        };
+
+        const result = await withExportCache({
+          insightId: input.insightId,
+          userId: getUserId(ctx),
+          format: "pdf",
+          content: exportCacheContent(options),
+          file: result => ({ key: result.pdfKey, url: result.pdfUrl }),
+        }, () => generatePremiumPDF(options, input.insightId));
 
         await db.updateInsight(input.insightId, {
           pdfUrl: result.pdfUrl,
@@ -738,7 +770,7 @@ export const appRouter = router({
     // Generate Markdown export
     markdown: exportProcedure
       .input(z.object({ insightId: z.number() }))
-      .mutation(async ({ input }) => {
+      .mutation(async ({ ctx, input }) => {
         const insight = await db.getInsightById(input.insightId);
         if (!insight) {
           throw new Error("Insight not found");
@@ -747,20 +779,23 @@ export const appRouter = router({
         const book = await db.getBookById(insight.bookId);
         const contentBlocks = await db.getContentBlocksByInsightId(input.insightId);
 
-        const result = await generateMarkdownExport({
+        const options = {
           title: insight.title,
           author: book?.author || null,
           summary: insight.summary || "",
-          sections: contentBlocks.map(block => ({
-            type: block.blockType as any,
-            content: block.content || "",
-            title: block.title || undefined,
-            items: block.listItems ? safeJsonParse(block.listItems, undefined) : undefined,
-          })),
+          sections: contentBlocksToExportSections(contentBlocks),
           keyThemes: safeJsonParse(insight.keyThemes, []),
           bookTitle: book?.title || "",
           generatedAt: new Date(),
-        }, input.insightId);
+        };
+
+        const result = await withExportCache({
+          insightId: input.insightId,
+          userId: getUserId(ctx),
+          format: "markdown",
+          content: exportCacheContent(options),
+          file: result => ({ key: result.markdownKey, url: result.markdownUrl }),
+        }, () => generateMarkdownExport(options, input.insightId));
 
         return result;
       }),
@@ -768,7 +803,7 @@ export const appRouter = router({
     // Generate Plain Text export
     plainText: exportProcedure
       .input(z.object({ insightId: z.number() }))
-      .mutation(async ({ input }) => {
+      .mutation(async ({ ctx, input }) => {
         const insight = await db.getInsightById(input.insightId);
         if (!insight) {
           throw new Error("Insight not found");
@@ -777,20 +812,23 @@ export const appRouter = router({
         const book = await db.getBookById(insight.bookId);
         const contentBlocks = await db.getContentBlocksByInsightId(input.insightId);
 
-        const result = await generatePlainTextExport({
+        const options = {
           title: insight.title,
           author: book?.author || null,
           summary: insight.summary || "",
-          sections: contentBlocks.map(block => ({
-            type: block.blockType as any,
-            content: block.content || "",
-            title: block.title || undefined,
-            items: block.listItems ? safeJsonParse(block.listItems, undefined) : undefined,
-          })),
+          sections: contentBlocksToExportSections(contentBlocks),
           keyThemes: safeJsonParse(insight.keyThemes, []),
           bookTitle: book?.title || "",
           generatedAt: new Date(),
-        }, input.insightId);
+        };
+
+        const result = await withExportCache({
+          insightId: input.insightId,
+          userId: getUserId(ctx),
+          format: "plainText",
+          content: exportCacheContent(options),
+          file: result => ({ key: result.textKey, url: result.textUrl }),
+        }, () => generatePlainTextExport(options, input.insightId));
 
         return result;
       }),
@@ -798,7 +836,7 @@ export const appRouter = router({
     // Generate HTML export
     html: exportProcedure
       .input(z.object({ insightId: z.number() }))
-      .mutation(async ({ input }) => {
+      .mutation(async ({ ctx, input }) => {
         const insight = await db.getInsightById(input.insightId);
         if (!insight) {
           throw new Error("Insight not found");
@@ -807,20 +845,167 @@ export const appRouter = router({
         const book = await db.getBookById(insight.bookId);
         const contentBlocks = await db.getContentBlocksByInsightId(input.insightId);
 
-        const result = await generateHTMLExport({
+        const options = {
           title: insight.title,
           author: book?.author || null,
           summary: insight.summary || "",
-          sections: contentBlocks.map(block => ({
-            type: block.blockType as any,
-            content: block.content || "",
-            title: block.title || undefined,
-            items: block.listItems ? safeJsonParse(block.listItems, undefined) : undefined,
-          })),
+          sections: contentBlocksToExportSections(contentBlocks),
           keyThemes: safeJsonParse(insight.keyThemes, []),
           bookTitle: book?.title || "",
           generatedAt: new Date(),
-        }, input.insightId);
+        };
+
+        const result = await withExportCache({
+          insightId: input.insightId,
+          userId: getUserId(ctx),
+          format: "html",
+          content: exportCacheContent(options),
+          file: result => ({ key: result.htmlKey, url: result.htmlUrl }),
+        }, () => generateHTMLExport(options, input.insightId));
+
+        return result;
+      }),
+
+    // Generate Word export
+    docx: exportProcedure
+      .input(z.object({ insightId: z.number() }))
+      .mutation(async ({ ctx, input }) => {
+        const insight = await db.getInsightById(input.insightId);
+        if (!insight) {
+          throw new Error("Insight not found");
+        }
+
+        const book = await db.getBookById(insight.bookId);
+        const contentBlocks = await db.getContentBlocksByInsightId(input.insightId);
+
+        const options = {
+          title: insight.title,
+          author: book?.author || null,
+          summary: insight.summary || "",
+          sections: contentBlocksToExportSections(contentBlocks),
+          keyThemes: safeJsonParse(insight.keyThemes, []),
+          bookTitle: book?.title || "",
+          generatedAt: new Date(),
+        };
+
+        const result = await withExportCache({
+          insightId: input.insightId,
+          userId: getUserId(ctx),
+          format: "docx",
+          content: exportCacheContent(options),
+          file: result => ({ key: result.docxKey, url: result.docxUrl }),
+        }, () => generateDOCXExport(options, input.insightId));
+
+        return result;
+      }),
+
+    // Generate the canonical JSON document (re-importable via insights.import)
+    json: exportProcedure
+      .input(z.object({ insightId: z.number() }))
+      .mutation(async ({ ctx, input }) => {
+        const insight = await db.getInsightById(input.insightId);
+        if (!insight) {
+          throw new Error("Insight not found");
+        }
+
+        const book = await db.getBookById(insight.bookId);
+        if (!book) {
+          throw new Error("Book not found");
+        }
+
+        const contentBlocks = await db.getContentBlocksByInsightId(input.insightId);
+        const analysisRecord = await db.getBookAnalysisByBookId(insight.bookId);
+
+        const document = buildInsightDocument(book, insight, contentBlocks, analysisRecord);
+        const { exportedAt: _exportedAt, ...content } = document;
+
+        return withExportCache({
+          insightId: input.insightId,
+          userId: getUserId(ctx),
+          format: "json",
+          content,
+          file: result => ({ key: result.jsonKey, url: result.jsonUrl }),
+        }, () => generateJSONExport(document, input.insightId));
+      }),
+
+    // Generate an Obsidian/Notion vault of interlinked Markdown notes
+    vault: exportProcedure
+      .input(z.object({ insightId: z.number() }))
+      .mutation(async ({ ctx, input }) => {
+        const insight = await db.getInsightById(input.insightId);
+        if (!insight) {
+          throw new Error("Insight not found");
+        }
+
+        const book = await db.getBookById(insight.bookId);
+        const contentBlocks = await db.getContentBlocksByInsightId(input.insightId);
+        const analysisRecord = await db.getBookAnalysisByBookId(insight.bookId);
+
+        const options = {
+          title: insight.title,
+          author: book?.author || null,
+          summary: insight.summary || "",
+          sections: contentBlocksToExportSections(contentBlocks),
+          keyThemes: safeJsonParse(insight.keyThemes, []),
+          bookTitle: book?.title || "",
+          generatedAt: new Date(),
+          analysis: analysisRecord ? safeJsonParse<BookAnalysis | null>(analysisRecord.analysis, null) : null,
+        };
+
+        const result = await withExportCache({
+          insightId: input.insightId,
+          userId: getUserId(ctx),
+          format: "vault",
+          content: exportCacheContent(options),
+          file: result => ({ key: result.vaultKey, url: result.vaultUrl }),
+        }, () => generateVaultExport(options, input.insightId));
+
+        return result;
+      }),
+
+    // Previously stored exports of an insight, newest first
+    history: publicProcedure
+      .input(z.object({ insightId: z.number() }))
+      .query(async ({ input }) => {
+        const records = await db.getInsightExportsByInsightId(input.insightId);
+        return records.map(record => ({
+          id: record.id,
+          format: record.format,
+          fileUrl: record.fileUrl,
+          createdAt: record.createdAt,
+        }));
+      }),
+
+    // Generate EPUB export
+    epub: exportProcedure
+      .input(z.object({ insightId: z.number() }))
+      .mutation(async ({ ctx, input }) => {
+        const insight = await db.getInsightById(input.insightId);
+        if (!insight) {
+          throw new Error("Insight not found");
+        }
+
+        const book = await db.getBookById(insight.bookId);
+        const contentBlocks = await db.getContentBlocksByInsightId(input.insightId);
+
+        const options = {
+          title: insight.title,
+          author: book?.author || null,
+          summary: insight.summary || "",
+          sections: contentBlocksToExportSections(contentBlocks),
+          keyThemes: safeJsonParse(insight.keyThemes, []),
+          bookTitle: book?.title || "",
+          generatedAt: new Date(),
+          coverUrl: book?.coverUrl,
+        };
+
+        const result = await withExportCache({
+          insightId: input.insightId,
+          userId: getUserId(ctx),
+          format: "epub",
+          content: exportCacheContent(options),
+          file: result => ({ key: result.epubKey, url: result.epubUrl }),
+        }, () => generateEPUBExport(options, input.insightId));
 
         return result;
       }),
@@ -832,6 +1017,24 @@ export const appRouter = router({
     types: publicProcedure.query(() => {
       return VISUAL_TYPE_INFO;
     }),
+
+    // Draw visualData as a standalone SVG (for share images, e-mails and embeds)
+    render: publicProcedure
+      .input(z.object({
+        visualType: z.string().min(1).max(50),
+        visualData: z.unknown(),
+        title: z.string().max(255).optional(),
+      }))
+      .mutation(({ input }) => {
+        const rendered = renderVisual(input.visualType, input.visualData, input.title);
+        if (!rendered) {
+          throw new TRPCError({
+            code: "BAD_REQUEST",
+            message: `Visual data does not match the ${input.visualType} visual type`,
+          });
+        }
+        return rendered;
+      }),
   }),
 
   // Debug router for monitoring extraction and generation
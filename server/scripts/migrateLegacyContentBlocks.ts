@@ -0,0 +1,41 @@
+/**
+ * Upgrade flattened content blocks to premium section rows
+ *
+ * Insights generated before premium rows were stored have their sections
+ * split into heading/paragraph/list/quote/table rows without metadata, or,
+ * when regenerated, stored as untyped `section` rows. This rewrites the rows
+ * of every completed insight that still has them.
+ *
+ * Usage: pnpm db:migrate-blocks
+ */
+
+import * as db from '../db';
+import { migrateLegacyContentBlocks, LegacyMigrationResult } from '../services/contentBlockSections';
+
+async function main() {
+  const insights = await db.getInsightsByStatus('completed');
+  const counts: Record<LegacyMigrationResult, number> = { checkpoint: 0, rebuilt: 0, skipped: 0 };
+
+  for (const insight of insights) {
+    try {
+      const result = await migrateLegacyContentBlocks(insight.id);
+      counts[result]++;
+      if (result !== 'skipped') {
+        console.log(`[Migrate] Insight ${insight.id}: ${result}`);
+      }
+    } catch (error) {
+      console.error(`[Migrate] Insight ${insight.id} failed:`, error);
+    }
+  }
+
+  console.log(
+    `[Migrate] Done: ${counts.checkpoint} from checkpoints, ${counts.rebuilt} rebuilt, ${counts.skipped} already up to date`
+  );
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch(error => {
+    console.error('[Migrate] Failed:', error);
+    process.exit(1);
+  });
@@ -0,0 +1,335 @@
+/**
+ * Audio Analysis
+ *
+ * Exact duration and waveform peaks for narration audio, read straight
+ * from the file rather than estimated from its size:
+ * - MP3: every frame header is parsed; duration is the sum of samples per
+ *   frame. Peaks come from each granule's quantizer step size (global_gain
+ *   in the Layer III side info), which tracks loudness closely enough to
+ *   draw a scrubber without decoding the audio.
+ * - WAV: duration from the byte rate, peaks from the PCM samples.
+ */
+
+import type { SpeechFormat } from "./ttsProvider";
+
+export const WAVEFORM_PEAK_COUNT = 200;
+
+export interface AudioMetadata {
+  durationMs: number;
+  /** Loudness per equal slice of the audio, 0 to 1 relative to the loudest */
+  peaks: number[];
+}
+
+export interface Mp3Frame {
+  offset: number;
+  length: number;
+  sampleRate: number;
+  samples: number;
+  /** Loudness estimate from the frame's side info; 0 for silence */
+  level: number;
+}
+
+// Kilobits per second by [MPEG-1 ? 0 : 1][layer - 1][bitrate index]
+const BITRATES = [
+  [
+    [0, 32, 64, 96, 128, 160, 192, 224, 256, 288, 320, 352, 384, 416, 448],
+    [0, 32, 48, 56, 64, 80, 96, 112, 128, 160, 192, 224, 256, 320, 384],
+    [0, 32, 40, 48, 56, 64, 80, 96, 112, 128, 160, 192, 224, 256, 320],
+  ],
+  [
+    [0, 32, 48, 56, 64, 80, 96, 112, 128, 144, 160, 176, 192, 224, 256],
+    [0, 8, 16, 24, 32, 40, 48, 56, 64, 80, 96, 112, 128, 144, 160],
+    [0, 8, 16, 24, 32, 40, 48, 56, 64, 80, 96, 112, 128, 144, 160],
+  ],
+];
+const SAMPLE_RATES = [44100, 48000, 32000];
+
+/**
+ * Duration and waveform peaks of an audio file
+ */
+export function analyzeAudio(audio: Buffer, format: SpeechFormat, peakCount: number = WAVEFORM_PEAK_COUNT): AudioMetadata {
+  if (format === "wav") {
+    return analyzeWav(audio, peakCount);
+  }
+
+  const frames = parseMp3Frames(audio);
+  const sampleRate = frames[0]?.sampleRate ?? 44100;
+  const totalSamples = frames.reduce((total, frame) => total + frame.samples, 0);
+  return {
+    durationMs: Math.round((totalSamples / sampleRate) * 1000),
+    peaks: normalizePeaks(bucketMax(frames.map(frame => frame.level), peakCount)),
+  };
+}
+
+/**
+ * Exact playing time of an MP3 file
+ */
+export function mp3DurationMs(mp3: Buffer): number {
+  return analyzeAudio(mp3, "mp3", 0).durationMs;
+}
+
+/**
+ * Exact playing time of a WAV file
+ */
+export function wavDurationMs(wav: Buffer): number {
+  return analyzeAudio(wav, "wav", 0).durationMs;
+}
+
+/**
+ * Every MPEG audio frame in the file, skipping ID3 tags, junk between
+ * frames and the Xing/Info/VBRI header frame encoders put first
+ */
+export function parseMp3Frames(mp3: Buffer): Mp3Frame[] {
+  const frames: Mp3Frame[] = [];
+  let offset = 0;
+
+  if (mp3.length >= 10 && mp3.toString("latin1", 0, 3) === "ID3") {
+    const size = ((mp3[6] & 0x7f) << 21) | ((mp3[7] & 0x7f) << 14) | ((mp3[8] & 0x7f) << 7) | (mp3[9] & 0x7f);
+    offset = 10 + size + ((mp3[5] & 0x10) !== 0 ? 10 : 0);
+  }
+
+  // Whether offset is where the previous frame ended
+  let inSync = false;
+  while (offset + 4 <= mp3.length) {
+    const header = readFrameHeader(mp3, offset);
+    // After junk, only trust a header whose successor also parses, so stray sync bytes are skipped
+    const confirmed = header && (inSync || offset + header.length + 4 > mp3.length || readFrameHeader(mp3, offset + header.length));
+    if (!header || !confirmed) {
+      inSync = false;
+      offset++;
+      continue;
+    }
+    if (offset + header.length > mp3.length) break;
+
+    if (!(frames.length === 0 && isInfoFrame(mp3, offset, header))) {
+      frames.push({
+        offset,
+        length: header.length,
+        sampleRate: header.sampleRate,
+        samples: header.samples,
+        level: header.layer === 3 ? granuleLevel(mp3, offset, header) : 1,
+      });
+    }
+    offset += header.length;
+    inSync = true;
+  }
+
+  return frames;
+}
+
+// ---------------------------------------------------------------------------
+// MP3 frames
+// ---------------------------------------------------------------------------
+
+interface FrameHeader {
+  mpeg1: boolean;
+  layer: number;
+  hasCrc: boolean;
+  mono: boolean;
+  sampleRate: number;
+  samples: number;
+  length: number;
+}
+
+function readFrameHeader(buffer: Buffer, offset: number): FrameHeader | null {
+  if (offset + 4 > buffer.length || buffer[offset] !== 0xff || (buffer[offset + 1] & 0xe0) !== 0xe0) return null;
+
+  const versionBits = (buffer[offset + 1] >> 3) & 0x03;
+  const layerBits = (buffer[offset + 1] >> 1) & 0x03;
+  const bitrateIndex = buffer[offset + 2] >> 4;
+  const sampleRateIndex = (buffer[offset + 2] >> 2) & 0x03;
+  if (versionBits === 1 || layerBits === 0 || bitrateIndex === 0 || bitrateIndex === 15 || sampleRateIndex === 3) {
+    return null;
+  }
+
+  const mpeg1 = versionBits === 3;
+  const layer = 4 - layerBits;
+  // MPEG-2 halves the sample rates, MPEG-2.5 quarters them
+  const sampleRate = SAMPLE_RATES[sampleRateIndex] / (mpeg1 ? 1 : versionBits === 2 ? 2 : 4);
+  const bitrate = BITRATES[mpeg1 ? 0 : 1][layer - 1][bitrateIndex] * 1000;
+  const padding = (buffer[offset + 2] >> 1) & 0x01;
+
+  let samples: number;
+  let length: number;
+  if (layer === 1) {
+    samples = 384;
+    length = (Math.floor((12 * bitrate) / sampleRate) + padding) * 4;
+  } else {
+    samples = layer === 3 && !mpeg1 ? 576 : 1152;
+    length = Math.floor(((samples / 8) * bitrate) / sampleRate) + padding;
+  }
+
+  return {
+    mpeg1,
+    layer,
+    hasCrc: (buffer[offset + 1] & 0x01) === 0,
+    mono: buffer[offset + 3] >> 6 === 3,
+    sampleRate,
+    samples,
+    length,
+  };
+}
+
+function sideInfoStart(offset: number, header: FrameHeader): number {
+  return offset + 4 + (header.hasCrc ? 2 : 0);
+}
+
+function sideInfoLength(header: FrameHeader): number {
+  if (header.mpeg1) return header.mono ? 17 : 32;
+  return header.mono ? 9 : 17;
+}
+
+// The Xing/Info (LAME) or VBRI (Fraunhofer) frame holds stream metadata and
+// no audio
+function isInfoFrame(buffer: Buffer, offset: number, header: FrameHeader): boolean {
+  const xingAt = sideInfoStart(offset, header) + sideInfoLength(header);
+  const tag = buffer.toString("latin1", xingAt, xingAt + 4);
+  return tag === "Xing" || tag === "Info" || buffer.toString("latin1", offset + 36, offset + 40) === "VBRI";
+}
+
+/**
+ * Loudest granule of a Layer III frame: the quantizer step size is
+ * 2^((global_gain - 210) / 4), and a granule without Huffman data is silent
+ */
+function granuleLevel(buffer: Buffer, offset: number, header: FrameHeader): number {
+  const start = sideInfoStart(offset, header);
+  if (start + sideInfoLength(header) > buffer.length) return 0;
+
+  const bits = new BitReader(buffer, start);
+  const channels = header.mono ? 1 : 2;
+  if (header.mpeg1) {
+    bits.skip(9 + (header.mono ? 5 : 3) + 4 * channels);
+  } else {
+    bits.skip(8 + (header.mono ? 1 : 2));
+  }
+
+  let level = 0;
+  for (let granule = 0; granule < (header.mpeg1 ? 2 : 1); granule++) {
+    for (let channel = 0; channel < channels; channel++) {
+      const part23Length = bits.read(12);
+      bits.skip(9);
+      const globalGain = bits.read(8);
+      // scalefac_compress, window switching and table fields, then flags
+      bits.skip((header.mpeg1 ? 4 : 9) + 1 + 22 + (header.mpeg1 ? 3 : 2));
+      if (part23Length > 0) {
+        level = Math.max(level, 2 ** ((globalGain - 210) / 4));
+      }
+    }
+  }
+  return level;
+}
+
+class BitReader {
+  private position = 0;
+
+  constructor(private readonly buffer: Buffer, private readonly start: number) {}
+
+  read(count: number): number {
+    let value = 0;
+    for (let i = 0; i < count; i++) {
+      const byte = this.buffer[this.start + (this.position >> 3)] ?? 0;
+      value = (value << 1) | ((byte >> (7 - (this.position & 7))) & 1);
+      this.position++;
+    }
+    return value;
+  }
+
+  skip(count: number): void {
+    this.position += count;
+  }
+}
+
+// ---------------------------------------------------------------------------
+// WAV
+// ---------------------------------------------------------------------------
+
+/**
+ * The fmt chunk body and PCM data of a RIFF/WAVE file
+ */
+export function parseWav(wav: Buffer): { format: Buffer; data: Buffer } {
+  if (wav.length < 12 || wav.toString("latin1", 0, 4) !== "RIFF" || wav.toString("latin1", 8, 12) !== "WAVE") {
+    throw new Error("Not a WAV file");
+  }
+
+  let format: Buffer | null = null;
+  let offset = 12;
+  while (offset + 8 <= wav.length) {
+    const id = wav.toString("latin1", offset, offset + 4);
+    // Engines writing to a pipe leave sizes at a placeholder, so clamp to the buffer
+    const size = Math.min(wav.readUInt32LE(offset + 4), wav.length - offset - 8);
+    const body = wav.subarray(offset + 8, offset + 8 + size);
+    if (id === "fmt ") {
+      format = body;
+    } else if (id === "data") {
+      if (!format || format.length < 16) break;
+      return { format, data: body };
+    }
+    offset += 8 + size + (size % 2);
+  }
+
+  throw new Error("WAV file has no audio data");
+}
+
+function analyzeWav(wav: Buffer, peakCount: number): AudioMetadata {
+  const { format, data } = parseWav(wav);
+  const formatTag = format.readUInt16LE(0);
+  const channels = format.readUInt16LE(2);
+  const byteRate = format.readUInt32LE(8);
+  const bitsPerSample = format.readUInt16LE(14);
+  const bytesPerSample = bitsPerSample / 8;
+  const sampleCount = Math.floor(data.length / (bytesPerSample * channels));
+
+  const readSample = (index: number): number => {
+    const at = index * bytesPerSample;
+    switch (bitsPerSample) {
+      case 8:
+        return (data[at] - 128) / 128;
+      case 16:
+        return data.readInt16LE(at) / 32768;
+      case 24:
+        return data.readIntLE(at, 3) / 8388608;
+      case 32:
+        // Format tag 3 is IEEE float
+        return formatTag === 3 ? data.readFloatLE(at) : data.readInt32LE(at) / 2147483648;
+      default:
+        return 0;
+    }
+  };
+
+  const peaks: number[] = [];
+  if (peakCount > 0 && sampleCount > 0) {
+    for (let bucket = 0; bucket < peakCount; bucket++) {
+      const from = Math.floor((bucket * sampleCount) / peakCount) * channels;
+      const to = Math.floor(((bucket + 1) * sampleCount) / peakCount) * channels;
+      let peak = 0;
+      for (let i = from; i < to; i++) {
+        peak = Math.max(peak, Math.abs(readSample(i)));
+      }
+      peaks.push(peak);
+    }
+  }
+
+  return {
+    durationMs: byteRate > 0 ? Math.round((data.length / byteRate) * 1000) : 0,
+    peaks: normalizePeaks(peaks),
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Peaks
+// ---------------------------------------------------------------------------
+
+function bucketMax(levels: number[], count: number): number[] {
+  if (count <= 0 || levels.length === 0) return [];
+  return Array.from({ length: count }, (_, bucket) => {
+    const from = Math.floor((bucket * levels.length) / count);
+    const to = Math.max(from + 1, Math.floor(((bucket + 1) * levels.length) / count));
+    return Math.max(...levels.slice(from, Math.min(to, levels.length)), 0);
+  });
+}
+
+// Relative to the loudest slice, two decimals keep the stored JSON small
+function normalizePeaks(peaks: number[]): number[] {
+  const max = Math.max(...peaks, 0);
+  return peaks.map(peak => (max > 0 ? Math.round((peak / max) * 100) / 100 : 0));
+}
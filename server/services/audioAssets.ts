@@ -0,0 +1,202 @@
+/**
+ * Audio Assets
+ *
+ * An insight keeps one narration per length, mode and voice
+ * (`audio_assets`): the full audio script, the guide read along, a podcast
+ * episode, or the guide condensed to about 10 or 3 minutes. Condensed
+ * scripts are written to a word budget derived from the target duration,
+ * trimmed with estimateAudioDuration when they run long, and kept on the
+ * asset so narrating them in another voice reuses them.
+ */
+
+import * as db from "../db";
+import { safeJsonParse } from "../db";
+import type { AudioAsset, Insight } from "../../drizzle/schema";
+import { AUDIO_LENGTH_SECONDS, AUDIO_LENGTHS, NARRATION_MODES, type AudioLength, type NarrationMode } from "../../shared/types";
+import type { BookAnalysis } from "./stage0BookAnalysis";
+import { estimateAudioDuration, generateAudioNarration, type AudioGenerationResult } from "./audioGeneration";
+import type { AudioChapter } from "./audioStitching";
+import { contentBlockToSection } from "./contentBlockSections";
+import { generateReadAlongNarration } from "./readAlong";
+import { generatePodcastNarration } from "./podcastGeneration";
+import { generateCondensedScript } from "./premiumInsightPipeline";
+
+// Speaking rate the word budget assumes, as estimateAudioDuration does
+const WORDS_PER_MINUTE = 150;
+// Condensed scripts may run this much over their target before being trimmed
+const DURATION_TOLERANCE = 0.1;
+
+export interface AudioVariantRequest {
+  length: AudioLength;
+  mode: NarrationMode;
+  voiceId?: string;
+  /** Second host's voice in podcast mode */
+  coHostVoiceId?: string;
+}
+
+/**
+ * An audio asset as served to the player
+ */
+export interface AudioAssetView extends Omit<AudioAsset, "script" | "chapters" | "waveform"> {
+  chapters: AudioChapter[];
+  waveform: number[];
+}
+
+/**
+ * Narrate an insight at the requested length, mode and voice and store the
+ * result, replacing an earlier narration of the same kind
+ */
+export async function generateAudioVariant(insightId: number, request: AudioVariantRequest): Promise<AudioAsset> {
+  const insight = await db.getInsightById(insightId);
+  if (!insight) {
+    throw new Error("Insight not found");
+  }
+  if (request.length !== "full" && request.mode !== "script") {
+    throw new Error("Only summary narration can be condensed to a shorter length");
+  }
+
+  let result: AudioGenerationResult;
+  let script: string | null = null;
+  if (request.mode === "readAlong") {
+    result = await generateReadAlongNarration(insightId, request.voiceId, insight.title);
+    // The block timings now match this narration only
+    await db.deleteAudioAssetsByInsightId(insightId, "readAlong");
+  } else if (request.mode === "podcast") {
+    result = await generatePodcastNarration(insightId, [request.voiceId, request.coHostVoiceId]);
+  } else if (request.length === "full") {
+    if (!insight.audioScript) {
+      throw new Error("No audio script available");
+    }
+    result = await generateAudioNarration(insight.audioScript, request.voiceId, insightId, insight.title);
+  } else {
+    script = await getCondensedScript(insight, request.length);
+    result = await generateAudioNarration(script, request.voiceId, insightId, insight.title);
+  }
+
+  return saveAudioAsset(insightId, request.length, request.mode, result, script);
+}
+
+/**
+ * Store a narration as one of the insight's audio assets
+ */
+export async function saveAudioAsset(
+  insightId: number,
+  length: AudioLength,
+  mode: NarrationMode,
+  result: AudioGenerationResult,
+  script: string | null = null
+): Promise<AudioAsset> {
+  return db.upsertAudioAsset({
+    insightId,
+    length,
+    mode,
+    voiceId: result.voiceId,
+    provider: result.provider,
+    script,
+    audioUrl: result.audioUrl,
+    audioKey: result.audioKey,
+    durationSeconds: result.duration,
+    chapters: JSON.stringify(result.chapters),
+    waveform: JSON.stringify(result.waveform),
+  });
+}
+
+/**
+ * Parse an asset's JSON columns; the script stays on the server
+ */
+export function toAudioAssetView({ script: _script, chapters, waveform, ...asset }: AudioAsset): AudioAssetView {
+  return {
+    ...asset,
+    chapters: safeJsonParse<AudioChapter[]>(chapters, []),
+    waveform: safeJsonParse<number[]>(waveform, []),
+  };
+}
+
+/**
+ * Order assets for the player's switcher: longest first, then by mode,
+ * then most recent
+ */
+export function sortAudioAssets<T extends Pick<AudioAsset, "length" | "mode" | "updatedAt">>(assets: T[]): T[] {
+  const rank = (asset: T) =>
+    AUDIO_LENGTHS.indexOf(asset.length as AudioLength) * NARRATION_MODES.length + NARRATION_MODES.indexOf(asset.mode as NarrationMode);
+  return [...assets].sort((a, b) => rank(a) - rank(b) || b.updatedAt.getTime() - a.updatedAt.getTime());
+}
+
+/**
+ * The narration that stands for the insight where only one is used (the
+ * podcast feed): the most recent full-length one, else the most recent
+ */
+export function primaryAudioAsset<T extends Pick<AudioAsset, "length" | "updatedAt">>(assets: T[]): T | undefined {
+  const newestFirst = [...assets].sort((a, b) => b.updatedAt.getTime() - a.updatedAt.getTime());
+  return newestFirst.find(asset => asset.length === "full") ?? newestFirst[0];
+}
+
+/**
+ * Words that fill `seconds` of narration
+ */
+export function wordsForDuration(seconds: number): number {
+  return Math.round((seconds / 60) * WORDS_PER_MINUTE);
+}
+
+/**
+ * Cut a script that runs past `targetSeconds` down to size: topics (or,
+ * without headings, paragraphs) are kept from the start while they fit,
+ * and the last one, the closing takeaway, is always kept
+ */
+export function fitScriptToDuration(script: string, targetSeconds: number): string {
+  const limit = targetSeconds * (1 + DURATION_TOLERANCE);
+  if (estimateAudioDuration(script) <= limit) return script;
+
+  const normalized = script.replace(/\r\n?/g, "\n").trim();
+  const parts = /^\s*#{1,6}\s/m.test(normalized)
+    ? normalized.split(/\n(?=\s*#{1,6}\s)/)
+    : normalized.split(/\n\s*\n/);
+  const units = parts.map(part => part.trim()).filter(Boolean);
+  const closing = units.pop();
+  if (!closing) return script;
+
+  const kept: string[] = [];
+  let seconds = estimateAudioDuration(closing);
+  for (const unit of units) {
+    const unitSeconds = estimateAudioDuration(unit);
+    if (seconds + unitSeconds > limit) break;
+    kept.push(unit);
+    seconds += unitSeconds;
+  }
+  return [...kept, closing].join("\n\n");
+}
+
+/**
+ * The condensed script of a length: reused from an earlier narration of it,
+ * else written from the guide's content blocks
+ */
+async function getCondensedScript(insight: Insight, length: Exclude<AudioLength, "full">): Promise<string> {
+  const assets = await db.getAudioAssetsByInsightId(insight.id);
+  const cached = assets.find(asset => asset.length === length && asset.mode === "script" && asset.script);
+  if (cached?.script) return cached.script;
+
+  const [book, blocks, analysisRecord] = await Promise.all([
+    db.getBookById(insight.bookId),
+    db.getContentBlocksByInsightId(insight.id),
+    db.getBookAnalysisByBookId(insight.bookId),
+  ]);
+  const sections = blocks.map(contentBlockToSection);
+  if (!sections.some(section => section.content)) {
+    throw new Error("Insight has no content to condense");
+  }
+
+  const targetSeconds = AUDIO_LENGTH_SECONDS[length];
+  const script = await generateCondensedScript(
+    {
+      bookTitle: book?.title ?? insight.title,
+      bookAuthor: book?.author ?? "Unknown Author",
+      title: insight.title,
+      sections,
+    },
+    analysisRecord ? safeJsonParse<BookAnalysis | null>(analysisRecord.analysis, null) : null,
+    wordsForDuration(targetSeconds)
+  );
+  const fitted = fitScriptToDuration(script, targetSeconds);
+  console.log(`[Audio Assets] Condensed insight ${insight.id} to ~${estimateAudioDuration(fitted)}s for a ${targetSeconds}s narration`);
+  return fitted;
+}
@@ -1,118 +1,455 @@
-import { storagePut } from "../storage";
+/**
+ * Audio Generation
+ *
+ * Narrates insight audio scripts through the configured text-to-speech
+ * provider (see ttsProvider). The script is split into sections, each
+ * section into chunks under the provider's request limit; chunks are
+ * synthesized in parallel and stitched into one file with a chapter per
+ * section. Dialogue scripts voice each speaker's turns separately.
+ *
+ * TTS_PROVIDER ("elevenlabs" or "local") picks the default provider;
+ * without it ElevenLabs is used when configured, then the local engine.
+ */
 
-const ELEVENLABS_API_URL = "https://api.elevenlabs.io/v1";
-
-// Get API key dynamically to ensure it's available after server start
-function getElevenLabsApiKey(): string | undefined {
-  return process.env.ELEVENLABS_API_KEY;
-}
-
-// Premium voice IDs from ElevenLabs
-const VOICE_OPTIONS = {
-  rachel: "21m00Tcm4TlvDq8ikWAM", // Rachel - warm, professional female
-  drew: "29vD33N1CtxCmqQRPOHJ", // Drew - confident male
-  clyde: "2EiwWnXFnvU5JabPnv8n", // Clyde - deep, authoritative male
-  domi: "AZnzlk1XvdvUeBnXmlld", // Domi - expressive female
-  bella: "EXAVITQu4vr4xnSDxMaL", // Bella - soft, engaging female
-  antoni: "ErXwobaYiN019PkySvjV", // Antoni - warm male
-  elli: "MF3mGyEYCl7XYWbV9V6O", // Elli - young female
-  josh: "TxGEqnHWrfWFTfGW9XjX", // Josh - deep male
-  arnold: "VR6AewLTigWG4xSOukaG", // Arnold - crisp male
-  adam: "pNInz6obpgDQGcFmaJgB", // Adam - deep male
-  sam: "yoZ06aMxZJJ28mfd3POQ", // Sam - raspy male
-};
+import { storagePut } from "../storage";
+import { analyzeAudio, mp3DurationMs, wavDurationMs } from "./audioAnalysis";
+import { stitchMp3, stitchWav, stripMp3Headers, type AudioChapter } from "./audioStitching";
+import { elevenLabsProvider } from "./elevenLabsService";
+import { localTtsProvider } from "./localTtsService";
+import {
+  TtsProviderError,
+  type SpeechAlignment,
+  type SpeechFormat,
+  type SpeechRequest,
+  type SynthesizedSpeech,
+  type TtsProvider,
+  type TtsVoice,
+} from "./ttsProvider";
 
-export type VoiceId = keyof typeof VOICE_OPTIONS;
+const TTS_PROVIDERS: TtsProvider[] = [elevenLabsProvider, localTtsProvider];
 
 export interface AudioGenerationResult {
   audioUrl: string;
   audioKey: string;
   duration: number;
+  /** Waveform peaks for the player's scrubber */
+  waveform: number[];
   voiceId: string;
+  provider: TtsProvider["id"];
+  chapters: AudioChapter[];
+}
+
+/**
+ * One chapter of the narration, synthesized in one or more requests
+ */
+export interface NarrationSection {
+  title: string;
+  chunks: string[];
+  /** Voice of each chunk, as an index into the narration's voices; the first voice by default */
+  speakers?: number[];
+}
+
+/**
+ * One synthesized chunk placed on the timeline of the stitched file
+ */
+export interface NarratedChunk {
+  text: string;
+  startMs: number;
+  durationMs: number;
+  alignment?: SpeechAlignment;
+}
+
+export interface NarrationResult extends AudioGenerationResult {
+  chunks: NarratedChunk[];
+}
+
+const DEFAULT_MAX_CHUNK_CHARS = 4500;
+const SYNTHESIS_ATTEMPTS = 3;
+const RETRY_BASE_DELAY_MS = 1000;
+
+const AUDIO_CONTENT_TYPES: Record<SpeechFormat, string> = {
+  mp3: "audio/mpeg",
+  wav: "audio/wav",
+};
+
+/**
+ * The provider narration uses unless a voice from another one is picked
+ */
+export function getDefaultTtsProvider(): TtsProvider {
+  const preferred = TTS_PROVIDERS.find(provider => provider.id === process.env.TTS_PROVIDER);
+  return preferred ?? TTS_PROVIDERS.find(provider => provider.isConfigured()) ?? elevenLabsProvider;
 }
 
 /**
- * Generate audio narration using ElevenLabs API
+ * Whether any provider can synthesize narration
+ */
+export function isTtsConfigured(): boolean {
+  return TTS_PROVIDERS.some(provider => provider.isConfigured());
+}
+
+/**
+ * Voice catalog: the voices of every configured provider, default provider
+ * first, or the default provider's voices when none is configured
+ */
+export function getVoiceOptions(): TtsVoice[] {
+  const defaultProvider = getDefaultTtsProvider();
+  const providers = [defaultProvider, ...TTS_PROVIDERS.filter(provider => provider !== defaultProvider && provider.isConfigured())];
+  return providers.flatMap(provider => provider.listVoices());
+}
+
+/**
+ * The catalog voice for an id, falling back to the default provider's first
+ * voice for unknown or missing ids
+ */
+export function resolveVoice(voiceId?: string | null): { provider: TtsProvider; voice: TtsVoice } {
+  const defaultProvider = getDefaultTtsProvider();
+  for (const provider of [defaultProvider, ...TTS_PROVIDERS]) {
+    const voice = provider.listVoices().find(v => v.id === voiceId);
+    if (voice && (provider === defaultProvider || provider.isConfigured())) {
+      return { provider, voice };
+    }
+  }
+
+  const [voice] = defaultProvider.listVoices();
+  if (!voice) {
+    throw new Error(`${defaultProvider.name} text-to-speech has no voices available`);
+  }
+  return { provider: defaultProvider, voice };
+}
+
+/**
+ * Generate audio narration of an audio script with the provider of the
+ * chosen voice
  */
 export async function generateAudioNarration(
   script: string,
-  voiceId: VoiceId = "rachel",
-  insightId: number
+  voiceId: string | undefined,
+  insightId: number,
+  title?: string,
+  signal?: AbortSignal
 ): Promise<AudioGenerationResult> {
-  const apiKey = getElevenLabsApiKey();
-  if (!apiKey) {
-    throw new Error("ElevenLabs API key not configured");
-  }
+  const { chunks: _chunks, ...result } = await narrateSections(
+    maxChars => splitNarrationScript(script, maxChars),
+    voiceId,
+    insightId,
+    { title, signal }
+  );
+  return result;
+}
 
-  const voiceIdValue = VOICE_OPTIONS[voiceId] || VOICE_OPTIONS.rachel;
+/**
+ * Generate a podcast episode from a dialogue script, each speaker in
+ * `speakers` narrated with the voice at the same position of `voiceIds`
+ */
+export async function generateDialogueNarration(
+  script: string,
+  speakers: readonly string[],
+  voiceIds: (string | undefined)[],
+  insightId: number,
+  title?: string
+): Promise<AudioGenerationResult> {
+  const { chunks: _chunks, ...result } = await narrateSections(
+    maxChars => splitDialogueScript(script, speakers, maxChars),
+    voiceIds,
+    insightId,
+    { title }
+  );
+  return result;
+}
+
+/**
+ * Synthesize, stitch and upload narration sections; `buildSections` gets
+ * the provider's request limit. Several voices may be given for sections
+ * with speakers; they must all come from one provider. The result also
+ * places every synthesized chunk on the timeline of the stitched file.
+ */
+export async function narrateSections(
+  buildSections: (maxChars: number) => NarrationSection[],
+  voiceIds: string | undefined | (string | undefined)[],
+  insightId: number,
+  options: { title?: string; withAlignment?: boolean; signal?: AbortSignal } = {}
+): Promise<NarrationResult> {
+  const { provider, voices } = resolveVoices(Array.isArray(voiceIds) ? voiceIds : [voiceIds]);
+  if (!provider.isConfigured()) {
+    throw new Error(`${provider.name} text-to-speech is not configured`);
+  }
 
   try {
-    // Call ElevenLabs text-to-speech API
-    const response = await fetch(
-      `${ELEVENLABS_API_URL}/text-to-speech/${voiceIdValue}`,
-      {
-        method: "POST",
-        headers: {
-          "Accept": "audio/mpeg",
-          "Content-Type": "application/json",
-          "xi-api-key": apiKey,
-        },
-        body: JSON.stringify({
-          text: script,
-          model_id: "eleven_multilingual_v2",
-          voice_settings: {
-            stability: 0.5,
-            similarity_boost: 0.75,
-            style: 0.5,
-            use_speaker_boost: true,
-          },
-        }),
-      }
-    );
+    const sections = buildSections(provider.maxChars).filter(section => section.chunks.length > 0);
+    const texts = sections.flatMap(section => section.chunks);
+    const speakers = sections.flatMap(section => section.chunks.map((_, i) => section.speakers?.[i] ?? 0));
+    if (texts.length === 0) {
+      throw new Error("Audio script is empty");
+    }
 
-    if (!response.ok) {
-      const errorText = await response.text();
-      throw new Error(`ElevenLabs API error: ${response.status} - ${errorText}`);
+    // Neighbouring text only helps intonation when the same voice speaks it
+    const sameSpeaker = (i: number, j: number) => (speakers[j] === speakers[i] ? texts[j] : undefined);
+    const speech = await mapWithConcurrency(texts, provider.concurrency, (text, i) =>
+      synthesizeWithRetry(provider, {
+        text,
+        voice: voices[speakers[i]] ?? voices[0],
+        previousText: sameSpeaker(i, i - 1),
+        nextText: sameSpeaker(i, i + 1),
+        withAlignment: options.withAlignment,
+        signal: options.signal,
+      })
+    );
+    const format = speech[0].format;
+    if (speech.some(chunk => chunk.format !== format)) {
+      throw new Error(`${provider.name} returned audio in mixed formats`);
     }
 
-    // Get audio buffer
-    const audioBuffer = await response.arrayBuffer();
-    const audioData = Buffer.from(audioBuffer);
+    const audioChunks = format === "mp3" ? speech.map(chunk => stripMp3Headers(chunk.audio)) : speech.map(chunk => chunk.audio);
+    const chunkDurationMs = format === "mp3" ? mp3DurationMs : wavDurationMs;
+
+    const chunks: NarratedChunk[] = [];
+    let elapsedMs = 0;
+    audioChunks.forEach((audio, i) => {
+      const durationMs = chunkDurationMs(audio);
+      chunks.push({ text: texts[i], startMs: elapsedMs, durationMs, alignment: speech[i].alignment });
+      elapsedMs += durationMs;
+    });
+
+    // Each section's chapter spans the audio of its chunks
+    const chapters: AudioChapter[] = [];
+    let chunkIndex = 0;
+    for (const section of sections) {
+      const sectionChunks = chunks.slice(chunkIndex, chunkIndex + section.chunks.length);
+      chunkIndex += section.chunks.length;
+      const startMs = sectionChunks[0].startMs;
+      const last = sectionChunks[sectionChunks.length - 1];
+      chapters.push({ title: section.title, startMs, endMs: last.startMs + last.durationMs });
+    }
 
-    // Calculate approximate duration (rough estimate based on audio size)
-    // MP3 at 128kbps = 16KB per second
-    const estimatedDuration = Math.round(audioData.length / 16000);
+    const audioData = format === "mp3" ? stitchMp3(audioChunks, chapters, options.title) : stitchWav(audioChunks);
+    const { durationMs, peaks } = analyzeAudio(audioData, format);
 
     // Upload to S3
-    const audioKey = `insights/${insightId}/audio-${Date.now()}.mp3`;
-    const { url: audioUrl } = await storagePut(audioKey, audioData, "audio/mpeg");
+    const audioKey = `insights/${insightId}/audio-${Date.now()}.${format}`;
+    const { url: audioUrl } = await storagePut(audioKey, audioData, AUDIO_CONTENT_TYPES[format]);
 
     return {
       audioUrl,
       audioKey,
-      duration: estimatedDuration,
-      voiceId,
+      duration: Math.round(durationMs / 1000),
+      waveform: peaks,
+      voiceId: voices[0].id,
+      provider: provider.id,
+      chapters,
+      chunks,
     };
   } catch (error) {
+    if (options.signal?.aborted) {
+      throw error;
+    }
     console.error("[Audio Generation] Error:", error);
     throw new Error(`Failed to generate audio: ${error instanceof Error ? error.message : "Unknown error"}`);
   }
 }
 
 /**
- * Get available voice options
+ * Split a narration script into sections on Markdown headings or lines that
+ * are entirely bold, which become chapter titles and are not read out.
+ * A script without headings gets one chapter per chunk.
+ */
+export function splitNarrationScript(script: string, maxChars: number = DEFAULT_MAX_CHUNK_CHARS): NarrationSection[] {
+  const sections: { title: string | null; paragraphs: string[] }[] = [];
+  let current: { title: string | null; paragraphs: string[] } = { title: null, paragraphs: [] };
+  let paragraph: string[] = [];
+
+  const endParagraph = () => {
+    const text = paragraph.join(" ").replace(/\s+/g, " ").trim();
+    if (text) current.paragraphs.push(text);
+    paragraph = [];
+  };
+
+  for (const line of script.replace(/\r\n?/g, "\n").split("\n")) {
+    const heading = line.match(/^\s*#{1,6}\s+(.+?)\s*#*\s*$/) || line.match(/^\s*\*\*([^*]+)\*\*:?\s*$/);
+    if (heading) {
+      endParagraph();
+      if (current.title !== null || current.paragraphs.length > 0) sections.push(current);
+      current = { title: heading[1].trim(), paragraphs: [] };
+    } else if (line.trim() === "") {
+      endParagraph();
+    } else {
+      paragraph.push(line.trim());
+    }
+  }
+  endParagraph();
+  sections.push(current);
+
+  const hasHeadings = sections.some(section => section.title !== null);
+  if (!hasHeadings) {
+    return packChunks(sections[0].paragraphs, maxChars).map((chunk, i) => ({ title: `Part ${i + 1}`, chunks: [chunk] }));
+  }
+
+  return sections
+    .map(section => ({ title: section.title ?? "Introduction", chunks: packChunks(section.paragraphs, maxChars) }))
+    .filter(section => section.chunks.length > 0);
+}
+
+/**
+ * Split a dialogue script into sections on Markdown headings, with one or
+ * more chunks per turn. A turn starts with a line "<Speaker>: ..." (the name
+ * may be bold); lines without a speaker continue the current turn. A script
+ * without headings is a single chapter.
+ */
+export function splitDialogueScript(
+  script: string,
+  speakers: readonly string[],
+  maxChars: number = DEFAULT_MAX_CHUNK_CHARS
+): NarrationSection[] {
+  const sections: NarrationSection[] = [];
+  let current: NarrationSection & { speakers: number[] } = { title: "Episode", chunks: [], speakers: [] };
+  let turn: { speaker: number; lines: string[] } | null = null;
+
+  const endTurn = () => {
+    if (!turn) return;
+    for (const chunk of splitOversized(turn.lines.join(" ").replace(/\s+/g, " ").trim(), maxChars)) {
+      if (!chunk) continue;
+      current.chunks.push(chunk);
+      current.speakers.push(turn.speaker);
+    }
+    turn = null;
+  };
+
+  const names = speakers.map(speaker => speaker.toLowerCase());
+  for (const line of script.replace(/\r\n?/g, "\n").split("\n")) {
+    const heading = line.match(/^\s*#{1,6}\s+(.+?)\s*#*\s*$/);
+    const label = line.match(/^\s*\**([^:*]+?)\**\s*:\**\s*(.*)$/);
+    const speaker = label ? names.indexOf(label[1].trim().toLowerCase()) : -1;
+
+    if (heading) {
+      endTurn();
+      if (current.chunks.length > 0) sections.push(current);
+      current = { title: heading[1].trim(), chunks: [], speakers: [] };
+    } else if (label && speaker >= 0) {
+      endTurn();
+      turn = { speaker, lines: [label[2]] };
+    } else if (line.trim()) {
+      if (turn) turn.lines.push(line.trim());
+      else turn = { speaker: 0, lines: [line.trim()] };
+    }
+  }
+  endTurn();
+  if (current.chunks.length > 0) sections.push(current);
+
+  return sections;
+}
+
+/**
+ * Pack paragraphs into chunks of at most maxChars, splitting oversized
+ * paragraphs on sentences and then on whitespace
  */
-export function getVoiceOptions(): { id: VoiceId; name: string; description: string }[] {
-  return [
-    { id: "rachel", name: "Rachel", description: "Warm, professional female voice" },
-    { id: "drew", name: "Drew", description: "Confident male voice" },
-    { id: "bella", name: "Bella", description: "Soft, engaging female voice" },
-    { id: "josh", name: "Josh", description: "Deep, authoritative male voice" },
-    { id: "elli", name: "Elli", description: "Young, energetic female voice" },
-    { id: "adam", name: "Adam", description: "Deep, calm male voice" },
-    { id: "antoni", name: "Antoni", description: "Warm, friendly male voice" },
-    { id: "domi", name: "Domi", description: "Expressive female voice" },
-  ];
+function packChunks(paragraphs: string[], maxChars: number): string[] {
+  const pieces = paragraphs.flatMap(text => splitOversized(text, maxChars));
+  const chunks: string[] = [];
+  let current = "";
+
+  for (const piece of pieces) {
+    if (current && current.length + 2 + piece.length > maxChars) {
+      chunks.push(current);
+      current = piece;
+    } else {
+      current = current ? `${current}\n\n${piece}` : piece;
+    }
+  }
+  if (current) chunks.push(current);
+  return chunks;
+}
+
+function splitOversized(text: string, maxChars: number): string[] {
+  if (text.length <= maxChars) return [text];
+
+  const sentences = text.match(/[^.!?]+(?:[.!?]+["')\]]*|$)\s*/g) ?? [text];
+  const parts: string[] = [];
+  let current = "";
+  for (const sentence of sentences) {
+    if (sentence.length > maxChars) {
+      if (current) parts.push(current.trim());
+      current = "";
+      parts.push(...splitOnWhitespace(sentence.trim(), maxChars));
+    } else if (current.length + sentence.length > maxChars) {
+      parts.push(current.trim());
+      current = sentence;
+    } else {
+      current += sentence;
+    }
+  }
+  if (current.trim()) parts.push(current.trim());
+  return parts;
+}
+
+function splitOnWhitespace(text: string, maxChars: number): string[] {
+  const parts: string[] = [];
+  let rest = text;
+  while (rest.length > maxChars) {
+    const cut = rest.lastIndexOf(" ", maxChars);
+    const at = cut > 0 ? cut : maxChars;
+    parts.push(rest.slice(0, at).trim());
+    rest = rest.slice(at).trim();
+  }
+  if (rest) parts.push(rest);
+  return parts;
+}
+
+/**
+ * The catalog voices of a narration: the first id picks the provider and
+ * the others must be voices of the same provider. Missing ids take the
+ * provider's voices not used yet, so each speaker sounds different.
+ */
+function resolveVoices(voiceIds: (string | undefined)[]): { provider: TtsProvider; voices: TtsVoice[] } {
+  const { provider, voice } = resolveVoice(voiceIds[0]);
+  const available = provider.listVoices();
+  const voices = [voice];
+
+  for (const voiceId of voiceIds.slice(1)) {
+    if (voiceId) {
+      const picked = available.find(v => v.id === voiceId);
+      if (!picked) {
+        throw new Error(`Voice "${voiceId}" is not a ${provider.name} voice; every speaker must use the same provider`);
+      }
+      voices.push(picked);
+    } else {
+      voices.push(available.find(v => !voices.some(used => used.id === v.id)) ?? voice);
+    }
+  }
+  return { provider, voices };
+}
+
+/**
+ * One synthesis request, retried with exponential backoff while the
+ * provider reports the failure as transient
+ */
+async function synthesizeWithRetry(provider: TtsProvider, request: SpeechRequest): Promise<SynthesizedSpeech> {
+  for (let attempt = 1; ; attempt++) {
+    request.signal?.throwIfAborted();
+    try {
+      return await provider.synthesize(request);
+    } catch (error) {
+      const retryable = error instanceof TtsProviderError && error.retryable && !request.signal?.aborted;
+      if (!retryable || attempt >= SYNTHESIS_ATTEMPTS) throw error;
+      const delay = RETRY_BASE_DELAY_MS * 2 ** (attempt - 1);
+      console.warn(`[Audio Generation] Chunk failed (attempt ${attempt}), retrying in ${delay}ms:`, error.message);
+      await new Promise(resolve => setTimeout(resolve, delay));
+    }
+  }
+}
+
+/**
+ * Map over items with at most `limit` calls in flight, keeping order
+ */
+async function mapWithConcurrency<T, R>(items: T[], limit: number, fn: (item: T, index: number) => Promise<R>): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  let next = 0;
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index], index);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+  return results;
 }
 
 /**
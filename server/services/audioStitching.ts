@@ -0,0 +1,199 @@
+/**
+ * Audio Stitching
+ *
+ * Joins separately synthesized MP3 chunks into one file and writes an
+ * ID3v2.3 tag with chapter markers (the ID3 Chapter Frame addendum: one
+ * CHAP frame per chapter plus a CTOC table of contents), which podcast
+ * apps show as a chapter list.
+ *
+ * MP3 frames are self-contained, so chunks with the same encoding settings
+ * can simply be concatenated once their own ID3 tags are stripped. WAV
+ * chunks from offline engines are joined by concatenating their PCM data
+ * under one new header; WAV has no chapter format players agree on, so its
+ * chapters live only in the database.
+ */
+
+import { parseMp3Frames, parseWav } from "./audioAnalysis";
+
+export interface AudioChapter {
+  title: string;
+  startMs: number;
+  endMs: number;
+}
+
+// A CTOC entry count is a single byte
+const MAX_CHAPTERS = 255;
+const NO_OFFSET = 0xffffffff;
+
+/**
+ * Concatenate MP3 chunks behind a chapter tag
+ */
+export function stitchMp3(chunks: Buffer[], chapters: AudioChapter[], title?: string): Buffer {
+  return Buffer.concat([buildChapterTag(chapters, title), ...chunks.map(stripMp3Headers)]);
+}
+
+/**
+ * Only the audio frames of an MP3: without ID3 tags, and without the
+ * Xing/Info frame whose frame count would make players take the first
+ * chunk's length for the whole file
+ */
+export function stripMp3Headers(mp3: Buffer): Buffer {
+  const audio = stripId3Tags(mp3);
+  const [first] = parseMp3Frames(audio);
+  return first ? audio.subarray(first.offset) : audio;
+}
+
+/**
+ * Join WAV chunks that share one sample format into a single WAV file
+ */
+export function stitchWav(chunks: Buffer[]): Buffer {
+  const parsed = chunks.map(parseWav);
+  const format = parsed[0]?.format;
+  if (!format) {
+    throw new Error("No audio to join");
+  }
+  if (parsed.some(wav => !wav.format.equals(format))) {
+    throw new Error("Cannot join WAV chunks with different sample formats");
+  }
+
+  const data = Buffer.concat(parsed.map(wav => wav.data));
+  const header = Buffer.alloc(20);
+  header.write("RIFF", 0, "latin1");
+  header.writeUInt32LE(4 + 8 + format.length + 8 + data.length + (data.length % 2), 4);
+  header.write("WAVE", 8, "latin1");
+  header.write("fmt ", 12, "latin1");
+  header.writeUInt32LE(format.length, 16);
+
+  const dataHeader = Buffer.alloc(8);
+  dataHeader.write("data", 0, "latin1");
+  dataHeader.writeUInt32LE(data.length, 4);
+
+  return Buffer.concat([header, format, dataHeader, data, Buffer.alloc(data.length % 2)]);
+}
+
+/**
+ * Drop a leading ID3v2 tag and a trailing ID3v1 tag, leaving only frames
+ */
+export function stripId3Tags(mp3: Buffer): Buffer {
+  let start = 0;
+  let end = mp3.length;
+
+  if (mp3.length >= 10 && mp3.toString("latin1", 0, 3) === "ID3") {
+    const hasFooter = (mp3[5] & 0x10) !== 0;
+    start = Math.min(10 + readSyncsafe(mp3, 6) + (hasFooter ? 10 : 0), mp3.length);
+  }
+  if (end - start >= 128 && mp3.toString("latin1", end - 128, end - 125) === "TAG") {
+    end -= 128;
+  }
+
+  return mp3.subarray(start, end);
+}
+
+/**
+ * ID3v2.3 tag with an optional title, a CTOC frame and one CHAP frame per
+ * chapter; empty when there is nothing to write
+ */
+export function buildChapterTag(chapters: AudioChapter[], title?: string): Buffer {
+  const kept = chapters.slice(0, MAX_CHAPTERS);
+  if (kept.length === 0 && !title) return Buffer.alloc(0);
+
+  const frames: Buffer[] = [];
+  if (title) {
+    frames.push(textFrame("TIT2", title));
+  }
+
+  if (kept.length > 0) {
+    const ids = kept.map((_, i) => `ch${i}`);
+    frames.push(frame("CTOC", Buffer.concat([
+      nullTerminated("toc"),
+      // Top-level, ordered
+      Buffer.from([0x03, ids.length]),
+      ...ids.map(nullTerminated),
+    ])));
+
+    kept.forEach((chapter, i) => {
+      const times = Buffer.alloc(16);
+      times.writeUInt32BE(Math.max(0, Math.round(chapter.startMs)), 0);
+      times.writeUInt32BE(Math.max(0, Math.round(chapter.endMs)), 4);
+      times.writeUInt32BE(NO_OFFSET, 8);
+      times.writeUInt32BE(NO_OFFSET, 12);
+      frames.push(frame("CHAP", Buffer.concat([nullTerminated(ids[i]), times, textFrame("TIT2", chapter.title)])));
+    });
+  }
+
+  const body = Buffer.concat(frames);
+  const header = Buffer.alloc(10);
+  header.write("ID3", 0, "latin1");
+  header[3] = 3;
+  header[4] = 0;
+  header[5] = 0;
+  writeSyncsafe(header, 6, body.length);
+  return Buffer.concat([header, body]);
+}
+
+/**
+ * Read the chapters back from an ID3v2.3 tag written by buildChapterTag
+ */
+export function readChapterTag(mp3: Buffer): AudioChapter[] {
+  if (mp3.length < 10 || mp3.toString("latin1", 0, 3) !== "ID3") return [];
+
+  const chapters: AudioChapter[] = [];
+  const end = 10 + readSyncsafe(mp3, 6);
+  let offset = 10;
+  while (offset + 10 <= end) {
+    const id = mp3.toString("latin1", offset, offset + 4);
+    const size = mp3.readUInt32BE(offset + 4);
+    if (!/^[A-Z0-9]{4}$/.test(id) || size === 0) break;
+
+    if (id === "CHAP") {
+      const body = mp3.subarray(offset + 10, offset + 10 + size);
+      const idEnd = body.indexOf(0);
+      const startMs = body.readUInt32BE(idEnd + 1);
+      const endMs = body.readUInt32BE(idEnd + 5);
+      const sub = body.subarray(idEnd + 17);
+      const title = sub.toString("latin1", 0, 4) === "TIT2" ? readText(sub.subarray(10, 10 + sub.readUInt32BE(4))) : "";
+      chapters.push({ title, startMs, endMs });
+    }
+    offset += 10 + size;
+  }
+  return chapters;
+}
+
+// ---------------------------------------------------------------------------
+// Frames
+// ---------------------------------------------------------------------------
+
+function frame(id: string, body: Buffer): Buffer {
+  const header = Buffer.alloc(10);
+  header.write(id, 0, "latin1");
+  // ID3v2.3 frame sizes are plain 32-bit integers (v2.4 made them syncsafe)
+  header.writeUInt32BE(body.length, 4);
+  return Buffer.concat([header, body]);
+}
+
+// UTF-16 with a byte order mark, the only Unicode encoding ID3v2.3 has
+function textFrame(id: string, text: string): Buffer {
+  return frame(id, Buffer.concat([Buffer.from([0x01, 0xff, 0xfe]), Buffer.from(text, "utf16le"), Buffer.from([0, 0])]));
+}
+
+function readText(body: Buffer): string {
+  if (body[0] === 0x01) {
+    return body.subarray(3).toString("utf16le").replace(/\u0000+$/, "");
+  }
+  return body.subarray(1).toString("latin1").replace(/\u0000+$/, "");
+}
+
+function nullTerminated(text: string): Buffer {
+  return Buffer.from(`${text}\u0000`, "latin1");
+}
+
+function readSyncsafe(buffer: Buffer, offset: number): number {
+  return ((buffer[offset] & 0x7f) << 21) | ((buffer[offset + 1] & 0x7f) << 14) | ((buffer[offset + 2] & 0x7f) << 7) | (buffer[offset + 3] & 0x7f);
+}
+
+function writeSyncsafe(buffer: Buffer, offset: number, value: number): void {
+  buffer[offset] = (value >> 21) & 0x7f;
+  buffer[offset + 1] = (value >> 14) & 0x7f;
+  buffer[offset + 2] = (value >> 7) & 0x7f;
+  buffer[offset + 3] = value & 0x7f;
+}
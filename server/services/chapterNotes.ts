@@ -0,0 +1,294 @@
+/**
+ * Chapter Notes (map-reduce over the full book)
+ *
+ * Map: split the complete extracted text into chapters (or fixed windows when
+ * no chapter headings are found) and have Claude take structured notes on
+ * each one.
+ * Reduce: fold the notes into a single digest that fits in the Stage 0 and
+ * Stage 1 prompts, so concepts from late chapters reach the model instead of
+ * being cut off by a character limit.
+ */
+
+import { generateWithClaude } from './dualLLMService';
+import { logGeneration, logError } from './debugLogger';
+
+export interface BookSegment {
+  index: number;
+  title: string;
+  text: string;
+}
+
+export interface ChapterNote {
+  index: number;
+  title: string;
+  summary: string;
+  keyConcepts: Array<{ name: string; description: string }>;
+  keyArguments: string[];
+  examples: string[];
+  notableQuotes: string[];
+  /** Set when the segment could not be summarized and the note is its opening excerpt */
+  fallback?: boolean;
+}
+
+const DEFAULT_SEGMENT_CHARS = 30000;
+const MIN_SEGMENT_CHARS = 2000;
+const MAX_SEGMENTS = 60;
+const MAP_CONCURRENCY = 2;
+// Upper bound for the digest handed to Stage 0/Stage 1 prompts
+const DEFAULT_DIGEST_CHARS = 60000;
+
+const NUMBER_WORDS = 'one|two|three|four|five|six|seven|eight|nine|ten|eleven|twelve|thirteen|fourteen|fifteen|sixteen|seventeen|eighteen|nineteen|twenty';
+const CHAPTER_HEADING = new RegExp(
+  `^[ \\t]*(?:chapter|part)[ \\t]+(?:\\d+|[ivxlc]+|${NUMBER_WORDS})\\b[^\\n]*$`,
+  'gim'
+);
+
+/**
+ * Split book text into chapter-sized segments covering the whole text.
+ * Tiny chapters are merged forward and oversized ones are windowed.
+ */
+export function splitIntoSegments(
+  text: string,
+  options: { maxChars?: number; minChars?: number } = {}
+): BookSegment[] {
+  const minChars = options.minChars ?? MIN_SEGMENT_CHARS;
+  // Grow the window for very long books so the map stage stays bounded
+  const maxChars = Math.max(options.maxChars ?? DEFAULT_SEGMENT_CHARS, Math.ceil(text.length / MAX_SEGMENTS));
+
+  const trimmed = text.trim();
+  if (!trimmed) return [];
+
+  // Locate chapter headings
+  const headings: Array<{ title: string; start: number }> = [];
+  for (const match of Array.from(trimmed.matchAll(CHAPTER_HEADING))) {
+    headings.push({ title: match[0].trim().slice(0, 120), start: match.index ?? 0 });
+  }
+
+  let sections: Array<{ title: string; text: string }>;
+  if (headings.length === 0) {
+    sections = [{ title: '', text: trimmed }];
+  } else {
+    sections = [];
+    if (headings[0].start > 0) {
+      sections.push({ title: 'Opening', text: trimmed.slice(0, headings[0].start) });
+    }
+    headings.forEach((heading, i) => {
+      const end = i + 1 < headings.length ? headings[i + 1].start : trimmed.length;
+      sections.push({ title: heading.title, text: trimmed.slice(heading.start, end) });
+    });
+  }
+
+  // Merge sections too small to be worth a model call (e.g. a TOC line match)
+  const merged: Array<{ title: string; text: string }> = [];
+  for (const section of sections) {
+    const previous = merged[merged.length - 1];
+    if (previous && previous.text.trim().length < minChars) {
+      previous.text += section.text;
+      previous.title = section.title || previous.title;
+    } else {
+      merged.push({ ...section });
+    }
+  }
+  if (merged.length > 1 && merged[merged.length - 1].text.trim().length < minChars) {
+    const last = merged.pop()!;
+    merged[merged.length - 1].text += last.text;
+  }
+
+  // Window anything larger than the segment limit
+  const segments: BookSegment[] = [];
+  for (const section of merged) {
+    const windows = splitWindows(section.text, maxChars);
+    windows.forEach((windowText, part) => {
+      const baseTitle = section.title || `Section ${segments.length + 1}`;
+      segments.push({
+        index: segments.length,
+        title: windows.length > 1 && section.title ? `${baseTitle} (part ${part + 1})` : baseTitle,
+        text: windowText.trim(),
+      });
+    });
+  }
+
+  return segments.filter(segment => segment.text.length > 0);
+}
+
+/**
+ * Cut text into windows of at most maxChars, preferring paragraph breaks
+ */
+function splitWindows(text: string, maxChars: number): string[] {
+  const windows: string[] = [];
+  let rest = text;
+  while (rest.length > maxChars) {
+    let cut = rest.lastIndexOf('\n\n', maxChars);
+    if (cut < maxChars * 0.5) cut = rest.lastIndexOf(' ', maxChars);
+    if (cut <= 0) cut = maxChars;
+    windows.push(rest.slice(0, cut));
+    rest = rest.slice(cut);
+  }
+  windows.push(rest);
+  return windows;
+}
+
+function buildNotePrompt(bookTitle: string, segment: BookSegment, total: number): { system: string; user: string } {
+  const system = `You are a meticulous reader taking structured notes on one part of a non-fiction book. The notes will later be combined to write a guide to the whole book, so capture every distinct idea.
+
+You must respond with valid JSON only. No markdown, no explanations, just the JSON object.`;
+
+  const user = `Book: "${bookTitle}"
+Part ${segment.index + 1} of ${total}: ${segment.title}
+
+## TEXT
+${segment.text}
+
+---
+
+Return a JSON object with this exact structure:
+{
+  "summary": "150-250 word summary of this part",
+  "keyConcepts": [{ "name": "concept name", "description": "1-2 sentence explanation" }],
+  "keyArguments": ["main claims the author makes"],
+  "examples": ["stories, studies or examples used to support the claims"],
+  "notableQuotes": ["up to 3 short verbatim quotes"]
+}`;
+
+  return { system, user };
+}
+
+function parseNote(content: string, segment: BookSegment): ChapterNote {
+  let jsonStr = content;
+  const jsonMatch = jsonStr.match(/```(?:json)?\s*([\s\S]*?)```/);
+  if (jsonMatch) {
+    jsonStr = jsonMatch[1];
+  }
+  const parsed = JSON.parse(jsonStr.trim());
+
+  const strings = (value: unknown): string[] =>
+    Array.isArray(value) ? value.filter((v): v is string => typeof v === 'string') : [];
+
+  return {
+    index: segment.index,
+    title: segment.title,
+    summary: typeof parsed.summary === 'string' ? parsed.summary : '',
+    keyConcepts: Array.isArray(parsed.keyConcepts)
+      ? parsed.keyConcepts
+          .filter((c: any) => c && typeof c.name === 'string')
+          .map((c: any) => ({ name: c.name, description: typeof c.description === 'string' ? c.description : '' }))
+      : [],
+    keyArguments: strings(parsed.keyArguments),
+    examples: strings(parsed.examples),
+    notableQuotes: strings(parsed.notableQuotes).slice(0, 3),
+  };
+}
+
+/**
+ * Note for a segment the model could not summarize: keep its opening text
+ * so the digest still covers that part of the book
+ */
+function fallbackNote(segment: BookSegment): ChapterNote {
+  return {
+    index: segment.index,
+    title: segment.title,
+    summary: segment.text.slice(0, 1200).replace(/\s+/g, ' ').trim(),
+    keyConcepts: [],
+    keyArguments: [],
+    examples: [],
+    notableQuotes: [],
+    fallback: true,
+  };
+}
+
+/**
+ * Map step: take structured notes on every segment of the book
+ */
+export async function generateChapterNotes(
+  bookTitle: string,
+  bookText: string,
+  signal?: AbortSignal,
+  onProgress?: (completed: number, total: number) => Promise<void>
+): Promise<ChapterNote[]> {
+  const segments = splitIntoSegments(bookText);
+  logGeneration('[Chapter Notes] Starting map step', {
+    segments: segments.length,
+    textLength: bookText.length,
+  });
+
+  const notes: ChapterNote[] = new Array(segments.length);
+  let nextIndex = 0;
+  let completed = 0;
+
+  const worker = async () => {
+    while (nextIndex < segments.length) {
+      const segment = segments[nextIndex++];
+      signal?.throwIfAborted();
+      const { system, user } = buildNotePrompt(bookTitle, segment, segments.length);
+      try {
+        const response = await generateWithClaude(system, user, 2048, { signal });
+        notes[segment.index] = parseNote(response.content, segment);
+      } catch (error) {
+        if (signal?.aborted) {
+          throw error;
+        }
+        logError('generation', '[Chapter Notes] Segment failed, using excerpt', {
+          segment: segment.title,
+          error: error instanceof Error ? error.message : String(error),
+        });
+        notes[segment.index] = fallbackNote(segment);
+      }
+      completed++;
+      await onProgress?.(completed, segments.length);
+    }
+  };
+
+  await Promise.all(
+    Array.from({ length: Math.min(MAP_CONCURRENCY, segments.length) }, () => worker())
+  );
+
+  logGeneration('[Chapter Notes] Map step complete', {
+    notes: notes.length,
+    concepts: notes.reduce((sum, n) => sum + n.keyConcepts.length, 0),
+  });
+  return notes;
+}
+
+function formatNote(note: ChapterNote, detail: 'full' | 'compact' | 'minimal'): string {
+  const parts = [`### ${note.index + 1}. ${note.title}`, note.summary];
+  if (note.keyConcepts.length > 0) {
+    parts.push(
+      detail === 'minimal'
+        ? `Concepts: ${note.keyConcepts.map(c => c.name).join('; ')}`
+        : `Concepts:\n${note.keyConcepts.map(c => `- ${c.name}: ${c.description}`).join('\n')}`
+    );
+  }
+  if (detail !== 'minimal' && note.keyArguments.length > 0) {
+    parts.push(`Arguments:\n${note.keyArguments.map(a => `- ${a}`).join('\n')}`);
+  }
+  if (detail === 'full') {
+    if (note.examples.length > 0) {
+      parts.push(`Examples:\n${note.examples.map(e => `- ${e}`).join('\n')}`);
+    }
+    if (note.notableQuotes.length > 0) {
+      parts.push(`Quotes:\n${note.notableQuotes.map(q => `> ${q}`).join('\n')}`);
+    }
+  }
+  return parts.join('\n');
+}
+
+/**
+ * Reduce step: fold chapter notes into one digest of at most maxChars.
+ * Detail is dropped (quotes and examples, then arguments) before any
+ * chapter is, so every part of the book stays represented.
+ */
+export function buildBookDigest(notes: ChapterNote[], maxChars: number = DEFAULT_DIGEST_CHARS): string {
+  for (const detail of ['full', 'compact', 'minimal'] as const) {
+    const digest = notes.map(note => formatNote(note, detail)).join('\n\n');
+    if (digest.length <= maxChars) {
+      return digest;
+    }
+  }
+
+  // Still too long: give every chapter an equal share, separators included
+  const share = Math.max(0, Math.floor(maxChars / Math.max(1, notes.length)) - 2);
+  return notes
+    .map(note => formatNote(note, 'minimal').slice(0, share))
+    .join('\n\n')
+    .slice(0, maxChars);
+}
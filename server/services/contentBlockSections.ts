@@ -0,0 +1,363 @@
+/**
+ * Content Block Sections
+ *
+ * Maps premium pipeline sections to and from `content_blocks` rows. Premium
+ * rows keep their original section type in `blockType` and their metadata
+ * (actionSteps, keyDistinction, goDeeper...) as JSON, so the reader can use
+ * the premium components. Exports flatten them on the way out instead.
+ *
+ * Insights generated before premium rows existed were stored as flattened
+ * heading/paragraph/list/quote/table rows, or (when regenerated) as one
+ * untyped `section` row per section; `migrateLegacyContentBlocks` upgrades
+ * them.
+ */
+
+import * as db from '../db';
+import { safeJsonParse } from '../db';
+import type { ContentBlock, InsertContentBlock } from '../../drizzle/schema';
+import { isPremiumSectionType, type VisualType } from '../../shared/types';
+import type { InsightSection as ExportSection } from './insightGeneration';
+import type { InsightSection } from './premiumInsightPipeline';
+import { loadCheckpoint } from './generationCheckpoints';
+import { logGeneration } from './debugLogger';
+
+// Row types written by the old normalize-before-store path
+const LEGACY_NORMALIZED_TYPES = ['heading', 'paragraph', 'list', 'quote', 'table'];
+// Row type written by the old regenerate path, one row per section without its type
+const LEGACY_SECTION_TYPE = 'section';
+
+export type LegacyMigrationResult = 'checkpoint' | 'rebuilt' | 'skipped';
+
+/**
+ * Build the content_blocks row for a premium section
+ */
+export function sectionToContentBlock(
+  section: InsightSection,
+  insightId: number,
+  orderIndex: number
+): InsertContentBlock {
+  const actionSteps = section.metadata?.actionSteps;
+  return {
+    insightId,
+    blockType: section.type,
+    title: section.title || null,
+    content: section.content || '',
+    orderIndex,
+    visualType: section.visualType || null,
+    visualData: section.visualData ? JSON.stringify(section.visualData) : null,
+    listItems: Array.isArray(actionSteps) ? JSON.stringify(actionSteps) : null,
+    metadata: section.metadata && Object.keys(section.metadata).length > 0
+      ? JSON.stringify(section.metadata)
+      : null,
+  };
+}
+
+/**
+ * Read a stored premium row back as a section
+ */
+export function contentBlockToSection(block: ContentBlock): InsightSection {
+  return {
+    id: `block-${block.id}`,
+    type: block.blockType,
+    title: block.title || '',
+    content: block.content || '',
+    visualType: block.visualType || undefined,
+    visualData: block.visualData ? safeJsonParse(block.visualData, undefined) : undefined,
+    metadata: block.metadata ? safeJsonParse(block.metadata, undefined) : undefined,
+  };
+}
+
+/**
+ * Store sections as content blocks in order
+ */
+export async function saveSectionsAsContentBlocks(insightId: number, sections: InsightSection[]): Promise<void> {
+  for (let i = 0; i < sections.length; i++) {
+    await db.createContentBlock(sectionToContentBlock(sections[i], insightId, i));
+  }
+}
+
+/**
+ * True when every row came from the old flatten-before-store path, or from
+ * the old regenerate path
+ */
+export function isLegacyNormalizedBlocks(blocks: Pick<ContentBlock, 'blockType'>[]): boolean {
+  if (blocks.length > 0 && blocks.every(block => block.blockType === LEGACY_SECTION_TYPE)) {
+    return true;
+  }
+  return blocks.length > 0
+    && blocks.some(block => block.blockType === 'heading')
+    && blocks.every(block => LEGACY_NORMALIZED_TYPES.includes(block.blockType));
+}
+
+/**
+ * Best-effort reconstruction of premium sections from flattened rows: each
+ * heading starts a section and the type is inferred from the row shapes and
+ * the title; `section` rows are a section each. Used when no pipeline
+ * checkpoint survives for the insight.
+ */
+export function rebuildSectionsFromLegacyBlocks(blocks: ContentBlock[]): InsightSection[] {
+  const sections: InsightSection[] = [];
+  let current: { heading: ContentBlock | null; rows: ContentBlock[] } | null = null;
+
+  const flush = () => {
+    if (current && (current.heading || current.rows.length > 0)) {
+      sections.push(rebuildSection(current.heading, current.rows));
+    }
+    current = null;
+  };
+
+  for (const block of blocks) {
+    if (block.blockType === LEGACY_SECTION_TYPE) {
+      flush();
+      sections.push(rebuildSectionRow(block));
+    } else if (block.blockType === 'heading') {
+      flush();
+      current = { heading: block, rows: [] };
+    } else {
+      current = current ?? { heading: null, rows: [] };
+      current.rows.push(block);
+    }
+  }
+  flush();
+
+  return sections;
+}
+
+function rebuildSection(heading: ContentBlock | null, rows: ContentBlock[]): InsightSection {
+  const title = heading?.content || heading?.title || rows[0]?.title || '';
+  const visualRow = rows.find(row => row.visualType && row.visualData);
+  const section: InsightSection = {
+    id: `block-${(heading ?? rows[0]).id}`,
+    type: inferSectionType(title, rows),
+    title,
+    content: rows.map(row => row.content || '').filter(Boolean).join('\n\n'),
+    visualType: visualRow?.visualType || undefined,
+    visualData: visualRow?.visualData ? safeJsonParse(visualRow.visualData, undefined) : undefined,
+  };
+
+  const listRow = rows.find(row => row.blockType === 'list');
+  if (listRow) {
+    const actionSteps = (listRow.content || '')
+      .split('\n')
+      .map(line => line.replace(/^\s*\d+[.)]\s*/, '').trim())
+      .filter(Boolean);
+    section.metadata = { actionSteps };
+    section.content = rows.filter(row => row !== listRow).map(row => row.content || '').join('\n\n');
+  }
+
+  return section;
+}
+
+function rebuildSectionRow(block: ContentBlock): InsightSection {
+  const title = block.title || '';
+  const actionSteps = block.listItems ? safeJsonParse<string[] | undefined>(block.listItems, undefined) : undefined;
+  const hasSteps = Array.isArray(actionSteps) && actionSteps.length > 0;
+  // The old path stored 'text' for sections without a visual
+  const hasVisual = !!block.visualType && block.visualType !== 'text' && !!block.visualData;
+  return {
+    id: `block-${block.id}`,
+    type: hasSteps ? 'actionBox' : inferSectionType(title, []),
+    title,
+    content: block.content || '',
+    visualType: hasVisual ? block.visualType! : undefined,
+    visualData: hasVisual ? safeJsonParse(block.visualData, undefined) : undefined,
+    metadata: hasSteps ? { actionSteps } : undefined,
+  };
+}
+
+function inferSectionType(title: string, rows: ContentBlock[]): string {
+  if (rows.some(row => row.blockType === 'list')) return 'actionBox';
+  if (rows.some(row => row.blockType === 'quote')) return 'insightAtlasNote';
+  if (rows.some(row => row.blockType === 'table')) return 'structureMap';
+
+  const lower = title.toLowerCase();
+  if (lower.includes('quick glance')) return 'quickGlance';
+  if (lower.includes('executive summary')) return 'executiveSummary';
+  if (lower.includes('takeaway')) return 'keyTakeaways';
+  if (lower.includes('insight atlas note')) return 'insightAtlasNote';
+  if (lower.includes('structure') || lower.includes('chapter')) return 'structureMap';
+  if (lower.includes('narrative') || lower.includes('origin')) return 'foundationalNarrative';
+  if (lower.includes('example') || lower.includes('in practice')) return 'practicalExample';
+  if (lower.includes('assessment')) return 'selfAssessment';
+  return 'conceptExplanation';
+}
+
+/**
+ * Upgrade an insight's flattened rows to premium rows. Prefers the stored
+ * gap-analysis checkpoint (the exact final sections) and falls back to
+ * rebuilding from the rows themselves.
+ */
+export async function migrateLegacyContentBlocks(insightId: number): Promise<LegacyMigrationResult> {
+  const blocks = await db.getContentBlocksByInsightId(insightId);
+  if (!isLegacyNormalizedBlocks(blocks)) {
+    return 'skipped';
+  }
+
+  const checkpoint = await loadCheckpoint<{ sections: InsightSection[] }>(insightId, 'gapAnalysis');
+  const fromCheckpoint = !!checkpoint?.sections?.length;
+  const sections = fromCheckpoint ? checkpoint!.sections : rebuildSectionsFromLegacyBlocks(blocks);
+
+  await db.deleteContentBlocksByInsightId(insightId);
+  await saveSectionsAsContentBlocks(insightId, sections);
+
+  logGeneration('Migrated legacy content blocks', {
+    insightId,
+    legacyRows: blocks.length,
+    sections: sections.length,
+    source: fromCheckpoint ? 'checkpoint' : 'rebuilt',
+  });
+  return fromCheckpoint ? 'checkpoint' : 'rebuilt';
+}
+
+/**
+ * Convert stored rows to the flat section list the export renderers take.
+ * Premium rows are expanded (heading, body, action steps, notes, visual), as
+ * are legacy `section` rows once rebuilt; other legacy rows pass through.
+ */
+export function contentBlocksToExportSections(blocks: ContentBlock[]): ExportSection[] {
+  return blocks.flatMap(block => {
+    if (isPremiumSectionType(block.blockType)) {
+      return premiumSectionToExport(contentBlockToSection(block));
+    }
+    if (block.blockType === LEGACY_SECTION_TYPE) {
+      return premiumSectionToExport(rebuildSectionRow(block));
+    }
+    return [legacyBlockToExport(block)];
+  });
+}
+
+function legacyBlockToExport(block: ContentBlock): ExportSection {
+  const items = block.listItems ? safeJsonParse<string[] | undefined>(block.listItems, undefined) : undefined;
+  if (block.blockType === 'list') {
+    return {
+      type: 'numberedList',
+      content: '',
+      items: Array.isArray(items) ? items : splitListLines(block.content || ''),
+    };
+  }
+  return {
+    type: (block.blockType === 'table' ? 'paragraph' : block.blockType) as ExportSection['type'],
+    content: block.content || '',
+    title: block.title || undefined,
+    visualType: (block.visualType || undefined) as VisualType | undefined,
+    visualData: block.visualData ? safeJsonParse(block.visualData, undefined) : undefined,
+    items: Array.isArray(items) ? items : undefined,
+  };
+}
+
+/**
+ * Flatten one premium section for export, keeping its metadata as content
+ */
+export function premiumSectionToExport(section: InsightSection): ExportSection[] {
+  const out: ExportSection[] = [];
+  if (section.title) {
+    out.push({ type: 'heading', content: section.title });
+  }
+
+  const metadata = section.metadata ?? {};
+  const actionSteps = Array.isArray(metadata.actionSteps) ? (metadata.actionSteps as string[]) : [];
+
+  switch (section.type) {
+    case 'actionBox':
+      out.push(...markdownToExportSections(section.content));
+      if (actionSteps.length > 0) {
+        out.push({ type: 'actionBox', content: '', title: 'Action Steps', items: actionSteps });
+      }
+      break;
+
+    case 'insightAtlasNote': {
+      out.push({ type: 'insightNote', content: stripMarkdown(section.content), title: 'Insight Atlas Note' });
+      if (typeof metadata.keyDistinction === 'string') {
+        out.push({ type: 'paragraph', content: `Key distinction: ${metadata.keyDistinction}` });
+      }
+      if (typeof metadata.practicalImplication === 'string') {
+        out.push({ type: 'paragraph', content: `Practical implication: ${metadata.practicalImplication}` });
+      }
+      const goDeeper = metadata.goDeeper as { title?: string; author?: string; benefit?: string } | undefined;
+      if (goDeeper?.title) {
+        const byline = goDeeper.author ? ` by ${goDeeper.author}` : '';
+        const benefit = goDeeper.benefit ? ` — ${goDeeper.benefit}` : '';
+        out.push({ type: 'paragraph', content: `Go deeper: "${goDeeper.title}"${byline}${benefit}` });
+      }
+      break;
+    }
+
+    case 'keyTakeaways': {
+      const items = splitListLines(section.content);
+      out.push(items.length > 0
+        ? { type: 'keyTakeaways', content: '', items }
+        : { type: 'paragraph', content: stripMarkdown(section.content) });
+      break;
+    }
+
+    case 'selfAssessment':
+    case 'trackingTemplate':
+    case 'reflectionPrompts':
+    case 'scenarioResponse':
+      out.push({ type: 'exercise', content: stripMarkdown(section.content), title: section.title });
+      break;
+
+    default:
+      out.push(...markdownToExportSections(section.content));
+      if (actionSteps.length > 0) {
+        out.push({ type: 'bulletList', content: '', items: actionSteps });
+      }
+  }
+
+  if (section.visualType && section.visualData) {
+    out.push({
+      type: 'visual',
+      content: '',
+      title: section.title,
+      visualType: section.visualType as VisualType,
+      visualData: section.visualData,
+    });
+  }
+
+  return out;
+}
+
+/**
+ * Split markdown into paragraph, list and quote export sections
+ */
+export function markdownToExportSections(markdown: string): ExportSection[] {
+  if (!markdown) return [];
+
+  return markdown
+    .split(/\n\s*\n/)
+    .map(block => block.trim())
+    .filter(Boolean)
+    .map((block): ExportSection => {
+      const lines = block.split('\n').map(line => line.trim()).filter(Boolean);
+      if (lines.every(line => /^[-*•]\s+/.test(line))) {
+        return { type: 'bulletList', content: '', items: lines.map(line => stripMarkdown(line.replace(/^[-*•]\s+/, ''))) };
+      }
+      if (lines.every(line => /^\d+[.)]\s+/.test(line))) {
+        return { type: 'numberedList', content: '', items: lines.map(line => stripMarkdown(line.replace(/^\d+[.)]\s+/, ''))) };
+      }
+      if (lines.every(line => line.startsWith('>'))) {
+        return { type: 'quote', content: stripMarkdown(lines.map(line => line.replace(/^>\s?/, '')).join(' ')) };
+      }
+      return { type: 'paragraph', content: stripMarkdown(lines.join('\n')) };
+    });
+}
+
+function splitListLines(text: string): string[] {
+  return text
+    .split('\n')
+    .map(line => line.replace(/^\s*(?:[-*•]|\d+[.)])\s*/, '').trim())
+    .filter(Boolean)
+    .map(stripMarkdown);
+}
+
+/**
+ * Plain text of inline Markdown and HTML
+ */
+export function stripMarkdown(text: string): string {
+  return text
+    .replace(/<[^>]+>/g, '')
+    .replace(/\*\*(.+?)\*\*/g, '$1')
+    .replace(/\*(.+?)\*/g, '$1')
+    .replace(/^#{1,6}\s+/gm, '')
+    .trim();
+}
@@ -0,0 +1,333 @@
+/**
+ * DOCX Export
+ *
+ * Builds a Word document from the same export sections as the Markdown
+ * export, using Word's own styles so the structure survives editing:
+ * Heading 1/2 for headings, the Quote style for quotes, numbered and
+ * bulleted list numbering, shaded one-cell tables for action boxes, real
+ * tables for comparison visuals and PNG images for the other visuals.
+ */
+
+import {
+  AlignmentType,
+  BorderStyle,
+  Document,
+  Footer,
+  HeadingLevel,
+  ImageRun,
+  LevelFormat,
+  Packer,
+  PageNumber,
+  Paragraph,
+  ShadingType,
+  Table,
+  TableCell,
+  TableRow,
+  TextRun,
+  WidthType,
+} from "docx";
+import { storagePut } from "../storage";
+import type { InsightSection } from "./insightGeneration";
+import type { PDFExportOptions } from "./pdfExport";
+import { renderVisualPng } from "./visualImage";
+import { visualTable } from "./visualSummary";
+
+export interface DOCXExportResult {
+  docxUrl: string;
+  docxKey: string;
+}
+
+type Block = Paragraph | Table;
+
+const COLORS = {
+  gold: "C9A227",
+  goldLight: "E8D48A",
+  goldDark: "8B7355",
+  noteBackground: "FFF5D6",
+  tableHeader: "F3E9C6",
+  charcoal: "2C2C2C",
+  warmGray: "6B6B6B",
+};
+
+// Largest image width that fits the default page margins, in pixels
+const MAX_IMAGE_WIDTH = 600;
+
+const CALLOUT_LABELS: Partial<Record<InsightSection["type"], string>> = {
+  authorSpotlight: "Author Spotlight",
+  insightNote: "Insight Atlas Note",
+  alternativePerspective: "Alternative Perspective",
+  researchInsight: "Research Insight",
+  exercise: "Exercise",
+};
+
+/**
+ * Generate a DOCX export and store it
+ */
+export async function generateDOCXExport(
+  options: PDFExportOptions,
+  insightId: number
+): Promise<DOCXExportResult> {
+  const buffer = await buildDOCX(options);
+
+  const docxKey = `insights/${insightId}/export-${Date.now()}.docx`;
+  const { url: docxUrl } = await storagePut(
+    docxKey,
+    buffer,
+    "application/vnd.openxmlformats-officedocument.wordprocessingml.document"
+  );
+
+  return {
+    docxUrl,
+    docxKey,
+  };
+}
+
+/**
+ * Build the Word document
+ */
+export async function buildDOCX(options: PDFExportOptions): Promise<Buffer> {
+  const { title, author, summary, sections, keyThemes, bookTitle, generatedAt } = options;
+
+  // Each numbered list gets its own numbering instance so it restarts at 1
+  let listInstance = 0;
+  const nextListInstance = () => listInstance++;
+
+  const children: Block[] = [
+    new Paragraph({ text: title, heading: HeadingLevel.TITLE }),
+    new Paragraph({
+      children: [new TextRun({ text: `Insights from “${bookTitle}”${author ? ` by ${author}` : ""}`, italics: true, color: COLORS.warmGray })],
+    }),
+    new Paragraph({
+      children: [new TextRun({
+        text: generatedAt.toLocaleDateString("en-US", { year: "numeric", month: "long", day: "numeric" }),
+        color: COLORS.goldDark,
+        size: 20,
+      })],
+    }),
+  ];
+
+  if (keyThemes.length > 0) {
+    children.push(new Paragraph({
+      spacing: { before: 120 },
+      children: [
+        new TextRun({ text: "Key Themes: ", bold: true }),
+        new TextRun({ text: keyThemes.join(" · ") }),
+      ],
+    }));
+  }
+
+  children.push(new Paragraph({ text: "Executive Summary", heading: HeadingLevel.HEADING_1 }));
+  for (const paragraph of summary.split(/\n\s*\n/).filter(Boolean)) {
+    children.push(new Paragraph({ text: paragraph.trim() }));
+  }
+
+  for (const section of sections) {
+    children.push(...renderSection(section, nextListInstance));
+  }
+
+  const doc = new Document({
+    creator: "Insight Atlas",
+    title,
+    description: `Insights from "${bookTitle}"`,
+    styles: {
+      default: {
+        document: { run: { font: "Georgia", size: 22, color: COLORS.charcoal } },
+        title: { run: { font: "Georgia", size: 52, bold: true, color: COLORS.charcoal } },
+        heading1: {
+          run: { font: "Georgia", size: 34, bold: true, color: COLORS.charcoal },
+          paragraph: {
+            spacing: { before: 360, after: 120 },
+            border: { bottom: { style: BorderStyle.SINGLE, size: 6, color: COLORS.gold, space: 4 } },
+          },
+        },
+        heading2: {
+          run: { font: "Georgia", size: 26, bold: true, color: COLORS.goldDark },
+          paragraph: { spacing: { before: 240, after: 80 } },
+        },
+      },
+      paragraphStyles: [
+        {
+          // Matches Word's built-in Quote style by name
+          id: "Quote",
+          name: "Quote",
+          basedOn: "Normal",
+          next: "Normal",
+          quickFormat: true,
+          run: { italics: true, color: COLORS.goldDark },
+          paragraph: {
+            indent: { left: 720, right: 720 },
+            spacing: { before: 160, after: 160 },
+            border: { left: { style: BorderStyle.SINGLE, size: 18, color: COLORS.gold, space: 8 } },
+          },
+        },
+      ],
+    },
+    numbering: {
+      config: [{
+        reference: "numbered",
+        levels: [{
+          level: 0,
+          format: LevelFormat.DECIMAL,
+          text: "%1.",
+          alignment: AlignmentType.START,
+          style: { paragraph: { indent: { left: 720, hanging: 360 } } },
+        }],
+      }],
+    },
+    sections: [{
+      footers: {
+        default: new Footer({
+          children: [new Paragraph({
+            alignment: AlignmentType.CENTER,
+            children: [new TextRun({ children: [PageNumber.CURRENT], color: COLORS.warmGray, size: 18 })],
+          })],
+        }),
+      },
+      children,
+    }],
+  });
+
+  return Packer.toBuffer(doc);
+}
+
+function renderSection(section: InsightSection, nextListInstance: () => number): Block[] {
+  switch (section.type) {
+    case "heading":
+      return [new Paragraph({ text: section.content, heading: HeadingLevel.HEADING_1 })];
+
+    case "paragraph":
+      return [new Paragraph({ text: section.content })];
+
+    case "quote":
+      return [
+        new Paragraph({ text: section.content, style: "Quote" }),
+        ...(section.title ? [new Paragraph({ text: `— ${section.title}`, style: "Quote" })] : []),
+      ];
+
+    case "authorSpotlight":
+    case "insightNote":
+    case "alternativePerspective":
+    case "researchInsight":
+    case "exercise":
+      return [
+        new Paragraph({
+          spacing: { before: 200 },
+          children: [new TextRun({ text: (section.title || CALLOUT_LABELS[section.type]!).toUpperCase(), bold: true, color: COLORS.goldDark, size: 18 })],
+        }),
+        new Paragraph({
+          text: section.content,
+          border: { left: { style: BorderStyle.SINGLE, size: 18, color: COLORS.gold, space: 8 } },
+          shading: { type: ShadingType.CLEAR, fill: COLORS.noteBackground },
+        }),
+      ];
+
+    case "keyTakeaways":
+      return [
+        new Paragraph({ text: "Key Takeaways", heading: HeadingLevel.HEADING_2 }),
+        ...(section.items ?? []).map(item => new Paragraph({ text: item, bullet: { level: 0 } })),
+      ];
+
+    case "actionBox":
+      return [renderActionBox(section, nextListInstance()), new Paragraph({})];
+
+    case "bulletList":
+    case "numberedList": {
+      const instance = section.type === "numberedList" ? nextListInstance() : 0;
+      return [
+        ...(section.title ? [new Paragraph({ text: section.title, heading: HeadingLevel.HEADING_2 })] : []),
+        ...(section.items ?? []).map(item => section.type === "numberedList"
+          ? new Paragraph({ text: item, numbering: { reference: "numbered", level: 0, instance } })
+          : new Paragraph({ text: item, bullet: { level: 0 } })),
+      ];
+    }
+
+    case "sectionDivider":
+      return [new Paragraph({ alignment: AlignmentType.CENTER, children: [new TextRun({ text: "◆ ◆ ◆", color: COLORS.gold })] })];
+
+    case "visual":
+      return renderVisual(section);
+
+    default:
+      return section.content ? [new Paragraph({ text: section.content })] : [];
+  }
+}
+
+/**
+ * Action steps in a shaded one-cell table
+ */
+function renderActionBox(section: InsightSection, instance: number): Table {
+  return new Table({
+    width: { size: 100, type: WidthType.PERCENTAGE },
+    rows: [new TableRow({
+      children: [new TableCell({
+        shading: { type: ShadingType.CLEAR, fill: COLORS.noteBackground },
+        margins: { top: 120, bottom: 120, left: 180, right: 180 },
+        borders: {
+          top: { style: BorderStyle.SINGLE, size: 4, color: COLORS.goldLight },
+          bottom: { style: BorderStyle.SINGLE, size: 4, color: COLORS.goldLight },
+          left: { style: BorderStyle.SINGLE, size: 24, color: COLORS.gold },
+          right: { style: BorderStyle.SINGLE, size: 4, color: COLORS.goldLight },
+        },
+        children: [
+          new Paragraph({
+            children: [new TextRun({ text: section.title || "Action Steps", bold: true, color: COLORS.goldDark })],
+          }),
+          ...(section.items ?? []).map(item =>
+            new Paragraph({ text: item, numbering: { reference: "numbered", level: 0, instance } })
+          ),
+        ],
+      })],
+    })],
+  });
+}
+
+function renderVisual(section: InsightSection): Block[] {
+  const table = renderVisualTable(section);
+  if (table) {
+    return [table, new Paragraph({})];
+  }
+
+  const image = renderVisualPng(section.visualType, section.visualData, section.title);
+  if (!image) return [];
+
+  const scale = Math.min(1, MAX_IMAGE_WIDTH / image.width);
+  const caption = section.title || section.visualType || "Visual";
+  return [
+    new Paragraph({
+      alignment: AlignmentType.CENTER,
+      children: [new ImageRun({
+        type: "png",
+        data: image.png,
+        transformation: { width: Math.round(image.width * scale), height: Math.round(image.height * scale) },
+        altText: { name: caption, title: caption, description: caption },
+      })],
+    }),
+  ];
+}
+
+/**
+ * Comparison visuals become real Word tables rather than pictures of tables
+ */
+function renderVisualTable(section: InsightSection): Table | null {
+  const table = visualTable(section.visualType, section.visualData);
+  return table ? buildTable(table.headers, table.rows) : null;
+}
+
+function buildTable(headers: string[], rows: string[][]): Table {
+  const cell = (text: string, header: boolean) => new TableCell({
+    shading: header ? { type: ShadingType.CLEAR, fill: COLORS.tableHeader } : undefined,
+    margins: { top: 60, bottom: 60, left: 100, right: 100 },
+    children: [new Paragraph({ children: [new TextRun({ text, bold: header })] })],
+  });
+
+  return new Table({
+    width: { size: 100, type: WidthType.PERCENTAGE },
+    rows: [
+      new TableRow({ tableHeader: true, children: headers.map(header => cell(header, true)) }),
+      // A blank first header means the first column holds row labels
+      ...rows.map(row => new TableRow({
+        children: headers.map((_, j) => cell(row[j] ?? "", j === 0 && headers[0] === "")),
+      })),
+    ],
+  });
+}
@@ -124,12 +124,12 @@ export async function generateWithClaude(
   systemPrompt: string,
   userPrompt: string,
   maxTokens: number = 16000,
-  options?: { truncateInput?: boolean }
+  options?: { truncateInput?: boolean; signal?: AbortSignal }
 ): Promise<LLMResponse> {
   const client = getAnthropicClient();
   if (!client) {
     logLLM('Anthropic not configured, falling back to built-in LLM');
-    return generateWithBuiltinLLM(systemPrompt, userPrompt, maxTokens);
+    return generateWithBuiltinLLM(systemPrompt, userPrompt, maxTokens, { signal: options?.signal });
   }
 
   // Optionally extract key content from very long prompts
@@ -157,7 +157,7 @@ export async function generateWithClaude(
       messages: [
         { role: 'user', content: processedUserPrompt },
       ],
-    });
+    }, { signal: options?.signal });
 
     const content = response.content[0];
     if (content.type !== 'text') {
@@ -169,11 +169,15 @@ export async function generateWithClaude(
       provider: 'anthropic',
     };
   } catch (error) {
+    // A cancelled request must not fall through to the fallback provider
+    if (options?.signal?.aborted) {
+      throw error;
+    }
     logError('llm', 'Claude error, falling back to built-in LLM', { 
       error: error instanceof Error ? error.message : String(error),
       stack: error instanceof Error ? error.stack : undefined
     });
-    return generateWithBuiltinLLM(systemPrompt, userPrompt, maxTokens);
+    return generateWithBuiltinLLM(systemPrompt, userPrompt, maxTokens, { signal: options?.signal });
   }
 }
 
@@ -231,7 +235,8 @@ ${rawContent}`;
 export async function generateWithBuiltinLLM(
   systemPrompt: string,
   userPrompt: string,
-  maxTokens: number = 16000
+  maxTokens: number = 16000,
+  options?: { signal?: AbortSignal }
 ): Promise<LLMResponse> {
   // Use maximum token output for comprehensive insights
   // GPT-4 supports up to 16k output tokens
@@ -252,6 +257,7 @@ export async function generateWithBuiltinLLM(
   const response = await invokeLLM({
     messages,
     maxTokens: effectiveMaxTokens,
+    signal: options?.signal,
   });
 
   const content = response.choices[0]?.message?.content;
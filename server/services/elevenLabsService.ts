@@ -1,12 +1,12 @@
 /**
- * ElevenLabs Text-to-Speech Service
- * 
- * Generates high-quality audio narration from insight guide text.
- * Uses the ElevenLabs API for natural-sounding voice synthesis.
+ * ElevenLabs Text-to-Speech Provider
+ *
+ * Synthesizes narration with the ElevenLabs API for natural-sounding voices.
+ * Returns 128kbps MP3, which audioGeneration stitches into one file.
  */
 
-import { ElevenLabsClient } from 'elevenlabs';
-import { storagePut } from '../storage';
+import { ElevenLabsClient, ElevenLabsError, ElevenLabsTimeoutError } from 'elevenlabs';
+import { TtsProviderError, type TtsProvider, type TtsVoice } from './ttsProvider';
 
 // Get API key dynamically to handle late environment variable injection
 const getApiKey = (): string | undefined => {
@@ -29,133 +29,98 @@ export const isElevenLabsConfigured = (): boolean => {
   return !!apiKey && apiKey.length > 10;
 };
 
-// Available voices for narration
+// Available voices for narration; `key` is the catalog id, `id` the ElevenLabs voice ID
 export const NARRATION_VOICES = [
-  { id: 'EXAVITQu4vr4xnSDxMaL', name: 'Sarah', description: 'Warm, conversational female voice' },
-  { id: '21m00Tcm4TlvDq8ikWAM', name: 'Rachel', description: 'Clear, professional female voice' },
-  { id: 'AZnzlk1XvdvUeBnXmlld', name: 'Domi', description: 'Confident, engaging female voice' },
-  { id: 'ErXwobaYiN019PkySvjV', name: 'Antoni', description: 'Warm, friendly male voice' },
-  { id: 'VR6AewLTigWG4xSOukaG', name: 'Arnold', description: 'Deep, authoritative male voice' },
-  { id: 'pNInz6obpgDQGcFmaJgB', name: 'Adam', description: 'Clear, professional male voice' },
+  { key: 'rachel', id: '21m00Tcm4TlvDq8ikWAM', name: 'Rachel', description: 'Warm, professional female voice' },
+  { key: 'sarah', id: 'EXAVITQu4vr4xnSDxMaL', name: 'Sarah', description: 'Soft, conversational female voice' },
+  { key: 'drew', id: '29vD33N1CtxCmqQRPOHJ', name: 'Drew', description: 'Confident male voice' },
+  { key: 'josh', id: 'TxGEqnHWrfWFTfGW9XjX', name: 'Josh', description: 'Deep, authoritative male voice' },
+  { key: 'elli', id: 'MF3mGyEYCl7XYWbV9V6O', name: 'Elli', description: 'Young, energetic female voice' },
+  { key: 'adam', id: 'pNInz6obpgDQGcFmaJgB', name: 'Adam', description: 'Deep, calm male voice' },
+  { key: 'antoni', id: 'ErXwobaYiN019PkySvjV', name: 'Antoni', description: 'Warm, friendly male voice' },
+  { key: 'domi', id: 'AZnzlk1XvdvUeBnXmlld', name: 'Domi', description: 'Expressive female voice' },
+  { key: 'arnold', id: 'VR6AewLTigWG4xSOukaG', name: 'Arnold', description: 'Crisp, authoritative male voice' },
 ] as const;
 
-export type VoiceId = typeof NARRATION_VOICES[number]['id'];
-
-export interface AudioGenerationOptions {
-  voiceId?: VoiceId;
-  modelId?: string;
-  stability?: number;
-  similarityBoost?: number;
-  style?: number;
-}
-
-export interface AudioGenerationResult {
-  audioUrl: string;
-  audioKey: string;
-  durationEstimate: number; // in seconds
-  voiceUsed: string;
-}
-
-/**
- * Generate audio narration from text using ElevenLabs
- */
-export async function generateAudioNarration(
-  text: string,
-  bookId: string,
-  options: AudioGenerationOptions = {}
-): Promise<AudioGenerationResult | null> {
-  const client = getClient();
-  if (!client) {
-    console.log('[ElevenLabs] Not configured, skipping audio generation');
-    return null;
-  }
+const MODEL_ID = 'eleven_multilingual_v2';
+const VOICE_SETTINGS = {
+  stability: 0.5,
+  similarity_boost: 0.75,
+  style: 0.5,
+  use_speaker_boost: true,
+};
 
-  const {
-    voiceId = 'EXAVITQu4vr4xnSDxMaL', // Sarah - warm, conversational
-    modelId = 'eleven_multilingual_v2',
-    stability = 0.5,
-    similarityBoost = 0.75,
-    style = 0.5,
-  } = options;
+export const elevenLabsProvider: TtsProvider = {
+  id: 'elevenlabs',
+  name: 'ElevenLabs',
+  // The multilingual v2 model accepts up to 10,000 characters; smaller
+  // requests keep a failed chunk cheap to retry
+  maxChars: 4500,
+  concurrency: 3,
+
+  isConfigured: isElevenLabsConfigured,
+
+  listVoices(): TtsVoice[] {
+    return NARRATION_VOICES.map(v => ({
+      id: v.key,
+      provider: 'elevenlabs',
+      name: v.name,
+      description: v.description,
+    }));
+  },
+
+  async synthesize({ text, voice, previousText, nextText, withAlignment, signal }) {
+    const client = getClient();
+    if (!client) {
+      throw new TtsProviderError('ElevenLabs API key not configured');
+    }
 
-  console.log('[ElevenLabs] Generating audio narration...');
-  console.log('[ElevenLabs] Text length:', text.length, 'characters');
+    const voiceId = NARRATION_VOICES.find(v => v.key === voice.id)?.id ?? NARRATION_VOICES[0].id;
 
-  try {
-    // Generate audio using ElevenLabs
-    const audioStream = await client.textToSpeech.convert(voiceId, {
+    const request = {
       text,
-      model_id: modelId,
-      voice_settings: {
-        stability,
-        similarity_boost: similarityBoost,
-        style,
-      },
-    });
-
-    // Collect audio chunks into a buffer
-    const chunks: Buffer[] = [];
-    for await (const chunk of audioStream) {
-      chunks.push(Buffer.from(chunk));
+      model_id: MODEL_ID,
+      output_format: 'mp3_44100_128',
+      previous_text: previousText,
+      next_text: nextText,
+      voice_settings: VOICE_SETTINGS,
+    } as const;
+    // audioGeneration retries failed chunks itself
+    const requestOptions = { maxRetries: 0, abortSignal: signal };
+
+    try {
+      if (withAlignment) {
+        const response = await client.textToSpeech.convertWithTimestamps(voiceId, request, requestOptions);
+        return {
+          audio: Buffer.from(response.audio_base64, 'base64'),
+          format: 'mp3',
+          alignment: response.alignment && {
+            charStartMs: response.alignment.character_start_times_seconds.map(seconds => Math.round(seconds * 1000)),
+          },
+        };
+      }
+
+      const audioStream = await client.textToSpeech.convert(voiceId, request, requestOptions);
+
+      // Collect audio chunks into a buffer
+      const chunks: Buffer[] = [];
+      for await (const chunk of audioStream) {
+        chunks.push(Buffer.from(chunk));
+      }
+      return { audio: Buffer.concat(chunks), format: 'mp3' };
+    } catch (error) {
+      if (error instanceof ElevenLabsError) {
+        const status = error.statusCode ?? 0;
+        throw new TtsProviderError(
+          `ElevenLabs API error: ${status} - ${error.message}`,
+          status === 429 || status >= 500 || status === 0
+        );
+      }
+      if (error instanceof ElevenLabsTimeoutError) {
+        throw new TtsProviderError('ElevenLabs request timed out', true);
+      }
+      // Network failures
+      throw new TtsProviderError(error instanceof Error ? error.message : String(error), true);
     }
-    const audioBuffer = Buffer.concat(chunks);
-
-    console.log('[ElevenLabs] Audio generated, size:', audioBuffer.length, 'bytes');
-
-    // Upload to S3
-    const timestamp = Date.now();
-    const audioKey = `insights/${bookId}/narration-${timestamp}.mp3`;
-    
-    const { url: audioUrl } = await storagePut(audioKey, audioBuffer, 'audio/mpeg');
-
-    // Estimate duration (rough estimate: ~150 words per minute, ~5 chars per word)
-    const wordCount = text.split(/\s+/).length;
-    const durationEstimate = Math.ceil((wordCount / 150) * 60);
-
-    const voiceName = NARRATION_VOICES.find(v => v.id === voiceId)?.name || 'Unknown';
-
-    console.log('[ElevenLabs] Audio uploaded to:', audioUrl);
-    console.log('[ElevenLabs] Estimated duration:', durationEstimate, 'seconds');
-
-    return {
-      audioUrl,
-      audioKey,
-      durationEstimate,
-      voiceUsed: voiceName,
-    };
-  } catch (error) {
-    console.error('[ElevenLabs] Audio generation error:', error);
-    return null;
-  }
-}
-
-/**
- * Generate a short audio preview (first ~30 seconds of content)
- */
-export async function generateAudioPreview(
-  text: string,
-  bookId: string,
-  options: AudioGenerationOptions = {}
-): Promise<AudioGenerationResult | null> {
-  // Truncate to approximately 30 seconds of content (~75 words)
-  const words = text.split(/\s+/);
-  const previewText = words.slice(0, 75).join(' ');
-  
-  if (previewText.length < 50) {
-    console.log('[ElevenLabs] Text too short for preview');
-    return null;
-  }
-
-  return generateAudioNarration(previewText + '...', bookId, options);
-}
-
-/**
- * Get available voices for the UI
- */
-export function getAvailableVoices() {
-  return NARRATION_VOICES.map(v => ({
-    id: v.id,
-    name: v.name,
-    description: v.description,
-  }));
-}
+  },
+};
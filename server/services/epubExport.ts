@@ -0,0 +1,466 @@
+/**
+ * EPUB Export
+ *
+ * Packages an insight as an EPUB 3 book for e-readers: a cover page (from
+ * the book's cover image when it can be fetched), the executive summary and
+ * key themes as the first chapter, one chapter per heading, a nav document
+ * for the table of contents and the visuals as inline SVG.
+ */
+
+import AdmZip from "adm-zip";
+import { storagePut } from "../storage";
+import type { InsightSection } from "./insightGeneration";
+import type { PDFExportOptions } from "./pdfExport";
+import { renderVisualSvg } from "./visualSvg";
+
+export interface EPUBExportOptions extends PDFExportOptions {
+  coverUrl?: string | null;
+}
+
+export interface EPUBExportResult {
+  epubUrl: string;
+  epubKey: string;
+  chapterCount: number;
+}
+
+export interface EPUBCoverImage {
+  data: Buffer;
+  mediaType: string;
+}
+
+interface Chapter {
+  title: string;
+  sections: InsightSection[];
+}
+
+const COVER_MEDIA_TYPES: Record<string, string> = {
+  "image/jpeg": "jpg",
+  "image/png": "png",
+  "image/gif": "gif",
+  "image/webp": "webp",
+};
+
+const CALLOUT_LABELS: Partial<Record<InsightSection["type"], string>> = {
+  authorSpotlight: "Author Spotlight",
+  insightNote: "Insight Atlas Note",
+  alternativePerspective: "Alternative Perspective",
+  researchInsight: "Research Insight",
+  exercise: "Exercise",
+};
+
+/**
+ * Generate an EPUB export and store it
+ */
+export async function generateEPUBExport(
+  options: EPUBExportOptions,
+  insightId: number
+): Promise<EPUBExportResult> {
+  const cover = options.coverUrl ? await fetchCoverImage(options.coverUrl) : null;
+  const { buffer, chapterCount } = buildEPUB(options, insightId, cover);
+
+  const epubKey = `insights/${insightId}/export-${Date.now()}.epub`;
+  const { url: epubUrl } = await storagePut(epubKey, buffer, "application/epub+zip");
+
+  return {
+    epubUrl,
+    epubKey,
+    chapterCount,
+  };
+}
+
+/**
+ * Download the book cover; the export goes ahead without one on any failure
+ */
+async function fetchCoverImage(coverUrl: string): Promise<EPUBCoverImage | null> {
+  try {
+    const response = await fetch(coverUrl, { signal: AbortSignal.timeout(10000) });
+    if (!response.ok) return null;
+
+    const mediaType = (response.headers.get("content-type") || "image/jpeg").split(";")[0].trim();
+    if (!COVER_MEDIA_TYPES[mediaType]) return null;
+
+    return { data: Buffer.from(await response.arrayBuffer()), mediaType };
+  } catch (error) {
+    console.error("[EPUB Export] Failed to fetch cover image:", error);
+    return null;
+  }
+}
+
+/**
+ * Build the EPUB container
+ */
+export function buildEPUB(
+  options: PDFExportOptions,
+  insightId: number,
+  cover: EPUBCoverImage | null = null
+): { buffer: Buffer; chapterCount: number } {
+  const chapters = splitChapters(options);
+  // Entries keep insertion order: the mimetype entry must come first and be
+  // stored uncompressed
+  const zip = new AdmZip(undefined, { noSort: true });
+  zip.addFile("mimetype", Buffer.from("application/epub+zip"));
+  zip.getEntry("mimetype")!.header.method = 0;
+
+  zip.addFile("META-INF/container.xml", Buffer.from(`<?xml version="1.0" encoding="UTF-8"?>
+<container version="1.0" xmlns="urn:oasis:names:tc:opendocument:xmlns:container">
+  <rootfiles>
+    <rootfile full-path="OEBPS/content.opf" media-type="application/oebps-package+xml"/>
+  </rootfiles>
+</container>
+`));
+
+  const coverFile = cover ? `cover.${COVER_MEDIA_TYPES[cover.mediaType]}` : null;
+  if (cover && coverFile) {
+    zip.addFile(`OEBPS/images/${coverFile}`, cover.data);
+  }
+
+  zip.addFile("OEBPS/styles.css", Buffer.from(EPUB_STYLES));
+  zip.addFile("OEBPS/cover.xhtml", Buffer.from(renderCoverPage(options, coverFile)));
+  zip.addFile("OEBPS/nav.xhtml", Buffer.from(renderNav(chapters)));
+  const chapterDocuments = chapters.map((chapter, index) => renderChapter(chapter, index === 0 ? options.keyThemes : []));
+  chapterDocuments.forEach((document, index) => {
+    zip.addFile(`OEBPS/${chapterFile(index)}`, Buffer.from(document));
+  });
+
+  const manifestChapters = chapters.map((chapter, index) => ({
+    title: chapter.title,
+    // The manifest must flag documents that contain inline SVG
+    hasSvg: chapterDocuments[index].includes("<svg"),
+  }));
+  zip.addFile("OEBPS/content.opf", Buffer.from(renderPackage(options, insightId, manifestChapters, cover, coverFile)));
+
+  return { buffer: zip.toBuffer(), chapterCount: chapters.length };
+}
+
+/**
+ * Summary first, then a chapter per heading; content before the first
+ * heading joins the summary chapter
+ */
+function splitChapters({ summary, sections }: PDFExportOptions): Chapter[] {
+  const chapters: Chapter[] = [{
+    title: "Executive Summary",
+    sections: summary
+      .split(/\n\s*\n/)
+      .filter(Boolean)
+      .map(paragraph => ({ type: "paragraph", content: paragraph.trim() })),
+  }];
+
+  for (const section of sections) {
+    if (section.type === "heading") {
+      chapters.push({ title: section.content, sections: [] });
+    } else {
+      chapters[chapters.length - 1].sections.push(section);
+    }
+  }
+
+  return chapters;
+}
+
+function chapterFile(index: number): string {
+  return `chapter-${String(index + 1).padStart(3, "0")}.xhtml`;
+}
+
+// ---------------------------------------------------------------------------
+// Package documents
+// ---------------------------------------------------------------------------
+
+function renderPackage(
+  options: PDFExportOptions,
+  insightId: number,
+  chapters: { title: string; hasSvg: boolean }[],
+  cover: EPUBCoverImage | null,
+  coverFile: string | null
+): string {
+  const modified = options.generatedAt.toISOString().replace(/\.\d{3}Z$/, "Z");
+  const chapterItems = chapters.map((chapter, index) =>
+    `    <item id="chapter-${index + 1}" href="${chapterFile(index)}" media-type="application/xhtml+xml"${
+      chapter.hasSvg ? ` properties="svg"` : ""
+    }/>`
+  );
+  const spineItems = chapters.map((_, index) => `    <itemref idref="chapter-${index + 1}"/>`);
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<package xmlns="http://www.idpf.org/2007/opf" version="3.0" unique-identifier="book-id" xml:lang="en">
+  <metadata xmlns:dc="http://purl.org/dc/elements/1.1/">
+    <dc:identifier id="book-id">urn:insight-atlas:insight:${insightId}</dc:identifier>
+    <dc:title>${escapeXml(options.title)}</dc:title>
+    <dc:creator>${escapeXml(options.author || "Insight Atlas")}</dc:creator>
+    <dc:language>en</dc:language>
+    <dc:description>${escapeXml(`Insights from "${options.bookTitle}"`)}</dc:description>
+${options.keyThemes.map(theme => `    <dc:subject>${escapeXml(theme)}</dc:subject>`).join("\n")}
+    <meta property="dcterms:modified">${modified}</meta>${cover ? `
+    <meta name="cover" content="cover-image"/>` : ""}
+  </metadata>
+  <manifest>
+    <item id="nav" href="nav.xhtml" media-type="application/xhtml+xml" properties="nav"/>
+    <item id="css" href="styles.css" media-type="text/css"/>
+    <item id="cover" href="cover.xhtml" media-type="application/xhtml+xml"/>${cover ? `
+    <item id="cover-image" href="images/${coverFile}" media-type="${cover.mediaType}" properties="cover-image"/>` : ""}
+${chapterItems.join("\n")}
+  </manifest>
+  <spine>
+    <itemref idref="cover"/>
+    <itemref idref="nav"/>
+${spineItems.join("\n")}
+  </spine>
+</package>
+`;
+}
+
+function renderNav(chapters: Chapter[]): string {
+  const items = chapters
+    .map((chapter, index) => `        <li><a href="${chapterFile(index)}">${escapeXml(chapter.title)}</a></li>`)
+    .join("\n");
+
+  return xhtmlDocument("Contents", `    <nav epub:type="toc" id="toc">
+      <h1>Contents</h1>
+      <ol>
+${items}
+      </ol>
+    </nav>
+    <nav epub:type="landmarks" hidden="hidden">
+      <ol>
+        <li><a epub:type="cover" href="cover.xhtml">Cover</a></li>
+        <li><a epub:type="bodymatter" href="${chapterFile(0)}">Start</a></li>
+      </ol>
+    </nav>`);
+}
+
+function renderCoverPage(options: PDFExportOptions, coverFile: string | null): string {
+  const { title, author, bookTitle, generatedAt } = options;
+  const image = coverFile
+    ? `\n      <img class="cover-image" src="images/${coverFile}" alt="${escapeXml(`Cover of ${bookTitle}`)}"/>`
+    : "";
+
+  return xhtmlDocument(title, `    <section class="cover" epub:type="cover">${image}
+      <p class="brand">Insight Atlas</p>
+      <h1>${escapeXml(title)}</h1>
+      <p class="byline">Insights from “${escapeXml(bookTitle)}”${author ? ` by ${escapeXml(author)}` : ""}</p>
+      <p class="date">${escapeXml(generatedAt.toLocaleDateString("en-US", { year: "numeric", month: "long", day: "numeric" }))}</p>
+    </section>`);
+}
+
+function renderChapter(chapter: Chapter, keyThemes: string[]): string {
+  const themes = keyThemes.length > 0
+    ? `\n      <p class="themes">${keyThemes.map(theme => `<span>${escapeXml(theme)}</span>`).join(" · ")}</p>`
+    : "";
+  const body = chapter.sections.map(renderSection).filter(Boolean).join("\n");
+
+  return xhtmlDocument(chapter.title, `    <section epub:type="chapter">
+      <h1>${escapeXml(chapter.title)}</h1>${themes}
+${body}
+    </section>`);
+}
+
+function xhtmlDocument(title: string, body: string): string {
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<!DOCTYPE html>
+<html xmlns="http://www.w3.org/1999/xhtml" xmlns:epub="http://www.idpf.org/2007/ops" xml:lang="en" lang="en">
+  <head>
+    <meta charset="UTF-8"/>
+    <title>${escapeXml(title)}</title>
+    <link rel="stylesheet" type="text/css" href="styles.css"/>
+  </head>
+  <body>
+${body}
+  </body>
+</html>
+`;
+}
+
+// ---------------------------------------------------------------------------
+// Sections
+// ---------------------------------------------------------------------------
+
+function renderSection(section: InsightSection): string {
+  switch (section.type) {
+    case "paragraph":
+      return `      <p>${escapeXml(section.content)}</p>`;
+
+    case "quote":
+      return `      <blockquote>
+        <p>${escapeXml(section.content)}</p>${section.title ? `
+        <p class="attribution">— ${escapeXml(section.title)}</p>` : ""}
+      </blockquote>`;
+
+    case "authorSpotlight":
+    case "insightNote":
+    case "alternativePerspective":
+    case "researchInsight":
+    case "exercise":
+      return `      <aside class="callout ${section.type}">
+        <p class="callout-label">${escapeXml(section.title || CALLOUT_LABELS[section.type]!)}</p>
+        <p>${escapeXml(section.content)}</p>
+      </aside>`;
+
+    case "keyTakeaways":
+      return `      <aside class="key-takeaways">
+        <h2>Key Takeaways</h2>
+        <ul>${(section.items ?? []).map(item => `<li>${escapeXml(item)}</li>`).join("")}</ul>
+      </aside>`;
+
+    case "actionBox":
+      return `      <aside class="callout action-box">
+        <p class="callout-label">${escapeXml(section.title || "Action Steps")}</p>
+        <ol>${(section.items ?? []).map(item => `<li>${escapeXml(item)}</li>`).join("")}</ol>
+      </aside>`;
+
+    case "bulletList":
+    case "numberedList": {
+      const tag = section.type === "numberedList" ? "ol" : "ul";
+      return `${section.title ? `      <h2>${escapeXml(section.title)}</h2>\n` : ""}      <${tag}>${
+        (section.items ?? []).map(item => `<li>${escapeXml(item)}</li>`).join("")
+      }</${tag}>`;
+    }
+
+    case "sectionDivider":
+      return `      <hr class="divider"/>`;
+
+    case "visual":
+      return renderVisual(section);
+
+    default:
+      return section.content ? `      <p>${escapeXml(section.content)}</p>` : "";
+  }
+}
+
+/**
+ * The visual's SVG drawing (see visualSvg), inline; the drawing carries its
+ * own title, and the document is flagged for SVG in the manifest
+ */
+function renderVisual(section: InsightSection): string {
+  const svg = renderVisualSvg(section.visualType, section.visualData, section.title);
+  if (!svg) return "";
+
+  return `      <figure class="visual">
+${svg}
+      </figure>`;
+}
+
+function escapeXml(text: string): string {
+  return text
+    // Control characters are not allowed in XML 1.0
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, "")
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+const EPUB_STYLES = `body {
+  font-family: Georgia, "Times New Roman", serif;
+  line-height: 1.6;
+  color: #2C2C2C;
+}
+
+h1 {
+  font-size: 1.6em;
+  text-align: center;
+  margin: 1em 0 0.4em;
+  padding-bottom: 0.4em;
+  border-bottom: 1px solid #C9A227;
+}
+
+h2 {
+  font-size: 1.15em;
+  color: #8B7355;
+  margin: 1.2em 0 0.4em;
+}
+
+p {
+  margin: 0 0 0.8em;
+  text-align: justify;
+}
+
+.cover {
+  text-align: center;
+  padding-top: 2em;
+}
+
+.cover-image {
+  max-width: 60%;
+  max-height: 50vh;
+  margin: 0 auto 1.5em;
+  display: block;
+}
+
+.cover h1 {
+  border: none;
+}
+
+.brand {
+  font-family: Helvetica, Arial, sans-serif;
+  font-size: 0.8em;
+  letter-spacing: 0.3em;
+  text-transform: uppercase;
+  color: #8B7355;
+  text-align: center;
+}
+
+.byline, .date {
+  text-align: center;
+  font-style: italic;
+  color: #6B6B6B;
+}
+
+.themes {
+  text-align: center;
+  font-size: 0.85em;
+  color: #8B7355;
+}
+
+blockquote {
+  margin: 1em 0;
+  padding-left: 1em;
+  border-left: 3px solid #C9A227;
+  font-style: italic;
+}
+
+.attribution {
+  font-style: normal;
+  font-size: 0.9em;
+  color: #8B7355;
+}
+
+.callout {
+  margin: 1em 0;
+  padding: 0.8em 1em;
+  background: #FFF5D6;
+  border-left: 4px solid #C9A227;
+}
+
+.callout-label {
+  font-family: Helvetica, Arial, sans-serif;
+  font-size: 0.75em;
+  letter-spacing: 0.08em;
+  text-transform: uppercase;
+  color: #8B7355;
+  margin-bottom: 0.3em;
+}
+
+.key-takeaways {
+  margin: 1.2em 0;
+  padding: 0.8em 1em;
+  border: 2px solid #C9A227;
+}
+
+.key-takeaways h2 {
+  margin-top: 0;
+}
+
+hr.divider {
+  border: none;
+  border-top: 1px solid #E8D48A;
+  margin: 1.5em 25%;
+}
+
+figure.visual {
+  margin: 1.2em 0;
+  text-align: center;
+}
+
+figure.visual svg {
+  width: 100%;
+  height: auto;
+}
+`;
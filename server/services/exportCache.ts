@@ -0,0 +1,113 @@
+/**
+ * Export Cache
+ *
+ * Export procedures render and upload a new file on every call. This keys
+ * each stored artifact by a hash of the insight content, the format and the
+ * format's template version, and serves the stored result again when the
+ * hash matches. Every stored artifact is recorded in insight_exports, which
+ * also backs the list of previous exports in the UI.
+ *
+ * Bump a format's template version whenever its renderer output changes so
+ * artifacts rendered by the old code stop matching.
+ */
+
+import { createHash } from "crypto";
+import * as db from "../db";
+import type { PDFExportOptions } from "./pdfExport";
+
+export const EXPORT_TEMPLATE_VERSIONS = {
+  pdf: 2,
+  epub: 2,
+  docx: 2,
+  markdown: 2,
+  plainText: 2,
+  html: 3,
+  vault: 2,
+  json: 1,
+} as const;
+
+export type ExportFormat = keyof typeof EXPORT_TEMPLATE_VERSIONS;
+
+export interface ExportCacheOptions<T> {
+  insightId: number;
+  userId: number;
+  format: ExportFormat;
+  /** Everything the rendered file depends on */
+  content: unknown;
+  /** Where the generated result keeps its stored file */
+  file: (result: T) => { key: string; url: string };
+}
+
+/**
+ * The content to hash for export options: the generation date changes on
+ * every call, so a cached file keeps the date it was first rendered on
+ */
+export function exportCacheContent<T extends PDFExportOptions>(options: T): Omit<T, "generatedAt"> {
+  const { generatedAt: _generatedAt, ...content } = options;
+  return content;
+}
+
+/**
+ * sha256 over format, template version and content
+ */
+export function computeExportHash(format: ExportFormat, content: unknown): string {
+  return createHash("sha256")
+    .update(stableStringify({ format, templateVersion: EXPORT_TEMPLATE_VERSIONS[format], content }))
+    .digest("hex");
+}
+
+/**
+ * Return the stored result for unchanged content, otherwise generate,
+ * record and return a new one. `cached` tells the two apart.
+ */
+export async function withExportCache<T extends object>(
+  options: ExportCacheOptions<T>,
+  generate: () => Promise<T>
+): Promise<T & { cached: boolean }> {
+  const { insightId, userId, format, content, file } = options;
+  const contentHash = computeExportHash(format, content);
+
+  const existing = await db.getInsightExportByHash(insightId, format, contentHash);
+  if (existing) {
+    const stored = db.safeJsonParse<T | null>(existing.result, null);
+    if (stored) {
+      console.log(`[Export Cache] Reusing ${format} export for insight ${insightId}`);
+      return { ...stored, cached: true };
+    }
+  }
+
+  const result = await generate();
+  const { key, url } = file(result);
+  await db.upsertInsightExport({
+    insightId,
+    userId,
+    format,
+    contentHash,
+    templateVersion: EXPORT_TEMPLATE_VERSIONS[format],
+    fileKey: key,
+    fileUrl: url,
+    result: JSON.stringify(result),
+  });
+
+  return { ...result, cached: false };
+}
+
+/**
+ * JSON with object keys sorted, so equal content always hashes equally
+ */
+export function stableStringify(value: unknown): string {
+  if (value instanceof Date) {
+    return JSON.stringify(value.toISOString());
+  }
+  if (Array.isArray(value)) {
+    return `[${value.map(item => stableStringify(item ?? null)).join(",")}]`;
+  }
+  if (value && typeof value === "object") {
+    const entries = Object.entries(value)
+      .filter(([, entry]) => entry !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+      .map(([key, entry]) => `${JSON.stringify(key)}:${stableStringify(entry)}`);
+    return `{${entries.join(",")}}`;
+  }
+  return JSON.stringify(value ?? null);
+}
@@ -6,6 +6,8 @@
  */
 
 import { generateWithClaude, generateWithBuiltinLLM, isAnthropicConfigured } from './dualLLMService';
+import { VISUAL_REGISTRY, buildVisualFormatGuide, parseVisualData } from '../../shared/visuals';
+import type { VisualType } from '../../shared/types';
 
 interface GeneratedSection {
   type: string;
@@ -21,6 +23,8 @@ interface GapAnalysisResult {
   generatedContent: GeneratedSection[];
   revisedSections: GeneratedSection[];
   completenessScore: number;
+  /** Set when the analysis failed and the empty result stands in for it */
+  fallback?: boolean;
 }
 
 const GAP_ANALYSIS_PROMPT = `# GAP ANALYSIS & CONTENT COMPLETION
@@ -166,21 +170,25 @@ Return a JSON object with this structure:
       "title": "Section title",
       "content": "The complete generated content",
       "insertAfter": "Description of where to insert this content",
-      "visualType": "flowChart|comparisonTable|conceptMap|hierarchy (if applicable)",
-      "visualData": {} // Structured data for visual rendering if applicable
+      "visualType": "one of the visual types below (if applicable)",
+      "visualData": {} // Structured exactly as listed for the visual type
     }
   ],
   "completenessScore": 0-100,
   "summary": "Brief summary of gaps filled"
 }
 
+## VISUAL TYPES AND visualData STRUCTURE
+${buildVisualFormatGuide()}
+
 Generate the gap analysis and fill ALL identified gaps now. Return ONLY valid JSON.`;
 
 export async function runGapAnalysis(
   generatedGuide: string,
   bookTitle: string,
   bookAuthor: string,
-  bookExcerpts: string
+  bookExcerpts: string,
+  signal?: AbortSignal
 ): Promise<GapAnalysisResult> {
   const prompt = GAP_ANALYSIS_PROMPT
     .replace('{GENERATED_GUIDE}', generatedGuide)
@@ -196,7 +204,8 @@ export async function runGapAnalysis(
     const response = await generateWithClaude(
       'You are a content completion specialist. Analyze the generated guide and fill any gaps. Return valid JSON only.',
       prompt,
-      16000
+      16000,
+      { signal }
     );
 
     console.log('[Gap Analysis] Completed using:', response.provider);
@@ -284,6 +293,7 @@ export async function runGapAnalysis(
           generatedContent: [],
           revisedSections: [],
           completenessScore: 100,
+          fallback: true,
         };
       }
     }
@@ -295,6 +305,9 @@ export async function runGapAnalysis(
       completenessScore: result.completenessScore || 0,
     };
   } catch (error) {
+    if (signal?.aborted) {
+      throw error;
+    }
     console.error('[Gap Analysis] Error:', error);
     // Return empty result on error
     return {
@@ -302,6 +315,7 @@ export async function runGapAnalysis(
       generatedContent: [],
       revisedSections: [],
       completenessScore: 100, // Assume complete if analysis fails
+      fallback: true,
     };
   }
 }
@@ -482,23 +496,13 @@ Return ONLY the numbered actions, no other text.`;
 export async function generateVisualFramework(
   conceptName: string,
   conceptDescription: string,
-  preferredType: 'flowChart' | 'comparisonTable' | 'conceptMap' | 'hierarchy' = 'flowChart'
+  preferredType: VisualType = 'flowDiagram'
 ): Promise<{ type: string; data: any }> {
-  const typePrompts: Record<string, string> = {
-    flowChart: `Create a flow chart showing the process or cycle of "${conceptName}".
-Return JSON: { "nodes": [{"id": "1", "label": "Step 1"}], "edges": [{"from": "1", "to": "2"}] }`,
-    
-    comparisonTable: `Create a comparison table for "${conceptName}" showing before/after or problem/solution.
-Return JSON: { "headers": ["Problem State", "Solution State"], "rows": [["Behavior 1", "Transformed 1"]] }`,
-    
-    conceptMap: `Create a concept map showing how "${conceptName}" connects to related ideas.
-Return JSON: { "center": "Main Concept", "connections": [{"label": "Related A", "relationship": "leads to"}] }`,
-    
-    hierarchy: `Create a hierarchy diagram for "${conceptName}" showing nested concepts.
-Return JSON: { "root": "Main", "children": [{"label": "Sub 1", "children": []}] }`,
-  };
+  const visual = VISUAL_REGISTRY[preferredType];
+  const typePrompt = `Create a ${visual.name} (${visual.description.toLowerCase()}) for "${conceptName}".
+Return JSON in this structure${visual.note ? ` (${visual.note})` : ''}: ${JSON.stringify(visual.example)}`;
 
-  const prompt = `${typePrompts[preferredType]}
+  const prompt = `${typePrompt}
 
 Concept: ${conceptName}
 Description: ${conceptDescription}
@@ -519,8 +523,12 @@ Return ONLY valid JSON, no other text.`;
       jsonStr = jsonMatch[1].trim();
     }
 
-    const data = JSON.parse(jsonStr);
-    return { type: preferredType, data };
+    const parsed = parseVisualData(preferredType, JSON.parse(jsonStr));
+    if (!parsed.success) {
+      console.error('[Generate Visual] Invalid visual data:', parsed.error);
+      return { type: preferredType, data: {} };
+    }
+    return { type: preferredType, data: parsed.data };
   } catch (error) {
     console.error('[Generate Visual] Error:', error);
     return { type: preferredType, data: {} };
@@ -0,0 +1,97 @@
+/**
+ * Generation Checkpoints
+ *
+ * Persists the output of each premium pipeline stage keyed by insight, so a
+ * retry or `insights.resume` restarts from the first incomplete stage instead
+ * of repeating every Claude call from scratch.
+ */
+
+import * as db from '../db';
+import { safeJsonParse } from '../db';
+import { logGeneration, logError } from './debugLogger';
+import type { PremiumSection } from './stage1ContentGeneration';
+
+/**
+ * Pipeline stages in execution order
+ */
+export const CHECKPOINT_STAGES = [
+  'chapterNotes',
+  'analysis',
+  'chunk:Foundation',
+  'chunk:Core Concepts',
+  'chunk:Application',
+  'gapAnalysis',
+  'audioScript',
+] as const;
+
+export type CheckpointStage = (typeof CHECKPOINT_STAGES)[number];
+
+/**
+ * Output of a single Stage 1 chunk
+ */
+export interface ChunkResult {
+  sections: PremiumSection[];
+  wordCount: number;
+}
+
+/**
+ * Checkpoint access for the chunked generator, keyed by chunk name
+ */
+export interface ChunkCheckpointStore {
+  load(chunkName: string): Promise<ChunkResult | null>;
+  save(chunkName: string, result: ChunkResult): Promise<void>;
+}
+
+/**
+ * Load a stage's saved output, or null if the stage has not completed
+ */
+export async function loadCheckpoint<T>(insightId: number, stage: CheckpointStage): Promise<T | null> {
+  try {
+    const checkpoint = await db.getGenerationCheckpoint(insightId, stage);
+    if (!checkpoint) return null;
+    const data = safeJsonParse<T | null>(checkpoint.data, null);
+    if (data !== null) {
+      logGeneration('Resuming from checkpoint', { insightId, stage });
+    }
+    return data;
+  } catch (error) {
+    logError('generation', 'Failed to load checkpoint', { insightId, stage, error: String(error) });
+    return null;
+  }
+}
+
+/**
+ * Save a stage's output. Failures are logged, never thrown: losing a
+ * checkpoint only costs a re-run of that stage.
+ */
+export async function saveCheckpoint(insightId: number, stage: CheckpointStage, data: unknown): Promise<void> {
+  try {
+    await db.upsertGenerationCheckpoint(insightId, stage, JSON.stringify(data));
+  } catch (error) {
+    logError('generation', 'Failed to save checkpoint', { insightId, stage, error: String(error) });
+  }
+}
+
+/**
+ * Forget all stage output so the next run starts from zero
+ */
+export async function clearCheckpoints(insightId: number): Promise<void> {
+  await db.deleteGenerationCheckpoints(insightId);
+}
+
+/**
+ * First stage without a checkpoint, or null when every stage has one
+ */
+export function getResumeStage(completedStages: string[]): CheckpointStage | null {
+  return CHECKPOINT_STAGES.find(stage => !completedStages.includes(stage)) ?? null;
+}
+
+/**
+ * Checkpoint store for the Stage 1 chunks of an insight
+ */
+export function createChunkCheckpointStore(insightId: number): ChunkCheckpointStore {
+  return {
+    load: (chunkName) => loadCheckpoint<ChunkResult>(insightId, `chunk:${chunkName}` as CheckpointStage),
+    save: (chunkName, result) => saveCheckpoint(insightId, `chunk:${chunkName}` as CheckpointStage, result),
+  };
+}
@@ -0,0 +1,249 @@
+/**
+ * Insight Document (JSON export / import)
+ *
+ * A versioned, self-contained JSON form of an insight for backup and for
+ * moving insights between environments: the book metadata, the insight
+ * fields, every content block with its parsed visualData, list items and
+ * metadata, and the Stage 0 analysis when one is stored.
+ *
+ * Storage URLs (book file, audio, PDF) are environment-specific and are not
+ * carried over; the extracted book text is left out to keep documents small.
+ * Bump INSIGHT_DOCUMENT_VERSION on any breaking change to the shape and
+ * teach parseInsightDocument to upgrade the older versions.
+ */
+
+import { z } from "zod";
+import * as db from "../db";
+import { safeJsonParse } from "../db";
+import type { Book, ContentBlock, Insight, BookAnalysisRecord } from "../../drizzle/schema";
+import { storagePut } from "../storage";
+
+export const INSIGHT_DOCUMENT_FORMAT = "insight-atlas.insight";
+export const INSIGHT_DOCUMENT_VERSION = 1;
+
+const contentBlockSchema = z.object({
+  blockType: z.string().min(1).max(50),
+  title: z.string().max(255).nullable(),
+  content: z.string().nullable(),
+  visualType: z.string().max(50).nullable(),
+  visualData: z.unknown().nullable(),
+  listItems: z.array(z.string()).nullable(),
+  metadata: z.record(z.string(), z.unknown()).nullable(),
+  orderIndex: z.number().int(),
+});
+
+export const insightDocumentSchema = z.object({
+  format: z.literal(INSIGHT_DOCUMENT_FORMAT),
+  version: z.literal(INSIGHT_DOCUMENT_VERSION),
+  exportedAt: z.string(),
+  book: z.object({
+    title: z.string().min(1).max(500),
+    author: z.string().max(255).nullable(),
+    coverUrl: z.string().nullable(),
+    fileType: z.string().max(20).nullable(),
+    wordCount: z.number().int().nullable(),
+    pageCount: z.number().int().nullable(),
+  }),
+  insight: z.object({
+    title: z.string().min(1).max(500),
+    summary: z.string().nullable(),
+    keyThemes: z.array(z.string()),
+    audioScript: z.string().nullable(),
+    recommendedVisuals: z.array(z.string()),
+    wordCount: z.number().int().nullable(),
+    createdAt: z.string(),
+  }),
+  contentBlocks: z.array(contentBlockSchema),
+  analysis: z.record(z.string(), z.unknown()).nullable(),
+});
+
+export type InsightDocument = z.infer<typeof insightDocumentSchema>;
+
+export interface JSONExportResult {
+  jsonUrl: string;
+  jsonKey: string;
+}
+
+export interface InsightImportResult {
+  bookId: number;
+  insightId: number;
+  contentBlockCount: number;
+}
+
+/**
+ * Build the document from stored rows
+ */
+export function buildInsightDocument(
+  book: Book,
+  insight: Insight,
+  contentBlocks: ContentBlock[],
+  analysisRecord: BookAnalysisRecord | null | undefined,
+  exportedAt = new Date()
+): InsightDocument {
+  return {
+    format: INSIGHT_DOCUMENT_FORMAT,
+    version: INSIGHT_DOCUMENT_VERSION,
+    exportedAt: exportedAt.toISOString(),
+    book: {
+      title: book.title,
+      author: book.author,
+      coverUrl: book.coverUrl,
+      fileType: book.fileType,
+      wordCount: book.wordCount,
+      pageCount: book.pageCount,
+    },
+    insight: {
+      title: insight.title,
+      summary: insight.summary,
+      keyThemes: safeJsonParse<string[]>(insight.keyThemes, []),
+      audioScript: insight.audioScript,
+      recommendedVisuals: safeJsonParse<string[]>(insight.recommendedVisuals, []),
+      wordCount: insight.wordCount,
+      createdAt: insight.createdAt.toISOString(),
+    },
+    contentBlocks: contentBlocks.map(block => ({
+      blockType: block.blockType,
+      title: block.title,
+      content: block.content,
+      visualType: block.visualType,
+      visualData: safeJsonParse<unknown>(block.visualData, null),
+      listItems: safeJsonParse<string[] | null>(block.listItems, null),
+      metadata: safeJsonParse<Record<string, unknown> | null>(block.metadata, null),
+      orderIndex: block.orderIndex,
+    })),
+    analysis: analysisRecord ? safeJsonParse<Record<string, unknown> | null>(analysisRecord.analysis, null) : null,
+  };
+}
+
+/**
+ * Validate an uploaded document; the error names the first offending fields
+ */
+export function parseInsightDocument(input: unknown): InsightDocument {
+  if (typeof input === "object" && input !== null && "version" in input) {
+    const { format, version } = input as { format?: unknown; version?: unknown };
+    if (format === INSIGHT_DOCUMENT_FORMAT && typeof version === "number" && version > INSIGHT_DOCUMENT_VERSION) {
+      throw new Error(`Insight document version ${version} is newer than this server supports (${INSIGHT_DOCUMENT_VERSION})`);
+    }
+  }
+
+  const parsed = insightDocumentSchema.safeParse(input);
+  if (!parsed.success) {
+    const problems = parsed.error.issues
+      .slice(0, 5)
+      .map(issue => `${issue.path.join(".") || "document"}: ${issue.message}`)
+      .join("; ");
+    throw new Error(`Invalid insight document: ${problems}`);
+  }
+  return parsed.data;
+}
+
+/**
+ * Store the document as a JSON file
+ */
+export async function generateJSONExport(
+  document: InsightDocument,
+  insightId: number
+): Promise<JSONExportResult> {
+  const jsonKey = `insights/${insightId}/export-${Date.now()}.json`;
+  const { url: jsonUrl } = await storagePut(jsonKey, Buffer.from(JSON.stringify(document, null, 2)), "application/json");
+
+  return {
+    jsonUrl,
+    jsonKey,
+  };
+}
+
+/**
+ * Recreate the book, insight, content blocks, analysis and library item
+ * for the given user. The imported insight is always a new, completed one.
+ */
+export async function importInsightDocument(
+  document: InsightDocument,
+  userId: number
+): Promise<InsightImportResult> {
+  const { book, insight, contentBlocks, analysis } = document;
+  let bookId: number | undefined;
+  let insightId: number | undefined;
+
+  try {
+    bookId = await db.createBook({
+      userId,
+      title: book.title,
+      author: book.author,
+      coverUrl: book.coverUrl,
+      fileType: book.fileType,
+      wordCount: book.wordCount ?? 0,
+      pageCount: book.pageCount,
+    });
+
+    insightId = await db.createInsight({
+      userId,
+      bookId,
+      title: insight.title,
+      summary: insight.summary,
+      keyThemes: JSON.stringify(insight.keyThemes),
+      audioScript: insight.audioScript,
+      recommendedVisuals: JSON.stringify(insight.recommendedVisuals),
+      wordCount: insight.wordCount ?? 0,
+      status: "completed",
+      currentStage: "completed",
+      generationProgress: 100,
+    });
+
+    const ordered = [...contentBlocks].sort((a, b) => a.orderIndex - b.orderIndex);
+    for (const block of ordered) {
+      await db.createContentBlock({
+        insightId,
+        blockType: block.blockType,
+        title: block.title,
+        content: block.content,
+        visualType: block.visualType,
+        visualData: block.visualData == null ? null : JSON.stringify(block.visualData),
+        listItems: block.listItems ? JSON.stringify(block.listItems) : null,
+        metadata: block.metadata ? JSON.stringify(block.metadata) : null,
+        orderIndex: block.orderIndex,
+      });
+    }
+
+    if (analysis) {
+      const classification = analysis.classification as { primaryCategory?: string; complexityLevel?: string } | undefined;
+      await db.upsertBookAnalysis({
+        bookId,
+        insightId,
+        primaryCategory: classification?.primaryCategory?.slice(0, 100) ?? null,
+        complexityLevel: classification?.complexityLevel?.slice(0, 50) ?? null,
+        analysis: JSON.stringify(analysis),
+      });
+    }
+
+    await db.createLibraryItem({
+      userId,
+      bookId,
+      insightId,
+      readingStatus: "new",
+      isFavorite: false,
+    });
+
+    return { bookId, insightId, contentBlockCount: ordered.length };
+  } catch (error) {
+    // Remove what was created so a failed import leaves nothing half-written in the library
+    await discardImport(bookId, insightId).catch(cleanupError =>
+      console.error("[Import] Could not remove a partially imported insight:", cleanupError)
+    );
+    throw error;
+  }
+}
+
+/**
+ * Delete the rows an import created; the book's library item and analysis
+ * go with it
+ */
+async function discardImport(bookId: number | undefined, insightId: number | undefined): Promise<void> {
+  if (insightId !== undefined) {
+    await db.deleteContentBlocksByInsightId(insightId);
+    await db.deleteInsight(insightId);
+  }
+  if (bookId !== undefined) {
+    await db.deleteBook(bookId);
+  }
+}
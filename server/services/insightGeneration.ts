@@ -1,11 +1,13 @@
 import { invokeLLM } from "../_core/llm";
 import { VISUAL_TYPE_INFO, VisualType } from "../../shared/types";
+import { VISUAL_REGISTRY, parseVisualData } from "../../shared/visuals";
 import { generateBookInsightsWithClaude, isClaudeConfigured } from "./claudeService";
 
 export interface InsightSection {
   type: "heading" | "paragraph" | "quote" | "authorSpotlight" | "insightNote" | 
         "alternativePerspective" | "researchInsight" | "keyTakeaways" | 
-        "exercise" | "sectionDivider" | "visual" | "bulletList" | "numberedList";
+        "exercise" | "sectionDivider" | "visual" | "bulletList" | "numberedList" |
+        "actionBox";
   content: string;
   title?: string;
   visualType?: VisualType;
@@ -364,18 +366,12 @@ export async function generateVisualData(
   visualType: VisualType,
   themes: string[]
 ): Promise<Record<string, unknown>> {
-  const visualInfo = VISUAL_TYPE_INFO.find(v => v.type === visualType);
+  const visual = VISUAL_REGISTRY[visualType];
   
-  const systemPrompt = `You are a data visualization expert. Generate structured data for a ${visualInfo?.name || visualType} visualization based on the provided content.
+  const systemPrompt = `You are a data visualization expert. Generate structured data for a ${visual.name} visualization based on the provided content.
 
-Respond with valid JSON containing the visualization data. The structure should be appropriate for the visualization type:
-
-For timeline: { "events": [{ "date": "...", "title": "...", "description": "..." }] }
-For flowDiagram: { "nodes": [{ "id": "...", "label": "..." }], "edges": [{ "from": "...", "to": "...", "label": "..." }] }
-For comparisonMatrix: { "items": ["..."], "criteria": ["..."], "values": [[...]] }
-For barChart/pieChart: { "labels": ["..."], "values": [...], "title": "..." }
-For mindMap: { "central": "...", "branches": [{ "label": "...", "children": ["..."] }] }
-For other types: Use appropriate structure for the visualization.`;
+Respond with valid JSON containing the visualization data, using this structure${visual.note ? ` (${visual.note})` : ""}:
+${JSON.stringify(visual.example)}`;
 
   try {
     const response = await invokeLLM({
@@ -393,7 +389,11 @@ For other types: Use appropriate structure for the visualization.`;
     // Try to parse JSON from response
     const jsonMatch = responseContent.match(/\{[\s\S]*\}/);
     if (jsonMatch) {
-      return JSON.parse(jsonMatch[0]);
+      const parsed = parseVisualData(visualType, JSON.parse(jsonMatch[0]));
+      if (parsed.success) {
+        return parsed.data;
+      }
+      console.error("[Visual Data Generation] Invalid visual data:", parsed.error);
     }
     
     return {};
@@ -445,6 +445,7 @@ async function generateAudioScriptFromInsights(
         case "keyTakeaways":
         case "bulletList":
         case "numberedList":
+        case "actionBox":
           if (section.items && section.items.length > 0) {
             text = `${section.title || "Key Points"}: ${section.items.join("; ")}`;
           }
@@ -0,0 +1,205 @@
+/**
+ * Insight Generation Job
+ *
+ * Runs the premium pipeline for a queued insight in the background worker
+ * and stores the resulting content blocks. Enqueued by insights.generate
+ * and insights.regenerate.
+ */
+
+import * as db from '../db';
+import { enqueueJob, cancelJob, registerJobHandler, JobContext } from '../_core/jobQueue';
+import { broadcastProgress, notifyComplete, notifyFailed, notifyCancelled } from '../_core/websocket';
+import { generatePremiumInsight } from './premiumInsightPipeline';
+import { saveSectionsAsContentBlocks } from './contentBlockSections';
+import { saveAudioAsset } from './audioAssets';
+import { logGeneration, logError } from './debugLogger';
+
+export const INSIGHT_GENERATION_JOB = 'insight.generate';
+
+export interface InsightGenerationPayload {
+  insightId: number;
+  bookId: number;
+}
+
+/**
+ * Queue generation for an existing insight record
+ */
+export async function enqueueInsightGeneration(
+  insightId: number,
+  bookId: number,
+  userId: number
+): Promise<number> {
+  await db.updateInsight(insightId, {
+    status: 'pending',
+    currentStage: 'queued',
+    generationProgress: 0,
+  });
+
+  const jobId = await enqueueJob({
+    type: INSIGHT_GENERATION_JOB,
+    userId,
+    insightId,
+    payload: { insightId, bookId },
+  });
+
+  await broadcastProgress({
+    insightId,
+    status: 'queued',
+    percent: 0,
+    currentStep: 'Waiting in queue',
+  });
+
+  return jobId;
+}
+
+/**
+ * Cancel the queued or running generation for an insight.
+ * Returns false if there is nothing left to cancel.
+ */
+export async function cancelInsightGeneration(insightId: number): Promise<boolean> {
+  const job = await db.getLatestJobByInsightId(insightId);
+  if (!job || job.type !== INSIGHT_GENERATION_JOB) {
+    return false;
+  }
+
+  const cancelled = await cancelJob(job.id);
+  if (cancelled) {
+    await db.updateInsight(insightId, { status: 'cancelled', currentStage: 'cancelled' });
+    await notifyCancelled(insightId);
+    logGeneration('Insight generation cancelled', { insightId, jobId: job.id });
+  }
+  return cancelled;
+}
+
+async function runInsightGeneration(ctx: JobContext<InsightGenerationPayload>) {
+  const { insightId, bookId } = ctx.payload;
+
+  const book = await db.getBookById(bookId);
+  if (!book) {
+    throw new Error("Book not found");
+  }
+
+  logGeneration('Starting queued insight generation', {
+    insightId,
+    bookTitle: book.title,
+    attempt: ctx.attempt,
+  });
+
+  // Clear partial output from an earlier failed attempt
+  await db.deleteContentBlocksByInsightId(insightId);
+  await db.updateInsight(insightId, {
+    status: 'generating',
+    currentStage: 'analyzing',
+    generationProgress: 0,
+  });
+
+  // Progress callback keeps the insight row (read by getStatus) and the job lock fresh
+  const updateProgress = async (stage: string, progress: number) => {
+    await db.updateInsight(insightId, {
+      currentStage: stage,
+      generationProgress: progress,
+    });
+    await ctx.heartbeat();
+    logGeneration('Progress update', { insightId, stage, progress });
+  };
+
+  const premiumInsight = await generatePremiumInsight(
+    book.title,
+    book.author,
+    book.extractedText || "",
+    insightId,
+    updateProgress,
+    ctx.signal
+  );
+  logGeneration('Premium Pipeline complete', {
+    sections: premiumInsight.sections.length,
+    wordCount: premiumInsight.wordCount,
+    keyThemes: premiumInsight.keyThemes.length,
+    insightId
+  });
+
+  // Store sections with their premium type and metadata; exports flatten them later
+  await saveSectionsAsContentBlocks(insightId, premiumInsight.sections);
+
+  // Keep the Stage 0 analysis for the Book Profile panel; the placeholder
+  // from a failed analysis would pass for a real profile, so it is not kept
+  if (!premiumInsight.bookAnalysis.fallback) {
+    await db.upsertBookAnalysis({
+      bookId,
+      insightId,
+      primaryCategory: premiumInsight.bookAnalysis.classification?.primaryCategory?.slice(0, 100) ?? null,
+      complexityLevel: premiumInsight.bookAnalysis.classification?.complexityLevel?.slice(0, 50) ?? null,
+      analysis: JSON.stringify(premiumInsight.bookAnalysis),
+    });
+  }
+
+  await db.updateInsight(insightId, {
+    title: premiumInsight.title,
+    summary: premiumInsight.summary,
+    status: "completed",
+    currentStage: "completed",
+    generationProgress: 100,
+    keyThemes: JSON.stringify(premiumInsight.keyThemes),
+    audioScript: premiumInsight.audioScript,
+    wordCount: premiumInsight.wordCount,
+    recommendedVisuals: JSON.stringify(premiumInsight.tableOfContents.map(t => t.type)),
+  });
+  if (premiumInsight.audio) {
+    await saveAudioAsset(insightId, "full", "script", premiumInsight.audio);
+  }
+
+  // Link the insight to the user's library item for this book
+  const libraryItems = await db.getLibraryItemsByUserId(ctx.job.userId);
+  const libraryItem = libraryItems.find(item => item.bookId === bookId);
+  if (libraryItem) {
+    await db.updateLibraryItem(libraryItem.id, {
+      insightId,
+      readingStatus: "reading",
+    });
+  }
+
+  await notifyComplete(insightId, {
+    sectionCount: premiumInsight.sections.length,
+    wordCount: premiumInsight.wordCount,
+    hasAudio: !!premiumInsight.audio,
+  });
+
+  return { sectionCount: premiumInsight.sections.length, wordCount: premiumInsight.wordCount };
+}
+
+/**
+ * Register the generation handler with the job worker
+ */
+export function registerInsightGenerationJob(): void {
+  registerJobHandler<InsightGenerationPayload>(INSIGHT_GENERATION_JOB, {
+    run: runInsightGeneration,
+
+    onRetry: async (ctx, error, delayMs) => {
+      const { insightId } = ctx.payload;
+      await db.updateInsight(insightId, { status: 'pending', currentStage: 'retrying', generationProgress: 0 });
+      await broadcastProgress({
+        insightId,
+        status: 'queued',
+        percent: 0,
+        currentStep: `Attempt ${ctx.attempt} failed, retrying in ${Math.round(delayMs / 1000)}s`,
+        error,
+      });
+    },
+
+    onCancelled: async (ctx) => {
+      // Drop whatever the aborted attempt managed to store
+      await db.deleteContentBlocksByInsightId(ctx.payload.insightId);
+    },
+
+    onFailed: async (ctx, error) => {
+      const { insightId } = ctx.payload;
+      logError('generation', 'Insight generation failed after all attempts', {
+        insightId,
+        attempts: ctx.attempt,
+        error,
+      });
+      await db.updateInsight(insightId, { status: 'failed', currentStage: 'failed' });
+      await notifyFailed(insightId, 'Generation failed. Please try again.');
+    },
+  });
+}
@@ -0,0 +1,259 @@
+/**
+ * Library Export Job
+ *
+ * Renders every completed insight in a user's library in one format and
+ * bundles the files with an index into a single zip in storage. Runs in
+ * the background worker; progress goes out over the WebSocket job channel
+ * (subscribeJob) and the zip URL is the job result. Enqueued by
+ * library.exportAll.
+ */
+
+import AdmZip from 'adm-zip';
+import * as db from '../db';
+import { safeJsonParse } from '../db';
+import type { Book, Insight } from '../../drizzle/schema';
+import { enqueueJob, registerJobHandler, JobContext } from '../_core/jobQueue';
+import { broadcastJobProgress } from '../_core/websocket';
+import { storagePut } from '../storage';
+import { contentBlocksToExportSections } from './contentBlockSections';
+import { buildMarkdownExport, generatePremiumHTML, type PDFExportOptions } from './pdfExport';
+import { renderPremiumPDF } from './pdfRenderer';
+import { buildInsightDocument } from './insightDocument';
+import { logError } from './debugLogger';
+
+export const LIBRARY_EXPORT_JOB = 'library.exportAll';
+
+export const LIBRARY_EXPORT_FORMATS = ['markdown', 'html', 'pdf', 'json'] as const;
+export type LibraryExportFormat = typeof LIBRARY_EXPORT_FORMATS[number];
+
+export interface LibraryExportPayload {
+  format: LibraryExportFormat;
+}
+
+export interface LibraryExportResult {
+  zipUrl: string;
+  zipKey: string;
+  format: LibraryExportFormat;
+  insightCount: number;
+  skippedCount: number;
+}
+
+export interface LibraryExportEntry {
+  file: string | null;
+  title: string;
+  bookTitle: string;
+  author: string | null;
+  createdAt: Date;
+  error?: string;
+}
+
+const EXTENSIONS: Record<LibraryExportFormat, string> = {
+  markdown: 'md',
+  html: 'html',
+  pdf: 'pdf',
+  json: 'json',
+};
+
+/**
+ * Queue a bulk export of the user's completed insights
+ */
+export async function enqueueLibraryExport(userId: number, format: LibraryExportFormat): Promise<number> {
+  const jobId = await enqueueJob({
+    type: LIBRARY_EXPORT_JOB,
+    userId,
+    payload: { format },
+    maxAttempts: 2,
+  });
+
+  await broadcastJobProgress({
+    jobId,
+    status: 'queued',
+    percent: 0,
+    currentStep: 'Waiting in queue',
+  });
+
+  return jobId;
+}
+
+/**
+ * Render one insight to the bytes of its export file
+ */
+async function renderInsightFile(format: LibraryExportFormat, book: Book, insight: Insight): Promise<Buffer> {
+  const contentBlocks = await db.getContentBlocksByInsightId(insight.id);
+
+  if (format === 'json') {
+    const analysisRecord = await db.getBookAnalysisByBookId(book.id);
+    const document = buildInsightDocument(book, insight, contentBlocks, analysisRecord);
+    return Buffer.from(JSON.stringify(document, null, 2));
+  }
+
+  const options: PDFExportOptions = {
+    title: insight.title,
+    author: book.author,
+    summary: insight.summary || '',
+    sections: contentBlocksToExportSections(contentBlocks),
+    keyThemes: safeJsonParse(insight.keyThemes, []),
+    bookTitle: book.title,
+    generatedAt: new Date(),
+  };
+
+  switch (format) {
+    case 'markdown':
+      return Buffer.from(buildMarkdownExport(options));
+    case 'html':
+      return Buffer.from(generatePremiumHTML(options));
+    case 'pdf':
+      return (await renderPremiumPDF(options)).buffer;
+  }
+}
+
+/**
+ * Markdown index of the archive, with relative links to each file
+ */
+export function buildLibraryIndex(format: LibraryExportFormat, entries: LibraryExportEntry[], exportedAt: Date): string {
+  const exported = entries.filter(entry => entry.file);
+  const skipped = entries.filter(entry => !entry.file);
+  const cell = (text: string) => text.replace(/\|/g, '\\|').replace(/\s+/g, ' ');
+
+  let index = `# Insight Atlas Library Export\n\n`;
+  index += `Exported ${exportedAt.toISOString().slice(0, 10)} · ${exported.length} insight${exported.length === 1 ? '' : 's'} · ${format}\n\n`;
+
+  if (exported.length > 0) {
+    index += `| # | Insight | Book | Author | Created |\n`;
+    index += `|---|---|---|---|---|\n`;
+    exported.forEach((entry, i) => {
+      const link = `[${cell(entry.title)}](<${entry.file}>)`;
+      index += `| ${i + 1} | ${link} | ${cell(entry.bookTitle)} | ${cell(entry.author ?? '')} | ${entry.createdAt.toISOString().slice(0, 10)} |\n`;
+    });
+    index += `\n`;
+  }
+
+  if (skipped.length > 0) {
+    index += `## Not Exported\n\n`;
+    index += skipped.map(entry => `- ${entry.title}: ${entry.error ?? 'unknown error'}`).join('\n');
+    index += `\n`;
+  }
+
+  return index;
+}
+
+function archiveFileName(position: number, title: string, format: LibraryExportFormat): string {
+  const name = title.replace(/[\\/:*?"<>|#]/g, '').replace(/\s+/g, ' ').trim().slice(0, 80) || 'Insight';
+  return `${String(position).padStart(3, '0')} ${name}.${EXTENSIONS[format]}`;
+}
+
+async function runLibraryExport(ctx: JobContext<LibraryExportPayload>): Promise<LibraryExportResult> {
+  const { format } = ctx.payload;
+  const jobId = ctx.job.id;
+  const userId = ctx.job.userId;
+
+  const insights = (await db.getInsightsByUserId(userId))
+    .filter(insight => insight.status === 'completed')
+    .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+
+  await broadcastJobProgress({
+    jobId,
+    status: 'running',
+    percent: 0,
+    currentStep: `Exporting ${insights.length} insights`,
+  });
+
+  const zip = new AdmZip();
+  const entries: LibraryExportEntry[] = [];
+
+  for (let i = 0; i < insights.length; i++) {
+    ctx.signal.throwIfAborted();
+    const insight = insights[i];
+    const book = await db.getBookById(insight.bookId);
+    const entry: LibraryExportEntry = {
+      file: null,
+      title: insight.title,
+      bookTitle: book?.title ?? '',
+      author: book?.author ?? null,
+      createdAt: insight.createdAt,
+    };
+
+    await broadcastJobProgress({
+      jobId,
+      status: 'running',
+      // The last 10% covers zipping and the upload
+      percent: Math.round((i / insights.length) * 90),
+      currentStep: `Exporting ${i + 1} of ${insights.length}: ${insight.title}`,
+    });
+
+    try {
+      if (!book) {
+        throw new Error('Book not found');
+      }
+      const file = archiveFileName(entries.filter(done => done.file).length + 1, insight.title, format);
+      zip.addFile(file, await renderInsightFile(format, book, insight));
+      entry.file = file;
+    } catch (error) {
+      // One broken insight should not sink the whole archive
+      entry.error = error instanceof Error ? error.message : String(error);
+      logError('general', 'Library export skipped an insight', { jobId, insightId: insight.id, error: entry.error });
+    }
+
+    entries.push(entry);
+    await ctx.heartbeat();
+  }
+
+  ctx.signal.throwIfAborted();
+  await broadcastJobProgress({ jobId, status: 'running', percent: 90, currentStep: 'Uploading archive' });
+
+  zip.addFile('index.md', Buffer.from(buildLibraryIndex(format, entries, new Date())));
+  const zipKey = `exports/${userId}/library-${format}-${Date.now()}.zip`;
+  const { url: zipUrl } = await storagePut(zipKey, zip.toBuffer(), 'application/zip');
+
+  const result: LibraryExportResult = {
+    zipUrl,
+    zipKey,
+    format,
+    insightCount: entries.filter(entry => entry.file).length,
+    skippedCount: entries.filter(entry => !entry.file).length,
+  };
+
+  await broadcastJobProgress({
+    jobId,
+    status: 'completed',
+    percent: 100,
+    currentStep: 'Complete',
+    result: { ...result },
+  });
+
+  return result;
+}
+
+/**
+ * Register the library export handler with the job worker
+ */
+export function registerLibraryExportJob(): void {
+  registerJobHandler<LibraryExportPayload>(LIBRARY_EXPORT_JOB, {
+    run: runLibraryExport,
+
+    onRetry: async (ctx, error, delayMs) => {
+      await broadcastJobProgress({
+        jobId: ctx.job.id,
+        status: 'queued',
+        percent: 0,
+        currentStep: `Attempt ${ctx.attempt} failed, retrying in ${Math.round(delayMs / 1000)}s`,
+        error,
+      });
+    },
+
+    onCancelled: async (ctx) => {
+      await broadcastJobProgress({ jobId: ctx.job.id, status: 'cancelled', percent: 0, currentStep: 'Cancelled' });
+    },
+
+    onFailed: async (ctx, error) => {
+      logError('general', 'Library export failed after all attempts', { jobId: ctx.job.id, error });
+      await broadcastJobProgress({
+        jobId: ctx.job.id,
+        status: 'failed',
+        percent: 0,
+        currentStep: 'Failed',
+        error: 'Export failed. Please try again.',
+      });
+    },
+  });
+}
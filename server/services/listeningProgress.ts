@@ -0,0 +1,124 @@
+/**
+ * Listening Progress
+ *
+ * Keeps where a user is in each insight's narration on the server, so
+ * playback picks up on another device, and records listening sessions:
+ * stretches of uninterrupted playback with the time actually listened.
+ * The player saves periodically while playing and whenever it pauses.
+ * A position belongs to one of the insight's audio assets; switching to
+ * another length or voice starts that narration from the top.
+ */
+
+import * as db from "../db";
+
+// Positions this close to the end count as finished
+const COMPLETION_MARGIN_SECONDS = 10;
+// Saved positions belong to another narration when the lengths differ more than this
+const DURATION_TOLERANCE_SECONDS = 2;
+const CONTINUE_LISTENING_LIMIT = 10;
+
+export interface SavePositionInput {
+  insightId: number;
+  audioAssetId: number;
+  positionSeconds: number;
+  durationSeconds?: number;
+  /** Session returned by the previous save of this stretch of playback */
+  sessionId?: number;
+  /** Time played since the previous save */
+  listenedSeconds: number;
+}
+
+export interface ContinueListeningItem {
+  insightId: number;
+  audioAssetId: number;
+  title: string;
+  bookTitle: string | null;
+  bookAuthor: string | null;
+  coverUrl: string | null;
+  positionSeconds: number;
+  durationSeconds: number | null;
+  updatedAt: Date;
+}
+
+/**
+ * Store the user's position and extend (or start) their listening session
+ */
+export async function savePlaybackPosition(userId: number, input: SavePositionInput): Promise<{ sessionId: number | null }> {
+  const positionSeconds = Math.round(input.positionSeconds);
+  const durationSeconds = input.durationSeconds !== undefined ? Math.round(input.durationSeconds) : undefined;
+
+  await db.upsertPlaybackPosition({
+    userId,
+    insightId: input.insightId,
+    audioAssetId: input.audioAssetId,
+    positionSeconds,
+    durationSeconds: durationSeconds ?? null,
+    completed: isNarrationComplete(positionSeconds, durationSeconds),
+  });
+
+  const listenedSeconds = Math.round(input.listenedSeconds);
+  if (input.sessionId && await db.extendListeningSession(input.sessionId, userId, positionSeconds, listenedSeconds)) {
+    return { sessionId: input.sessionId };
+  }
+  if (listenedSeconds <= 0) {
+    return { sessionId: null };
+  }
+
+  const sessionId = await db.createListeningSession({
+    userId,
+    insightId: input.insightId,
+    startPositionSeconds: Math.max(positionSeconds - listenedSeconds, 0),
+    endPositionSeconds: positionSeconds,
+    listenedSeconds,
+    startedAt: new Date(Date.now() - listenedSeconds * 1000),
+  });
+  return { sessionId };
+}
+
+/**
+ * Which of the insight's narrations to resume and where, or null to start
+ * from the top
+ */
+export async function getResumePosition(
+  userId: number,
+  insightId: number
+): Promise<{ audioAssetId: number; positionSeconds: number; updatedAt: Date } | null> {
+  const position = await db.getPlaybackPosition(userId, insightId);
+  if (!position?.audioAssetId || position.completed || position.positionSeconds <= 0) return null;
+  const asset = await db.getAudioAssetById(position.audioAssetId);
+  if (!asset || !matchesNarration(position.durationSeconds, asset.durationSeconds)) return null;
+  return { audioAssetId: asset.id, positionSeconds: position.positionSeconds, updatedAt: position.updatedAt };
+}
+
+/**
+ * Narrations the user started and has not finished, most recent first
+ */
+export async function getContinueListening(userId: number): Promise<ContinueListeningItem[]> {
+  const rows = await db.getInProgressPlayback(userId, CONTINUE_LISTENING_LIMIT);
+  return rows
+    .filter(row => matchesNarration(row.durationSeconds, row.audioDuration))
+    .map(row => ({
+      insightId: row.insightId,
+      audioAssetId: row.audioAssetId,
+      title: row.title,
+      bookTitle: row.bookTitle,
+      bookAuthor: row.bookAuthor,
+      coverUrl: row.coverUrl,
+      positionSeconds: row.positionSeconds,
+      durationSeconds: row.audioDuration ?? row.durationSeconds,
+      updatedAt: row.updatedAt,
+    }));
+}
+
+export function isNarrationComplete(positionSeconds: number, durationSeconds?: number | null): boolean {
+  return !!durationSeconds && positionSeconds >= durationSeconds - COMPLETION_MARGIN_SECONDS;
+}
+
+/**
+ * Whether a position saved against a narration of `savedDuration` still
+ * applies to the audio asset; regenerating the asset changes its length
+ */
+export function matchesNarration(savedDuration: number | null | undefined, audioDuration: number | null | undefined): boolean {
+  if (!savedDuration || !audioDuration) return true;
+  return Math.abs(savedDuration - audioDuration) <= DURATION_TOLERANCE_SECONDS;
+}
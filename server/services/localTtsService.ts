@@ -0,0 +1,151 @@
+/**
+ * Local Text-to-Speech Provider
+ *
+ * Synthesizes narration offline with a speech engine installed on the
+ * server, for self-hosted deployments and environments without network
+ * access:
+ * - espeak-ng: tiny and packaged almost everywhere, but robotic
+ * - piper: natural neural voices, one .onnx model per voice
+ *
+ * Enabled by LOCAL_TTS_ENGINE ("espeak-ng" or "piper"). LOCAL_TTS_COMMAND
+ * overrides the binary when it is not on the PATH, and piper voices are the
+ * models found in PIPER_MODELS_DIR. Both engines write WAV.
+ */
+
+import { spawn } from "child_process";
+import { existsSync, readdirSync } from "fs";
+import { mkdtemp, readFile, rm } from "fs/promises";
+import { tmpdir } from "os";
+import path from "path";
+import { TtsProviderError, type TtsProvider, type TtsVoice } from "./ttsProvider";
+
+type LocalEngine = "espeak-ng" | "piper";
+
+const SYNTHESIS_TIMEOUT_MS = 5 * 60 * 1000;
+const ESPEAK_WORDS_PER_MINUTE = 160;
+
+const ESPEAK_VOICES = [
+  { id: "espeak-en-us", voice: "en-us", name: "eSpeak US English", description: "Offline synthetic voice, American English" },
+  { id: "espeak-en-gb", voice: "en-gb", name: "eSpeak British English", description: "Offline synthetic voice, British English" },
+  { id: "espeak-en-us-f", voice: "en-us+f3", name: "eSpeak US English (female)", description: "Offline synthetic female voice, American English" },
+];
+
+function getEngine(): LocalEngine | null {
+  const engine = process.env.LOCAL_TTS_ENGINE;
+  return engine === "espeak-ng" || engine === "piper" ? engine : null;
+}
+
+function getCommand(engine: LocalEngine): string {
+  return process.env.LOCAL_TTS_COMMAND || engine;
+}
+
+/**
+ * Piper voice models: every `<name>.onnx` with its `<name>.onnx.json` config
+ */
+function listPiperModels(): string[] {
+  const dir = process.env.PIPER_MODELS_DIR;
+  if (!dir || !existsSync(dir)) return [];
+  return readdirSync(dir)
+    .filter(file => file.endsWith(".onnx") && existsSync(path.join(dir, `${file}.json`)))
+    .map(file => file.slice(0, -".onnx".length))
+    .sort();
+}
+
+// en_US-lessac-medium -> "Lessac (en_US, medium)"
+function piperVoiceName(model: string): string {
+  const [locale, speaker = model, quality] = model.split("-");
+  const name = speaker.charAt(0).toUpperCase() + speaker.slice(1).replace(/_/g, " ");
+  return `${name} (${[locale, quality].filter(Boolean).join(", ")})`;
+}
+
+export const localTtsProvider: TtsProvider = {
+  id: "local",
+  name: "Local",
+  maxChars: 4500,
+  // Engines already keep a core busy per request
+  concurrency: 1,
+
+  isConfigured(): boolean {
+    const engine = getEngine();
+    return engine === "espeak-ng" || (engine === "piper" && listPiperModels().length > 0);
+  },
+
+  listVoices(): TtsVoice[] {
+    const engine = getEngine();
+    if (engine === "piper") {
+      return listPiperModels().map(model => ({
+        id: `piper-${model}`,
+        provider: "local",
+        name: piperVoiceName(model),
+        description: "Offline neural voice (Piper)",
+      }));
+    }
+    return ESPEAK_VOICES.map(({ id, name, description }) => ({ id, provider: "local", name, description }));
+  },
+
+  async synthesize({ text, voice, signal }) {
+    const engine = getEngine();
+    if (!engine) {
+      throw new TtsProviderError("Local text-to-speech engine not configured");
+    }
+
+    const workDir = await mkdtemp(path.join(tmpdir(), "tts-"));
+    const outputPath = path.join(workDir, "speech.wav");
+    try {
+      if (engine === "piper") {
+        const model = voice.id.startsWith("piper-") ? voice.id.slice("piper-".length) : listPiperModels()[0];
+        const modelPath = path.join(process.env.PIPER_MODELS_DIR || "", `${model}.onnx`);
+        await runEngine(getCommand(engine), ["--model", modelPath, "--output_file", outputPath], text, signal);
+      } else {
+        const espeakVoice = ESPEAK_VOICES.find(v => v.id === voice.id)?.voice ?? ESPEAK_VOICES[0].voice;
+        await runEngine(
+          getCommand(engine),
+          ["-v", espeakVoice, "-s", String(ESPEAK_WORDS_PER_MINUTE), "-w", outputPath, "--stdin"],
+          text,
+          signal
+        );
+      }
+      return { audio: await readFile(outputPath), format: "wav" };
+    } finally {
+      await rm(workDir, { recursive: true, force: true });
+    }
+  },
+};
+
+/**
+ * Run an engine with the text on stdin; rejects on a non-zero exit, a
+ * missing binary or a timeout
+ */
+function runEngine(command: string, args: string[], input: string, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const child = spawn(command, args, { stdio: ["pipe", "ignore", "pipe"], signal });
+    let stderr = "";
+
+    const timer = setTimeout(() => {
+      child.kill("SIGKILL");
+      reject(new TtsProviderError(`${command} timed out after ${SYNTHESIS_TIMEOUT_MS / 1000}s`));
+    }, SYNTHESIS_TIMEOUT_MS);
+
+    child.stderr.on("data", (data: Buffer) => {
+      stderr += data.toString();
+    });
+    child.on("error", (error: NodeJS.ErrnoException) => {
+      clearTimeout(timer);
+      reject(new TtsProviderError(
+        error.code === "ENOENT" ? `${command} not found; install it or set LOCAL_TTS_COMMAND` : error.message
+      ));
+    });
+    child.on("close", code => {
+      clearTimeout(timer);
+      if (code === 0) {
+        resolve();
+      } else {
+        reject(new TtsProviderError(`${command} exited with code ${code}: ${stderr.trim().slice(0, 500)}`));
+      }
+    });
+
+    // A failed engine may close stdin before reading it all
+    child.stdin.on("error", () => {});
+    child.stdin.end(input);
+  });
+}
@@ -1,5 +1,7 @@
 import { storagePut } from "../storage";
 import { InsightSection } from "./insightGeneration";
+import { renderPremiumPDF } from "./pdfRenderer";
+import { renderVisualHTML, renderVisualMarkdown, renderVisualPlainText } from "./visualMarkup";
 
 export interface PDFExportOptions {
   title: string;
@@ -19,30 +21,28 @@ export interface PDFExportResult {
 
 /**
  * Generate premium-styled PDF from insight content
- * Uses HTML-to-PDF approach for rich styling
+ * Rendered in-process (see pdfRenderer) so no browser service is needed
  */
 export async function generatePremiumPDF(
   options: PDFExportOptions,
   insightId: number
 ): Promise<PDFExportResult> {
-  const html = generatePremiumHTML(options);
-  
-  // For now, we'll store the HTML and let the client render/print
-  // In production, this would use puppeteer or similar for server-side PDF generation
-  const htmlKey = `insights/${insightId}/export-${Date.now()}.html`;
-  const { url: pdfUrl } = await storagePut(htmlKey, Buffer.from(html), "text/html");
-  
+  const { buffer, pageCount } = await renderPremiumPDF(options);
+
+  const pdfKey = `insights/${insightId}/export-${Date.now()}.pdf`;
+  const { url: pdfUrl } = await storagePut(pdfKey, buffer, "application/pdf");
+
   return {
     pdfUrl,
-    pdfKey: htmlKey,
-    pageCount: Math.ceil(options.sections.length / 3),
+    pdfKey,
+    pageCount,
   };
 }
 
 /**
- * Generate premium HTML for PDF export
+ * Generate premium HTML for the HTML export
  */
-function generatePremiumHTML(options: PDFExportOptions): string {
+export function generatePremiumHTML(options: PDFExportOptions): string {
   const { title, author, summary, sections, keyThemes, bookTitle, generatedAt } = options;
   
   const sectionHTML = sections.map(section => renderSection(section)).join("\n");
@@ -425,6 +425,41 @@ function generatePremiumHTML(options: PDFExportOptions): string {
       font-size: 1.05rem;
     }
     
+    /* Visuals */
+    .visual-figure {
+      margin: 32px 0;
+      text-align: center;
+    }
+    
+    .visual-figure svg {
+      max-width: 100%;
+      height: auto;
+    }
+    
+    .visual-figure figcaption {
+      font-size: 0.9rem;
+      color: var(--warm-gray);
+      margin-top: 8px;
+      font-style: italic;
+    }
+    
+    .visual-table {
+      width: 100%;
+      border-collapse: collapse;
+      background: white;
+      text-align: left;
+      font-size: 0.95rem;
+    }
+    
+    .visual-table th, .visual-table td {
+      padding: 10px 14px;
+      border: 1px solid var(--gold-light);
+    }
+    
+    .visual-table thead th {
+      background: var(--cream);
+    }
+    
     /* Section Divider */
     .section-divider {
       text-align: center;
@@ -743,6 +778,7 @@ function renderSection(section: InsightSection): string {
           <ul>${bulletItems}</ul>
         </div>`;
       
+    case "actionBox":
     case "numberedList":
       const numberedItems = section.items?.map(item => `<li>${escapeHtml(item)}</li>`).join("") || "";
       return `
@@ -755,10 +791,7 @@ function renderSection(section: InsightSection): string {
       return `<div class="section-divider">◆ ◆ ◆</div>`;
       
     case "visual":
-      return `
-        <div class="visual-placeholder">
-          <p><em>[Visual: ${section.visualType || "Diagram"}]</em></p>
-        </div>`;
+      return renderVisualHTML(section);
       
     default:
       return `<p class="paragraph">${escapeHtml(section.content || "")}</p>`;
@@ -803,6 +836,22 @@ export async function generateMarkdownExport(
   options: PDFExportOptions,
   insightId: number
 ): Promise<MarkdownExportResult> {
+  const markdown = buildMarkdownExport(options);
+
+  const markdownKey = `insights/${insightId}/export-${Date.now()}.md`;
+  const { url: markdownUrl } = await storagePut(markdownKey, Buffer.from(markdown), "text/markdown");
+  
+  return {
+    markdownUrl,
+    markdownKey,
+    content: markdown,
+  };
+}
+
+/**
+ * Render the single-file Markdown document
+ */
+export function buildMarkdownExport(options: PDFExportOptions): string {
   const { title, author, summary, sections, keyThemes, bookTitle, generatedAt } = options;
   
   let markdown = `# ${title}\n\n`;
@@ -823,14 +872,7 @@ export async function generateMarkdownExport(
   
   markdown += `\n---\n\n*Generated by Insight Atlas*\n`;
   
-  const markdownKey = `insights/${insightId}/export-${Date.now()}.md`;
-  const { url: markdownUrl } = await storagePut(markdownKey, Buffer.from(markdown), "text/markdown");
-  
-  return {
-    markdownUrl,
-    markdownKey,
-    content: markdown,
-  };
+  return markdown;
 }
 
 /**
@@ -892,7 +934,7 @@ export async function generateHTMLExport(
 /**
  * Render a section to Markdown format
  */
-function renderSectionToMarkdown(section: InsightSection): string {
+export function renderSectionToMarkdown(section: InsightSection): string {
   switch (section.type) {
     case "heading":
       return `## ${section.content}\n\n`;
@@ -926,6 +968,7 @@ function renderSectionToMarkdown(section: InsightSection): string {
       const bullets = section.items?.map(item => `- ${item}`).join("\n") || "";
       return `${section.title ? `### ${section.title}\n\n` : ""}${bullets}\n\n`;
       
+    case "actionBox":
     case "numberedList":
       const numbered = section.items?.map((item, i) => `${i + 1}. ${item}`).join("\n") || "";
       return `${section.title ? `### ${section.title}\n\n` : ""}${numbered}\n\n`;
@@ -933,6 +976,9 @@ function renderSectionToMarkdown(section: InsightSection): string {
     case "sectionDivider":
       return `\n---\n\n`;
       
+    case "visual":
+      return renderVisualMarkdown(section);
+      
     default:
       return section.content ? `${section.content}\n\n` : "";
   }
@@ -975,6 +1021,7 @@ function renderSectionToPlainText(section: InsightSection): string {
       const bullets = section.items?.map(item => `  * ${item}`).join("\n") || "";
       return `${section.title ? `${section.title}:\n` : ""}${bullets}\n\n`;
       
+    case "actionBox":
     case "numberedList":
       const numbered = section.items?.map((item, i) => `  ${i + 1}. ${item}`).join("\n") || "";
       return `${section.title ? `${section.title}:\n` : ""}${numbered}\n\n`;
@@ -982,6 +1029,9 @@ function renderSectionToPlainText(section: InsightSection): string {
     case "sectionDivider":
       return `\n${"─".repeat(50)}\n\n`;
       
+    case "visual":
+      return renderVisualPlainText(section);
+      
     default:
       return section.content ? `${section.content}\n\n` : "";
   }
@@ -0,0 +1,514 @@
+/**
+ * Premium PDF Renderer
+ *
+ * Lays out an insight as a real PDF in-process with pdfkit, using the
+ * built-in Times and Helvetica fonts so it needs no browser, network or font
+ * files: cover page, ornate gold page borders, a table of contents with the
+ * actual page numbers (filled in after the body is laid out), callouts,
+ * lists and the visuals drawn by the server-side SVG renderer.
+ */
+
+import PDFDocument from "pdfkit";
+import type { InsightSection } from "./insightGeneration";
+import type { PDFExportOptions } from "./pdfExport";
+import { renderVisualPng } from "./visualImage";
+
+type Doc = InstanceType<typeof PDFDocument>;
+
+const PAGE = { width: 612, height: 792, margin: 72 };
+const CONTENT_WIDTH = PAGE.width - PAGE.margin * 2;
+const TOC_ENTRIES_PER_PAGE = 22;
+
+const COLORS = {
+  gold: "#C9A227",
+  goldLight: "#E8D48A",
+  goldDark: "#8B7355",
+  cream: "#FDF8F0",
+  noteBackground: "#FFF5D6",
+  charcoal: "#2C2C2C",
+  warmGray: "#6B6B6B",
+  white: "#FFFFFF",
+};
+
+const FONTS = {
+  serif: "Times-Roman",
+  serifBold: "Times-Bold",
+  serifItalic: "Times-Italic",
+  sans: "Helvetica",
+  sansBold: "Helvetica-Bold",
+};
+
+const CALLOUT_LABELS: Partial<Record<InsightSection["type"], string>> = {
+  authorSpotlight: "Author Spotlight",
+  insightNote: "Insight Atlas Note",
+  alternativePerspective: "Alternative Perspective",
+  researchInsight: "Research Insight",
+  exercise: "Exercise",
+};
+
+interface TocEntry {
+  title: string;
+  page: number;
+  destination: string;
+}
+
+export interface RenderedPDF {
+  buffer: Buffer;
+  pageCount: number;
+}
+
+/**
+ * Render the premium layout to a PDF buffer and report its page count
+ */
+export async function renderPremiumPDF(options: PDFExportOptions): Promise<RenderedPDF> {
+  const doc = new PDFDocument({
+    size: "LETTER",
+    margin: PAGE.margin,
+    bufferPages: true,
+    autoFirstPage: false,
+    info: {
+      Title: pdfText(options.title),
+      Author: pdfText(options.author || "Insight Atlas"),
+      Creator: "Insight Atlas",
+    },
+  });
+
+  const chunks: Buffer[] = [];
+  doc.on("data", (chunk: Buffer) => chunks.push(chunk));
+  const finished = new Promise<void>((resolve, reject) => {
+    doc.on("end", () => resolve());
+    doc.on("error", reject);
+  });
+
+  doc.on("pageAdded", () => decoratePage(doc));
+
+  renderCover(doc, options);
+
+  // Reserve the contents pages now; they are filled once page numbers are known
+  const headingCount = options.sections.filter(section => section.type === "heading").length + 1;
+  const tocStart = doc.bufferedPageRange().count;
+  const tocPages = Math.ceil(headingCount / TOC_ENTRIES_PER_PAGE);
+  for (let i = 0; i < tocPages; i++) {
+    doc.addPage();
+  }
+
+  const toc: TocEntry[] = [];
+  doc.addPage();
+  renderHeading(doc, "Executive Summary", toc);
+  for (const paragraph of options.summary.split(/\n\s*\n/).filter(Boolean)) {
+    renderParagraph(doc, paragraph);
+  }
+
+  for (const section of options.sections) {
+    renderSection(doc, section, toc);
+  }
+
+  renderTableOfContents(doc, toc, tocStart, tocPages);
+  renderFooters(doc, options.title);
+
+  const pageCount = doc.bufferedPageRange().count;
+  doc.end();
+  await finished;
+
+  return { buffer: Buffer.concat(chunks), pageCount };
+}
+
+// ---------------------------------------------------------------------------
+// Page furniture
+// ---------------------------------------------------------------------------
+
+function decoratePage(doc: Doc): void {
+  doc.save();
+  doc.rect(0, 0, PAGE.width, PAGE.height).fill(COLORS.cream);
+
+  doc.lineWidth(1.5).strokeColor(COLORS.gold).rect(24, 24, PAGE.width - 48, PAGE.height - 48).stroke();
+  doc.lineWidth(0.5).strokeColor(COLORS.goldLight).rect(30, 30, PAGE.width - 60, PAGE.height - 60).stroke();
+
+  for (const [x, y] of [[24, 24], [PAGE.width - 24, 24], [24, PAGE.height - 24], [PAGE.width - 24, PAGE.height - 24]]) {
+    drawDiamond(doc, x, y, 5);
+  }
+  drawDiamond(doc, PAGE.width / 2, 24, 4);
+  drawDiamond(doc, PAGE.width / 2, PAGE.height - 24, 4);
+  doc.restore();
+
+  doc.fillColor(COLORS.charcoal);
+}
+
+function drawDiamond(doc: Doc, x: number, y: number, size: number, color = COLORS.gold): void {
+  doc.polygon([x, y - size], [x + size, y], [x, y + size], [x - size, y]).fill(color);
+}
+
+function drawOrnamentRule(doc: Doc, y: number, width = 160): void {
+  const center = PAGE.width / 2;
+  doc.save();
+  doc.lineWidth(0.75).strokeColor(COLORS.gold);
+  doc.moveTo(center - width / 2, y).lineTo(center - 8, y).stroke();
+  doc.moveTo(center + 8, y).lineTo(center + width / 2, y).stroke();
+  drawDiamond(doc, center, y, 3.5);
+  doc.restore();
+}
+
+function renderCover(doc: Doc, options: PDFExportOptions): void {
+  const { title, author, bookTitle, keyThemes, generatedAt } = options;
+  doc.addPage();
+
+  doc.save();
+  doc.lineWidth(1).strokeColor(COLORS.gold).rect(48, 48, PAGE.width - 96, PAGE.height - 96).stroke();
+  doc.restore();
+
+  doc.font(FONTS.sansBold).fontSize(10).fillColor(COLORS.goldDark)
+    .text("INSIGHT ATLAS", PAGE.margin, 200, { width: CONTENT_WIDTH, align: "center", characterSpacing: 4 });
+  drawOrnamentRule(doc, doc.y + 14);
+
+  doc.font(FONTS.serifBold).fontSize(30).fillColor(COLORS.charcoal)
+    .text(pdfText(title), PAGE.margin, doc.y + 36, { width: CONTENT_WIDTH, align: "center" });
+
+  doc.moveDown(0.8);
+  doc.font(FONTS.serifItalic).fontSize(14).fillColor(COLORS.warmGray)
+    .text(pdfText(`Insights from “${bookTitle}”${author ? ` by ${author}` : ""}`), { width: CONTENT_WIDTH, align: "center" });
+
+  doc.moveDown(0.5);
+  doc.font(FONTS.sans).fontSize(10).fillColor(COLORS.goldDark)
+    .text(generatedAt.toLocaleDateString("en-US", { year: "numeric", month: "long", day: "numeric" }), {
+      width: CONTENT_WIDTH,
+      align: "center",
+    });
+
+  if (keyThemes.length > 0) {
+    drawOrnamentRule(doc, doc.y + 40, 240);
+    doc.font(FONTS.sans).fontSize(9).fillColor(COLORS.warmGray)
+      .text(pdfText(keyThemes.map(theme => theme.toUpperCase()).join("  ·  ")), PAGE.margin + 40, doc.y + 60, {
+        width: CONTENT_WIDTH - 80,
+        align: "center",
+        characterSpacing: 1,
+        lineGap: 4,
+      });
+  }
+}
+
+function renderTableOfContents(doc: Doc, toc: TocEntry[], tocStart: number, tocPages: number): void {
+  for (let page = 0; page < tocPages; page++) {
+    doc.switchToPage(tocStart + page);
+    let y = PAGE.margin;
+
+    if (page === 0) {
+      doc.font(FONTS.serifBold).fontSize(24).fillColor(COLORS.charcoal)
+        .text("Contents", PAGE.margin, y, { width: CONTENT_WIDTH, align: "center" });
+      drawOrnamentRule(doc, doc.y + 12);
+      y = doc.y + 36;
+    }
+
+    for (const entry of toc.slice(page * TOC_ENTRIES_PER_PAGE, (page + 1) * TOC_ENTRIES_PER_PAGE)) {
+      const pageLabel = String(entry.page);
+      doc.font(FONTS.serif).fontSize(12);
+      const numberWidth = doc.widthOfString(pageLabel);
+      const titleWidth = Math.min(doc.widthOfString(pdfText(entry.title)), CONTENT_WIDTH - numberWidth - 40);
+
+      doc.fillColor(COLORS.charcoal).text(pdfText(entry.title), PAGE.margin, y, {
+        width: titleWidth,
+        height: 14,
+        lineBreak: false,
+        ellipsis: true,
+        goTo: entry.destination,
+      });
+      doc.fillColor(COLORS.goldDark).text(pageLabel, PAGE.width - PAGE.margin - numberWidth, y, {
+        lineBreak: false,
+        goTo: entry.destination,
+      });
+
+      doc.save();
+      doc.lineWidth(0.5).strokeColor(COLORS.goldLight).dash(1, { space: 3 })
+        .moveTo(PAGE.margin + titleWidth + 6, y + 10)
+        .lineTo(PAGE.width - PAGE.margin - numberWidth - 6, y + 10)
+        .stroke()
+        .undash();
+      doc.restore();
+
+      y += 24;
+    }
+  }
+}
+
+function renderFooters(doc: Doc, title: string): void {
+  const { start, count } = doc.bufferedPageRange();
+  // Skip the cover
+  for (let i = start + 1; i < start + count; i++) {
+    doc.switchToPage(i);
+    // Writing inside the bottom margin would otherwise start a new page
+    const bottom = doc.page.margins.bottom;
+    doc.page.margins.bottom = 0;
+    doc.font(FONTS.sans).fontSize(8).fillColor(COLORS.warmGray)
+      .text(pdfText(`${title}  ·  ${i + 1}`), PAGE.margin, PAGE.height - 48, {
+        width: CONTENT_WIDTH,
+        align: "center",
+        lineBreak: false,
+      });
+    doc.page.margins.bottom = bottom;
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Sections
+// ---------------------------------------------------------------------------
+
+function renderSection(doc: Doc, section: InsightSection, toc: TocEntry[]): void {
+  doc.x = PAGE.margin;
+
+  switch (section.type) {
+    case "heading":
+      renderHeading(doc, section.content, toc);
+      break;
+
+    case "paragraph":
+      renderParagraph(doc, section.content);
+      break;
+
+    case "quote":
+      renderQuote(doc, section.content, section.title);
+      break;
+
+    case "authorSpotlight":
+    case "insightNote":
+    case "alternativePerspective":
+    case "researchInsight":
+    case "exercise":
+      renderCallout(doc, section.title || CALLOUT_LABELS[section.type]!, section.content);
+      break;
+
+    case "keyTakeaways":
+      renderKeyTakeaways(doc, section.items ?? []);
+      break;
+
+    case "bulletList":
+    case "numberedList":
+    case "actionBox":
+      if (section.title) {
+        renderSubheading(doc, section.title);
+      }
+      renderList(doc, section.items ?? [], section.type !== "bulletList");
+      break;
+
+    case "sectionDivider":
+      ensureSpace(doc, 40);
+      drawOrnamentRule(doc, doc.y + 16, 120);
+      doc.y += 36;
+      break;
+
+    case "visual":
+      renderVisual(doc, section);
+      break;
+
+    default:
+      if (section.content) {
+        renderParagraph(doc, section.content);
+      }
+  }
+}
+
+/**
+ * Start a new page when fewer than `height` points remain on this one
+ */
+function ensureSpace(doc: Doc, height: number): void {
+  if (doc.y + height > PAGE.height - PAGE.margin) {
+    doc.addPage();
+  }
+}
+
+function renderHeading(doc: Doc, text: string, toc: TocEntry[]): void {
+  // Keep headings with at least a few lines of what follows
+  ensureSpace(doc, 120);
+  if (doc.y > PAGE.margin) {
+    doc.y += 18;
+  }
+
+  const destination = `section-${toc.length}`;
+  const { start, count } = doc.bufferedPageRange();
+  toc.push({ title: text, page: start + count, destination });
+
+  doc.font(FONTS.serifBold).fontSize(20).fillColor(COLORS.charcoal)
+    .text(pdfText(text), PAGE.margin, doc.y, { width: CONTENT_WIDTH, destination });
+  drawOrnamentRule(doc, doc.y + 8, CONTENT_WIDTH);
+  doc.y += 22;
+}
+
+function renderSubheading(doc: Doc, text: string): void {
+  ensureSpace(doc, 60);
+  doc.font(FONTS.serifBold).fontSize(13).fillColor(COLORS.goldDark)
+    .text(pdfText(text), PAGE.margin, doc.y, { width: CONTENT_WIDTH });
+  doc.y += 6;
+}
+
+function renderParagraph(doc: Doc, text: string): void {
+  doc.font(FONTS.serif).fontSize(11.5).fillColor(COLORS.charcoal)
+    .text(pdfText(text.trim()), PAGE.margin, doc.y, { width: CONTENT_WIDTH, align: "justify", lineGap: 3 });
+  doc.y += 10;
+}
+
+function renderQuote(doc: Doc, text: string, attribution?: string): void {
+  const width = CONTENT_WIDTH - 40;
+  doc.font(FONTS.serifItalic).fontSize(13);
+  const height = doc.heightOfString(pdfText(text), { width, lineGap: 3 }) + (attribution ? 20 : 0);
+  ensureSpace(doc, Math.min(height, 200) + 16);
+
+  const top = doc.y + 8;
+  const startPage = doc.bufferedPageRange().count;
+  doc.fillColor(COLORS.charcoal).text(pdfText(text), PAGE.margin + 24, top, { width, lineGap: 3 });
+  if (attribution) {
+    doc.font(FONTS.sans).fontSize(9).fillColor(COLORS.goldDark)
+      .text(pdfText(`— ${attribution}`), PAGE.margin + 24, doc.y + 4, { width });
+  }
+
+  // A long quote may have run onto a new page; the bar covers the last part
+  const barTop = doc.bufferedPageRange().count === startPage ? top : PAGE.margin;
+  doc.save();
+  doc.rect(PAGE.margin + 6, barTop, 3, doc.y - barTop).fill(COLORS.gold);
+  doc.restore();
+  doc.x = PAGE.margin;
+  doc.y += 16;
+}
+
+/**
+ * Boxed note with a small-caps label; falls back to unboxed text when the
+ * note is too long to fit on one page
+ */
+function renderCallout(doc: Doc, label: string, text: string): void {
+  const padding = 16;
+  const width = CONTENT_WIDTH - padding * 2 - 4;
+  doc.font(FONTS.serif).fontSize(11.5);
+  const bodyHeight = doc.heightOfString(pdfText(text), { width, lineGap: 3 });
+  const height = bodyHeight + padding * 2 + 18;
+
+  if (height > PAGE.height - PAGE.margin * 2) {
+    renderSubheading(doc, label);
+    renderParagraph(doc, text);
+    return;
+  }
+
+  ensureSpace(doc, height + 12);
+  const top = doc.y + 6;
+  doc.save();
+  doc.roundedRect(PAGE.margin, top, CONTENT_WIDTH, height, 6).fill(COLORS.noteBackground);
+  doc.rect(PAGE.margin, top, 4, height).fill(COLORS.gold);
+  doc.restore();
+
+  doc.font(FONTS.sansBold).fontSize(8.5).fillColor(COLORS.goldDark)
+    .text(pdfText(label.toUpperCase()), PAGE.margin + padding + 4, top + padding, { width, characterSpacing: 1 });
+  doc.font(FONTS.serif).fontSize(11.5).fillColor(COLORS.charcoal)
+    .text(pdfText(text), PAGE.margin + padding + 4, top + padding + 18, { width, lineGap: 3 });
+
+  doc.x = PAGE.margin;
+  doc.y = top + height + 12;
+}
+
+function renderKeyTakeaways(doc: Doc, items: string[]): void {
+  if (items.length === 0) return;
+  const padding = 18;
+  const width = CONTENT_WIDTH - padding * 2 - 16;
+  doc.font(FONTS.serif).fontSize(11.5);
+  const listHeight = items.reduce((sum, item) => sum + doc.heightOfString(pdfText(item), { width, lineGap: 2 }) + 6, 0);
+  const height = listHeight + padding * 2 + 24;
+
+  if (height > PAGE.height - PAGE.margin * 2) {
+    renderSubheading(doc, "Key Takeaways");
+    renderList(doc, items, false);
+    return;
+  }
+
+  ensureSpace(doc, height + 12);
+  const top = doc.y + 6;
+  doc.save();
+  doc.roundedRect(PAGE.margin, top, CONTENT_WIDTH, height, 8).fill(COLORS.goldDark);
+  doc.restore();
+
+  doc.font(FONTS.serifBold).fontSize(14).fillColor(COLORS.white)
+    .text("Key Takeaways", PAGE.margin + padding, top + padding, { width: CONTENT_WIDTH - padding * 2 });
+
+  let y = top + padding + 24;
+  for (const item of items) {
+    drawDiamond(doc, PAGE.margin + padding + 4, y + 6, 3, COLORS.goldLight);
+    doc.font(FONTS.serif).fontSize(11.5).fillColor(COLORS.white)
+      .text(pdfText(item), PAGE.margin + padding + 16, y, { width, lineGap: 2 });
+    y = doc.y + 6;
+  }
+
+  doc.x = PAGE.margin;
+  doc.y = top + height + 12;
+}
+
+function renderList(doc: Doc, items: string[], numbered: boolean): void {
+  const indent = 24;
+  const width = CONTENT_WIDTH - indent;
+  items.forEach((item, index) => {
+    doc.font(FONTS.serif).fontSize(11.5);
+    ensureSpace(doc, doc.heightOfString(pdfText(item), { width, lineGap: 2 }) + 4);
+    const y = doc.y;
+    if (numbered) {
+      doc.fillColor(COLORS.goldDark).text(`${index + 1}.`, PAGE.margin + 4, y, { width: indent - 4, lineBreak: false });
+    } else {
+      drawDiamond(doc, PAGE.margin + 10, y + 6, 2.5);
+    }
+    doc.fillColor(COLORS.charcoal).text(pdfText(item), PAGE.margin + indent, y, { width, lineGap: 2 });
+    doc.y += 4;
+  });
+  doc.x = PAGE.margin;
+  doc.y += 8;
+}
+
+// ---------------------------------------------------------------------------
+// Visuals
+// ---------------------------------------------------------------------------
+
+/**
+ * Embed the visual's SVG drawing (see visualSvg), rasterized, scaled to the
+ * text width and kept on one page
+ */
+function renderVisual(doc: Doc, section: InsightSection): void {
+  const image = renderVisualPng(section.visualType, section.visualData, section.title);
+  if (!image) return;
+
+  const maxHeight = PAGE.height - PAGE.margin * 2;
+  const scale = Math.min(CONTENT_WIDTH / image.width, maxHeight / image.height);
+  const width = image.width * scale;
+  const height = image.height * scale;
+
+  ensureSpace(doc, height + 20);
+  doc.y += 6;
+  doc.image(image.png, PAGE.margin + (CONTENT_WIDTH - width) / 2, doc.y, { width, height });
+  doc.x = PAGE.margin;
+  doc.y += height + 14;
+}
+
+// ---------------------------------------------------------------------------
+// Text
+// ---------------------------------------------------------------------------
+
+// Characters outside Latin-1 that the standard fonts' WinAnsi encoding has
+const WIN_ANSI_EXTRAS = "€‚ƒ„…†‡ˆ‰Š‹ŒŽ‘’“”•–—˜™š›œžŸ";
+
+const TEXT_REPLACEMENTS: Record<string, string> = {
+  "→": "->",
+  "←": "<-",
+  "↔": "<->",
+  "≥": ">=",
+  "≤": "<=",
+  "≈": "~",
+  "─": "-",
+  "−": "-",
+};
+
+/**
+ * Reduce text to what the built-in PDF fonts can draw: common symbols are
+ * spelled out and anything else outside WinAnsi (emoji, CJK...) is dropped
+ */
+export function pdfText(text: string): string {
+  let result = "";
+  for (const char of text.normalize("NFC")) {
+    const code = char.codePointAt(0)!;
+    if (TEXT_REPLACEMENTS[char] !== undefined) {
+      result += TEXT_REPLACEMENTS[char];
+    } else if (code === 10 || (code >= 32 && code < 127) || (code >= 160 && code <= 255) || WIN_ANSI_EXTRAS.includes(char)) {
+      result += char;
+    }
+  }
+  return result;
+}
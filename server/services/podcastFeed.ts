@@ -0,0 +1,163 @@
+/**
+ * Podcast Feed
+ *
+ * Publishes a user's narrated guides as a private RSS 2.0 podcast with
+ * iTunes tags, so they can be followed in any podcast app. The feed URL
+ * carries a per-user secret token (users.feedToken) instead of a session;
+ * rotating the token revokes every copy of the old URL. Each insight is
+ * one episode, served with its primary narration (see primaryAudioAsset).
+ * Chapters are listed inline as Podlove Simple Chapters, alongside the ID3
+ * chapters embedded in the MP3 itself.
+ */
+
+import { randomBytes } from "crypto";
+import * as db from "../db";
+import { safeJsonParse } from "../db";
+import type { AudioAsset, Book, Insight } from "../../drizzle/schema";
+import type { AudioChapter } from "./audioStitching";
+import { primaryAudioAsset } from "./audioAssets";
+
+export interface PodcastChannel {
+  title: string;
+  description: string;
+  /** Absolute URLs of the app, the feed itself and the channel artwork */
+  siteUrl: string;
+  feedUrl: string;
+  imageUrl: string;
+}
+
+export interface PodcastEpisode {
+  insight: Insight;
+  audio: AudioAsset;
+  book?: Book;
+}
+
+const AUDIO_TYPES: Record<string, string> = {
+  mp3: "audio/mpeg",
+  wav: "audio/wav",
+};
+
+/**
+ * Path of a feed, relative to the app's origin
+ */
+export function podcastFeedPath(feedToken: string): string {
+  return `/api/podcast/${feedToken}/feed.xml`;
+}
+
+/**
+ * The user's feed token, created on first use
+ */
+export async function getOrCreateFeedToken(userId: number): Promise<string> {
+  const user = await db.getUserById(userId);
+  if (!user) {
+    throw new Error("User not found");
+  }
+  if (user.feedToken) return user.feedToken;
+  return rotateFeedToken(userId);
+}
+
+/**
+ * Replace the user's feed token, so the previous feed URL stops working
+ */
+export async function rotateFeedToken(userId: number): Promise<string> {
+  const feedToken = randomBytes(24).toString("base64url");
+  await db.setUserFeedToken(userId, feedToken);
+  return feedToken;
+}
+
+/**
+ * Episodes of a user's feed: every insight with narration, newest first
+ */
+export async function getPodcastEpisodes(userId: number): Promise<PodcastEpisode[]> {
+  const [insights, books] = await Promise.all([db.getInsightsByUserId(userId), db.getBooksByUserId(userId)]);
+  const assets = await db.getAudioAssetsByInsightIds(insights.map(insight => insight.id));
+  const booksById = new Map(books.map(book => [book.id, book]));
+  return insights.flatMap(insight => {
+    const audio = primaryAudioAsset(assets.filter(asset => asset.insightId === insight.id));
+    return audio ? [{ insight, audio, book: booksById.get(insight.bookId) }] : [];
+  });
+}
+
+/**
+ * Render the RSS 2.0 document of a feed
+ */
+export function buildPodcastFeed(channel: PodcastChannel, episodes: PodcastEpisode[]): string {
+  const items = episodes.map(episode => buildItem(channel, episode)).join("\n");
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<rss version="2.0" xmlns:itunes="http://www.itunes.com/dtds/podcast-1.0.dtd" xmlns:atom="http://www.w3.org/2005/Atom" xmlns:psc="http://podlove.org/simple-chapters">
+  <channel>
+    <title>${escapeXml(channel.title)}</title>
+    <link>${escapeXml(channel.siteUrl)}</link>
+    <atom:link href="${escapeXml(channel.feedUrl)}" rel="self" type="application/rss+xml"/>
+    <description>${escapeXml(channel.description)}</description>
+    <language>en</language>
+    <itunes:author>Insight Atlas</itunes:author>
+    <itunes:summary>${escapeXml(channel.description)}</itunes:summary>
+    <itunes:image href="${escapeXml(channel.imageUrl)}"/>
+    <itunes:category text="Education"/>
+    <itunes:explicit>false</itunes:explicit>
+    <itunes:type>episodic</itunes:type>
+    <itunes:block>Yes</itunes:block>
+${items}
+  </channel>
+</rss>
+`;
+}
+
+function buildItem(channel: PodcastChannel, { insight, audio, book }: PodcastEpisode): string {
+  // Podcast apps need absolute URLs; storage may hand out paths on this app
+  const absolute = (url: string) => new URL(url, channel.siteUrl).href;
+  const audioUrl = absolute(audio.audioUrl);
+  const extension = new URL(audioUrl).pathname.split(".").pop()?.toLowerCase() ?? "";
+  const summary = insight.summary || `Insight guide to "${book?.title ?? insight.title}"`;
+  const chapters = safeJsonParse<AudioChapter[]>(audio.chapters, []);
+
+  const lines = [
+    `      <title>${escapeXml(insight.title)}</title>`,
+    `      <description>${escapeXml(summary)}</description>`,
+    `      <itunes:summary>${escapeXml(summary)}</itunes:summary>`,
+    `      <link>${escapeXml(absolute(`/insight/${insight.id}`))}</link>`,
+    `      <guid isPermaLink="false">insight-atlas-insight-${insight.id}</guid>`,
+    `      <pubDate>${insight.createdAt.toUTCString()}</pubDate>`,
+    // The audio size is not stored; 0 is the accepted placeholder for an unknown length
+    `      <enclosure url="${escapeXml(audioUrl)}" length="0" type="${AUDIO_TYPES[extension] ?? "audio/mpeg"}"/>`,
+    `      <itunes:episodeType>full</itunes:episodeType>`,
+  ];
+  if (book?.author) {
+    lines.push(`      <itunes:author>${escapeXml(book.author)}</itunes:author>`);
+  }
+  if (audio.durationSeconds) {
+    lines.push(`      <itunes:duration>${audio.durationSeconds}</itunes:duration>`);
+  }
+  if (book?.coverUrl) {
+    lines.push(`      <itunes:image href="${escapeXml(absolute(book.coverUrl))}"/>`);
+  }
+  if (chapters.length > 0) {
+    lines.push(
+      `      <psc:chapters version="1.2">`,
+      ...chapters.map(chapter => `        <psc:chapter start="${formatNormalPlayTime(chapter.startMs)}" title="${escapeXml(chapter.title)}"/>`),
+      `      </psc:chapters>`
+    );
+  }
+
+  return `    <item>\n${lines.join("\n")}\n    </item>`;
+}
+
+// hh:mm:ss.mmm, the time format of Podlove Simple Chapters
+function formatNormalPlayTime(ms: number): string {
+  const pad = (value: number, length: number = 2) => String(value).padStart(length, "0");
+  const hours = Math.floor(ms / 3_600_000);
+  const minutes = Math.floor((ms % 3_600_000) / 60_000);
+  const seconds = Math.floor((ms % 60_000) / 1000);
+  return `${pad(hours)}:${pad(minutes)}:${pad(seconds)}.${pad(Math.round(ms % 1000), 3)}`;
+}
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+}
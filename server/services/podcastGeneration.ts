@@ -0,0 +1,62 @@
+/**
+ * Podcast Narration
+ *
+ * Turns an insight into a two-host conversation: the dialogue is written
+ * from the guide's content blocks (see generatePodcastScript), kept on the
+ * insight so later renders reuse it, and narrated with one voice per host
+ * into a single episode with a chapter per topic.
+ */
+
+import * as db from "../db";
+import { safeJsonParse } from "../db";
+import type { BookAnalysis } from "./stage0BookAnalysis";
+import { generateDialogueNarration, type AudioGenerationResult } from "./audioGeneration";
+import { generatePodcastScript, PODCAST_HOSTS, type InsightSection } from "./premiumInsightPipeline";
+
+/**
+ * Narrate an insight as a podcast episode, writing its dialogue first if
+ * it has none yet. `hostVoiceIds` are the voices of the hosts in
+ * PODCAST_HOSTS order; missing ones take distinct default voices.
+ */
+export async function generatePodcastNarration(
+  insightId: number,
+  hostVoiceIds: (string | undefined)[]
+): Promise<AudioGenerationResult> {
+  const insight = await db.getInsightById(insightId);
+  if (!insight) {
+    throw new Error("Insight not found");
+  }
+
+  let script = insight.podcastScript;
+  if (!script) {
+    const book = await db.getBookById(insight.bookId);
+    const blocks = await db.getContentBlocksByInsightId(insightId);
+    const analysisRecord = await db.getBookAnalysisByBookId(insight.bookId);
+
+    const sections: InsightSection[] = blocks.map(block => ({
+      id: String(block.id),
+      type: block.blockType,
+      title: block.title ?? "",
+      content: block.content ?? "",
+      metadata: safeJsonParse<Record<string, unknown> | undefined>(block.metadata, undefined),
+    }));
+    if (!sections.some(section => section.content)) {
+      throw new Error("Insight has no content to discuss");
+    }
+
+    script = await generatePodcastScript(
+      {
+        bookTitle: book?.title ?? insight.title,
+        bookAuthor: book?.author ?? "Unknown Author",
+        title: insight.title,
+        sections,
+      },
+      analysisRecord ? safeJsonParse<BookAnalysis | null>(analysisRecord.analysis, null) : null
+    );
+    await db.updateInsight(insightId, { podcastScript: script });
+  }
+
+  const result = await generateDialogueNarration(script, PODCAST_HOSTS, hostVoiceIds, insightId, insight.title);
+  console.log(`[Podcast] Narrated ${result.chapters.length} topics for insight ${insightId}`);
+  return result;
+}
@@ -2,6 +2,7 @@
  * Premium Insight Pipeline
  * 
  * Orchestrates the complete multi-stage pipeline:
+ * Chapter Notes: Map-reduce notes over the full book text
  * Stage 0: Book Analysis & Classification
  * Stage 1: Premium Content Generation
  * Gap Analysis: Check all 9 dimensions and fill missing content
@@ -11,13 +12,17 @@
  */
 
 import { analyzeBook, BookAnalysis } from './stage0BookAnalysis';
+import { generateChapterNotes, ChapterNote } from './chapterNotes';
 import { generatePremiumContent, PremiumGuide, PremiumSection } from './stage1ContentGeneration';
 import { generatePremiumContentChunked } from './stage1ChunkedGeneration';
 import { runGapAnalysis, mergeGapFilledContent } from './gapAnalysisService';
+import { validateSectionVisuals } from './visualValidation';
 import { invokeLLM } from '../_core/llm';
-import { generateAudioNarration, isElevenLabsConfigured, AudioGenerationResult } from './elevenLabsService';
+import { generateAudioNarration, isTtsConfigured, type AudioGenerationResult } from './audioGeneration';
 import { debugLog, logGeneration, logLLM, logError, timedOperation } from './debugLogger';
-import { broadcastProgress, notifyComplete, notifyFailed } from '../_core/websocket';
+import { broadcastProgress } from '../_core/websocket';
+import { loadCheckpoint, saveCheckpoint, createChunkCheckpointStore } from './generationCheckpoints';
+import type { PremiumSectionType } from '../../shared/types';
 
 export interface InsightSection {
   id: string;
@@ -36,8 +41,8 @@ export interface GeneratedInsight {
   sections: InsightSection[];
   tableOfContents: Array<{ id: string; title: string; type: string }>;
   audioScript: string;
-  audioUrl?: string;
-  audioDuration?: number;
+  /** Narration of the audio script, when a text-to-speech provider is configured */
+  audio?: AudioGenerationResult;
   wordCount: number;
   bookAnalysis: BookAnalysis;
   gapAnalysisApplied: boolean;
@@ -52,12 +57,15 @@ export async function generatePremiumInsight(
   bookAuthor: string | null,
   bookText: string,
   insightId?: number,
-  updateProgress?: (stage: string, progress: number) => Promise<void>
+  updateProgress?: (stage: string, progress: number) => Promise<void>,
+  signal?: AbortSignal
 ): Promise<GeneratedInsight> {
   logGeneration('=== PREMIUM PIPELINE START ===', { bookTitle, bookAuthor, textLength: bookText.length });
 
   // Helper to broadcast via WebSocket and callback
   const broadcastUpdate = async (percent: number, step: string, sectionCount?: number, wordCount?: number) => {
+    // Stop between stages as soon as the generation is cancelled
+    signal?.throwIfAborted();
     if (insightId) {
       await broadcastProgress({
         insightId,
@@ -74,15 +82,44 @@ export async function generatePremiumInsight(
   };
 
   try {
+  logGeneration('Starting chapter notes (map-reduce over full text)...');
+  await broadcastUpdate(2, 'Reading every chapter');
+
+  // Chapter notes: cover the whole book, not just its opening
+  let chapterNotes = insightId ? await loadCheckpoint<ChapterNote[]>(insightId, 'chapterNotes') : null;
+  let notesFellBack = false;
+  if (!chapterNotes) {
+    chapterNotes = await timedOperation('generation', 'Chapter Notes', async () => {
+      return generateChapterNotes(bookTitle, bookText, signal, async (completed, total) => {
+        // Notes cover 2-15% of overall progress
+        await broadcastUpdate(2 + Math.round((completed / total) * 13), `Reading chapter ${completed} of ${total}`);
+      });
+    }, { bookTitle });
+    // Notes with excerpts for failed segments are not kept, so a resume retries them
+    notesFellBack = chapterNotes.some(note => note.fallback);
+    if (insightId && !notesFellBack) {
+      await saveCheckpoint(insightId, 'chapterNotes', chapterNotes);
+    }
+  }
+
   logGeneration('Starting Stage 0: Book Analysis...');
 
-  // Update progress: Starting analysis (5%)
-  await broadcastUpdate(5, 'Analyzing book structure and themes');
+  // Update progress: Starting analysis (15%)
+  await broadcastUpdate(15, 'Analyzing book structure and themes');
   
   // Stage 0: Analyze the book
-  const analysis = await timedOperation('generation', 'Stage 0: Book Analysis', async () => {
-    return analyzeBook(bookTitle, bookAuthor || 'Unknown Author', bookText);
-  }, { bookTitle });
+  let analysis = insightId ? await loadCheckpoint<BookAnalysis>(insightId, 'analysis') : null;
+  if (!analysis) {
+    analysis = await timedOperation('generation', 'Stage 0: Book Analysis', async () => {
+      return analyzeBook(bookTitle, bookAuthor || 'Unknown Author', bookText, signal, chapterNotes);
+    }, { bookTitle });
+    // A placeholder analysis is used for this run only, so a resume retries the stage
+    if (insightId && !analysis.fallback && !notesFellBack) {
+      await saveCheckpoint(insightId, 'analysis', analysis);
+    }
+  }
+  // Later stages built on a placeholder analysis or excerpt notes are not kept either
+  const keepCheckpoints = !!insightId && !analysis.fallback && !notesFellBack;
   
   logGeneration('Stage 0 complete', { 
     coreConcepts: analysis.coreConcepts.length,
@@ -97,7 +134,13 @@ export async function generatePremiumInsight(
 
   // Stage 1: Generate premium content in chunks to meet 9-12k word requirement
   const guide = await timedOperation('generation', 'Stage 1: Premium Content (Chunked)', async () => {
-    return generatePremiumContentChunked(analysis, bookText);
+    return generatePremiumContentChunked(
+      analysis,
+      bookText,
+      signal,
+      insightId && keepCheckpoints ? createChunkCheckpointStore(insightId) : undefined,
+      chapterNotes
+    );
   }, { bookTitle });
   
   logGeneration('Stage 1 complete', { 
@@ -112,94 +155,16 @@ export async function generatePremiumInsight(
   // Gap Analysis: Check all 9 dimensions and fill missing content
   logGeneration('Starting Gap Analysis & Content Completion...');
   await broadcastUpdate(70, 'Running gap analysis');
-  let finalSections = guide.sections;
-  let gapAnalysisApplied = false;
-  let completenessScore = 100;
-
-  try {
-    // Convert sections to a readable format for gap analysis
-    const guideContent = guide.sections.map(s => {
-      let sectionText = `## ${s.title}\n\n${s.content}`;
-      if (s.metadata?.actionSteps) {
-        sectionText += `\n\nAction Steps:\n${(s.metadata.actionSteps as string[]).join('\n')}`;
-      }
-      return sectionText;
-    }).join('\n\n---\n\n');
-
-    // Run gap analysis
-    const gapResult = await runGapAnalysis(
-      guideContent,
-      bookTitle,
-      bookAuthor || 'Unknown',
-      bookText.slice(0, 20000) // First 20k chars as excerpts
-    );
-
-    logGeneration('Gap Analysis complete', { 
-      gapsFound: gapResult.gapsFound.length, 
-      gaps: gapResult.gapsFound,
-      completenessScore: gapResult.completenessScore,
-      generatedContent: gapResult.generatedContent.length
-    });
-
-    if (gapResult.generatedContent.length > 0) {
-      // Convert gap-filled content to PremiumSection format
-      const gapFilledSections = gapResult.generatedContent.map((gc, idx) => ({
-        id: `gap-${idx + 1}`,
-        type: gc.type as PremiumSection['type'],
-        title: gc.title,
-        content: gc.content,
-        visualType: gc.visualType,
-        visualData: gc.visualData,
-        metadata: gc.metadata
-      })) as PremiumSection[];
-
-      // Merge gap-filled content with original sections
-      const mergedSections = mergeGapFilledContent(
-        guide.sections.map(s => ({
-          type: s.type,
-          title: s.title,
-          content: s.content,
-          visualType: s.visualType,
-          visualData: s.visualData,
-          metadata: s.metadata
-        })),
-        gapFilledSections.map(s => ({
-          type: s.type,
-          title: s.title,
-          content: s.content,
-          visualType: s.visualType,
-          visualData: s.visualData,
-          metadata: s.metadata
-        }))
-      );
-
-      // Convert back to InsightSection format with IDs
-      finalSections = mergedSections.map((s, idx) => ({
-        id: `section-${idx + 1}`,
-        type: s.type as PremiumSection['type'],
-        title: s.title,
-        content: s.content,
-        visualType: s.visualType,
-        visualData: s.visualData,
-        metadata: s.metadata
-      })) as PremiumSection[];
-
-      gapAnalysisApplied = true;
-      completenessScore = gapResult.completenessScore;
-      logGeneration('Gap Analysis applied', { totalSections: finalSections.length });
-    } else {
-      // No gaps found, use original sections
-      finalSections = guide.sections;
-      completenessScore = gapResult.completenessScore;
-      logGeneration('No gaps found - content is complete', { completenessScore });
+  let gapStage = insightId ? await loadCheckpoint<GapStageResult>(insightId, 'gapAnalysis') : null;
+  if (!gapStage) {
+    gapStage = await runGapAnalysisStage(guide, bookTitle, bookAuthor, bookText, signal);
+    const { sections: validatedSections } = await validateSectionVisuals(gapStage.sections, signal);
+    gapStage = { ...gapStage, sections: validatedSections };
+    if (insightId && keepCheckpoints && !gapStage.fallback) {
+      await saveCheckpoint(insightId, 'gapAnalysis', gapStage);
     }
-  } catch (gapError) {
-    logError('generation', 'Gap Analysis failed, using Stage 1 output', {
-      error: gapError instanceof Error ? gapError.message : String(gapError),
-      stack: gapError instanceof Error ? gapError.stack : undefined
-    });
-    finalSections = guide.sections;
   }
+  const { sections: finalSections, gapAnalysisApplied, completenessScore } = gapStage;
 
   await broadcastUpdate(80, 'Gap analysis complete', finalSections.length, 0);
 
@@ -229,35 +194,39 @@ export async function generatePremiumInsight(
   // Generate audio script from the content (using built-in LLM for formatting)
   logGeneration('Generating audio script...');
   await broadcastUpdate(85, 'Generating audio script', finalSections.length, totalWordCount);
-  const audioScript = await generateAudioScript(
-    { ...guide, sections: finalSections },
-    analysis
-  );
+  let audioScript = insightId ? await loadCheckpoint<string>(insightId, 'audioScript') : null;
+  if (!audioScript) {
+    const generated = await generateAudioScript(
+      { ...guide, sections: finalSections },
+      analysis,
+      signal
+    );
+    audioScript = generated.script;
+    if (insightId && keepCheckpoints && !generated.fallback) {
+      await saveCheckpoint(insightId, 'audioScript', audioScript);
+    }
+  }
 
-  // Generate audio narration using ElevenLabs if configured
-  let audioUrl: string | undefined;
-  let audioDuration: number | undefined;
+  // Generate audio narration if a text-to-speech provider is configured
+  let audio: AudioGenerationResult | undefined;
 
-  if (isElevenLabsConfigured() && audioScript.length > 100) {
-    logGeneration('Generating audio narration with ElevenLabs...', { scriptLength: audioScript.length });
+  if (insightId && isTtsConfigured() && audioScript.length > 100) {
+    logGeneration('Generating audio narration...', { scriptLength: audioScript.length });
     await broadcastUpdate(90, 'Generating audio narration', finalSections.length, totalWordCount);
     try {
-      // Use a unique ID for the audio file (based on book title hash)
-      const bookId = Buffer.from(bookTitle).toString('base64').slice(0, 12).replace(/[^a-zA-Z0-9]/g, '');
-      const audioResult = await generateAudioNarration(audioScript, bookId);
-      if (audioResult) {
-        audioUrl = audioResult.audioUrl;
-        audioDuration = audioResult.durationEstimate;
-        logGeneration('Audio generated', { audioUrl, audioDuration });
-      }
+      audio = await generateAudioNarration(audioScript, undefined, insightId, guide.title, signal);
+      logGeneration('Audio generated', { audioUrl: audio.audioUrl, audioDuration: audio.duration, provider: audio.provider });
     } catch (audioError) {
-      logError('audio', 'ElevenLabs audio generation failed', { 
+      if (signal?.aborted) {
+        throw audioError;
+      }
+      logError('audio', 'Audio narration failed', { 
         error: audioError instanceof Error ? audioError.message : String(audioError)
       });
     }
   } else {
     logGeneration('Skipping audio generation', { 
-      elevenLabsConfigured: isElevenLabsConfigured(), 
+      ttsConfigured: isTtsConfigured(), 
       scriptLength: audioScript.length 
     });
   }
@@ -267,7 +236,7 @@ export async function generatePremiumInsight(
     totalWordCount, 
     gapAnalysisApplied,
     completenessScore,
-    hasAudio: !!audioUrl
+    hasAudio: !!audio
   });
   
   // Update progress: Finalizing (95%)
@@ -291,26 +260,17 @@ export async function generatePremiumInsight(
     sections: sanitizedSections,
     tableOfContents: sanitizedTableOfContents,
     audioScript: sanitizeText(audioScript),
-    audioUrl,
-    audioDuration,
+    audio,
     wordCount: totalWordCount,
     bookAnalysis: analysis,
     gapAnalysisApplied,
     completenessScore
   };
 
-  // Notify WebSocket clients of completion
-  if (insightId) {
-    await notifyComplete(insightId, {
-      wordCount: totalWordCount,
-      sectionCount: finalSections.length,
-      hasAudio: !!audioUrl
-    });
-  }
-
+  // Completion/failure notifications are sent by the caller once the
+  // result has been persisted (see insightGenerationJob)
   return result;
   } catch (error) {
-    // Notify WebSocket clients of failure
     const errorMessage = error instanceof Error ? error.message : String(error);
     logError('generation', 'Premium pipeline failed', {
       error: errorMessage,
@@ -318,42 +278,139 @@ export async function generatePremiumInsight(
       bookTitle
     });
 
-    if (insightId) {
-      await notifyFailed(insightId, errorMessage);
-    }
-
     throw error;
   }
 }
 
+interface GapStageResult {
+  sections: PremiumSection[];
+  gapAnalysisApplied: boolean;
+  completenessScore: number;
+  /** The gap analysis failed and the Stage 1 sections pass through unchecked */
+  fallback?: boolean;
+}
+
 /**
- * Generate an engaging audio script from the premium guide
+ * Run gap analysis over the Stage 1 guide and merge in any generated content.
+ * Falls back to the Stage 1 sections if gap analysis fails.
  */
-async function generateAudioScript(
-  guide: { bookTitle: string; bookAuthor: string; title: string; sections: InsightSection[] },
-  analysis: BookAnalysis
-): Promise<string> {
-  // Build content summary for audio
-  const contentParts: string[] = [];
-  
-  for (const section of guide.sections) {
-    if (section.type === 'quickGlance') {
-      contentParts.push(`Quick Summary: ${section.content.substring(0, 500)}`);
-    } else if (section.type === 'foundationalNarrative') {
-      contentParts.push(`Origin Story: ${section.content.substring(0, 500)}`);
-    } else if (section.type === 'conceptExplanation') {
-      contentParts.push(`Key Concept - ${section.title}: ${section.content.substring(0, 300)}`);
-    } else if (section.type === 'actionBox' && section.metadata?.actionSteps) {
-      const steps = section.metadata.actionSteps as string[];
-      contentParts.push(`Action Steps for ${section.title}: ${steps.slice(0, 3).join('. ')}`);
-    } else if (section.type === 'practicalExample') {
-      contentParts.push(`Example - ${section.title}: ${section.content.substring(0, 200)}`);
-    } else if (section.type === 'insightAtlasNote') {
-      contentParts.push(`Insight Note - ${section.title}: ${section.content.substring(0, 200)}`);
+async function runGapAnalysisStage(
+  guide: PremiumGuide,
+  bookTitle: string,
+  bookAuthor: string | null,
+  bookText: string,
+  signal?: AbortSignal
+): Promise<GapStageResult> {
+  let finalSections = guide.sections;
+  let gapAnalysisApplied = false;
+  let completenessScore = 100;
+  let fallback = false;
+
+  try {
+    // Convert sections to a readable format for gap analysis
+    const guideContent = guide.sections.map(s => {
+      let sectionText = `## ${s.title}\n\n${s.content}`;
+      if (s.metadata?.actionSteps) {
+        sectionText += `\n\nAction Steps:\n${(s.metadata.actionSteps as string[]).join('\n')}`;
+      }
+      return sectionText;
+    }).join('\n\n---\n\n');
+
+    // Run gap analysis
+    const gapResult = await runGapAnalysis(
+      guideContent,
+      bookTitle,
+      bookAuthor || 'Unknown',
+      bookText.slice(0, 20000), // First 20k chars as excerpts
+      signal
+    );
+    fallback = !!gapResult.fallback;
+
+    logGeneration('Gap Analysis complete', { 
+      gapsFound: gapResult.gapsFound.length, 
+      gaps: gapResult.gapsFound,
+      completenessScore: gapResult.completenessScore,
+      generatedContent: gapResult.generatedContent.length
+    });
+
+    if (gapResult.generatedContent.length > 0) {
+      // Convert gap-filled content to PremiumSection format
+      const gapFilledSections = gapResult.generatedContent.map((gc, idx) => ({
+        id: `gap-${idx + 1}`,
+        type: gc.type as PremiumSection['type'],
+        title: gc.title,
+        content: gc.content,
+        visualType: gc.visualType,
+        visualData: gc.visualData,
+        metadata: gc.metadata
+      })) as PremiumSection[];
+
+      // Merge gap-filled content with original sections
+      const mergedSections = mergeGapFilledContent(
+        guide.sections.map(s => ({
+          type: s.type,
+          title: s.title,
+          content: s.content,
+          visualType: s.visualType,
+          visualData: s.visualData,
+          metadata: s.metadata
+        })),
+        gapFilledSections.map(s => ({
+          type: s.type,
+          title: s.title,
+          content: s.content,
+          visualType: s.visualType,
+          visualData: s.visualData,
+          metadata: s.metadata
+        }))
+      );
+
+      // Convert back to InsightSection format with IDs
+      finalSections = mergedSections.map((s, idx) => ({
+        id: `section-${idx + 1}`,
+        type: s.type as PremiumSection['type'],
+        title: s.title,
+        content: s.content,
+        visualType: s.visualType,
+        visualData: s.visualData,
+        metadata: s.metadata
+      })) as PremiumSection[];
+
+      gapAnalysisApplied = true;
+      completenessScore = gapResult.completenessScore;
+      logGeneration('Gap Analysis applied', { totalSections: finalSections.length });
+    } else {
+      // No gaps found, use original sections
+      finalSections = guide.sections;
+      completenessScore = gapResult.completenessScore;
+      logGeneration('No gaps found - content is complete', { completenessScore });
+    }
+  } catch (gapError) {
+    if (signal?.aborted) {
+      throw gapError;
     }
+    logError('generation', 'Gap Analysis failed, using Stage 1 output', {
+      error: gapError instanceof Error ? gapError.message : String(gapError),
+      stack: gapError instanceof Error ? gapError.stack : undefined
+    });
+    finalSections = guide.sections;
+    fallback = true;
   }
 
-  const contentSummary = contentParts.slice(0, 10).join('\n\n'); // Limit to first 10 parts
+  return { sections: finalSections, gapAnalysisApplied, completenessScore, fallback };
+}
+
+/**
+ * Generate an engaging audio script from the premium guide; `fallback` is
+ * set when generation failed and a generic welcome stands in for it
+ */
+async function generateAudioScript(
+  guide: { bookTitle: string; bookAuthor: string; title: string; sections: InsightSection[] },
+  analysis: BookAnalysis,
+  signal?: AbortSignal
+): Promise<{ script: string; fallback: boolean }> {
+  const fallbackScript = `Welcome to your Insight Atlas guide for "${guide.bookTitle}" by ${guide.bookAuthor}. This comprehensive analysis reveals the key insights and practical wisdom from this transformative work.`;
+  const contentSummary = buildAudioContentSummary(guide.sections);
 
   try {
     const response = await invokeLLM({
@@ -390,18 +447,186 @@ Cross-References:
 
 Generate a compelling audio narration that brings these insights to life.`
         }
-      ]
+      ],
+      signal,
     });
 
     const content = response.choices[0]?.message?.content;
     if (typeof content === 'string') {
-      return content;
+      return { script: content, fallback: false };
     }
-    return `Welcome to your Insight Atlas guide for "${guide.bookTitle}" by ${guide.bookAuthor}. This comprehensive analysis reveals the key insights and practical wisdom from this transformative work.`;
+    return { script: fallbackScript, fallback: true };
   } catch (error) {
+    if (signal?.aborted) {
+      throw error;
+    }
     console.error('Audio script generation error:', error);
-    return `Welcome to your Insight Atlas guide for "${guide.bookTitle}" by ${guide.bookAuthor}. This comprehensive analysis reveals the key insights and practical wisdom from this transformative work.`;
+    return { script: fallbackScript, fallback: true };
+  }
+}
+
+/**
+ * Contrasts the podcast hosts can argue over: how the framework of each
+ * Insight Atlas Note differs from the one it references, else the note itself
+ */
+export function selectPodcastPerspectives(sections: InsightSection[]): string[] {
+  const noteType: PremiumSectionType = 'insightAtlasNote';
+  return sections.flatMap(section => {
+    if (section.type !== noteType) return [];
+    const distinction = section.metadata?.keyDistinction;
+    const text = typeof distinction === 'string' && distinction.trim() ? distinction : section.content;
+    return text.trim() ? [`${section.title}: ${text.substring(0, 400)}`] : [];
+  }).slice(0, 5);
+}
+
+/** Speaker labels of the podcast script, in voice order */
+export const PODCAST_HOSTS = ['Alex', 'Sam'] as const;
+
+/**
+ * Generate a two-host podcast conversation about the guide: the hosts walk
+ * through the core concepts and take opposing sides on the alternative
+ * perspectives. Topics start with "## " headings and every turn is a line
+ * starting with the host's name, e.g. "Alex: ...".
+ */
+export async function generatePodcastScript(
+  guide: { bookTitle: string; bookAuthor: string; title: string; sections: InsightSection[] },
+  analysis: BookAnalysis | null,
+  signal?: AbortSignal
+): Promise<string> {
+  // Guides from the legacy pipeline have no premium sections to summarize
+  const contentSummary = buildAudioContentSummary(guide.sections) || guide.sections
+    .filter(section => section.content)
+    .slice(0, 10)
+    .map(section => `${section.title ? `${section.title}: ` : ''}${section.content.substring(0, 300)}`)
+    .join('\n\n');
+  const [hostA, hostB] = PODCAST_HOSTS;
+
+  const perspectives = selectPodcastPerspectives(guide.sections);
+
+  const themes = analysis?.coreConcepts.map(c => c.conceptName) ?? [];
+
+  const response = await invokeLLM({
+    messages: [
+      {
+        role: 'system',
+        content: `You write scripts for a two-host book podcast. ${hostA} is enthusiastic about the book and champions its ideas; ${hostB} is a thoughtful skeptic who probes the limits of its claims.
+Your script should:
+- Sound like a natural, unscripted conversation: short turns, reactions, follow-up questions
+- Explain each core concept clearly, with a concrete example
+- Have the hosts genuinely disagree on the alternative perspectives, each defending a side, before finding common ground or agreeing to differ
+- Be 8-12 minutes when read at normal pace (approximately 1,200-1,800 words)
+- Open with a hook and close with each host's single biggest takeaway
+
+Format rules:
+- Start each topic with a Markdown heading line, e.g. "## The Habit Loop"
+- Every spoken line starts with the speaker's name and a colon: "${hostA}:" or "${hostB}:"
+- No stage directions, sound effects or descriptions of visuals`
+      },
+      {
+        role: 'user',
+        content: `Write the podcast episode for this insight guide:
+
+Book: "${guide.bookTitle}" by ${guide.bookAuthor}
+Guide Title: ${guide.title}
+${themes.length > 0 ? `\nKey Themes: ${themes.join(', ')}\n` : ''}
+Content Summary:
+${contentSummary}
+
+Alternative Perspectives:
+${perspectives.length > 0 ? perspectives.join('\n') : 'None given - have the skeptic raise the strongest critiques of the book.'}`
+      }
+    ],
+    signal,
+  });
+
+  const content = response.choices[0]?.message?.content;
+  if (typeof content !== 'string' || !content.trim()) {
+    throw new Error('Podcast script generation returned no content');
+  }
+  return content;
+}
+
+/**
+ * Generate a narration script condensing the guide to about `targetWords`
+ * words. Topics start with "## " headings, which become chapters, and the
+ * last topic is the closing takeaway.
+ */
+export async function generateCondensedScript(
+  guide: { bookTitle: string; bookAuthor: string; title: string; sections: InsightSection[] },
+  analysis: BookAnalysis | null,
+  targetWords: number,
+  signal?: AbortSignal
+): Promise<string> {
+  // Longer narrations get more of each section to draw on
+  const sourceSections = guide.sections.filter(section => section.content);
+  const charsPerSection = Math.max(200, Math.floor(Math.min(targetWords * 20, 24000) / Math.max(sourceSections.length, 1)));
+  const contentSummary = sourceSections
+    .map(section => `${section.title ? `${section.title}: ` : ''}${section.content.substring(0, charsPerSection)}`)
+    .join('\n\n');
+  const themes = analysis?.coreConcepts.map(c => c.conceptName) ?? [];
+  const topicCount = Math.max(2, Math.min(8, Math.round(targetWords / 200)));
+
+  const response = await invokeLLM({
+    messages: [
+      {
+        role: 'system',
+        content: `You are a skilled narrator condensing a book insight guide into an audio summary of a fixed length.
+Your narration should:
+- Sound natural and conversational when read aloud
+- Be ${targetWords} words long, no more: it is timed to play in a fixed slot
+- Keep only the ideas that matter most at this length, explained with a concrete example where there is room
+- Not describe charts, diagrams, or visual elements
+
+Format rules:
+- About ${topicCount} topics, each starting with a Markdown heading line, e.g. "## The Habit Loop"
+- The last topic is the single most important takeaway
+- No stage directions or sound effects`
+      },
+      {
+        role: 'user',
+        content: `Condense this insight guide into a ${targetWords}-word narration:
+
+Book: "${guide.bookTitle}" by ${guide.bookAuthor}
+Guide Title: ${guide.title}
+${themes.length > 0 ? `\nKey Themes: ${themes.join(', ')}\n` : ''}
+Guide Content:
+${contentSummary}`
+      }
+    ],
+    signal,
+  });
+
+  const content = response.choices[0]?.message?.content;
+  if (typeof content !== 'string' || !content.trim()) {
+    throw new Error('Condensed script generation returned no content');
   }
+  return content;
+}
+
+/**
+ * The guide content an audio script is written from
+ */
+function buildAudioContentSummary(sections: InsightSection[]): string {
+  const contentParts: string[] = [];
+  
+  for (const section of sections) {
+    if (section.type === 'quickGlance') {
+      contentParts.push(`Quick Summary: ${section.content.substring(0, 500)}`);
+    } else if (section.type === 'foundationalNarrative') {
+      contentParts.push(`Origin Story: ${section.content.substring(0, 500)}`);
+    } else if (section.type === 'conceptExplanation') {
+      contentParts.push(`Key Concept - ${section.title}: ${section.content.substring(0, 300)}`);
+    } else if (section.type === 'actionBox' && section.metadata?.actionSteps) {
+      const steps = section.metadata.actionSteps as string[];
+      contentParts.push(`Action Steps for ${section.title}: ${steps.slice(0, 3).join('. ')}`);
+    } else if (section.type === 'practicalExample') {
+      contentParts.push(`Example - ${section.title}: ${section.content.substring(0, 200)}`);
+    } else if (section.type === 'insightAtlasNote') {
+      contentParts.push(`Insight Note - ${section.title}: ${section.content.substring(0, 200)}`);
+    }
+  }
+
+  return contentParts.slice(0, 10).join('\n\n'); // Limit to first 10 parts
 }
 
 /**
@@ -0,0 +1,271 @@
+/**
+ * Read-Along Narration
+ *
+ * Narrates the guide itself, block by block, so the reader can highlight
+ * the sentence and word being spoken. Each titled block starts a chapter;
+ * its sentences are packed into synthesis chunks and timed from, in order
+ * of preference:
+ * 1. Character timings returned by the TTS provider
+ * 2. Whisper segments from transcribing the stitched audio
+ * 3. An estimate spreading each chunk's exact duration over its characters
+ *
+ * Timings are stored per content block (`content_blocks.audioTimings`).
+ */
+
+import * as db from "../db";
+import { safeJsonParse } from "../db";
+import type { ContentBlock } from "../../drizzle/schema";
+import type { BlockAudioTiming, SentenceTiming } from "../../shared/types";
+import { ENV } from "../_core/env";
+import { transcribeAudio, type WhisperSegment } from "../_core/voiceTranscription";
+import { narrateSections, type AudioGenerationResult, type NarratedChunk } from "./audioGeneration";
+import { stripMarkdown } from "./contentBlockSections";
+
+export type TimingSource = "provider" | "transcription" | "estimate";
+
+export interface ReadAlongSentence {
+  blockId: number;
+  text: string;
+}
+
+export interface ReadAlongChapter {
+  title: string;
+  sentences: ReadAlongSentence[];
+}
+
+export interface ReadAlongResult extends AudioGenerationResult {
+  timingSource: TimingSource;
+}
+
+// Block types that carry no readable prose
+const SILENT_BLOCK_TYPES = new Set(["visual", "table", "divider"]);
+
+/**
+ * Narrate an insight's content blocks and store read-along timings on them
+ */
+export async function generateReadAlongNarration(
+  insightId: number,
+  voiceId: string | undefined,
+  title?: string
+): Promise<ReadAlongResult> {
+  const blocks = await db.getContentBlocksByInsightId(insightId);
+  const chapters = readAlongChapters(blocks);
+  if (chapters.length === 0) {
+    throw new Error("Insight has no content to narrate");
+  }
+
+  const chunkSentences: ReadAlongSentence[][] = [];
+  const { chunks, ...result } = await narrateSections(
+    maxChars => chapters.map(chapter => {
+      const packed = packSentences(chapter.sentences, maxChars);
+      chunkSentences.push(...packed);
+      return { title: chapter.title, chunks: packed.map(chunkText) };
+    }),
+    voiceId,
+    insightId,
+    { title, withAlignment: true }
+  );
+
+  let timingSource: TimingSource = chunks.every(chunk => chunk.alignment) ? "provider" : "estimate";
+  let transcriptWordTimes: number[] | undefined;
+  if (timingSource === "estimate" && ENV.forgeApiUrl && ENV.forgeApiKey) {
+    const transcription = await transcribeAudio({ audioUrl: result.audioUrl, language: "en" });
+    if ("segments" in transcription && transcription.segments.length > 0) {
+      transcriptWordTimes = wordTimesFromSegments(transcription.segments);
+      timingSource = "transcription";
+    } else if ("error" in transcription) {
+      console.warn("[Read Along] Transcription failed, estimating timings:", transcription.error);
+    }
+  }
+
+  const timings = computeBlockTimings(chunkSentences, chunks, transcriptWordTimes);
+  await db.clearContentBlockAudioTimings(insightId);
+  for (const [blockId, timing] of Array.from(timings)) {
+    await db.updateContentBlock(blockId, { audioTimings: JSON.stringify(timing) });
+  }
+
+  console.log(`[Read Along] Timed ${timings.size} blocks for insight ${insightId} (${timingSource})`);
+  return { ...result, timingSource };
+}
+
+/**
+ * Group the readable sentences of content blocks into chapters; a block
+ * with a title (or a heading) starts a new chapter
+ */
+export function readAlongChapters(blocks: ContentBlock[]): ReadAlongChapter[] {
+  const chapters: ReadAlongChapter[] = [];
+
+  for (const block of blocks) {
+    if (SILENT_BLOCK_TYPES.has(block.blockType) && !block.title) continue;
+
+    const heading = block.blockType === "heading" ? block.content : block.title;
+    const texts = [heading, ...(SILENT_BLOCK_TYPES.has(block.blockType) || block.blockType === "heading" ? [] : blockProse(block))];
+    const sentences = texts
+      .flatMap(text => splitSentences(speakableText(text ?? "")))
+      .map(text => ({ blockId: block.id, text }));
+    if (sentences.length === 0) continue;
+
+    if (heading || chapters.length === 0) {
+      chapters.push({ title: heading ? stripMarkdown(heading).replace(/\s+/g, " ").trim() : "Introduction", sentences });
+    } else {
+      chapters[chapters.length - 1].sentences.push(...sentences);
+    }
+  }
+
+  return chapters;
+}
+
+/**
+ * Sentences of a passage; very long sentences are split on whitespace so
+ * a single request can still hold them
+ */
+export function splitSentences(text: string, maxChars: number = 1000): string[] {
+  const sentences = text.match(/[^.!?]+(?:[.!?]+["')\]]*|$)/g) ?? [];
+  return sentences
+    .map(sentence => sentence.replace(/\s+/g, " ").trim())
+    .filter(Boolean)
+    .flatMap(sentence => {
+      if (sentence.length <= maxChars) return [sentence];
+      const parts: string[] = [];
+      let rest = sentence;
+      while (rest.length > maxChars) {
+        const cut = rest.lastIndexOf(" ", maxChars);
+        const at = cut > 0 ? cut : maxChars;
+        parts.push(rest.slice(0, at).trim());
+        rest = rest.slice(at).trim();
+      }
+      if (rest) parts.push(rest);
+      return parts;
+    });
+}
+
+/**
+ * Place every sentence and word on the audio timeline and group them by
+ * content block. `chunkSentences[i]` are the sentences of `chunks[i]`.
+ */
+export function computeBlockTimings(
+  chunkSentences: ReadAlongSentence[][],
+  chunks: NarratedChunk[],
+  transcriptWordTimes?: number[]
+): Map<number, BlockAudioTiming> {
+  const totalWords = chunkSentences.flat().reduce((total, sentence) => total + wordOffsets(sentence.text).length, 0);
+  const timings = new Map<number, BlockAudioTiming>();
+  let wordIndex = 0;
+
+  chunkSentences.forEach((sentences, i) => {
+    const chunk = chunks[i];
+    const chunkEnd = chunk.startMs + chunk.durationMs;
+
+    const timeAt = (charOffset: number, globalWord: number): number => {
+      const aligned = chunk.alignment?.charStartMs[charOffset];
+      if (aligned !== undefined) return chunk.startMs + aligned;
+      if (transcriptWordTimes && transcriptWordTimes.length > 0) {
+        return transcriptWordTimes[Math.min(transcriptWordTimes.length - 1, Math.floor((globalWord * transcriptWordTimes.length) / totalWords))];
+      }
+      return chunk.startMs + (chunk.durationMs * charOffset) / Math.max(chunk.text.length, 1);
+    };
+
+    // Word start times, kept inside the chunk and never running backwards
+    let previous = chunk.startMs;
+    let charOffset = 0;
+    const timed = sentences.map(sentence => {
+      const words = wordOffsets(sentence.text).map(offset => {
+        const time = Math.round(Math.min(Math.max(timeAt(charOffset + offset, wordIndex++), previous), chunkEnd));
+        previous = time;
+        return time;
+      });
+      charOffset += sentence.text.length + 1;
+      return { sentence, words };
+    });
+
+    timed.forEach(({ sentence, words }, j) => {
+      const startMs = words[0] ?? previous;
+      const endMs = timed[j + 1]?.words[0] ?? chunkEnd;
+      const sentenceTiming: SentenceTiming = { text: sentence.text, startMs, endMs, words };
+
+      const block = timings.get(sentence.blockId);
+      if (block) {
+        block.sentences.push(sentenceTiming);
+        block.endMs = endMs;
+      } else {
+        timings.set(sentence.blockId, { startMs, endMs, sentences: [sentenceTiming] });
+      }
+    });
+  });
+
+  return timings;
+}
+
+/**
+ * Start time of every transcribed word, spread evenly over its segment
+ */
+export function wordTimesFromSegments(segments: Pick<WhisperSegment, "start" | "end" | "text">[]): number[] {
+  return segments.flatMap(segment => {
+    const words = segment.text.split(/\s+/).filter(Boolean);
+    const span = (segment.end - segment.start) * 1000;
+    return words.map((_, i) => Math.round(segment.start * 1000 + (span * i) / words.length));
+  });
+}
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+function blockProse(block: ContentBlock): string[] {
+  const listItems = safeJsonParse<unknown[]>(block.listItems, []).filter((item): item is string => typeof item === "string");
+  return [block.content ?? "", ...listItems];
+}
+
+// Markdown to the text a listener should hear: one line per paragraph,
+// heading or list item, each ending in punctuation so the voice pauses
+function speakableText(markdown: string): string {
+  const parts: string[] = [];
+  let paragraph: string[] = [];
+  const endParagraph = () => {
+    const text = paragraph.join(" ").replace(/\s+/g, " ").trim();
+    if (text) parts.push(/[.!?:;"')\]]$/.test(text) ? text : `${text}.`);
+    paragraph = [];
+  };
+
+  for (const line of markdown.replace(/\[([^\]]+)\]\([^)]*\)/g, "$1").split("\n")) {
+    // Blank lines end paragraphs; tables are not read out
+    if (!line.trim() || /^\s*\|/.test(line)) {
+      endParagraph();
+      continue;
+    }
+    const standalone = /^\s*(?:[-*•]|\d+[.)]|#{1,6})\s+/.test(line);
+    if (standalone) endParagraph();
+    paragraph.push(stripMarkdown(line.replace(/^\s*(?:>\s?|[-*•]\s+|\d+[.)]\s+)/, "")).replace(/`/g, ""));
+    if (standalone) endParagraph();
+  }
+  endParagraph();
+
+  return parts.join("\n");
+}
+
+function packSentences(sentences: ReadAlongSentence[], maxChars: number): ReadAlongSentence[][] {
+  const chunks: ReadAlongSentence[][] = [];
+  let current: ReadAlongSentence[] = [];
+  let length = 0;
+
+  for (const sentence of sentences) {
+    if (current.length > 0 && length + 1 + sentence.text.length > maxChars) {
+      chunks.push(current);
+      current = [];
+      length = 0;
+    }
+    current.push(sentence);
+    length += (length > 0 ? 1 : 0) + sentence.text.length;
+  }
+  if (current.length > 0) chunks.push(current);
+  return chunks;
+}
+
+// The text of a chunk is its sentences joined by single spaces
+function chunkText(sentences: ReadAlongSentence[]): string {
+  return sentences.map(sentence => sentence.text).join(" ");
+}
+
+function wordOffsets(text: string): number[] {
+  return Array.from(text.matchAll(/\S+/g), match => match.index ?? 0);
+}
@@ -8,19 +8,13 @@
  */
 
 import { generateWithClaude, isAnthropicConfigured } from './dualLLMService';
+import { buildBookDigest, ChapterNote } from './chapterNotes';
+import { VISUAL_TYPES, VISUAL_TYPE_INFO, type VisualType } from '../../shared/types';
+import { resolveVisualType } from '../../shared/visuals';
 
-// The 30+ visual types available in Insight Atlas
-export const VISUAL_TYPES = [
-  'timeline', 'flowDiagram', 'comparisonMatrix', 'pieChart', 'barChart',
-  'infographic', 'mindMap', 'hierarchy', 'networkGraph', 'vennDiagram',
-  'scatterPlot', 'heatMap', 'treemap', 'sunburst', 'sankey',
-  'wordCloud', 'radarChart', 'gaugeChart', 'funnelChart', 'waterfallChart',
-  'areaChart', 'bubbleChart', 'donutChart', 'stackedBar', 'lineChart',
-  'candlestick', 'boxPlot', 'histogram', 'parallelCoordinates', 'chordDiagram',
-  'forceDirectedGraph', 'circularPacking', 'icicle', 'partition'
-] as const;
-
-export type VisualType = typeof VISUAL_TYPES[number];
+// Visual types come from the shared registry (shared/visuals.ts)
+export { VISUAL_TYPES };
+export type { VisualType };
 
 export interface BookAnalysis {
   bookMetadata: {
@@ -75,10 +69,26 @@ export interface BookAnalysis {
     potentialChallenges: string[];
     uniqueValueOpportunities: string[];
   };
+  /** Set on the placeholder returned when the analysis fails; it is never stored */
+  fallback?: boolean;
 }
 
-function buildAnalysisPrompt(bookTitle: string, bookAuthor: string, bookText: string): { system: string; user: string } {
-  const truncatedText = bookText.slice(0, 80000);
+function buildAnalysisPrompt(
+  bookTitle: string,
+  bookAuthor: string,
+  bookText: string,
+  chapterNotes?: ChapterNote[]
+): { system: string; user: string } {
+  // With chapter notes the model sees every chapter; the raw excerpt is only
+  // kept for the author's voice. Without them, fall back to the book opening.
+  const bookSource = chapterNotes && chapterNotes.length > 0
+    ? `## CHAPTER NOTES (covering the full book, ${chapterNotes.length} parts)
+${buildBookDigest(chapterNotes)}
+
+## OPENING EXCERPT (first 15,000 characters, for tone and voice)
+${bookText.slice(0, 15000)}`
+    : `## BOOK TEXT (first 80,000 characters)
+${bookText.slice(0, 80000)}`;
   
   const systemPrompt = `You are an expert book analyst specializing in extracting structured insights from non-fiction books. Your analysis will guide the generation of comprehensive book guides.
 
@@ -93,10 +103,9 @@ Analyze this book and provide structured analysis in JSON format.
 - Author: ${bookAuthor}
 
 ## AVAILABLE VISUAL TYPES
-${VISUAL_TYPES.join(', ')}
+${VISUAL_TYPE_INFO.map(v => `- ${v.type}: ${v.description}`).join('\n')}
 
-## BOOK TEXT (first 80,000 characters)
-${truncatedText}
+${bookSource}
 
 ---
 
@@ -173,17 +182,19 @@ Analyze the book thoroughly and return ONLY the JSON object.`;
 export async function analyzeBook(
   bookTitle: string,
   bookAuthor: string,
-  bookText: string
+  bookText: string,
+  signal?: AbortSignal,
+  chapterNotes?: ChapterNote[]
 ): Promise<BookAnalysis> {
   console.log('[Stage 0] Starting book analysis with dual LLM...');
   console.log('[Stage 0] Anthropic configured:', isAnthropicConfigured());
   
-  const { system, user } = buildAnalysisPrompt(bookTitle, bookAuthor, bookText);
+  const { system, user } = buildAnalysisPrompt(bookTitle, bookAuthor, bookText, chapterNotes);
 
   try {
     // Use Anthropic Claude as primary for book analysis
     // Claude Sonnet 4 realistic max output: 8192 tokens (was 16000 - caused timeouts)
-    const response = await generateWithClaude(system, user, 8192);
+    const response = await generateWithClaude(system, user, 8192, { signal });
     console.log('[Stage 0] Analysis completed using:', response.provider);
 
     // Parse the JSON response
@@ -199,15 +210,24 @@ export async function analyzeBook(
     jsonStr = jsonStr.trim();
 
     const analysis = JSON.parse(jsonStr) as BookAnalysis;
+
+    // Map recommended visuals onto registry types (the model sometimes uses aliases)
+    for (const concept of analysis.coreConcepts ?? []) {
+      concept.recommendedVisual = resolveVisualType(concept.recommendedVisual) ?? 'conceptMap';
+    }
     
     console.log('[Stage 0] Extracted', analysis.coreConcepts?.length || 0, 'core concepts');
     
     return analysis;
   } catch (error) {
+    if (signal?.aborted) {
+      throw error;
+    }
     console.error('[Stage 0] Analysis error:', error);
     
     // Return a minimal analysis on error
     return {
+      fallback: true,
       bookMetadata: {
         title: bookTitle,
         author: bookAuthor,
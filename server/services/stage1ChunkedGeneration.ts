@@ -7,8 +7,11 @@
 
 import { BookAnalysis } from './stage0BookAnalysis';
 import { PremiumSection, PremiumGuide } from './stage1ContentGeneration';
+import { buildVisualFormatGuide, resolveVisualType } from '../../shared/visuals';
 import { generateWithClaude } from './dualLLMService';
 import { logGeneration, logError } from './debugLogger';
+import type { ChunkCheckpointStore, ChunkResult } from './generationCheckpoints';
+import { buildBookDigest, ChapterNote } from './chapterNotes';
 
 interface ChunkConfig {
   name: string;
@@ -18,27 +21,42 @@ interface ChunkConfig {
 }
 
 /**
- * Generate premium content in chunks to meet 9-12k word requirement
+ * Generate premium content in chunks to meet 9-12k word requirement.
+ * Chunks already saved in `checkpoints` are reused instead of regenerated.
+ * When chapter notes are given, every chunk sees the whole-book digest
+ * rather than just the opening of the text.
  */
 export async function generatePremiumContentChunked(
   analysis: BookAnalysis,
-  bookText: string
+  bookText: string,
+  signal?: AbortSignal,
+  checkpoints?: ChunkCheckpointStore,
+  chapterNotes?: ChapterNote[]
 ): Promise<PremiumGuide> {
   logGeneration('[Chunked Generation] Starting 3-chunk generation process');
+
+  const runChunk = async (config: ChunkConfig): Promise<ChunkResult> => {
+    const saved = await checkpoints?.load(config.name);
+    if (saved) {
+      logGeneration(`[Chunk: ${config.name}] Restored from checkpoint`, { sections: saved.sections.length });
+      return saved;
+    }
+    const result = await generateChunk(config, signal);
+    await checkpoints?.save(config.name, result);
+    return result;
+  };
   
-  const truncatedText = bookText.length > 80000 
-    ? bookText.substring(0, 80000) + '\n\n[Text truncated...]'
-    : bookText;
+  const bookSource = buildBookSource(bookText, chapterNotes);
   
   const allSections: PremiumSection[] = [];
   let totalWordCount = 0;
   
   // Chunk 1: Foundation (Quick Glance, Narrative, Executive Summary)
-  const chunk1 = await generateChunk({
+  const chunk1 = await runChunk({
     name: 'Foundation',
     targetWords: 3000,
     sectionTypes: ['quickGlance', 'foundationalNarrative', 'executiveSummary'],
-    prompt: buildFoundationPrompt(analysis, truncatedText)
+    prompt: buildFoundationPrompt(analysis, bookSource)
   });
   allSections.push(...chunk1.sections);
   totalWordCount += chunk1.wordCount;
@@ -49,11 +67,11 @@ export async function generatePremiumContentChunked(
   });
   
   // Chunk 2: Core Concepts (Explanations, Examples, Notes, Action Boxes)
-  const chunk2 = await generateChunk({
+  const chunk2 = await runChunk({
     name: 'Core Concepts',
     targetWords: 4000,
     sectionTypes: ['conceptExplanation', 'practicalExample', 'insightAtlasNote', 'actionBox', 'visualFramework'],
-    prompt: buildCoreConceptsPrompt(analysis, truncatedText)
+    prompt: buildCoreConceptsPrompt(analysis, bookSource)
   });
   allSections.push(...chunk2.sections);
   totalWordCount += chunk2.wordCount;
@@ -64,11 +82,11 @@ export async function generatePremiumContentChunked(
   });
   
   // Chunk 3: Application & Structure (Assessments, Tracking, Structure Map)
-  const chunk3 = await generateChunk({
+  const chunk3 = await runChunk({
     name: 'Application',
     targetWords: 3000,
     sectionTypes: ['selfAssessment', 'trackingTemplate', 'structureMap', 'keyTakeaways'],
-    prompt: buildApplicationPrompt(analysis, truncatedText, allSections)
+    prompt: buildApplicationPrompt(analysis, bookSource, allSections)
   });
   allSections.push(...chunk3.sections);
   totalWordCount += chunk3.wordCount;
@@ -142,7 +160,11 @@ export async function generatePremiumContentChunked(
   };
 }
 
-async function generateChunk(config: ChunkConfig): Promise<{ sections: PremiumSection[]; wordCount: number }> {
+async function generateChunk(
+  config: ChunkConfig,
+  signal?: AbortSignal
+): Promise<ChunkResult> {
+  signal?.throwIfAborted();
   logGeneration(`[Chunk: ${config.name}] Starting generation`, { 
     targetWords: config.targetWords,
     sectionTypes: config.sectionTypes 
@@ -156,21 +178,25 @@ Output ONLY valid JSON with this structure:
       "type": "sectionType",
       "title": "Section Title",
       "content": "Full markdown content...",
-      "visualType": "optional-visual-type",
+      "visualType": "optional visual type from the list below",
+      "visualData": { "structure": "exactly as listed for the visual type" },
       "metadata": {}
     }
   ]
 }
 
 Target ${config.targetWords} words across ${config.sectionTypes.join(', ')} sections.
-Use rich markdown formatting, practical examples, and actionable insights.`;
+Use rich markdown formatting, practical examples, and actionable insights.
+
+Visual types and their visualData structure:
+${buildVisualFormatGuide()}`;
 
   try {
     const response = await generateWithClaude(
       systemPrompt,
       config.prompt,
       8192, // Stay within Claude's limit
-      { truncateInput: true }
+      { truncateInput: true, signal }
     );
     
     // Parse JSON response
@@ -222,14 +248,28 @@ Use rich markdown formatting, practical examples, and actionable insights.`;
   }
 }
 
-function buildFoundationPrompt(analysis: BookAnalysis, bookText: string): string {
+/**
+ * Source material block shared by the chunk prompts
+ */
+function buildBookSource(bookText: string, chapterNotes?: ChapterNote[]): string {
+  if (chapterNotes && chapterNotes.length > 0) {
+    return `**Chapter Notes (full book):**
+${buildBookDigest(chapterNotes)}
+
+**Opening Excerpt:**
+${bookText.substring(0, 8000)}`;
+  }
+  return `**Book Excerpt:**
+${bookText.substring(0, 20000)}`;
+}
+
+function buildFoundationPrompt(analysis: BookAnalysis, bookSource: string): string {
   return `Generate the foundation sections for "${analysis.bookMetadata.title}" by ${analysis.bookMetadata.author}.
 
 **Book Analysis:**
 ${JSON.stringify(analysis, null, 2)}
 
-**Book Excerpt:**
-${bookText.substring(0, 20000)}
+${bookSource}
 
 Generate these sections (target 3,000 words total):
 1. Quick Glance Summary (500-600 words)
@@ -239,35 +279,33 @@ Generate these sections (target 3,000 words total):
 Focus on clarity, structure, and immediate value.`;
 }
 
-function buildCoreConceptsPrompt(analysis: BookAnalysis, bookText: string): string {
+function buildCoreConceptsPrompt(analysis: BookAnalysis, bookSource: string): string {
   const concepts = analysis.coreConcepts.slice(0, 5); // Top 5 concepts
   
   return `Generate core concept sections for "${analysis.bookMetadata.title}".
 
 **Core Concepts:**
-${concepts.map(c => `- ${c.conceptName}: ${c.briefDescription}`).join('\n')}
+${concepts.map(c => `- ${c.conceptName}: ${c.briefDescription} (visual: ${resolveVisualType(c.recommendedVisual) ?? 'your choice'})`).join('\n')}
 
-**Book Excerpt:**
-${bookText.substring(0, 20000)}
+${bookSource}
 
 For EACH of the ${concepts.length} concepts, generate (target 4,000 words total):
 1. Concept Explanation (400-500 words)
 2. Practical Example (300-400 words)
 3. Insight Atlas Note (200-300 words)
 4. Action Box with 5-7 specific steps
-5. Visual Framework with appropriate visualType
+5. Visual Framework using the concept's visual, with visualData in that type's structure
 
 Make it practical, memorable, and immediately applicable.`;
 }
 
-function buildApplicationPrompt(analysis: BookAnalysis, bookText: string, existingSections: PremiumSection[]): string {
+function buildApplicationPrompt(analysis: BookAnalysis, bookSource: string, existingSections: PremiumSection[]): string {
   return `Generate application and structure sections for "${analysis.bookMetadata.title}".
 
 **Existing Sections:**
 ${existingSections.map(s => `- ${s.type}: ${s.title}`).join('\n')}
 
-**Book Excerpt:**
-${bookText.substring(0, 20000)}
+${bookSource}
 
 Generate these sections (target 3,000 words total):
 1. Self-Assessment (600-800 words with radarChart visualType)
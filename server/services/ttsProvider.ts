@@ -0,0 +1,71 @@
+/**
+ * Text-to-Speech Providers
+ *
+ * Narration is synthesized through a TtsProvider, so the engine behind it
+ * can be swapped: ElevenLabs in the cloud (elevenLabsService) or an offline
+ * engine on the server itself (localTtsService). Each provider lists its own
+ * voices under ids that are unique across providers; audioGeneration merges
+ * them into the voice catalog clients pick from.
+ */
+
+export type TtsProviderId = "elevenlabs" | "local";
+
+/** Container of the audio a provider returns */
+export type SpeechFormat = "mp3" | "wav";
+
+export interface TtsVoice {
+  /** Catalog id, unique across providers */
+  id: string;
+  provider: TtsProviderId;
+  name: string;
+  description: string;
+}
+
+export interface SpeechRequest {
+  text: string;
+  voice: TtsVoice;
+  /** Neighbouring text, for providers that can keep intonation continuous across requests */
+  previousText?: string;
+  nextText?: string;
+  /** Ask for character timings, for providers that can return them */
+  withAlignment?: boolean;
+  /** Stops the request, e.g. when the generation job is cancelled */
+  signal?: AbortSignal;
+}
+
+/**
+ * When each character of the request text starts, in ms from the start of
+ * the returned audio
+ */
+export interface SpeechAlignment {
+  charStartMs: number[];
+}
+
+export interface SynthesizedSpeech {
+  audio: Buffer;
+  format: SpeechFormat;
+  alignment?: SpeechAlignment;
+}
+
+export interface TtsProvider {
+  id: TtsProviderId;
+  name: string;
+  /** Longest text a single request accepts */
+  maxChars: number;
+  /** Requests that may run at the same time */
+  concurrency: number;
+  isConfigured(): boolean;
+  listVoices(): TtsVoice[];
+  synthesize(request: SpeechRequest): Promise<SynthesizedSpeech>;
+}
+
+/**
+ * A failed synthesis request; `retryable` marks rate limits and transient
+ * failures worth another attempt
+ */
+export class TtsProviderError extends Error {
+  constructor(message: string, public readonly retryable: boolean = false) {
+    super(message);
+    this.name = "TtsProviderError";
+  }
+}
@@ -0,0 +1,276 @@
+/**
+ * Vault Export (Obsidian / Notion)
+ *
+ * Packages an insight as a zip of interlinked Markdown notes for PKM tools:
+ * an index note with the executive summary, one note per heading section,
+ * one note per core concept and one per cross-referenced book from the
+ * Stage 0 analysis. Every note carries YAML frontmatter and the notes link
+ * to each other with [[wikilinks]], so the unzipped folder forms a graph.
+ */
+
+import AdmZip from "adm-zip";
+import { storagePut } from "../storage";
+import type { InsightSection } from "./insightGeneration";
+import { renderSectionToMarkdown, type PDFExportOptions } from "./pdfExport";
+import type { BookAnalysis } from "./stage0BookAnalysis";
+
+export interface VaultExportOptions extends PDFExportOptions {
+  analysis?: BookAnalysis | null;
+}
+
+export interface VaultExportResult {
+  vaultUrl: string;
+  vaultKey: string;
+  noteCount: number;
+}
+
+type NoteType = "index" | "section" | "concept" | "book";
+
+interface Note {
+  name: string;
+  folder: string | null;
+  type: NoteType;
+  extraFrontmatter?: Record<string, string | string[]>;
+  body: string;
+}
+
+interface SectionNote {
+  name: string;
+  title: string;
+  sections: InsightSection[];
+  text: string;
+}
+
+type Concept = BookAnalysis["coreConcepts"][number];
+
+// Characters Obsidian and Notion reject in note names or wikilinks
+const UNSAFE_NAME_CHARS = /[\\/:*?"<>|#^[\]]/g;
+const MAX_NAME_LENGTH = 100;
+
+/**
+ * Generate a vault export and store it
+ */
+export async function generateVaultExport(
+  options: VaultExportOptions,
+  insightId: number
+): Promise<VaultExportResult> {
+  const { buffer, noteCount } = buildVault(options);
+
+  const vaultKey = `insights/${insightId}/vault-${Date.now()}.zip`;
+  const { url: vaultUrl } = await storagePut(vaultKey, buffer, "application/zip");
+
+  return {
+    vaultUrl,
+    vaultKey,
+    noteCount,
+  };
+}
+
+/**
+ * Build the vault zip
+ */
+export function buildVault(options: VaultExportOptions): { buffer: Buffer; noteCount: number } {
+  const { title, summary, sections, analysis } = options;
+  const claimName = createNameRegistry();
+
+  const indexName = claimName(title || "Insight");
+  const { intro, chapters } = splitSections(sections, claimName);
+  const concepts = (analysis?.coreConcepts ?? []).map(concept => ({ concept, name: claimName(concept.conceptName) }));
+  const books = (analysis?.crossReferences.relatedPopularWorks ?? []).map(work => ({ work, name: claimName(work) }));
+
+  const conceptsIn = (text: string) => concepts.filter(({ concept }) => mentions(text, concept.conceptName));
+  const notes: Note[] = [];
+
+  // Index note: summary, table of contents and entry points into the graph
+  let index = `# ${title}\n\n`;
+  index += `## Executive Summary\n\n${summary}\n\n`;
+  index += intro.map(renderSectionToMarkdown).join("");
+  if (chapters.length > 0) {
+    index += `## Sections\n\n${chapters.map((chapter, i) => `${i + 1}. ${wikilink(chapter.name, chapter.title)}`).join("\n")}\n\n`;
+  }
+  if (concepts.length > 0) {
+    index += `## Core Concepts\n\n${concepts.map(({ name }) => `- ${wikilink(name)}`).join("\n")}\n\n`;
+  }
+  if (books.length > 0) {
+    index += `## Related Books\n\n${books.map(({ name }) => `- ${wikilink(name)}`).join("\n")}\n\n`;
+  }
+  index += renderOtherReferences(analysis);
+  notes.push({ name: indexName, folder: null, type: "index", body: index });
+
+  chapters.forEach((chapter, i) => {
+    let body = `# ${chapter.title}\n\n`;
+    body += chapter.sections.map(renderSectionToMarkdown).join("");
+
+    const mentioned = conceptsIn(chapter.text);
+    if (mentioned.length > 0) {
+      body += `## Concepts\n\n${mentioned.map(({ name }) => `- ${wikilink(name)}`).join("\n")}\n\n`;
+    }
+
+    const previous = chapters[i - 1];
+    const next = chapters[i + 1];
+    body += `---\n\n`;
+    body += [
+      previous ? `← ${wikilink(previous.name, previous.title)}` : null,
+      `↑ ${wikilink(indexName)}`,
+      next ? `${wikilink(next.name, next.title)} →` : null,
+    ].filter(Boolean).join(" · ") + "\n";
+
+    notes.push({
+      name: chapter.name,
+      folder: "Sections",
+      type: "section",
+      extraFrontmatter: {
+        order: String(i + 1),
+        section_types: Array.from(new Set(chapter.sections.map(section => section.type))),
+      },
+      body,
+    });
+  });
+
+  for (const { concept, name } of concepts) {
+    let body = `# ${concept.conceptName}\n\n`;
+    if (concept.briefDescription) body += `${concept.briefDescription}\n\n`;
+    if (concept.chapterSource) body += `**Source:** ${concept.chapterSource}\n\n`;
+    if (concept.exampleDomains?.length) body += `**Applies to:** ${concept.exampleDomains.join(", ")}\n\n`;
+
+    const related = concepts.filter(other => other.name !== name && areRelated(concept, other.concept, analysis));
+    if (related.length > 0) {
+      body += `## Related Concepts\n\n${related.map(other => `- ${wikilink(other.name)}`).join("\n")}\n\n`;
+    }
+
+    const discussedIn = chapters.filter(chapter => mentions(chapter.text, concept.conceptName));
+    if (discussedIn.length > 0) {
+      body += `## Discussed In\n\n${discussedIn.map(chapter => `- ${wikilink(chapter.name, chapter.title)}`).join("\n")}\n\n`;
+    }
+
+    // The analysis cross-references books for the whole title, not per concept
+    if (books.length > 0) {
+      body += `## See Also\n\n${books.map(book => `- ${wikilink(book.name)}`).join("\n")}\n\n`;
+    }
+
+    body += `---\n\n↑ ${wikilink(indexName)}\n`;
+    notes.push({ name, folder: "Concepts", type: "concept", body });
+  }
+
+  for (const { work, name } of books) {
+    let body = `# ${work}\n\n`;
+    body += `Cross-referenced in the analysis of ${wikilink(indexName)}.\n\n`;
+    const related = conceptsIn(work);
+    if (related.length > 0) {
+      body += `## Concepts\n\n${related.map(concept => `- ${wikilink(concept.name)}`).join("\n")}\n\n`;
+    }
+    notes.push({ name, folder: "Books", type: "book", body });
+  }
+
+  const root = safeName(options.bookTitle || title || "Insight Atlas");
+  const zip = new AdmZip(undefined, { noSort: true });
+  for (const note of notes) {
+    const path = [root, note.folder, `${note.name}.md`].filter(Boolean).join("/");
+    zip.addFile(path, Buffer.from(renderFrontmatter(options, note) + note.body));
+  }
+
+  return { buffer: zip.toBuffer(), noteCount: notes.length };
+}
+
+/**
+ * One note per heading; content before the first heading joins the index
+ */
+function splitSections(sections: InsightSection[], claimName: (text: string) => string): { intro: InsightSection[]; chapters: SectionNote[] } {
+  const intro: InsightSection[] = [];
+  const chapters: SectionNote[] = [];
+
+  for (const section of sections) {
+    if (section.type === "heading") {
+      // Numbered so the notes list in reading order
+      const order = String(chapters.length + 1).padStart(2, "0");
+      chapters.push({ name: claimName(`${order} ${section.content}`), title: section.content, sections: [], text: section.content });
+    } else if (chapters.length === 0) {
+      intro.push(section);
+    } else {
+      const chapter = chapters[chapters.length - 1];
+      chapter.sections.push(section);
+      chapter.text += ` ${section.title ?? ""} ${section.content} ${(section.items ?? []).join(" ")}`;
+    }
+  }
+
+  return { intro, chapters };
+}
+
+/**
+ * Concepts are related when they come from the same chapter or logical
+ * grouping, or when one's description names the other
+ */
+function areRelated(a: Concept, b: Concept, analysis: BookAnalysis | null | undefined): boolean {
+  const sameSource = !!a.chapterSource && a.chapterSource.trim().toLowerCase() === b.chapterSource?.trim().toLowerCase();
+  const sameGroup = (analysis?.structure.logicalGroupings ?? []).some(group =>
+    group.chapters.some(chapter => mentions(a.chapterSource ?? "", chapter)) &&
+    group.chapters.some(chapter => mentions(b.chapterSource ?? "", chapter))
+  );
+  return sameSource || sameGroup || mentions(a.briefDescription ?? "", b.conceptName) || mentions(b.briefDescription ?? "", a.conceptName);
+}
+
+function renderOtherReferences(analysis: BookAnalysis | null | undefined): string {
+  if (!analysis) return "";
+  const groups: Array<[string, string[]]> = [
+    ["Psychological Frameworks", analysis.crossReferences.psychologicalFrameworks],
+    ["Philosophical Traditions", analysis.crossReferences.philosophicalTraditions],
+    ["Neuroscience Research", analysis.crossReferences.neuroscienceResearch],
+  ];
+  return groups
+    .filter(([, items]) => items?.length > 0)
+    .map(([label, items]) => `### ${label}\n\n${items.map(item => `- ${item}`).join("\n")}\n\n`)
+    .join("");
+}
+
+function renderFrontmatter(options: VaultExportOptions, note: Note): string {
+  const fields: Record<string, string | string[]> = {
+    book: options.bookTitle,
+    author: options.author ?? "",
+    themes: options.keyThemes,
+    type: note.type,
+    ...note.extraFrontmatter,
+  };
+
+  const lines = Object.entries(fields).map(([key, value]) => {
+    if (!Array.isArray(value)) return `${key}: ${yamlString(value)}`;
+    return value.length > 0 ? `${key}:\n${value.map(item => `  - ${yamlString(item)}`).join("\n")}` : `${key}: []`;
+  });
+  return `---\n${lines.join("\n")}\n---\n\n`;
+}
+
+/**
+ * JSON strings are valid double-quoted YAML scalars
+ */
+function yamlString(value: string): string {
+  return /^\d+$/.test(value) ? value : JSON.stringify(value);
+}
+
+function wikilink(name: string, label?: string): string {
+  return label && label !== name ? `[[${name}|${safeName(label)}]]` : `[[${name}]]`;
+}
+
+function mentions(text: string, phrase: string): boolean {
+  const needle = phrase.trim().toLowerCase();
+  return needle.length > 0 && text.toLowerCase().includes(needle);
+}
+
+function safeName(text: string): string {
+  const name = text.replace(UNSAFE_NAME_CHARS, "").replace(/\s+/g, " ").trim();
+  return name.slice(0, MAX_NAME_LENGTH).trim() || "Untitled";
+}
+
+/**
+ * Note names must be unique across folders for wikilinks to resolve
+ */
+function createNameRegistry(): (text: string) => string {
+  const used = new Set<string>();
+  return (text: string) => {
+    const base = safeName(text);
+    let name = base;
+    for (let n = 2; used.has(name.toLowerCase()); n++) {
+      name = `${base} (${n})`;
+    }
+    used.add(name.toLowerCase());
+    return name;
+  };
+}
@@ -0,0 +1,34 @@
+/**
+ * Visual Images
+ *
+ * Rasterizes the SVG drawing of a visual (see visualSvg) to PNG with resvg,
+ * for export formats that can only embed images.
+ */
+
+import { Resvg } from "@resvg/resvg-js";
+import { renderVisualSvg } from "./visualSvg";
+
+export interface VisualImage {
+  png: Buffer;
+  width: number;
+  height: number;
+}
+
+/**
+ * Render visualData to a PNG at twice the SVG size for print sharpness
+ */
+export function renderVisualPng(visualType: string | null | undefined, visualData: unknown, fallbackTitle?: string): VisualImage | null {
+  const svg = renderVisualSvg(visualType, visualData, fallbackTitle);
+  if (!svg) return null;
+
+  const rendered = new Resvg(svg, {
+    fitTo: { mode: "zoom", value: 2 },
+    font: { loadSystemFonts: true },
+  }).render();
+
+  return {
+    png: rendered.asPng(),
+    width: rendered.width / 2,
+    height: rendered.height / 2,
+  };
+}
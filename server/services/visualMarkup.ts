@@ -0,0 +1,252 @@
+/**
+ * Visual Markup
+ *
+ * Renders validated visuals into the text-based export formats, so visual
+ * frameworks survive outside the app:
+ * - Markdown: Mermaid blocks for flows, hierarchies, mind maps and
+ *   timelines; tables for matrices; lists or value tables otherwise
+ * - HTML: tables for matrices, inline SVG (see visualSvg) otherwise
+ * - Plain text: aligned tables for matrices, text bars, steps and lists
+ */
+
+import { parseVisualData, type VisualDataFor } from "../../shared/visuals";
+import type { InsightSection } from "./insightGeneration";
+import { renderVisualSvg } from "./visualSvg";
+import { summarizeVisual, visualTable, type VisualSummary } from "./visualSummary";
+
+const MAX_TEXT_COLUMN = 28;
+const TEXT_BAR_WIDTH = 24;
+
+/**
+ * Mermaid source for flows, hierarchies, mind maps and timelines, or null
+ * for visuals Mermaid does not suit
+ */
+export function visualToMermaid(visualType: string | null | undefined, visualData: unknown): string | null {
+  const parsed = parseVisualData(visualType, visualData);
+  if (!parsed.success) return null;
+
+  switch (parsed.visualType) {
+    case "flowDiagram": {
+      const { nodes, edges } = parsed.data as VisualDataFor<"flowDiagram">;
+      return mermaidGraph(nodes, edges, true);
+    }
+    case "conceptMap": {
+      const { concepts, relationships } = parsed.data as VisualDataFor<"conceptMap">;
+      return mermaidGraph(concepts, relationships, false);
+    }
+    case "networkGraph": {
+      const { nodes, edges } = parsed.data as VisualDataFor<"networkGraph">;
+      return mermaidGraph(nodes, edges, false);
+    }
+    case "processFlow":
+    case "cycleDiagram": {
+      const { steps } = parsed.data as VisualDataFor<"processFlow">;
+      const lines = steps.map((step, i) => `  n${i}["${mermaidText(step.label)}"]`);
+      steps.slice(1).forEach((_, i) => lines.push(`  n${i} --> n${i + 1}`));
+      if (parsed.visualType === "cycleDiagram" && steps.length > 1) {
+        lines.push(`  n${steps.length - 1} --> n0`);
+      }
+      return `flowchart TD\n${lines.join("\n")}`;
+    }
+    case "hierarchy": {
+      const { root, children } = parsed.data as VisualDataFor<"hierarchy">;
+      const lines = [`  root["${mermaidText(root)}"]`];
+      children.forEach((child, i) => lines.push(`  root --> n${i}["${mermaidText(child.label)}"]`));
+      return `flowchart TD\n${lines.join("\n")}`;
+    }
+    case "mindMap": {
+      const { center, branches } = parsed.data as VisualDataFor<"mindMap">;
+      const lines = ["mindmap", `  root((${mindMapText(center)}))`];
+      for (const branch of branches) {
+        lines.push(`    ${mindMapText(branch.label)}`);
+        branch.children.forEach(child => lines.push(`      ${mindMapText(child)}`));
+      }
+      return lines.join("\n");
+    }
+    case "timeline": {
+      const { title, events } = parsed.data as VisualDataFor<"timeline">;
+      const lines = ["timeline"];
+      if (title) lines.push(`  title ${timelineText(title)}`);
+      events.forEach((event, i) => lines.push(`  ${timelineText(event.date || String(i + 1))} : ${timelineText(event.title)}`));
+      return lines.join("\n");
+    }
+    default:
+      return null;
+  }
+}
+
+/**
+ * Visual section to Markdown; empty when the visual does not validate
+ */
+export function renderVisualMarkdown(section: InsightSection): string {
+  const summary = summarizeVisual(section.visualType, section.visualData);
+  if (!summary) return "";
+
+  const title = section.title || summary.title;
+  const heading = title ? `**${title}**\n\n` : "";
+
+  const mermaid = visualToMermaid(section.visualType, section.visualData);
+  if (mermaid) {
+    return `${heading}\`\`\`mermaid\n${mermaid}\n\`\`\`\n\n`;
+  }
+
+  const table = visualTable(section.visualType, section.visualData);
+  if (table) {
+    return `${heading}${markdownTable(table.headers, table.rows)}\n`;
+  }
+
+  switch (summary.kind) {
+    case "bars":
+      return `${heading}${markdownTable(["", "Value"], summary.items.map(item => [item.label, formatNumber(item.value)]))}\n`;
+    case "steps":
+      return `${heading}${summary.items.map((item, i) => `${i + 1}. **${item.label}**${item.description ? ` — ${item.description}` : ""}`).join("\n")}\n\n`;
+    case "groups":
+      return heading + summary.groups
+        .map(group => `- **${group.label}**${group.items.map(item => `\n  - ${item}`).join("")}`)
+        .join("\n") + "\n\n";
+  }
+}
+
+/**
+ * Visual section to HTML: a table for comparisons, inline SVG otherwise
+ */
+export function renderVisualHTML(section: InsightSection): string {
+  const table = visualTable(section.visualType, section.visualData);
+  if (table) {
+    const title = section.title || table.title;
+    const head = table.headers.map(header => `<th>${escapeHtml(header)}</th>`).join("");
+    const body = table.rows
+      .map(row => `<tr>${row.map((cell, i) => (i === 0 && table.headers[0] === "" ? `<th scope="row">${escapeHtml(cell)}</th>` : `<td>${escapeHtml(cell)}</td>`)).join("")}</tr>`)
+      .join("");
+    return `
+        <figure class="visual-figure">
+          <table class="visual-table"><thead><tr>${head}</tr></thead><tbody>${body}</tbody></table>
+          ${title ? `<figcaption>${escapeHtml(title)}</figcaption>` : ""}
+        </figure>`;
+  }
+
+  const svg = renderVisualSvg(section.visualType, section.visualData, section.title);
+  if (!svg) return "";
+  return `
+        <figure class="visual-figure">
+          ${svg}
+        </figure>`;
+}
+
+/**
+ * Visual section to plain text
+ */
+export function renderVisualPlainText(section: InsightSection): string {
+  const summary = summarizeVisual(section.visualType, section.visualData);
+  if (!summary) return "";
+
+  const title = section.title || summary.title;
+  const heading = `[${title || "Visual"}]\n`;
+
+  const table = visualTable(section.visualType, section.visualData);
+  if (table) {
+    return `${heading}${textTable(table.headers, table.rows)}\n\n`;
+  }
+
+  return `${heading}${summaryToText(summary)}\n\n`;
+}
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+function mermaidGraph(
+  nodes: { id?: string; label: string }[],
+  edges: { from: string; to: string; label?: string }[],
+  chainWhenUnlinked: boolean
+): string {
+  const ids = new Map<string, string>();
+  const lines: string[] = [];
+  const declare = (label: string) => {
+    const id = `n${lines.length}`;
+    lines.push(`  ${id}["${mermaidText(label)}"]`);
+    return id;
+  };
+
+  for (const node of nodes) {
+    const id = declare(node.label);
+    ids.set(node.label, id);
+    if (node.id) ids.set(node.id, id);
+  }
+  const idFor = (ref: string) => {
+    if (!ids.has(ref)) ids.set(ref, declare(ref));
+    return ids.get(ref)!;
+  };
+
+  const links = edges.map(edge =>
+    `  ${idFor(edge.from)} -->${edge.label ? `|${mermaidText(edge.label).replace(/\|/g, "/")}|` : ""} ${idFor(edge.to)}`
+  );
+  // A flow without edges is read in order
+  if (links.length === 0 && chainWhenUnlinked) {
+    nodes.slice(1).forEach((_, i) => links.push(`  n${i} --> n${i + 1}`));
+  }
+
+  return `flowchart TD\n${[...lines, ...links].join("\n")}`;
+}
+
+function mermaidText(text: string): string {
+  return text.replace(/"/g, "#quot;").replace(/\s+/g, " ").trim();
+}
+
+// Brackets and parentheses are shape syntax in mind maps
+function mindMapText(text: string): string {
+  return text.replace(/[()[\]{}]/g, " ").replace(/\s+/g, " ").trim() || "·";
+}
+
+// A colon separates the period from its events
+function timelineText(text: string): string {
+  return text.replace(/:/g, " -").replace(/\s+/g, " ").trim() || "·";
+}
+
+function markdownTable(headers: string[], rows: string[][]): string {
+  const cell = (text: string) => text.replace(/\|/g, "\\|").replace(/\s+/g, " ").trim();
+  const lines = [
+    `| ${headers.map(cell).join(" | ")} |`,
+    `|${headers.map(() => "---").join("|")}|`,
+    ...rows.map(row => `| ${headers.map((_, i) => cell(row[i] ?? "")).join(" | ")} |`),
+  ];
+  return `${lines.join("\n")}\n`;
+}
+
+function textTable(headers: string[], rows: string[][]): string {
+  const clip = (text: string) => (text.length > MAX_TEXT_COLUMN ? `${text.slice(0, MAX_TEXT_COLUMN - 1)}…` : text);
+  const all = [headers, ...rows].map(row => headers.map((_, i) => clip((row[i] ?? "").replace(/\s+/g, " ").trim())));
+  const widths = headers.map((_, i) => Math.max(...all.map(row => row[i].length)));
+  const line = (row: string[]) => `  ${row.map((text, i) => text.padEnd(widths[i])).join(" | ")}`.trimEnd();
+  return [line(all[0]), `  ${widths.map(width => "-".repeat(width)).join("-+-")}`, ...all.slice(1).map(line)].join("\n");
+}
+
+function summaryToText(summary: VisualSummary): string {
+  switch (summary.kind) {
+    case "bars": {
+      const max = Math.max(...summary.items.map(item => Math.abs(item.value)), 1);
+      const labelWidth = Math.min(Math.max(...summary.items.map(item => item.label.length)), MAX_TEXT_COLUMN);
+      return summary.items.map(item => {
+        const label = item.label.length > labelWidth ? `${item.label.slice(0, labelWidth - 1)}…` : item.label.padEnd(labelWidth);
+        const bar = "█".repeat(Math.max(1, Math.round((Math.abs(item.value) / max) * TEXT_BAR_WIDTH)));
+        return `  ${label}  ${bar} ${formatNumber(item.value)}`;
+      }).join("\n");
+    }
+    case "steps":
+      return summary.items.map((item, i) => `  ${i + 1}. ${item.label}${item.description ? ` — ${item.description}` : ""}`).join("\n");
+    case "groups":
+      return summary.groups.map(group => `  ${group.label}:${group.items.map(item => `\n    * ${item}`).join("")}`).join("\n");
+  }
+}
+
+function formatNumber(value: number): string {
+  return Number.isInteger(value) ? String(value) : value.toFixed(1);
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
@@ -0,0 +1,227 @@
+import { parseVisualData, type VisualDataFor } from "../../shared/visuals";
+import type { VisualType } from "../../shared/types";
+
+/**
+ * Format-neutral reduction of a validated visual, for export renderers that
+ * draw their own simple graphics instead of the client's charts:
+ * - bars: labelled values (charts, funnels, treemaps, flows with weights)
+ * - steps: an ordered sequence (flows, processes, timelines, cycles)
+ * - groups: labelled lists (matrices, maps, quadrants, SWOT)
+ */
+export type VisualSummary =
+  | { kind: "bars"; title?: string; items: { label: string; value: number }[] }
+  | { kind: "steps"; title?: string; items: { label: string; description?: string }[] }
+  | { kind: "groups"; title?: string; groups: { label: string; items: string[] }[] };
+
+export interface VisualTable {
+  title?: string;
+  headers: string[];
+  rows: string[][];
+}
+
+type Labelled = { label: string; description?: string };
+
+const steps = (title: string | undefined, items: Labelled[]): VisualSummary => ({
+  kind: "steps",
+  title,
+  items: items.map(item => ({ label: item.label, description: item.description })),
+});
+
+const valuesOrSteps = (title: string | undefined, entries: (Labelled & { value?: number })[]): VisualSummary =>
+  entries.every(entry => typeof entry.value === "number")
+    ? { kind: "bars", title, items: entries.map(entry => ({ label: entry.label, value: entry.value! })) }
+    : steps(title, entries);
+
+const labelledBars = ({ title, labels, values }: VisualDataFor<"barChart">): VisualSummary => ({
+  kind: "bars",
+  title,
+  items: labels.map((label, i) => ({ label, value: values[i] })),
+});
+
+const seriesGroups = ({ title, labels, series }: VisualDataFor<"lineChart">): VisualSummary => ({
+  kind: "groups",
+  title,
+  groups: series.map(entry => ({
+    label: entry.name,
+    items: entry.values.map((value, i) => (labels[i] ? `${labels[i]}: ${value}` : String(value))),
+  })),
+});
+
+const pointGroups = ({ title, xLabel, yLabel, points }: VisualDataFor<"scatterPlot">): VisualSummary => ({
+  kind: "groups",
+  title,
+  groups: [{
+    label: [xLabel, yLabel].filter(Boolean).join(" vs ") || "Points",
+    items: points.map(point => `${point.label ? `${point.label} ` : ""}(${point.x}, ${point.y})`),
+  }],
+});
+
+const graphGroups = (
+  title: string | undefined,
+  nodes: { id?: string; label: string }[],
+  edges: { from: string; to: string; label?: string }[]
+): VisualSummary => {
+  const labelFor = (ref: string) => nodes.find(node => node.id === ref)?.label ?? ref;
+  return {
+    kind: "groups",
+    title,
+    groups: [
+      { label: "Concepts", items: nodes.map(node => node.label) },
+      {
+        label: "Connections",
+        items: edges.map(edge => `${labelFor(edge.from)} → ${edge.label ? `${edge.label} → ` : ""}${labelFor(edge.to)}`),
+      },
+    ].filter(group => group.items.length > 0),
+  };
+};
+
+const SUMMARIZERS: { [T in VisualType]: (data: VisualDataFor<T>) => VisualSummary } = {
+  barChart: labelledBars,
+  pieChart: labelledBars,
+  treemap: ({ title, items }) => ({ kind: "bars", title, items: items.map(({ label, value }) => ({ label, value })) }),
+  radarChart: ({ title, dimensions }) => valuesOrSteps(title, dimensions),
+  funnelDiagram: ({ title, stages }) => valuesOrSteps(title, stages),
+  sankeyDiagram: ({ title, nodes, links }) => {
+    const labels = new Map(nodes.map(node => [node.id, node.label]));
+    return {
+      kind: "bars",
+      title,
+      items: links.map(link => ({
+        label: `${labels.get(link.source) ?? link.source} → ${labels.get(link.target) ?? link.target}`,
+        value: link.value,
+      })),
+    };
+  },
+
+  flowDiagram: ({ title, nodes }) => steps(title, nodes),
+  processFlow: ({ title, steps: items }) => steps(title, items),
+  cycleDiagram: ({ title, steps: items }) => steps(title, items),
+  pyramidDiagram: ({ title, levels }) => steps(title, levels),
+  storyboard: ({ title, frames }) => steps(title, frames),
+  timeline: ({ title, events }) => steps(title, events.map(event => ({
+    label: event.date ? `${event.date} — ${event.title}` : event.title,
+    description: event.description,
+  }))),
+  journeyMap: ({ title, stages }) => steps(title, stages.map(stage => ({
+    label: stage.label,
+    description: [stage.description, ...stage.actions].filter(Boolean).join("; ") || undefined,
+  }))),
+  ganttChart: ({ title, unit, tasks }) => steps(title, tasks.map(task => ({
+    label: task.label,
+    description: `${task.start}–${task.end}${unit ? ` ${unit}` : ""}${task.phase ? ` (${task.phase})` : ""}`,
+  }))),
+
+  lineChart: seriesGroups,
+  areaChart: seriesGroups,
+  scatterPlot: pointGroups,
+  bubbleChart: pointGroups,
+  comparisonMatrix: ({ title, items, criteria, values }) => ({
+    kind: "groups",
+    title,
+    groups: items.map((item, i) => ({
+      label: item,
+      items: criteria.map((criterion, j) => `${criterion}: ${values[i]?.[j] ?? "—"}`),
+    })),
+  }),
+  comparisonTable: ({ title, columns, rows }) => ({
+    kind: "groups",
+    title,
+    groups: rows.map(row => ({
+      label: row.label,
+      items: row.values.map((value, j) => (columns[j] ? `${columns[j]}: ${value}` : value)),
+    })),
+  }),
+  heatmap: ({ title, rows, columns, values }) => ({
+    kind: "groups",
+    title,
+    groups: rows.map((row, i) => ({
+      label: row,
+      items: columns.map((column, j) => `${column}: ${values[i]?.[j] ?? "—"}`),
+    })),
+  }),
+  quadrant: ({ title, quadrants }) => ({
+    kind: "groups",
+    title,
+    groups: quadrants.map(quadrant => ({ label: quadrant.label, items: quadrant.items })),
+  }),
+  swotMatrix: ({ title, strengths, weaknesses, opportunities, threats }) => ({
+    kind: "groups",
+    title,
+    groups: [
+      { label: "Strengths", items: strengths },
+      { label: "Weaknesses", items: weaknesses },
+      { label: "Opportunities", items: opportunities },
+      { label: "Threats", items: threats },
+    ].filter(group => group.items.length > 0),
+  }),
+  vennDiagram: ({ title, sets, overlap }) => ({
+    kind: "groups",
+    title,
+    groups: [
+      ...sets.map(set => ({ label: set.label, items: set.items })),
+      ...(overlap?.items.length ? [{ label: overlap.label || "Shared", items: overlap.items }] : []),
+    ],
+  }),
+  mindMap: ({ title, center, branches }) => ({
+    kind: "groups",
+    title: title ?? center,
+    groups: branches.map(branch => ({ label: branch.label, items: branch.children })),
+  }),
+  hierarchy: ({ title, root, children }) => ({
+    kind: "groups",
+    title,
+    groups: [{ label: root, items: children.map(child => child.label) }],
+  }),
+  fishboneDiagram: ({ title, problem, categories }) => ({
+    kind: "groups",
+    title: title ?? problem,
+    groups: categories.map(category => ({ label: category.label, items: category.causes })),
+  }),
+  conceptMap: ({ title, concepts, relationships }) => graphGroups(title, concepts, relationships),
+  networkGraph: ({ title, nodes, edges }) => graphGroups(title, nodes, edges),
+  infographic: ({ title, stats, highlights }) => ({
+    kind: "groups",
+    title,
+    groups: [
+      { label: "Key figures", items: stats.map(stat => (stat.value ? `${stat.value} ${stat.label}` : stat.label)) },
+      { label: "Highlights", items: highlights },
+    ].filter(group => group.items.length > 0),
+  }),
+};
+
+/**
+ * Summarize visualData for export, or null when it does not validate
+ */
+export function summarizeVisual(visualType: string | null | undefined, visualData: unknown): VisualSummary | null {
+  const parsed = parseVisualData(visualType, visualData);
+  if (!parsed.success) return null;
+  return (SUMMARIZERS[parsed.visualType] as (data: unknown) => VisualSummary)(parsed.data);
+}
+
+/**
+ * Comparison visuals as a header row plus data rows. A blank first header
+ * means the first column holds row labels.
+ */
+export function visualTable(visualType: string | null | undefined, visualData: unknown): VisualTable | null {
+  const parsed = parseVisualData(visualType, visualData);
+  if (!parsed.success) return null;
+
+  switch (parsed.visualType) {
+    case "comparisonMatrix": {
+      const { title, items, criteria, values } = parsed.data as VisualDataFor<"comparisonMatrix">;
+      return { title, headers: ["", ...criteria], rows: items.map((item, i) => [item, ...criteria.map((_, j) => values[i]?.[j] ?? "")]) };
+    }
+    case "comparisonTable": {
+      const { title, columns, rows } = parsed.data as VisualDataFor<"comparisonTable">;
+      // Rows carry their own label column unless the headers already name it
+      const headers = columns.length > (rows[0]?.values.length ?? 0) ? columns : ["", ...columns];
+      return { title, headers, rows: rows.map(row => [row.label, ...row.values]) };
+    }
+    case "heatmap": {
+      const { title, rows, columns, values } = parsed.data as VisualDataFor<"heatmap">;
+      return { title, headers: ["", ...columns], rows: rows.map((row, i) => [row, ...columns.map((_, j) => String(values[i]?.[j] ?? ""))]) };
+    }
+    default:
+      return null;
+  }
+}
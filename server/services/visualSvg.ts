@@ -0,0 +1,1010 @@
+/**
+ * Visual SVG Renderer
+ *
+ * Draws a validated visual as a standalone SVG in the Insight Atlas
+ * gold/cream style, without the browser: charts get axes, plots and
+ * legends, flows and cycles get connected boxes, maps and graphs get laid
+ * out nodes and matrices become tables or 2x2 grids. Types without a
+ * dedicated layout fall back to their VisualSummary (bars, steps or
+ * groups). Used by the PDF, HTML, EPUB and DOCX exports and by
+ * visuals.render.
+ *
+ * Text uses the system sans-serif fonts and is wrapped by character count,
+ * since nothing is measured server-side.
+ */
+
+import { parseVisualData, type VisualDataFor } from "../../shared/visuals";
+import type { VisualType } from "../../shared/types";
+import { summarizeVisual, visualTable, type VisualSummary } from "./visualSummary";
+
+export const VISUAL_SVG_WIDTH = 640;
+
+const WIDTH = VISUAL_SVG_WIDTH;
+const PADDING = 24;
+const FONT_FAMILY = "Helvetica, Arial, 'DejaVu Sans', sans-serif";
+
+const COLORS = {
+  gold: "#C9A227",
+  goldLight: "#E8D48A",
+  goldDark: "#8B7355",
+  cream: "#FDF8F0",
+  charcoal: "#2C2C2C",
+  warmGray: "#6B6B6B",
+  white: "#FFFFFF",
+};
+
+// Series, slices and groups, in order
+const PALETTE = ["#C9A227", "#8B7355", "#D9B95B", "#5C4A32", "#E8D48A", "#A68B5B", "#3F3A33", "#F0DFA8"];
+
+export interface RenderedVisual {
+  svg: string;
+  width: number;
+  height: number;
+}
+
+interface Drawn {
+  svg: string;
+  bottom: number;
+}
+
+type Layout<T extends VisualType> = (data: VisualDataFor<T>, top: number) => Drawn;
+
+/**
+ * Render visualData to an SVG document with its size, or null when it does
+ * not validate
+ */
+export function renderVisual(visualType: string | null | undefined, visualData: unknown, fallbackTitle?: string): RenderedVisual | null {
+  const parsed = parseVisualData(visualType, visualData);
+  if (!parsed.success) return null;
+
+  const layout = LAYOUTS[parsed.visualType] as Layout<VisualType> | undefined;
+  const summary = layout ? null : summarizeVisual(parsed.visualType, parsed.data);
+  const title = (layout ? (parsed.data as { title?: string }).title : summary?.title) || fallbackTitle;
+
+  let top = PADDING;
+  const parts: string[] = [];
+  if (title) {
+    for (const line of wrap(title, 60).slice(0, 2)) {
+      parts.push(svgText(line, WIDTH / 2, top + 16, { size: 17, weight: "bold", anchor: "middle" }));
+      top += 22;
+    }
+    top += 14;
+  }
+
+  const body = layout ? layout(parsed.data as VisualDataFor<VisualType>, top) : drawSummary(summary!, top);
+  parts.push(body.svg);
+
+  const height = Math.ceil(body.bottom + PADDING);
+  const label = title || parsed.visualType;
+  const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="${WIDTH}" height="${height}" viewBox="0 0 ${WIDTH} ${height}" font-family="${FONT_FAMILY}" role="img" aria-label="${escapeXml(label)}">
+<title>${escapeXml(label)}</title>
+<rect width="${WIDTH}" height="${height}" fill="${COLORS.cream}"/>
+<rect x="1" y="1" width="${WIDTH - 2}" height="${height - 2}" fill="none" stroke="${COLORS.goldLight}" stroke-width="2"/>
+${parts.join("\n")}
+</svg>`;
+
+  return { svg, width: WIDTH, height };
+}
+
+/**
+ * Render visualData to an SVG document, or null when it does not validate
+ */
+export function renderVisualSvg(visualType: string | null | undefined, visualData: unknown, fallbackTitle?: string): string | null {
+  return renderVisual(visualType, visualData, fallbackTitle)?.svg ?? null;
+}
+
+// ---------------------------------------------------------------------------
+// Layouts per visual type
+// ---------------------------------------------------------------------------
+
+const LAYOUTS: { [T in VisualType]?: Layout<T> } = {
+  barChart: ({ labels, values }, top) => drawBars(labels.map((label, i) => ({ label, value: values[i] })), top),
+  pieChart: ({ labels, values }, top) => drawPie(labels.map((label, i) => ({ label, value: values[i] })), top),
+  lineChart: (data, top) => drawLineChart(data, top, false),
+  areaChart: (data, top) => drawLineChart(data, top, true),
+  scatterPlot: (data, top) => drawScatter(data, top),
+  bubbleChart: (data, top) => drawScatter(data, top),
+  radarChart: (data, top) => drawRadar(data, top),
+  ganttChart: (data, top) => drawGantt(data, top),
+
+  timeline: ({ events }, top) => drawTimeline(events, top),
+  processFlow: ({ steps }, top) => drawSteps(steps, top),
+  flowDiagram: ({ nodes, edges }, top) =>
+    edges.length > 0 ? drawGraph(nodes, edges, top, { directed: true }) : drawSteps(nodes, top),
+  cycleDiagram: ({ steps }, top) => drawCycle(steps, top),
+  pyramidDiagram: ({ levels }, top) => drawPyramid(levels, top),
+  funnelDiagram: ({ stages }, top) => drawFunnel(stages, top),
+
+  hierarchy: ({ root, children }, top) => drawHierarchy(root, children, top),
+  mindMap: ({ center, branches }, top) => drawMindMap(center, branches, top),
+  conceptMap: ({ concepts, relationships }, top) => drawGraph(concepts, relationships, top, { directed: true }),
+  networkGraph: ({ nodes, edges }, top) => drawGraph(nodes, edges, top, { directed: false }),
+
+  comparisonMatrix: (data, top) => drawTable("comparisonMatrix", data, top),
+  comparisonTable: (data, top) => drawTable("comparisonTable", data, top),
+  heatmap: (data, top) => drawHeatmap(data, top),
+  quadrant: ({ quadrants, xAxis, yAxis }, top) => drawQuadrants(quadrants, top, { xAxis, yAxis }),
+  swotMatrix: ({ strengths, weaknesses, opportunities, threats }, top) => drawQuadrants([
+    { label: "Strengths", items: strengths },
+    { label: "Weaknesses", items: weaknesses },
+    { label: "Opportunities", items: opportunities },
+    { label: "Threats", items: threats },
+  ], top, {}),
+  vennDiagram: (data, top) => drawVenn(data, top),
+  infographic: ({ stats, highlights }, top) => drawInfographic(stats, highlights, top),
+};
+
+function drawSummary(summary: VisualSummary, top: number): Drawn {
+  switch (summary.kind) {
+    case "bars":
+      return drawBars(summary.items, top);
+    case "steps":
+      return drawSteps(summary.items, top);
+    case "groups":
+      return drawGroups(summary.groups, top);
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Charts
+// ---------------------------------------------------------------------------
+
+function drawBars(items: { label: string; value: number }[], top: number): Drawn {
+  const labelWidth = 200;
+  const barX = PADDING + labelWidth + 12;
+  const barMax = WIDTH - barX - PADDING - 56;
+  const max = Math.max(...items.map(item => Math.abs(item.value)), 1);
+  const rowHeight = 30;
+
+  const rows = items.map((item, index) => {
+    const y = top + index * rowHeight;
+    const width = Math.max((Math.abs(item.value) / max) * barMax, 2);
+    return [
+      svgText(truncate(item.label, 30), PADDING + labelWidth, y + 19, { size: 13, anchor: "end" }),
+      `<rect x="${barX}" y="${y + 6}" width="${barMax}" height="18" rx="3" fill="${COLORS.goldLight}" opacity="0.45"/>`,
+      `<rect x="${barX}" y="${y + 6}" width="${width.toFixed(1)}" height="18" rx="3" fill="${COLORS.gold}"/>`,
+      svgText(formatNumber(item.value), barX + width + 8, y + 19, { size: 12, color: COLORS.warmGray }),
+    ].join("\n");
+  });
+
+  return { svg: rows.join("\n"), bottom: top + items.length * rowHeight };
+}
+
+function drawPie(items: { label: string; value: number }[], top: number): Drawn {
+  const total = items.reduce((sum, item) => sum + Math.abs(item.value), 0);
+  if (total === 0) return drawBars(items, top);
+
+  const radius = 110;
+  const cx = PADDING + radius + 8;
+  const legendX = cx + radius + 40;
+  const legendHeight = items.length * 24;
+  const cy = top + Math.max(radius, legendHeight / 2);
+  const parts: string[] = [];
+
+  let angle = -Math.PI / 2;
+  items.forEach((item, index) => {
+    const share = Math.abs(item.value) / total;
+    const color = PALETTE[index % PALETTE.length];
+    if (share >= 0.9999) {
+      parts.push(`<circle cx="${cx}" cy="${cy}" r="${radius}" fill="${color}" stroke="${COLORS.cream}" stroke-width="2"/>`);
+    } else if (share > 0) {
+      const end = angle + share * Math.PI * 2;
+      const [x1, y1] = polar(cx, cy, radius, angle);
+      const [x2, y2] = polar(cx, cy, radius, end);
+      parts.push(`<path d="M${cx} ${cy} L${x1.toFixed(1)} ${y1.toFixed(1)} A${radius} ${radius} 0 ${share > 0.5 ? 1 : 0} 1 ${x2.toFixed(1)} ${y2.toFixed(1)} Z" fill="${color}" stroke="${COLORS.cream}" stroke-width="2"/>`);
+      angle = end;
+    }
+  });
+
+  const legendTop = cy - legendHeight / 2;
+  items.forEach((item, index) => {
+    const y = legendTop + index * 24;
+    const percent = Math.round((Math.abs(item.value) / total) * 100);
+    parts.push(`<rect x="${legendX}" y="${(y + 5).toFixed(1)}" width="14" height="14" rx="2" fill="${PALETTE[index % PALETTE.length]}"/>`);
+    parts.push(svgText(truncate(item.label, 34), legendX + 22, y + 17, { size: 13 }));
+    parts.push(svgText(`${percent}%`, WIDTH - PADDING, y + 17, { size: 12, anchor: "end", color: COLORS.warmGray }));
+  });
+
+  return { svg: parts.join("\n"), bottom: cy + Math.max(radius, legendHeight / 2) };
+}
+
+function drawLineChart({ labels, series }: VisualDataFor<"lineChart">, top: number, filled: boolean): Drawn {
+  const left = PADDING + 44;
+  const right = WIDTH - PADDING - 8;
+  const plotTop = top + 6;
+  const plotHeight = 220;
+  const baseline = plotTop + plotHeight;
+  const count = Math.max(...series.map(entry => entry.values.length), labels.length, 1);
+  const values = series.flatMap(entry => entry.values);
+  const scale = niceScale(Math.min(0, ...values), Math.max(...values));
+  const x = (i: number) => (count === 1 ? (left + right) / 2 : left + ((right - left) * i) / (count - 1));
+  const y = (value: number) => baseline - ((value - scale.min) / (scale.max - scale.min)) * plotHeight;
+  const parts = [drawYAxis(scale, left, right, y)];
+
+  series.forEach((entry, index) => {
+    const color = PALETTE[index % PALETTE.length];
+    const points = entry.values.map((value, i) => `${x(i).toFixed(1)},${y(value).toFixed(1)}`);
+    if (filled) {
+      const zero = y(Math.max(scale.min, 0)).toFixed(1);
+      parts.push(`<path d="M${x(0).toFixed(1)} ${zero} L${points.join(" L")} L${x(entry.values.length - 1).toFixed(1)} ${zero} Z" fill="${color}" opacity="0.3"/>`);
+    }
+    parts.push(`<polyline points="${points.join(" ")}" fill="none" stroke="${color}" stroke-width="2.5" stroke-linejoin="round"/>`);
+    entry.values.forEach((value, i) => {
+      parts.push(`<circle cx="${x(i).toFixed(1)}" cy="${y(value).toFixed(1)}" r="3" fill="${color}"/>`);
+    });
+  });
+
+  // Thin out crowded x labels
+  const every = Math.ceil(count / 10);
+  labels.slice(0, count).forEach((label, i) => {
+    if (i % every === 0) {
+      parts.push(svgText(truncate(label, 12), x(i), baseline + 18, { size: 11, anchor: "middle", color: COLORS.warmGray }));
+    }
+  });
+
+  let bottom = baseline + (labels.length > 0 ? 26 : 6);
+  if (series.length > 1) {
+    const legend = drawLegend(series.map(entry => entry.name), bottom + 6);
+    parts.push(legend.svg);
+    bottom = legend.bottom;
+  }
+  return { svg: parts.join("\n"), bottom };
+}
+
+function drawScatter({ xLabel, yLabel, points }: VisualDataFor<"bubbleChart"> | VisualDataFor<"scatterPlot">, top: number): Drawn {
+  const left = PADDING + 56;
+  const right = WIDTH - PADDING - 8;
+  const plotHeight = 260;
+  const baseline = top + 12 + plotHeight;
+  // Pad the ranges so points (and bubbles) clear the plot edges
+  const padded = (values: number[]) => {
+    const pad = (Math.max(...values) - Math.min(...values)) * 0.1 || 1;
+    return niceScale(Math.min(...values) - pad, Math.max(...values) + pad);
+  };
+  const xScale = padded(points.map(point => point.x));
+  const yScale = padded(points.map(point => point.y));
+  const x = (value: number) => left + ((value - xScale.min) / (xScale.max - xScale.min)) * (right - left);
+  const y = (value: number) => baseline - ((value - yScale.min) / (yScale.max - yScale.min)) * plotHeight;
+  const maxSize = Math.max(...points.map(point => Math.abs(point.size ?? 0)), 1);
+  const parts = [drawYAxis(yScale, left, right, y)];
+
+  for (const tick of xScale.ticks) {
+    parts.push(svgText(formatNumber(tick), x(tick), baseline + 16, { size: 11, anchor: "middle", color: COLORS.warmGray }));
+  }
+  if (xLabel) {
+    parts.push(svgText(truncate(xLabel, 60), (left + right) / 2, baseline + 36, { size: 12, anchor: "middle", weight: "bold", color: COLORS.goldDark }));
+  }
+  if (yLabel) {
+    const cy = baseline - plotHeight / 2;
+    parts.push(`<text x="${PADDING + 4}" y="${cy}" font-size="12" font-weight="bold" text-anchor="middle" fill="${COLORS.goldDark}" transform="rotate(-90 ${PADDING + 4} ${cy})">${escapeXml(truncate(yLabel, 40))}</text>`);
+  }
+
+  for (const point of points) {
+    const radius = point.size === undefined ? 5 : Math.max(4, Math.sqrt(Math.abs(point.size) / maxSize) * 22);
+    const cx = x(point.x);
+    const cy = y(point.y);
+    parts.push(`<circle cx="${cx.toFixed(1)}" cy="${cy.toFixed(1)}" r="${radius.toFixed(1)}" fill="${COLORS.gold}" fill-opacity="0.6" stroke="${COLORS.goldDark}"/>`);
+    if (point.label) {
+      const anchor = cx > right - 90 ? "end" : "start";
+      parts.push(svgText(truncate(point.label, 20), cx + (anchor === "end" ? -radius - 4 : radius + 4), cy + 4, { size: 11, anchor }));
+    }
+  }
+
+  return { svg: parts.join("\n"), bottom: baseline + (xLabel ? 44 : 24) };
+}
+
+function drawRadar({ dimensions, max }: VisualDataFor<"radarChart">, top: number): Drawn {
+  if (dimensions.some(dimension => typeof dimension.value !== "number")) {
+    return drawSteps(dimensions, top);
+  }
+
+  const radius = 130;
+  const cx = WIDTH / 2;
+  const cy = top + radius + 24;
+  const limit = max ?? Math.max(...dimensions.map(dimension => dimension.value!), 1);
+  const angle = (i: number) => -Math.PI / 2 + (i * Math.PI * 2) / dimensions.length;
+  const ring = (fraction: number) =>
+    dimensions.map((_, i) => polar(cx, cy, radius * fraction, angle(i)).map(value => value.toFixed(1)).join(",")).join(" ");
+  const parts: string[] = [];
+
+  for (const fraction of [0.25, 0.5, 0.75, 1]) {
+    parts.push(`<polygon points="${ring(fraction)}" fill="none" stroke="${COLORS.goldLight}"/>`);
+  }
+  dimensions.forEach((dimension, i) => {
+    const [x, y] = polar(cx, cy, radius, angle(i));
+    const [lx, ly] = polar(cx, cy, radius + 18, angle(i));
+    const anchor = Math.abs(lx - cx) < 8 ? "middle" : lx > cx ? "start" : "end";
+    parts.push(`<line x1="${cx}" y1="${cy}" x2="${x.toFixed(1)}" y2="${y.toFixed(1)}" stroke="${COLORS.goldLight}"/>`);
+    parts.push(svgText(truncate(dimension.label, 22), lx, ly + 4, { size: 12, anchor }));
+  });
+
+  const shape = dimensions
+    .map((dimension, i) => polar(cx, cy, radius * Math.min(Math.max(dimension.value! / limit, 0), 1), angle(i)).map(value => value.toFixed(1)).join(","))
+    .join(" ");
+  parts.push(`<polygon points="${shape}" fill="${COLORS.gold}" fill-opacity="0.35" stroke="${COLORS.gold}" stroke-width="2"/>`);
+
+  return { svg: parts.join("\n"), bottom: cy + radius + 24 };
+}
+
+function drawGantt({ unit, tasks }: VisualDataFor<"ganttChart">, top: number): Drawn {
+  const labelWidth = 170;
+  const left = PADDING + labelWidth + 12;
+  const right = WIDTH - PADDING;
+  const start = Math.min(...tasks.map(task => task.start));
+  const end = Math.max(...tasks.map(task => task.end), start + 1);
+  const x = (value: number) => left + ((value - start) / (end - start)) * (right - left);
+  const phases = Array.from(new Set(tasks.map(task => task.phase).filter((phase): phase is string => Boolean(phase))));
+  const rowHeight = 28;
+  const parts: string[] = [];
+
+  tasks.forEach((task, index) => {
+    const y = top + index * rowHeight;
+    const color = task.phase ? PALETTE[phases.indexOf(task.phase) % PALETTE.length] : COLORS.gold;
+    parts.push(svgText(truncate(task.label, 26), PADDING + labelWidth, y + 18, { size: 12, anchor: "end" }));
+    parts.push(`<rect x="${x(task.start).toFixed(1)}" y="${y + 5}" width="${Math.max(x(task.end) - x(task.start), 3).toFixed(1)}" height="18" rx="3" fill="${color}"/>`);
+  });
+
+  const axisY = top + tasks.length * rowHeight + 4;
+  parts.push(`<line x1="${left}" y1="${axisY}" x2="${right}" y2="${axisY}" stroke="${COLORS.goldDark}"/>`);
+  parts.push(svgText(formatNumber(start), left, axisY + 16, { size: 11, color: COLORS.warmGray }));
+  parts.push(svgText(`${formatNumber(end)}${unit ? ` ${unit}` : ""}`, right, axisY + 16, { size: 11, anchor: "end", color: COLORS.warmGray }));
+
+  let bottom = axisY + 22;
+  if (phases.length > 1) {
+    const legend = drawLegend(phases, bottom + 6);
+    parts.push(legend.svg);
+    bottom = legend.bottom;
+  }
+  return { svg: parts.join("\n"), bottom };
+}
+
+// ---------------------------------------------------------------------------
+// Sequences
+// ---------------------------------------------------------------------------
+
+function drawSteps(items: { label: string; description?: string }[], top: number): Drawn {
+  const boxX = PADDING + 40;
+  const boxWidth = WIDTH - boxX - PADDING;
+  const parts: string[] = [];
+  let y = top;
+
+  items.forEach((item, index) => {
+    const labelLines = wrap(item.label, 62);
+    const descriptionLines = item.description ? wrap(item.description, 78) : [];
+    const height = 16 + labelLines.length * 18 + descriptionLines.length * 16 + 8;
+
+    parts.push(`<rect x="${boxX}" y="${y}" width="${boxWidth}" height="${height}" rx="6" fill="${COLORS.white}" stroke="${COLORS.gold}"/>`);
+    parts.push(`<circle cx="${PADDING + 14}" cy="${y + height / 2}" r="14" fill="${COLORS.gold}"/>`);
+    parts.push(svgText(String(index + 1), PADDING + 14, y + height / 2 + 5, { size: 13, weight: "bold", anchor: "middle", color: COLORS.white }));
+
+    let lineY = y + 26;
+    for (const line of labelLines) {
+      parts.push(svgText(line, boxX + 14, lineY, { size: 14, weight: "bold" }));
+      lineY += 18;
+    }
+    for (const line of descriptionLines) {
+      parts.push(svgText(line, boxX + 14, lineY, { size: 12, color: COLORS.warmGray }));
+      lineY += 16;
+    }
+
+    y += height;
+    if (index < items.length - 1) {
+      const x = PADDING + 14;
+      parts.push(`<path d="M${x} ${y + 2} V${y + 12} M${x - 4} ${y + 8} L${x} ${y + 13} L${x + 4} ${y + 8}" stroke="${COLORS.goldDark}" stroke-width="1.5" fill="none"/>`);
+      y += 16;
+    }
+  });
+
+  return { svg: parts.join("\n"), bottom: y };
+}
+
+function drawTimeline(events: VisualDataFor<"timeline">["events"], top: number): Drawn {
+  const lineX = PADDING + 110;
+  const textX = lineX + 22;
+  const parts: string[] = [];
+  let y = top;
+
+  const rows = events.map(event => {
+    const titleLines = wrap(event.title, 58);
+    const descriptionLines = event.description ? wrap(event.description, 70) : [];
+    return { event, titleLines, descriptionLines, height: Math.max(titleLines.length * 18 + descriptionLines.length * 16 + 14, 32) };
+  });
+  const total = rows.reduce((sum, row) => sum + row.height, 0);
+  parts.push(`<line x1="${lineX}" y1="${top + 6}" x2="${lineX}" y2="${top + total - 14}" stroke="${COLORS.goldLight}" stroke-width="3"/>`);
+
+  for (const row of rows) {
+    parts.push(`<circle cx="${lineX}" cy="${y + 12}" r="7" fill="${COLORS.gold}" stroke="${COLORS.white}" stroke-width="2"/>`);
+    if (row.event.date) {
+      parts.push(svgText(truncate(row.event.date, 14), lineX - 16, y + 17, { size: 13, weight: "bold", anchor: "end", color: COLORS.goldDark }));
+    }
+    let lineY = y + 17;
+    for (const line of row.titleLines) {
+      parts.push(svgText(line, textX, lineY, { size: 14, weight: "bold" }));
+      lineY += 18;
+    }
+    for (const line of row.descriptionLines) {
+      parts.push(svgText(line, textX, lineY, { size: 12, color: COLORS.warmGray }));
+      lineY += 16;
+    }
+    y += row.height;
+  }
+
+  return { svg: parts.join("\n"), bottom: y - 8 };
+}
+
+function drawCycle(steps: { label: string }[], top: number): Drawn {
+  if (steps.length < 3) return drawSteps(steps, top);
+
+  const boxWidth = 136;
+  const boxHeight = 52;
+  const radius = Math.min(80 + steps.length * 16, 170);
+  const cx = WIDTH / 2;
+  const cy = top + radius + boxHeight / 2;
+  const angle = (i: number) => -Math.PI / 2 + (i * Math.PI * 2) / steps.length;
+  const centers = steps.map((_, i) => polar(cx, cy, radius, angle(i)));
+  const parts: string[] = [];
+
+  centers.forEach(([x1, y1], i) => {
+    const [x2, y2] = centers[(i + 1) % centers.length];
+    const from = rectEdgePoint(x1, y1, x2, y2, boxWidth / 2 + 4, boxHeight / 2 + 4);
+    const to = rectEdgePoint(x2, y2, x1, y1, boxWidth / 2 + 6, boxHeight / 2 + 6);
+    parts.push(arrow(from[0], from[1], to[0], to[1]));
+  });
+  steps.forEach((step, i) => {
+    const [x, y] = centers[i];
+    parts.push(labelBox(step.label, x - boxWidth / 2, y - boxHeight / 2, boxWidth, boxHeight, { fill: i === 0 ? COLORS.gold : COLORS.white }));
+  });
+
+  return { svg: parts.join("\n"), bottom: cy + radius + boxHeight / 2 };
+}
+
+function drawPyramid(levels: { label: string; description?: string }[], top: number): Drawn {
+  const maxWidth = WIDTH - PADDING * 2;
+  const levelHeight = 46;
+  const parts: string[] = [];
+
+  // The first level is the apex
+  levels.forEach((level, i) => {
+    const topWidth = maxWidth * (0.3 + (0.7 * i) / levels.length);
+    const bottomWidth = maxWidth * (0.3 + (0.7 * (i + 1)) / levels.length);
+    const y = top + i * levelHeight;
+    const points = [
+      [WIDTH / 2 - topWidth / 2, y], [WIDTH / 2 + topWidth / 2, y],
+      [WIDTH / 2 + bottomWidth / 2, y + levelHeight - 3], [WIDTH / 2 - bottomWidth / 2, y + levelHeight - 3],
+    ].map(([x, py]) => `${x.toFixed(1)},${py.toFixed(1)}`).join(" ");
+    const opacity = (1 - (i * 0.55) / Math.max(levels.length, 1)).toFixed(2);
+    parts.push(`<polygon points="${points}" fill="${COLORS.gold}" fill-opacity="${opacity}"/>`);
+
+    const chars = Math.floor(topWidth / 7.5);
+    const text = level.description ? `${level.label}: ${level.description}` : level.label;
+    parts.push(svgText(truncate(text, Math.max(chars, 12)), WIDTH / 2, y + levelHeight / 2 + 3, { size: 13, weight: "bold", anchor: "middle" }));
+  });
+
+  return { svg: parts.join("\n"), bottom: top + levels.length * levelHeight };
+}
+
+function drawFunnel(stages: { label: string; value?: number }[], top: number): Drawn {
+  const maxWidth = WIDTH - PADDING * 2;
+  const stageHeight = 44;
+  const hasValues = stages.every(stage => typeof stage.value === "number");
+  const max = hasValues ? Math.max(...stages.map(stage => Math.abs(stage.value!)), 1) : 1;
+  const widthAt = (i: number): number => {
+    if (i >= stages.length) return widthAt(stages.length - 1) * 0.85;
+    return hasValues
+      ? maxWidth * Math.max(Math.abs(stages[i].value!) / max, 0.2)
+      : maxWidth * (1 - (0.6 * i) / Math.max(stages.length - 1, 1));
+  };
+  const parts: string[] = [];
+
+  stages.forEach((stage, i) => {
+    const y = top + i * stageHeight;
+    const upper = widthAt(i);
+    const lower = widthAt(i + 1);
+    const points = [
+      [WIDTH / 2 - upper / 2, y], [WIDTH / 2 + upper / 2, y],
+      [WIDTH / 2 + lower / 2, y + stageHeight - 3], [WIDTH / 2 - lower / 2, y + stageHeight - 3],
+    ].map(([x, py]) => `${x.toFixed(1)},${py.toFixed(1)}`).join(" ");
+    parts.push(`<polygon points="${points}" fill="${PALETTE[i % 2 === 0 ? 0 : 2]}"/>`);
+    const text = hasValues ? `${stage.label} · ${formatNumber(stage.value!)}` : stage.label;
+    parts.push(svgText(truncate(text, Math.max(Math.floor(lower / 7.5), 12)), WIDTH / 2, y + stageHeight / 2 + 3, { size: 13, weight: "bold", anchor: "middle" }));
+  });
+
+  return { svg: parts.join("\n"), bottom: top + stages.length * stageHeight };
+}
+
+// ---------------------------------------------------------------------------
+// Maps and graphs
+// ---------------------------------------------------------------------------
+
+function drawHierarchy(root: string, children: { label: string; description?: string }[], top: number): Drawn {
+  const rootWidth = 240;
+  const rootHeight = 48;
+  const perRow = Math.min(children.length, 4);
+  const gap = 12;
+  const childWidth = (WIDTH - PADDING * 2 - gap * (perRow - 1)) / perRow;
+  const charsPerLine = Math.floor(childWidth / 7);
+  const parts = [labelBox(root, WIDTH / 2 - rootWidth / 2, top, rootWidth, rootHeight, { fill: COLORS.gold })];
+  const busY = top + rootHeight + 16;
+  let y = busY + 16;
+
+  parts.push(`<line x1="${WIDTH / 2}" y1="${top + rootHeight}" x2="${WIDTH / 2}" y2="${busY}" stroke="${COLORS.goldDark}" stroke-width="1.5"/>`);
+
+  for (let start = 0; start < children.length; start += perRow) {
+    const row = children.slice(start, start + perRow).map(child => ({
+      child,
+      labelLines: wrap(child.label, charsPerLine - 2).slice(0, 3),
+      descriptionLines: child.description ? wrap(child.description, charsPerLine + 2).slice(0, 4) : [],
+    }));
+    const height = Math.max(...row.map(card => 20 + card.labelLines.length * 17 + card.descriptionLines.length * 15));
+    const rowWidth = row.length * childWidth + (row.length - 1) * gap;
+    const rowLeft = (WIDTH - rowWidth) / 2;
+
+    if (start === 0) {
+      const firstX = rowLeft + childWidth / 2;
+      const lastX = rowLeft + rowWidth - childWidth / 2;
+      parts.push(`<line x1="${firstX.toFixed(1)}" y1="${busY}" x2="${lastX.toFixed(1)}" y2="${busY}" stroke="${COLORS.goldDark}" stroke-width="1.5"/>`);
+    }
+
+    row.forEach((card, column) => {
+      const x = rowLeft + column * (childWidth + gap);
+      if (start === 0) {
+        parts.push(`<line x1="${(x + childWidth / 2).toFixed(1)}" y1="${busY}" x2="${(x + childWidth / 2).toFixed(1)}" y2="${y}" stroke="${COLORS.goldDark}" stroke-width="1.5"/>`);
+      }
+      parts.push(`<rect x="${x.toFixed(1)}" y="${y}" width="${childWidth.toFixed(1)}" height="${height}" rx="6" fill="${COLORS.white}" stroke="${COLORS.gold}"/>`);
+      let lineY = y + 20;
+      for (const line of card.labelLines) {
+        parts.push(svgText(line, x + childWidth / 2, lineY, { size: 13, weight: "bold", anchor: "middle" }));
+        lineY += 17;
+      }
+      for (const line of card.descriptionLines) {
+        parts.push(svgText(line, x + childWidth / 2, lineY, { size: 11, anchor: "middle", color: COLORS.warmGray }));
+        lineY += 15;
+      }
+    });
+
+    y += height + gap;
+  }
+
+  return { svg: parts.join("\n"), bottom: y - gap };
+}
+
+function drawMindMap(center: string, branches: { label: string; children: string[] }[], top: number): Drawn {
+  const centerWidth = 150;
+  const branchX = PADDING + centerWidth + 70;
+  const branchWidth = 150;
+  const childX = branchX + branchWidth + 14;
+  const childChars = Math.floor((WIDTH - PADDING - childX) / 6.5);
+  const parts: string[] = [];
+  const links: string[] = [];
+  let y = top;
+
+  const rows = branches.map(branch => {
+    const childLines = branch.children.slice(0, 8).flatMap(child => wrap(`• ${child}`, childChars));
+    return { branch, childLines, height: Math.max(44, childLines.length * 15 + 12) };
+  });
+  const total = rows.reduce((sum, row) => sum + row.height, 0) + (rows.length - 1) * 10;
+  const centerY = top + total / 2;
+
+  for (const row of rows) {
+    const branchY = y + row.height / 2;
+    links.push(`<path d="M${PADDING + centerWidth} ${centerY.toFixed(1)} C${PADDING + centerWidth + 40} ${centerY.toFixed(1)} ${branchX - 40} ${branchY.toFixed(1)} ${branchX} ${branchY.toFixed(1)}" fill="none" stroke="${COLORS.goldLight}" stroke-width="2.5"/>`);
+    parts.push(labelBox(row.branch.label, branchX, branchY - 20, branchWidth, 40, { fill: COLORS.white }));
+
+    let lineY = branchY - (row.childLines.length * 15) / 2 + 11;
+    for (const line of row.childLines) {
+      parts.push(svgText(line, childX, lineY, { size: 11, color: COLORS.warmGray }));
+      lineY += 15;
+    }
+    y += row.height + 10;
+  }
+
+  parts.unshift(labelBox(center, PADDING, centerY - 32, centerWidth, 64, { fill: COLORS.gold, size: 14 }));
+  return { svg: [...links, ...parts].join("\n"), bottom: top + total };
+}
+
+function drawGraph(
+  nodes: { id?: string; label: string; group?: string }[],
+  edges: { from: string; to: string; label?: string }[],
+  top: number,
+  { directed }: { directed: boolean }
+): Drawn {
+  const boxWidth = 124;
+  const boxHeight = 40;
+  const rx = WIDTH / 2 - PADDING - boxWidth / 2;
+  const ry = Math.min(70 + nodes.length * 14, 170);
+  const cx = WIDTH / 2;
+  const cy = top + ry + boxHeight / 2;
+  const groups = Array.from(new Set(nodes.map(node => node.group).filter((group): group is string => Boolean(group))));
+  const positions = new Map<string, [number, number]>();
+  const parts: string[] = [];
+  const labels: string[] = [];
+
+  nodes.forEach((node, i) => {
+    const angle = -Math.PI / 2 + (i * Math.PI * 2) / nodes.length;
+    const point: [number, number] = nodes.length === 1 ? [cx, cy] : [cx + rx * Math.cos(angle), cy + ry * Math.sin(angle)];
+    positions.set(node.label, point);
+    if (node.id) positions.set(node.id, point);
+  });
+
+  for (const edge of edges) {
+    const from = positions.get(edge.from);
+    const to = positions.get(edge.to);
+    if (!from || !to || from === to) continue;
+    const start = rectEdgePoint(from[0], from[1], to[0], to[1], boxWidth / 2, boxHeight / 2);
+    const end = rectEdgePoint(to[0], to[1], from[0], from[1], boxWidth / 2 + 3, boxHeight / 2 + 3);
+    parts.push(directed
+      ? arrow(start[0], start[1], end[0], end[1])
+      : `<line x1="${start[0].toFixed(1)}" y1="${start[1].toFixed(1)}" x2="${end[0].toFixed(1)}" y2="${end[1].toFixed(1)}" stroke="${COLORS.goldDark}" stroke-width="1.5"/>`);
+    if (edge.label) {
+      const text = truncate(edge.label, 20);
+      const mx = (start[0] + end[0]) / 2;
+      const my = (start[1] + end[1]) / 2;
+      labels.push(`<rect x="${(mx - text.length * 3.1 - 4).toFixed(1)}" y="${(my - 9).toFixed(1)}" width="${(text.length * 6.2 + 8).toFixed(1)}" height="15" rx="3" fill="${COLORS.cream}"/>`);
+      labels.push(svgText(text, mx, my + 3, { size: 10, anchor: "middle", color: COLORS.goldDark }));
+    }
+  }
+
+  nodes.forEach(node => {
+    const [x, y] = positions.get(node.id ?? node.label)!;
+    const fill = node.group ? PALETTE[groups.indexOf(node.group) % PALETTE.length] : COLORS.white;
+    parts.push(labelBox(node.label, x - boxWidth / 2, y - boxHeight / 2, boxWidth, boxHeight, { fill, size: 12 }));
+  });
+
+  let bottom = cy + ry + boxHeight / 2;
+  const svg = [...parts, ...labels];
+  if (groups.length > 1) {
+    const legend = drawLegend(groups, bottom + 12);
+    svg.push(legend.svg);
+    bottom = legend.bottom;
+  }
+  return { svg: svg.join("\n"), bottom };
+}
+
+function drawVenn({ sets, overlap }: VisualDataFor<"vennDiagram">, top: number): Drawn {
+  const radius = 96;
+  const cx = WIDTH / 2;
+  const centers: [number, number][] = sets.length === 2
+    ? [[cx - 58, top + radius + 4], [cx + 58, top + radius + 4]]
+    : [[cx - 58, top + radius + 4], [cx + 58, top + radius + 4], [cx, top + radius + 96]];
+  const parts: string[] = [];
+
+  sets.forEach((set, i) => {
+    const [x, y] = centers[i];
+    parts.push(`<circle cx="${x}" cy="${y}" r="${radius}" fill="${PALETTE[i]}" fill-opacity="0.35" stroke="${PALETTE[i]}" stroke-width="2"/>`);
+    const [lx, ly] = [x + (x - cx) * 0.9, y + (sets.length === 3 && i === 2 ? 40 : -30)];
+    parts.push(svgText(truncate(set.label, 18), lx, ly, { size: 13, weight: "bold", anchor: "middle", color: COLORS.charcoal }));
+  });
+  if (overlap?.label) {
+    const oy = sets.length === 2 ? centers[0][1] + 4 : top + radius + 40;
+    parts.push(svgText(truncate(overlap.label, 14), cx, oy, { size: 12, weight: "bold", anchor: "middle", color: COLORS.goldDark }));
+  }
+
+  const diagramBottom = Math.max(...centers.map(([, y]) => y)) + radius + 16;
+  const groups = [
+    ...sets.map(set => ({ label: set.label, items: set.items })),
+    ...(overlap?.items.length ? [{ label: overlap.label || "Shared", items: overlap.items }] : []),
+  ].filter(group => group.items.length > 0);
+  if (groups.length === 0) return { svg: parts.join("\n"), bottom: diagramBottom - 16 };
+
+  const list = drawGroups(groups, diagramBottom);
+  return { svg: [...parts, list.svg].join("\n"), bottom: list.bottom };
+}
+
+// ---------------------------------------------------------------------------
+// Matrices and cards
+// ---------------------------------------------------------------------------
+
+function drawTable(visualType: "comparisonMatrix" | "comparisonTable", data: unknown, top: number): Drawn {
+  const table = visualTable(visualType, data)!;
+  return drawGrid(table.headers, table.rows, top);
+}
+
+function drawHeatmap({ rows, columns, values }: VisualDataFor<"heatmap">, top: number): Drawn {
+  const numbers = values.flat();
+  const min = Math.min(...numbers);
+  const max = Math.max(...numbers);
+  return drawGrid(
+    ["", ...columns],
+    rows.map((row, i) => [row, ...columns.map((_, j) => (values[i]?.[j] === undefined ? "" : formatNumber(values[i][j])))]),
+    top,
+    (i, j) => {
+      const value = values[i]?.[j];
+      if (value === undefined) return undefined;
+      return (0.15 + 0.85 * (max === min ? 1 : (value - min) / (max - min))).toFixed(2);
+    }
+  );
+}
+
+/**
+ * Table with a gold header row; a blank first header makes the first
+ * column row labels. `shade` gives a cell's gold opacity (heatmaps).
+ */
+function drawGrid(headers: string[], rows: string[][], top: number, shade?: (row: number, column: number) => string | undefined): Drawn {
+  const rowLabels = headers[0] === "";
+  const available = WIDTH - PADDING * 2;
+  const firstWidth = rowLabels ? Math.min(available * 0.3, 160) : available / headers.length;
+  const otherWidth = headers.length > 1 ? (available - firstWidth) / (headers.length - 1) : available;
+  const columnX = headers.map((_, i) => PADDING + (i === 0 ? 0 : firstWidth + (i - 1) * otherWidth));
+  const columnWidth = (i: number) => (i === 0 ? firstWidth : otherWidth);
+  const cellLines = (text: string, i: number) => wrap(text, Math.max(Math.floor(columnWidth(i) / 6.8), 4)).slice(0, 4);
+  const parts: string[] = [];
+  let y = top;
+
+  const drawRow = (cells: string[], header: boolean, rowIndex: number) => {
+    const lines = headers.map((_, i) => cellLines(cells[i] ?? "", i));
+    const height = Math.max(...lines.map(entry => entry.length), 1) * 15 + 14;
+    headers.forEach((_, i) => {
+      const isLabel = header || (rowLabels && i === 0);
+      const opacity = !header && i > 0 && shade ? shade(rowIndex, i - 1) : undefined;
+      const fill = header ? COLORS.gold : opacity ? COLORS.gold : isLabel ? COLORS.cream : COLORS.white;
+      parts.push(`<rect x="${columnX[i].toFixed(1)}" y="${y}" width="${columnWidth(i).toFixed(1)}" height="${height}" fill="${fill}"${opacity ? ` fill-opacity="${opacity}"` : ""} stroke="${COLORS.goldLight}"/>`);
+      lines[i].forEach((line, j) => {
+        parts.push(svgText(line, columnX[i] + 8, y + 19 + j * 15, {
+          size: 12,
+          weight: isLabel ? "bold" : "normal",
+          color: header ? COLORS.white : COLORS.charcoal,
+        }));
+      });
+    });
+    y += height;
+  };
+
+  drawRow(headers, true, -1);
+  rows.forEach((row, i) => drawRow(row, false, i));
+  return { svg: parts.join("\n"), bottom: y };
+}
+
+function drawQuadrants(
+  cells: { label: string; items: string[] }[],
+  top: number,
+  { xAxis, yAxis }: { xAxis?: { label?: string; low?: string; high?: string }; yAxis?: { label?: string; low?: string; high?: string } }
+): Drawn {
+  const axisSpace = yAxis ? 28 : 0;
+  const gap = 10;
+  const left = PADDING + axisSpace;
+  const cardWidth = (WIDTH - left - PADDING - gap) / 2;
+  const charsPerLine = Math.floor(cardWidth / 7);
+  const parts: string[] = [];
+  let y = top;
+
+  // Quadrants fill the grid row by row
+  for (let start = 0; start < cells.length; start += 2) {
+    const row = cells.slice(start, start + 2).map(cell => ({
+      cell,
+      itemLines: cell.items.slice(0, 10).flatMap(item => wrap(`• ${item}`, charsPerLine)),
+    }));
+    const height = Math.max(...row.map(card => 40 + card.itemLines.length * 16), 90);
+
+    row.forEach((card, column) => {
+      const x = left + column * (cardWidth + gap);
+      const color = PALETTE[(start + column) % 4];
+      parts.push(`<rect x="${x.toFixed(1)}" y="${y}" width="${cardWidth.toFixed(1)}" height="${height}" rx="6" fill="${COLORS.white}" stroke="${color}" stroke-width="1.5"/>`);
+      parts.push(`<rect x="${x.toFixed(1)}" y="${y}" width="${cardWidth.toFixed(1)}" height="28" rx="6" fill="${color}"/>`);
+      parts.push(svgText(truncate(card.cell.label, charsPerLine), x + 12, y + 19, { size: 13, weight: "bold", color: COLORS.white }));
+      card.itemLines.forEach((line, i) => {
+        parts.push(svgText(line, x + 12, y + 46 + i * 16, { size: 12 }));
+      });
+    });
+    y += height + gap;
+  }
+  y -= gap;
+
+  if (yAxis) {
+    const cy = (top + y) / 2;
+    const text = [yAxis.low, yAxis.label, yAxis.high].filter(Boolean).join("  →  ");
+    parts.push(`<text x="${PADDING + 8}" y="${cy.toFixed(1)}" font-size="11" font-weight="bold" text-anchor="middle" fill="${COLORS.goldDark}" transform="rotate(-90 ${PADDING + 8} ${cy.toFixed(1)})">${escapeXml(truncate(text, 50))}</text>`);
+  }
+  if (xAxis) {
+    const text = [xAxis.low, xAxis.label, xAxis.high].filter(Boolean).join("  →  ");
+    parts.push(svgText(truncate(text, 80), (left + WIDTH - PADDING) / 2, y + 20, { size: 11, weight: "bold", anchor: "middle", color: COLORS.goldDark }));
+    y += 26;
+  }
+
+  return { svg: parts.join("\n"), bottom: y };
+}
+
+function drawInfographic(stats: { label: string; value?: string }[], highlights: string[], top: number): Drawn {
+  const perRow = Math.min(stats.length, 3);
+  const gap = 12;
+  const cardWidth = (WIDTH - PADDING * 2 - gap * (perRow - 1)) / perRow;
+  const parts: string[] = [];
+  let y = top;
+
+  for (let start = 0; start < stats.length; start += perRow) {
+    const row = stats.slice(start, start + perRow).map(stat => ({ stat, labelLines: wrap(stat.label, Math.floor(cardWidth / 7)).slice(0, 3) }));
+    const height = Math.max(...row.map(card => (card.stat.value ? 44 : 16) + card.labelLines.length * 16 + 8));
+    row.forEach((card, column) => {
+      const x = PADDING + column * (cardWidth + gap);
+      parts.push(`<rect x="${x.toFixed(1)}" y="${y}" width="${cardWidth.toFixed(1)}" height="${height}" rx="8" fill="${COLORS.white}" stroke="${COLORS.goldLight}"/>`);
+      let lineY = y + 22;
+      if (card.stat.value) {
+        parts.push(svgText(truncate(card.stat.value, 14), x + cardWidth / 2, y + 36, { size: 26, weight: "bold", anchor: "middle", color: COLORS.gold }));
+        lineY = y + 58;
+      }
+      card.labelLines.forEach((line, i) => {
+        parts.push(svgText(line, x + cardWidth / 2, lineY + i * 16, { size: 12, anchor: "middle", color: COLORS.warmGray }));
+      });
+    });
+    y += height + gap;
+  }
+
+  if (highlights.length === 0) return { svg: parts.join("\n"), bottom: y - gap };
+  const list = drawGroups([{ label: "Highlights", items: highlights }], y + 4);
+  return { svg: [...parts, list.svg].join("\n"), bottom: list.bottom };
+}
+
+function drawGroups(groups: { label: string; items: string[] }[], top: number): Drawn {
+  const gap = 12;
+  const columns = groups.length > 1 ? 2 : 1;
+  const cardWidth = (WIDTH - PADDING * 2 - gap * (columns - 1)) / columns;
+  const charsPerLine = Math.floor(cardWidth / 7);
+  const parts: string[] = [];
+  let y = top;
+
+  for (let rowStart = 0; rowStart < groups.length; rowStart += columns) {
+    const row = groups.slice(rowStart, rowStart + columns).map(group => ({
+      group,
+      labelLines: wrap(group.label, Math.floor(cardWidth / 8)),
+      itemLines: group.items.slice(0, 12).flatMap(item => wrap(`• ${item}`, charsPerLine)),
+    }));
+    const height = Math.max(...row.map(card => 20 + card.labelLines.length * 18 + card.itemLines.length * 16 + 8));
+
+    row.forEach((card, column) => {
+      const x = PADDING + column * (cardWidth + gap);
+      parts.push(`<rect x="${x}" y="${y}" width="${cardWidth}" height="${height}" rx="6" fill="${COLORS.white}" stroke="${COLORS.goldLight}"/>`);
+      parts.push(`<rect x="${x}" y="${y}" width="4" height="${height}" fill="${COLORS.gold}"/>`);
+
+      let lineY = y + 24;
+      for (const line of card.labelLines) {
+        parts.push(svgText(line, x + 14, lineY, { size: 14, weight: "bold", color: COLORS.goldDark }));
+        lineY += 18;
+      }
+      for (const line of card.itemLines) {
+        parts.push(svgText(line, x + 14, lineY, { size: 12 }));
+        lineY += 16;
+      }
+    });
+
+    y += height + gap;
+  }
+
+  return { svg: parts.join("\n"), bottom: y - gap };
+}
+
+// ---------------------------------------------------------------------------
+// Drawing helpers
+// ---------------------------------------------------------------------------
+
+/**
+ * Rounded box with its label centered and wrapped to at most three lines
+ */
+function labelBox(text: string, x: number, y: number, width: number, height: number, { fill, size = 13 }: { fill: string; size?: number }): string {
+  const lines = wrap(text, Math.floor(width / (size * 0.55))).slice(0, 3);
+  const lineHeight = size + 3;
+  const firstY = y + height / 2 - ((lines.length - 1) * lineHeight) / 2 + size * 0.35;
+  return [
+    `<rect x="${x.toFixed(1)}" y="${y.toFixed(1)}" width="${width}" height="${height}" rx="8" fill="${fill}" stroke="${COLORS.gold}" stroke-width="1.5"/>`,
+    ...lines.map((line, i) => svgText(line, x + width / 2, firstY + i * lineHeight, { size, weight: "bold", anchor: "middle" })),
+  ].join("\n");
+}
+
+// Arrowheads are drawn as paths, not markers, so several visuals on one
+// page never share element IDs
+function arrow(x1: number, y1: number, x2: number, y2: number): string {
+  const angle = Math.atan2(y2 - y1, x2 - x1);
+  const head = [angle + Math.PI * 0.85, angle - Math.PI * 0.85]
+    .map(side => `${(x2 + 8 * Math.cos(side)).toFixed(1)},${(y2 + 8 * Math.sin(side)).toFixed(1)}`);
+  return `<line x1="${x1.toFixed(1)}" y1="${y1.toFixed(1)}" x2="${x2.toFixed(1)}" y2="${y2.toFixed(1)}" stroke="${COLORS.goldDark}" stroke-width="1.5"/>
+<polygon points="${x2.toFixed(1)},${y2.toFixed(1)} ${head.join(" ")}" fill="${COLORS.goldDark}"/>`;
+}
+
+/**
+ * Where the line from a box center toward (tx, ty) leaves the box
+ */
+function rectEdgePoint(cx: number, cy: number, tx: number, ty: number, halfWidth: number, halfHeight: number): [number, number] {
+  const dx = tx - cx;
+  const dy = ty - cy;
+  if (dx === 0 && dy === 0) return [cx, cy];
+  const scale = Math.min(dx === 0 ? Infinity : halfWidth / Math.abs(dx), dy === 0 ? Infinity : halfHeight / Math.abs(dy));
+  return [cx + dx * scale, cy + dy * scale];
+}
+
+function polar(cx: number, cy: number, radius: number, angle: number): [number, number] {
+  return [cx + radius * Math.cos(angle), cy + radius * Math.sin(angle)];
+}
+
+interface Scale {
+  min: number;
+  max: number;
+  ticks: number[];
+}
+
+/**
+ * Round axis bounds with four or five evenly spaced ticks
+ */
+function niceScale(min: number, max: number): Scale {
+  if (min === max) {
+    min -= 1;
+    max += 1;
+  }
+  const rough = (max - min) / 4;
+  const magnitude = Math.pow(10, Math.floor(Math.log10(rough)));
+  const step = [1, 2, 2.5, 5, 10].map(factor => factor * magnitude).find(candidate => candidate >= rough)!;
+  const niceMin = Math.floor(min / step) * step;
+  const niceMax = Math.ceil(max / step) * step;
+  const ticks: number[] = [];
+  for (let tick = niceMin; tick <= niceMax + step / 2; tick += step) {
+    ticks.push(Number(tick.toFixed(6)));
+  }
+  return { min: niceMin, max: niceMax, ticks };
+}
+
+function drawYAxis(scale: Scale, left: number, right: number, y: (value: number) => number): string {
+  return scale.ticks.map(tick => [
+    `<line x1="${left}" y1="${y(tick).toFixed(1)}" x2="${right}" y2="${y(tick).toFixed(1)}" stroke="${tick === 0 ? COLORS.goldDark : COLORS.goldLight}" stroke-width="${tick === 0 ? 1.5 : 1}"/>`,
+    svgText(formatNumber(tick), left - 8, y(tick) + 4, { size: 11, anchor: "end", color: COLORS.warmGray }),
+  ].join("\n")).join("\n");
+}
+
+function drawLegend(names: string[], top: number): Drawn {
+  const parts: string[] = [];
+  let x = PADDING;
+  let y = top;
+  names.forEach((name, i) => {
+    const text = truncate(name, 24);
+    const width = 22 + text.length * 7 + 16;
+    if (x + width > WIDTH - PADDING && x > PADDING) {
+      x = PADDING;
+      y += 20;
+    }
+    parts.push(`<rect x="${x}" y="${y}" width="12" height="12" rx="2" fill="${PALETTE[i % PALETTE.length]}"/>`);
+    parts.push(svgText(text, x + 18, y + 10, { size: 12 }));
+    x += width;
+  });
+  return { svg: parts.join("\n"), bottom: y + 14 };
+}
+
+function svgText(
+  text: string,
+  x: number,
+  y: number,
+  { size, weight = "normal", anchor = "start", color = COLORS.charcoal }: { size: number; weight?: string; anchor?: string; color?: string }
+): string {
+  return `<text x="${x.toFixed(1)}" y="${y.toFixed(1)}" font-size="${size}" font-weight="${weight}" text-anchor="${anchor}" fill="${color}">${escapeXml(text)}</text>`;
+}
+
+/**
+ * Greedy word wrap by character count (the fonts are not measured)
+ */
+function wrap(text: string, maxChars: number): string[] {
+  const lines: string[] = [];
+  let line = "";
+  for (const word of text.split(/\s+/).filter(Boolean)) {
+    if (line && line.length + word.length + 1 > maxChars) {
+      lines.push(line);
+      line = word;
+    } else {
+      line = line ? `${line} ${word}` : word;
+    }
+  }
+  if (line) lines.push(line);
+  return lines.map(entry => truncate(entry, maxChars));
+}
+
+function truncate(text: string, maxChars: number): string {
+  return text.length > maxChars ? `${text.slice(0, maxChars - 1)}…` : text;
+}
+
+function formatNumber(value: number): string {
+  return Number.isInteger(value) ? String(value) : value.toFixed(1);
+}
+
+function escapeXml(text: string): string {
+  return text
+    // Control characters are not allowed in XML 1.0 (EPUB chapters embed the SVG)
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, "")
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
@@ -0,0 +1,119 @@
+/**
+ * Visual Validation
+ *
+ * Checks every section's visualData against the shared visual registry
+ * before it is stored. Data that does not validate gets one repair attempt
+ * from Claude with the expected structure and the validation errors; if it
+ * still fails the visual is dropped so the section renders as text instead
+ * of as an empty or broken chart.
+ */
+
+import { generateWithClaude } from './dualLLMService';
+import { logGeneration, logError } from './debugLogger';
+import { VISUAL_REGISTRY, parseVisualData } from '../../shared/visuals';
+import type { VisualType } from '../../shared/types';
+import type { PremiumSection } from './stage1ContentGeneration';
+
+// Bound the extra model calls spent on one guide
+const MAX_REPAIRS = 8;
+
+export interface VisualValidationSummary {
+  valid: number;
+  repaired: number;
+  dropped: number;
+}
+
+/**
+ * Validate the visuals of every section, repairing or dropping invalid ones
+ */
+export async function validateSectionVisuals(
+  sections: PremiumSection[],
+  signal?: AbortSignal
+): Promise<{ sections: PremiumSection[]; summary: VisualValidationSummary }> {
+  const summary: VisualValidationSummary = { valid: 0, repaired: 0, dropped: 0 };
+  let repairsLeft = MAX_REPAIRS;
+  const result: PremiumSection[] = [];
+
+  for (const section of sections) {
+    if (!section.visualType) {
+      result.push(section);
+      continue;
+    }
+
+    const parsed = parseVisualData(section.visualType, section.visualData);
+    if (parsed.success) {
+      summary.valid++;
+      result.push({ ...section, visualType: parsed.visualType, visualData: parsed.data });
+      continue;
+    }
+
+    if (parsed.visualType && repairsLeft > 0) {
+      repairsLeft--;
+      const repaired = await repairVisualData(section, parsed.visualType, parsed.error, signal);
+      if (repaired) {
+        summary.repaired++;
+        result.push({ ...section, visualType: parsed.visualType, visualData: repaired });
+        continue;
+      }
+    }
+
+    summary.dropped++;
+    logError('generation', 'Dropping invalid visual', {
+      section: section.title,
+      visualType: section.visualType,
+      error: parsed.error,
+    });
+    result.push({ ...section, visualType: undefined, visualData: undefined });
+  }
+
+  logGeneration('Visual validation complete', { ...summary });
+  return { sections: result, summary };
+}
+
+/**
+ * Ask Claude to rewrite invalid visualData into the registry structure
+ */
+async function repairVisualData(
+  section: PremiumSection,
+  visualType: VisualType,
+  error: string,
+  signal?: AbortSignal
+): Promise<Record<string, unknown> | null> {
+  const visual = VISUAL_REGISTRY[visualType];
+  const system = `You fix visualization data so it matches a required JSON structure. Respond with valid JSON only.`;
+  const user = `Section: "${section.title}"
+${section.content.slice(0, 2000)}
+
+Visual type: ${visualType} (${visual.description})
+Required structure${visual.note ? ` (${visual.note})` : ''}:
+${JSON.stringify(visual.example)}
+
+Current data:
+${JSON.stringify(section.visualData ?? {}).slice(0, 4000)}
+
+Validation errors: ${error}
+
+Return the corrected visualData as a JSON object. Fill it from the section content if the current data is missing or empty.`;
+
+  try {
+    const response = await generateWithClaude(system, user, 2048, { signal });
+    let jsonStr = response.content;
+    const jsonMatch = jsonStr.match(/```(?:json)?\s*([\s\S]*?)```/);
+    if (jsonMatch) {
+      jsonStr = jsonMatch[1];
+    }
+
+    const parsed = parseVisualData(visualType, JSON.parse(jsonStr.trim()));
+    return parsed.success ? parsed.data : null;
+  } catch (err) {
+    if (signal?.aborted) {
+      throw err;
+    }
+    logError('generation', 'Visual repair failed', {
+      section: section.title,
+      visualType,
+      error: err instanceof Error ? err.message : String(err),
+    });
+    return null;
+  }
+}
@@ -0,0 +1,139 @@
+import { describe, it, expect } from 'vitest';
+import AdmZip from 'adm-zip';
+import { buildVault } from './services/vaultExport';
+import type { BookAnalysis } from './services/stage0BookAnalysis';
+import type { InsightSection } from './services/insightGeneration';
+
+const analysis = {
+  structure: {
+    totalChapters: 2,
+    chapterTitles: ['The Fundamentals', 'The 1st Law'],
+    logicalGroupings: [],
+    chaptersStandaloneOrSequential: 'Sequential',
+  },
+  coreConcepts: [
+    {
+      conceptName: 'Habit Loop',
+      chapterSource: 'The Fundamentals',
+      briefDescription: 'Cue, craving, response, reward.',
+      recommendedVisual: 'flowDiagram',
+      visualRationale: '',
+      exampleDomains: ['Health'],
+    },
+    {
+      conceptName: 'Identity-Based Habits',
+      chapterSource: 'The Fundamentals',
+      briefDescription: 'Change who you are, not only what you do.',
+      recommendedVisual: 'conceptMap',
+      visualRationale: '',
+      exampleDomains: [],
+    },
+    {
+      conceptName: 'Habit Stacking',
+      chapterSource: 'The 1st Law',
+      briefDescription: 'Attach a new habit to the Habit Loop of an old one.',
+      recommendedVisual: 'processFlow',
+      visualRationale: '',
+      exampleDomains: [],
+    },
+  ],
+  crossReferences: {
+    psychologicalFrameworks: ['Operant conditioning'],
+    philosophicalTraditions: [],
+    neuroscienceResearch: [],
+    relatedPopularWorks: ['The Power of Habit: Duhigg'],
+  },
+} as unknown as BookAnalysis;
+
+function build(sections: InsightSection[], withAnalysis = true) {
+  const { buffer, noteCount } = buildVault({
+    title: 'Atomic Habits Insights',
+    author: 'James Clear',
+    summary: 'Small habits compound.',
+    sections,
+    keyThemes: ['Habits', 'Identity'],
+    bookTitle: 'Atomic Habits',
+    generatedAt: new Date('2026-01-01'),
+    analysis: withAnalysis ? analysis : null,
+  });
+  const zip = new AdmZip(buffer);
+  return { zip, noteCount, read: (path: string) => zip.readAsText(`Atomic Habits/${path}`) };
+}
+
+const sections: InsightSection[] = [
+  { type: 'paragraph', content: 'Before any heading.' },
+  { type: 'heading', content: 'The Habit Loop' },
+  { type: 'paragraph', content: 'Every habit runs through the habit loop.' },
+  { type: 'heading', content: 'Who: You Become' },
+  { type: 'quote', content: 'Every action is a vote for identity-based habits.' },
+];
+
+describe('Vault Export', () => {
+  it('should write a note per section with frontmatter', () => {
+    const { zip, noteCount, read } = build(sections, false);
+
+    expect(noteCount).toBe(3);
+    expect(zip.getEntries().map(entry => entry.entryName)).toEqual([
+      'Atomic Habits/Atomic Habits Insights.md',
+      'Atomic Habits/Sections/01 The Habit Loop.md',
+      'Atomic Habits/Sections/02 Who You Become.md',
+    ]);
+
+    const note = read('Sections/02 Who You Become.md');
+    expect(note.startsWith([
+      '---',
+      'book: "Atomic Habits"',
+      'author: "James Clear"',
+      'themes:',
+      '  - "Habits"',
+      '  - "Identity"',
+      'type: "section"',
+      'order: 2',
+      'section_types:',
+      '  - "quote"',
+      '---',
+    ].join('\n'))).toBe(true);
+    expect(note).toContain('← [[01 The Habit Loop|The Habit Loop]] · ↑ [[Atomic Habits Insights]]');
+
+    const index = read('Atomic Habits Insights.md');
+    expect(index).toContain('Before any heading.');
+    expect(index).toContain('2. [[02 Who You Become|Who You Become]]');
+  });
+
+  it('should link concepts to each other, their sections and related books', () => {
+    const { noteCount, read } = build(sections);
+
+    expect(noteCount).toBe(7);
+    const loop = read('Concepts/Habit Loop.md');
+    expect(loop).toContain('type: "concept"');
+    // Same chapter source, and named in the other description
+    expect(loop).toContain('## Related Concepts\n\n- [[Identity-Based Habits]]\n- [[Habit Stacking]]');
+    expect(loop).toContain('## Discussed In\n\n- [[01 The Habit Loop|The Habit Loop]]');
+    expect(loop).toContain('## See Also\n\n- [[The Power of Habit Duhigg]]');
+
+    expect(read('Sections/02 Who You Become.md')).toContain('## Concepts\n\n- [[Identity-Based Habits]]');
+    expect(read('Books/The Power of Habit Duhigg.md')).toContain('Cross-referenced in the analysis of [[Atomic Habits Insights]].');
+    expect(read('Atomic Habits Insights.md')).toContain('### Psychological Frameworks\n\n- Operant conditioning');
+  });
+
+  it('should keep note names unique across folders', () => {
+    const { buffer } = buildVault({
+      title: 'Habit Loop',
+      author: null,
+      summary: '',
+      sections: [],
+      keyThemes: [],
+      bookTitle: 'Atomic Habits',
+      generatedAt: new Date('2026-01-01'),
+      analysis: { ...analysis, crossReferences: { ...analysis.crossReferences, relatedPopularWorks: ['habit loop'] } },
+    });
+    const zip = new AdmZip(buffer);
+
+    expect(zip.getEntries().map(entry => entry.entryName)).toEqual(expect.arrayContaining([
+      'Atomic Habits/Habit Loop.md',
+      'Atomic Habits/Concepts/Habit Loop (2).md',
+      'Atomic Habits/Books/habit loop (3).md',
+    ]));
+    expect(zip.readAsText('Atomic Habits/Habit Loop.md')).toContain('- [[Habit Loop (2)]]');
+  });
+});
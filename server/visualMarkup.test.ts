@@ -0,0 +1,78 @@
+import { describe, it, expect } from 'vitest';
+import { renderSectionToMarkdown, generatePremiumHTML } from './services/pdfExport';
+import { renderVisualPlainText, visualToMermaid } from './services/visualMarkup';
+import type { InsightSection } from './services/insightGeneration';
+
+const flow: InsightSection = {
+  type: 'visual',
+  content: '',
+  title: 'The Habit Loop',
+  visualType: 'flowDiagram',
+  visualData: {
+    nodes: [{ id: 'cue', label: 'Cue' }, { id: 'craving', label: 'Craving "want"' }, { id: 'reward', label: 'Reward' }],
+    edges: [{ from: 'cue', to: 'craving', label: 'triggers' }, { from: 'craving', to: 'reward' }],
+  },
+};
+
+const matrix: InsightSection = {
+  type: 'visual',
+  content: '',
+  title: 'Habit Strategies',
+  visualType: 'comparisonMatrix',
+  visualData: {
+    items: ['Stacking', 'Bundling'],
+    criteria: ['Effort', 'Impact'],
+    values: [['Low', 'High'], ['Medium', 'Medium']],
+  },
+};
+
+describe('Visual Markup', () => {
+  it('should render flows and timelines as Mermaid blocks in Markdown', () => {
+    const markdown = renderSectionToMarkdown(flow);
+
+    expect(markdown).toContain('**The Habit Loop**');
+    expect(markdown).toContain('```mermaid\nflowchart TD');
+    expect(markdown).toContain('n0 -->|triggers| n1');
+    expect(markdown).toContain('n1["Craving #quot;want#quot;"]');
+
+    const timeline = visualToMermaid('timeline', {
+      events: [{ date: '1990', title: 'Step one: begin' }, { date: '2000', title: 'Growth' }],
+    });
+    expect(timeline).toBe('timeline\n  1990 : Step one - begin\n  2000 : Growth');
+  });
+
+  it('should render matrices as tables in Markdown, HTML and plain text', () => {
+    expect(renderSectionToMarkdown(matrix)).toContain('|  | Effort | Impact |\n|---|---|---|\n| Stacking | Low | High |');
+
+    const html = generatePremiumHTML({
+      title: 'Atomic Habits Insights',
+      author: 'James Clear',
+      summary: 'Small habits compound.',
+      sections: [matrix, flow],
+      keyThemes: [],
+      bookTitle: 'Atomic Habits',
+      generatedAt: new Date('2026-01-01'),
+    });
+    expect(html).toContain('<table class="visual-table">');
+    expect(html).toContain('<th scope="row">Stacking</th><td>Low</td>');
+    expect(html).toContain('<svg');
+    expect(html).not.toContain('visual-placeholder');
+
+    const text = renderVisualPlainText(matrix);
+    expect(text).toContain('[Habit Strategies]');
+    expect(text).toContain('Stacking | Low    | High');
+  });
+
+  it('should draw text bars for charts and skip invalid visuals', () => {
+    const text = renderVisualPlainText({
+      type: 'visual',
+      content: '',
+      visualType: 'barChart',
+      visualData: { labels: ['Identity', 'Outcome'], values: [10, 5] },
+    });
+    expect(text).toMatch(/Identity\s+█{24} 10/);
+    expect(text).toMatch(/Outcome\s+█{12} 5/);
+
+    expect(renderSectionToMarkdown({ type: 'visual', content: '', visualType: 'flowDiagram', visualData: { nodes: [] } })).toBe('');
+  });
+});
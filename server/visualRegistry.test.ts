@@ -0,0 +1,76 @@
+import { describe, it, expect } from 'vitest';
+import { VISUAL_TYPES } from '../shared/types';
+import { VISUAL_REGISTRY, parseVisualData, resolveVisualType, buildVisualFormatGuide } from '../shared/visuals';
+
+describe('Visual Registry', () => {
+  it('should define every visual type', () => {
+    for (const type of VISUAL_TYPES) {
+      expect(VISUAL_REGISTRY[type]).toBeDefined();
+      expect(VISUAL_REGISTRY[type].type).toBe(type);
+    }
+  });
+
+  it('should accept its own prompt examples', () => {
+    for (const type of VISUAL_TYPES) {
+      const result = parseVisualData(type, VISUAL_REGISTRY[type].example);
+      expect(result.success, `${type}: ${!result.success && result.error}`).toBe(true);
+    }
+  });
+
+  it('should resolve aliases from older prompts', () => {
+    expect(resolveVisualType('sankey')).toBe('sankeyDiagram');
+    expect(resolveVisualType('heatMap')).toBe('heatmap');
+    expect(resolveVisualType('timeline')).toBe('timeline');
+    expect(resolveVisualType('hologram')).toBeNull();
+  });
+
+  it('should repair string nodes and alternative key names', () => {
+    const result = parseVisualData('flowDiagram', {
+      nodes: ['Step 1', 'Step 2', 'Step 3'],
+      connections: [{ from: 0, to: 1 }, { from: 1, to: 2 }],
+    });
+    expect(result.success).toBe(true);
+    if (result.success) {
+      expect(result.data.nodes).toEqual([{ label: 'Step 1' }, { label: 'Step 2' }, { label: 'Step 3' }]);
+      expect(result.data.edges).toEqual([{ from: '0', to: '1' }, { from: '1', to: '2' }]);
+    }
+  });
+
+  it('should build chart data from label/value pairs', () => {
+    const result = parseVisualData('donutChart', { data: [{ name: 'A', value: '40' }, { name: 'B', value: 60 }] });
+    expect(result).toMatchObject({ success: true, visualType: 'pieChart', data: { labels: ['A', 'B'], values: [40, 60] } });
+  });
+
+  it('should map numeric sankey link ends to node ids', () => {
+    const result = parseVisualData('sankey', {
+      nodes: ['Income', 'Savings', 'Spending'],
+      links: [{ source: 0, target: 1, value: 20 }, { source: 0, target: 2, value: 80 }],
+    });
+    expect(result.success).toBe(true);
+    if (result.success) {
+      expect(result.data.links).toEqual([
+        { source: 'Income', target: 'Savings', value: 20 },
+        { source: 'Income', target: 'Spending', value: 80 },
+      ]);
+    }
+  });
+
+  it('should report why invalid data was rejected', () => {
+    const result = parseVisualData('swotMatrix', {});
+    expect(result.success).toBe(false);
+    if (!result.success) {
+      expect(result.visualType).toBe('swotMatrix');
+      expect(result.error).toContain('no entries');
+    }
+
+    const unknown = parseVisualData('hologram', {});
+    expect(unknown).toMatchObject({ success: false, visualType: null });
+  });
+
+  it('should describe each requested type in the format guide', () => {
+    const guide = buildVisualFormatGuide(['timeline', 'quadrant']);
+    expect(guide.split('\n')).toHaveLength(2);
+    expect(guide).toContain('timeline: {"events"');
+    expect(guide).toContain('top-left');
+  });
+});
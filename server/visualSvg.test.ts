@@ -0,0 +1,38 @@
+import { describe, it, expect } from 'vitest';
+import { Resvg } from '@resvg/resvg-js';
+import { VISUAL_TYPES } from '../shared/types';
+import { VISUAL_REGISTRY } from '../shared/visuals';
+import { renderVisual, renderVisualSvg } from './services/visualSvg';
+
+describe('Visual SVG Renderer', () => {
+  it('should draw every visual type as an SVG resvg can parse', () => {
+    for (const type of VISUAL_TYPES) {
+      const rendered = renderVisual(type, VISUAL_REGISTRY[type].example, 'Example');
+      expect(rendered, type).not.toBeNull();
+      expect(rendered!.svg.startsWith('<svg xmlns="http://www.w3.org/2000/svg" width="640"')).toBe(true);
+      expect(rendered!.svg).not.toContain('NaN');
+      expect(() => new Resvg(rendered!.svg).render(), type).not.toThrow();
+    }
+  });
+
+  it('should lay out charts and cycles with their own shapes', () => {
+    const pie = renderVisualSvg('pieChart', { title: 'Time', labels: ['Deep work', 'Email'], values: [3, 1] })!;
+    expect(pie).toContain('<title>Time</title>');
+    expect(pie.match(/<path d="M/g)).toHaveLength(2);
+    expect(pie).toContain('>75%</text>');
+
+    const cycle = renderVisualSvg('cycleDiagram', { steps: ['Cue', 'Craving', 'Response', 'Reward'] })!;
+    // One arrow from each step to the next, including Reward back to Cue
+    expect(cycle.match(/<polygon /g)).toHaveLength(4);
+    expect(cycle).toContain('>Reward</text>');
+  });
+
+  it('should escape text and return null for visuals that do not validate', () => {
+    const svg = renderVisualSvg('hierarchy', { root: 'Habits & <Identity>', children: ['"Cue"'] })!;
+    expect(svg).toContain('Habits &amp; &lt;Identity&gt;');
+    expect(svg).toContain('&quot;Cue&quot;');
+
+    expect(renderVisual('flowDiagram', { nodes: [] })).toBeNull();
+    expect(renderVisual('hologram', { nodes: ['A'] })).toBeNull();
+  });
+});
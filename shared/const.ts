@@ -1,4 +1,6 @@
 export const COOKIE_NAME = "app_session_id";
+// Visitors without a session act as this user (no-login access)
+export const ANONYMOUS_USER_ID = 1;
 export const ONE_YEAR_MS = 1000 * 60 * 60 * 24 * 365;
 export const AXIOS_TIMEOUT_MS = 30_000;
 export const UNAUTHED_ERR_MSG = 'Please login (10001)';
@@ -62,12 +62,38 @@ export const CONTENT_BLOCK_TYPES = [
 
 export type ContentBlockType = (typeof CONTENT_BLOCK_TYPES)[number];
 
+// Premium pipeline section types, stored as-is in content_blocks.blockType
+export const PREMIUM_SECTION_TYPES = [
+  "quickGlance",
+  "foundationalNarrative",
+  "executiveSummary",
+  "conceptExplanation",
+  "practicalExample",
+  "insightAtlasNote",
+  "visualFramework",
+  "actionBox",
+  "selfAssessment",
+  "trackingTemplate",
+  "dialogueScript",
+  "reflectionPrompts",
+  "scenarioResponse",
+  "structureMap",
+  "keyTakeaways",
+  "chapterBreakdown",
+] as const;
+
+export type PremiumSectionType = (typeof PREMIUM_SECTION_TYPES)[number];
+
+export function isPremiumSectionType(type: string): type is PremiumSectionType {
+  return (PREMIUM_SECTION_TYPES as readonly string[]).includes(type);
+}
+
 // Reading status for library items
 export const READING_STATUSES = ["new", "reading", "completed"] as const;
 export type ReadingStatus = (typeof READING_STATUSES)[number];
 
 // Insight generation status
-export const INSIGHT_STATUSES = ["pending", "generating", "completed", "failed"] as const;
+export const INSIGHT_STATUSES = ["pending", "generating", "completed", "failed", "cancelled"] as const;
 export type InsightStatus = (typeof INSIGHT_STATUSES)[number];
 
 // Visual type metadata for intelligent selection
@@ -112,6 +138,37 @@ export const VISUAL_TYPE_INFO: VisualTypeInfo[] = [
   { type: "processFlow", name: "Process Flow", description: "Step-by-step process", keywords: ["steps", "procedure", "instructions", "how to", "method"], icon: "Workflow" },
 ];
 
+// Audio narration: the audio script, the guide itself read section by section with read-along timings,
+// or a two-host podcast conversation about the book
+export const NARRATION_MODES = ["script", "readAlong", "podcast"] as const;
+export type NarrationMode = (typeof NARRATION_MODES)[number];
+
+// Narration lengths: the mode's full narration, or the guide condensed to about 10 or 3 minutes
+export const AUDIO_LENGTHS = ["full", "10min", "3min"] as const;
+export type AudioLength = (typeof AUDIO_LENGTHS)[number];
+
+// Target duration of each condensed length, in seconds
+export const AUDIO_LENGTH_SECONDS: Record<Exclude<AudioLength, "full">, number> = {
+  "10min": 600,
+  "3min": 180,
+};
+
+// Read-along timing of one narrated sentence; times are ms from the start of the audio
+export interface SentenceTiming {
+  text: string;
+  startMs: number;
+  endMs: number;
+  /** Start of each whitespace-separated word */
+  words: number[];
+}
+
+// Read-along timing of one content block
+export interface BlockAudioTiming {
+  startMs: number;
+  endMs: number;
+  sentences: SentenceTiming[];
+}
+
 // File types supported for upload
 export const SUPPORTED_FILE_TYPES = ["application/pdf", "application/epub+zip", "text/plain"] as const;
 export const SUPPORTED_EXTENSIONS = [".pdf", ".epub", ".txt"] as const;
@@ -0,0 +1,458 @@
+/**
+ * Visual registry
+ *
+ * One definition per visual type: the display info from VISUAL_TYPE_INFO, a
+ * zod schema for its visualData and an example used to build generation
+ * prompts. The server validates and repairs LLM output against the schemas
+ * and the client renders the parsed data, falling back to a readable
+ * summary when a visual does not validate.
+ */
+
+import { z } from "zod";
+import { VISUAL_TYPES, VISUAL_TYPE_INFO, type VisualType, type VisualTypeInfo } from "./types";
+
+// ---------------------------------------------------------------------------
+// Repair helpers: applied before validation so common model variations
+// (strings instead of objects, name/title instead of label) still parse
+// ---------------------------------------------------------------------------
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function labelOf(value: unknown): unknown {
+  if (!isRecord(value)) return value;
+  return value.label ?? value.name ?? value.title ?? value.text ?? value.id ?? value;
+}
+
+function toLabelled(value: unknown): unknown {
+  if (typeof value === "string" || typeof value === "number") return { label: String(value) };
+  if (isRecord(value) && value.label === undefined) {
+    const label = value.name ?? value.title ?? value.event ?? value.text ?? value.id;
+    if (label !== undefined) return { ...value, label };
+  }
+  return value;
+}
+
+/**
+ * Copy alternative key names onto the canonical key when it is missing
+ */
+function withAliases<T extends z.ZodType>(aliases: Record<string, string[]>, schema: T) {
+  return z.preprocess(value => {
+    if (!isRecord(value)) return value;
+    const result = { ...value };
+    for (const [key, alternatives] of Object.entries(aliases)) {
+      if (result[key] !== undefined) continue;
+      const found = alternatives.find(alt => result[alt] !== undefined);
+      if (found) result[key] = result[found];
+    }
+    return result;
+  }, schema);
+}
+
+const text = z.union([z.string(), z.number()]).transform(value => String(value));
+const label = z.union([z.string().min(1), z.number()]).transform(value => String(value));
+const num = z.coerce.number();
+const textList = z.array(z.preprocess(labelOf, text));
+const title = text.optional();
+
+function labelled<T extends z.ZodRawShape>(shape: T) {
+  return z.preprocess(toLabelled, z.object({ label, description: text.optional(), ...shape }));
+}
+
+const axis = z.preprocess(
+  value => (typeof value === "string" ? { label: value } : value),
+  z.object({ label: text.optional(), low: text.optional(), high: text.optional() })
+);
+
+const edge = withAliases(
+  { from: ["source"], to: ["target"] },
+  z.object({ from: text, to: text, label: text.optional() })
+);
+
+/**
+ * { labels, values } with matching lengths, also built from [{ label, value }]
+ */
+const labelledValues = z.preprocess(value => {
+  if (!isRecord(value) || Array.isArray(value.labels)) return value;
+  const pairs = value.data ?? value.items ?? value.segments;
+  if (!Array.isArray(pairs)) return value;
+  return {
+    ...value,
+    labels: pairs.map(labelOf),
+    values: pairs.map(pair => (isRecord(pair) ? pair.value : undefined)),
+  };
+}, z.object({ title, labels: textList.min(1), values: z.array(num).min(1) })).transform(data => {
+  const length = Math.min(data.labels.length, data.values.length);
+  return { ...data, labels: data.labels.slice(0, length), values: data.values.slice(0, length) };
+});
+
+const series = z.preprocess(value => {
+  if (!isRecord(value) || value.series !== undefined || !Array.isArray(value.values)) return value;
+  return { ...value, series: [{ name: String(value.title ?? "Value"), values: value.values }] };
+}, z.object({
+  title,
+  labels: textList.default([]),
+  series: z.array(withAliases({ name: ["label"] }, z.object({ name: text, values: z.array(num).min(1) }))).min(1),
+}));
+
+const points = (withSize: boolean) => withAliases(
+  { points: ["data"] },
+  z.object({
+    title,
+    xLabel: text.optional(),
+    yLabel: text.optional(),
+    points: z.array(withAliases({ label: ["name", "title"] }, z.object({
+      label: text.optional(),
+      x: num,
+      y: num,
+      size: withSize ? num.default(1) : num.optional(),
+    }))).min(1),
+  })
+);
+
+// ---------------------------------------------------------------------------
+// Schemas
+// ---------------------------------------------------------------------------
+
+const VISUAL_SCHEMAS = {
+  timeline: z.object({
+    title,
+    events: z.array(withAliases(
+      { title: ["label", "name", "event"], date: ["time", "period", "year"] },
+      z.preprocess(
+        value => (typeof value === "string" ? { title: value } : value),
+        z.object({ date: text.default(""), title: label, description: text.optional() })
+      )
+    )).min(1),
+  }),
+  flowDiagram: withAliases({ edges: ["connections", "links"] }, z.object({
+    title,
+    nodes: z.array(labelled({ id: text.optional() })).min(1),
+    edges: z.array(edge).default([]),
+  })),
+  processFlow: withAliases({ steps: ["nodes", "stages"] }, z.object({
+    title,
+    steps: z.array(labelled({})).min(1),
+  })),
+  comparisonMatrix: z.preprocess(value => {
+    // Also accept the { headers, rows: [{ label, values }] } table form
+    if (!isRecord(value) || value.items !== undefined || !Array.isArray(value.rows)) return value;
+    return {
+      ...value,
+      criteria: value.headers ?? value.columns,
+      items: value.rows.map(labelOf),
+      values: value.rows.map(row => (isRecord(row) ? row.values ?? row.cells ?? [] : [])),
+    };
+  }, z.object({
+    title,
+    items: textList.min(1),
+    criteria: textList.min(1),
+    values: z.array(textList).default([]),
+  })),
+  comparisonTable: withAliases({ columns: ["headers", "criteria"] }, z.object({
+    title,
+    columns: textList.min(1),
+    rows: z.array(withAliases(
+      { label: ["name", "title"], values: ["cells"] },
+      z.object({ label: text, values: textList })
+    )).min(1),
+  })),
+  barChart: labelledValues,
+  pieChart: labelledValues,
+  lineChart: series,
+  areaChart: series,
+  scatterPlot: points(false),
+  bubbleChart: points(true),
+  radarChart: z.preprocess(value => {
+    // Parallel `values` array onto string dimensions
+    if (!isRecord(value) || !Array.isArray(value.dimensions) || !Array.isArray(value.values)) return value;
+    const values = value.values;
+    return {
+      ...value,
+      dimensions: value.dimensions.map((dim, i) => ({ ...(toLabelled(dim) as object), value: values[i] })),
+    };
+  }, z.object({
+    title,
+    dimensions: z.array(labelled({ value: num.optional() })).min(1),
+    max: num.optional(),
+  })),
+  quadrant: z.object({
+    title,
+    xAxis: axis.optional(),
+    yAxis: axis.optional(),
+    quadrants: z.array(labelled({ items: textList.default([]) })).min(1).max(4),
+  }),
+  swotMatrix: z.object({
+    title,
+    strengths: textList.default([]),
+    weaknesses: textList.default([]),
+    opportunities: textList.default([]),
+    threats: textList.default([]),
+  }).refine(
+    data => data.strengths.length + data.weaknesses.length + data.opportunities.length + data.threats.length > 0,
+    "SWOT matrix has no entries"
+  ),
+  vennDiagram: withAliases({ sets: ["circles"], overlap: ["intersection"] }, z.object({
+    title,
+    sets: z.array(labelled({ items: textList.default([]) })).min(2).max(3),
+    overlap: z.preprocess(
+      value => (Array.isArray(value) ? { items: value } : value),
+      z.object({ label: text.optional(), items: textList.default([]) })
+    ).optional(),
+  })),
+  mindMap: withAliases({ center: ["central", "root"] }, z.object({
+    title,
+    center: z.preprocess(labelOf, label),
+    branches: z.array(withAliases(
+      { children: ["subbranches"] },
+      labelled({ children: textList.default([]) })
+    )).min(1),
+  })),
+  conceptMap: withAliases({ concepts: ["nodes"], relationships: ["edges", "links"] }, z.object({
+    title,
+    concepts: z.array(labelled({ id: text.optional() })).min(1),
+    relationships: z.array(edge).default([]),
+  })),
+  networkGraph: withAliases({ edges: ["links"] }, z.object({
+    title,
+    nodes: z.array(labelled({ id: text.optional(), group: text.optional() })).min(1),
+    edges: z.array(edge).default([]),
+  })),
+  hierarchy: z.object({
+    title,
+    root: z.preprocess(labelOf, label),
+    children: z.array(labelled({})).min(1),
+  }),
+  ganttChart: z.object({
+    title,
+    unit: text.optional(),
+    tasks: z.array(z.preprocess(value => {
+      if (!isRecord(value) || value.end !== undefined || value.duration === undefined) return toLabelled(value);
+      return toLabelled({ ...value, end: Number(value.start) + Number(value.duration) });
+    }, z.object({ label, start: num, end: num, phase: text.optional() }))).min(1),
+  }),
+  funnelDiagram: withAliases({ stages: ["steps"] }, z.object({
+    title,
+    stages: z.array(labelled({ value: num.optional() })).min(1),
+  })),
+  pyramidDiagram: withAliases({ levels: ["tiers"] }, z.object({
+    title,
+    levels: z.array(labelled({})).min(1),
+  })),
+  cycleDiagram: withAliases({ steps: ["stages"] }, z.object({
+    title,
+    steps: z.array(labelled({})).min(1),
+  })),
+  fishboneDiagram: withAliases({ problem: ["effect", "head"], categories: ["bones"] }, z.object({
+    title,
+    problem: label,
+    categories: z.array(labelled({ causes: textList.default([]) })).min(1),
+  })),
+  sankeyDiagram: withAliases({ links: ["flows"] }, z.preprocess(value => {
+    // Plain string nodes double as their own IDs; numeric link ends are node indexes
+    if (!isRecord(value) || !Array.isArray(value.nodes)) return value;
+    const nodes = value.nodes.map(node => {
+      const labelledNode = toLabelled(node);
+      return isRecord(labelledNode) && labelledNode.id === undefined ? { ...labelledNode, id: labelledNode.label } : labelledNode;
+    });
+    const idAt = (ref: unknown) =>
+      typeof ref === "number" && isRecord(nodes[ref]) ? (nodes[ref] as Record<string, unknown>).id : ref;
+    const links = Array.isArray(value.links)
+      ? value.links.map(link => (isRecord(link) ? {
+          ...link,
+          source: idAt(link.source ?? link.from),
+          target: idAt(link.target ?? link.to),
+        } : link))
+      : value.links;
+    return { ...value, nodes, links };
+  }, z.object({
+    title,
+    nodes: z.array(z.object({ id: text, label })).min(1),
+    links: z.array(z.object({ source: text, target: text, value: num.default(1) })).min(1),
+  }))),
+  treemap: withAliases({ items: ["children", "data"] }, z.object({
+    title,
+    items: z.array(labelled({ value: num.default(1) })).min(1),
+  })),
+  heatmap: z.object({
+    title,
+    rows: textList.min(1),
+    columns: textList.min(1),
+    values: z.array(z.array(num)).min(1),
+  }),
+  infographic: withAliases({ stats: ["facts", "items"] }, z.object({
+    title,
+    stats: z.array(withAliases({ value: ["stat"] }, labelled({ value: text.optional() }))).min(1),
+    highlights: textList.default([]),
+  })),
+  storyboard: withAliases({ frames: ["scenes"] }, z.object({
+    title,
+    frames: z.array(withAliases({ description: ["caption"] }, labelled({}))).min(1),
+  })),
+  journeyMap: withAliases({ stages: ["steps"] }, z.object({
+    title,
+    stages: z.array(labelled({
+      actions: textList.default([]),
+      emotion: z.union([num, z.enum(["positive", "neutral", "negative"])]).optional(),
+      painPoints: textList.default([]),
+      opportunities: textList.default([]),
+    })).min(1),
+  })),
+} satisfies Record<VisualType, z.ZodType>;
+
+export type VisualDataFor<T extends VisualType> = z.output<(typeof VISUAL_SCHEMAS)[T]>;
+
+// ---------------------------------------------------------------------------
+// Prompt examples
+// ---------------------------------------------------------------------------
+
+const VISUAL_EXAMPLES: Record<VisualType, { example: Record<string, unknown>; note?: string }> = {
+  timeline: { example: { events: [{ date: "...", title: "...", description: "..." }] } },
+  flowDiagram: { example: { nodes: [{ id: "...", label: "..." }], edges: [{ from: "...", to: "...", label: "..." }] } },
+  processFlow: { example: { steps: [{ label: "...", description: "..." }] } },
+  comparisonMatrix: { example: { items: ["..."], criteria: ["..."], values: [["..."]] }, note: "one row of values per item" },
+  comparisonTable: { example: { columns: ["..."], rows: [{ label: "...", values: ["..."] }] } },
+  barChart: { example: { title: "...", labels: ["..."], values: [1, 2] } },
+  pieChart: { example: { title: "...", labels: ["..."], values: [1, 2] } },
+  lineChart: { example: { title: "...", labels: ["..."], series: [{ name: "...", values: [1, 2] }] } },
+  areaChart: { example: { title: "...", labels: ["..."], series: [{ name: "...", values: [1, 2] }] } },
+  scatterPlot: { example: { xLabel: "...", yLabel: "...", points: [{ label: "...", x: 1, y: 2 }] } },
+  bubbleChart: { example: { xLabel: "...", yLabel: "...", points: [{ label: "...", x: 1, y: 2, size: 3 }] } },
+  radarChart: { example: { dimensions: [{ label: "...", value: 7 }], max: 10 } },
+  quadrant: {
+    example: {
+      xAxis: { label: "...", low: "...", high: "..." },
+      yAxis: { label: "...", low: "...", high: "..." },
+      quadrants: [{ label: "...", description: "...", items: ["..."] }],
+    },
+    note: "4 quadrants: top-left, top-right, bottom-left, bottom-right",
+  },
+  swotMatrix: { example: { strengths: ["..."], weaknesses: ["..."], opportunities: ["..."], threats: ["..."] } },
+  vennDiagram: {
+    example: { sets: [{ label: "...", items: ["..."] }, { label: "...", items: ["..."] }], overlap: { label: "...", items: ["..."] } },
+    note: "2-3 sets",
+  },
+  mindMap: { example: { center: "...", branches: [{ label: "...", children: ["..."] }] } },
+  conceptMap: {
+    example: { concepts: [{ id: "...", label: "..." }], relationships: [{ from: "...", to: "...", label: "..." }] },
+  },
+  networkGraph: {
+    example: { nodes: [{ id: "...", label: "...", group: "..." }], edges: [{ from: "...", to: "..." }] },
+  },
+  hierarchy: { example: { root: "...", children: [{ label: "..." }] } },
+  ganttChart: { example: { unit: "week", tasks: [{ label: "...", start: 1, end: 3, phase: "..." }] } },
+  funnelDiagram: { example: { stages: [{ label: "...", value: 100, description: "..." }] }, note: "widest stage first" },
+  pyramidDiagram: { example: { levels: [{ label: "...", description: "..." }] }, note: "top level first" },
+  cycleDiagram: { example: { steps: [{ label: "...", description: "..." }] } },
+  fishboneDiagram: { example: { problem: "...", categories: [{ label: "...", causes: ["..."] }] } },
+  sankeyDiagram: {
+    example: { nodes: [{ id: "...", label: "..." }], links: [{ source: "...", target: "...", value: 10 }] },
+  },
+  treemap: { example: { items: [{ label: "...", value: 10 }] } },
+  heatmap: { example: { rows: ["..."], columns: ["..."], values: [[1, 2]] }, note: "one row of values per row label" },
+  infographic: {
+    example: { stats: [{ label: "...", value: "...", description: "..." }], highlights: ["..."] },
+  },
+  storyboard: { example: { frames: [{ title: "...", description: "..." }] } },
+  journeyMap: {
+    example: {
+      stages: [{ label: "...", actions: ["..."], emotion: 1, painPoints: ["..."], opportunities: ["..."] }],
+    },
+    note: "emotion from -2 to 2",
+  },
+};
+
+// ---------------------------------------------------------------------------
+// Registry
+// ---------------------------------------------------------------------------
+
+export interface VisualDefinition extends VisualTypeInfo {
+  schema: z.ZodType;
+  example: Record<string, unknown>;
+  note?: string;
+}
+
+export const VISUAL_REGISTRY = {} as Record<VisualType, VisualDefinition>;
+for (const info of VISUAL_TYPE_INFO) {
+  VISUAL_REGISTRY[info.type] = { ...info, schema: VISUAL_SCHEMAS[info.type], ...VISUAL_EXAMPLES[info.type] };
+}
+
+/**
+ * Names the model (and older Stage 0 prompts) use for registry types
+ */
+export const VISUAL_TYPE_ALIASES: Record<string, VisualType> = {
+  sankey: "sankeyDiagram",
+  heatMap: "heatmap",
+  funnelChart: "funnelDiagram",
+  donutChart: "pieChart",
+  stackedBar: "barChart",
+  histogram: "barChart",
+  waterfallChart: "barChart",
+  candlestick: "lineChart",
+  boxPlot: "barChart",
+  parallelCoordinates: "lineChart",
+  forceDirectedGraph: "networkGraph",
+  chordDiagram: "networkGraph",
+  sunburst: "treemap",
+  icicle: "treemap",
+  partition: "treemap",
+  circularPacking: "treemap",
+  gaugeChart: "radarChart",
+  wordCloud: "infographic",
+  swot: "swotMatrix",
+  venn: "vennDiagram",
+  gantt: "ganttChart",
+  fishbone: "fishboneDiagram",
+  funnel: "funnelDiagram",
+  pyramid: "pyramidDiagram",
+  cycle: "cycleDiagram",
+  process: "processFlow",
+  flowchart: "flowDiagram",
+  matrix: "comparisonMatrix",
+};
+
+/**
+ * Canonical registry type for a type name or alias, or null if unknown
+ */
+export function resolveVisualType(type: string | null | undefined): VisualType | null {
+  if (!type) return null;
+  if ((VISUAL_TYPES as readonly string[]).includes(type)) return type as VisualType;
+  return VISUAL_TYPE_ALIASES[type] ?? null;
+}
+
+export type VisualParseResult =
+  | { success: true; visualType: VisualType; data: Record<string, unknown> }
+  | { success: false; visualType: VisualType | null; error: string };
+
+/**
+ * Validate (and repair) visualData against the schema for its type
+ */
+export function parseVisualData(type: string | null | undefined, data: unknown): VisualParseResult {
+  const visualType = resolveVisualType(type);
+  if (!visualType) {
+    return { success: false, visualType: null, error: `Unknown visual type "${type}"` };
+  }
+
+  const result = VISUAL_REGISTRY[visualType].schema.safeParse(data);
+  if (!result.success) {
+    const error = result.error.issues
+      .slice(0, 5)
+      .map(issue => `${issue.path.join(".") || "(root)"}: ${issue.message}`)
+      .join("; ");
+    return { success: false, visualType, error };
+  }
+  return { success: true, visualType, data: result.data as Record<string, unknown> };
+}
+
+/**
+ * Prompt text describing the visualData structure for each type
+ */
+export function buildVisualFormatGuide(types: readonly VisualType[] = VISUAL_TYPES): string {
+  return types
+    .map(type => {
+      const { example, note } = VISUAL_REGISTRY[type];
+      return `${type}: ${JSON.stringify(example)}${note ? ` (${note})` : ""}`;
+    })
+    .join("\n");
+}